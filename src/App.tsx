@@ -15,6 +15,7 @@ import TokenDetails from './pages/TokenDetails';
 import StakingDetails from './pages/StakingDetails';
 import Race from './pages/Race';
 import RaceDetails from './pages/RaceDetails';
+import RaceRound from './pages/RaceRound';
 import Staking from './pages/Staking';
 import Bounty from './pages/Bounty';
 import Docs from './pages/Docs';
@@ -58,6 +59,7 @@ function App() {
               <Route path="/token/:id" element={<TokenDetails />} />
               <Route path="/race" element={<Race />} />
               <Route path="/race/:contractAddress" element={<RaceDetails />} />
+              <Route path="/race/:contractAddress/round/:roundNumber" element={<RaceRound />} />
               <Route path="/staking" element={<Staking />} />
               <Route path="/staking/:contractAddress" element={<StakingDetails />} />
               <Route path="/burn" element={<Burn />} />
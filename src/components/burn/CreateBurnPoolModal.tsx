@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useWallet } from "@/contexts/WalletContext";
+import { useToast } from "@/hooks/use-toast";
+import { PayoutTableEditor } from "@/components/burn/PayoutTableEditor";
+import type { PayoutTier } from "@/types/burn";
+import { DEFAULT_PAYOUT_TABLE, getMaxBurnAmount, validatePayoutTable } from "@shared/burn-payouts";
+
+interface CreateBurnPoolModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPoolCreated?: () => void;
+}
+
+// Sets up a burn pool and its payout table through create-burn-pool. The pool goes live once
+// its reward supply is deposited, and the table is locked once the first burn lands.
+export const CreateBurnPoolModal = ({ open, onOpenChange, onPoolCreated }: CreateBurnPoolModalProps) => {
+  const { walletAddress, invokeWithSession } = useWallet();
+  const { toast } = useToast();
+  const [contractAddress, setContractAddress] = useState('');
+  const [tokenName, setTokenName] = useState('');
+  const [tokenSymbol, setTokenSymbol] = useState('');
+  const [tokenDecimals, setTokenDecimals] = useState('6');
+  const [rewardSupply, setRewardSupply] = useState('');
+  const [payoutTable, setPayoutTable] = useState<PayoutTier[]>(DEFAULT_PAYOUT_TABLE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const supply = parseFloat(rewardSupply) || 0;
+  const tableError = validatePayoutTable(payoutTable);
+  const maxBurn = tableError ? 0 : getMaxBurnAmount(payoutTable, supply);
+
+  const getFormError = (): string | null => {
+    if (!walletAddress) return 'Connect your wallet to create a burn pool';
+    if (!contractAddress.trim() || !tokenName.trim() || !tokenSymbol.trim()) return 'Token address, name and symbol are required';
+    if (supply <= 0) return 'Reward supply must be greater than 0';
+    return tableError;
+  };
+  const formError = getFormError();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formError || !walletAddress) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await invokeWithSession<{
+        poolId?: string;
+        depositAddress?: string;
+        depositAmount?: number;
+        fundingExpiresAt?: string;
+      }>('create-burn-pool', {
+        walletAddress,
+        tokenAddress: contractAddress.trim(),
+        name: tokenName.trim(),
+        symbol: tokenSymbol.trim().toUpperCase(),
+        decimals: parseInt(tokenDecimals, 10) ?? 6,
+        rewardSupply: supply,
+        payoutTable
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.error || 'Failed to create burn pool');
+      }
+
+      toast({
+        title: "Burn pool created",
+        description: `Deposit ${Number(data.depositAmount).toLocaleString()} ${tokenSymbol.toUpperCase()} to ${data.depositAddress}` +
+          (data.fundingExpiresAt ? ` before ${new Date(data.fundingExpiresAt).toLocaleString()}` : '') +
+          ' to open it for burns',
+      });
+      onOpenChange(false);
+      onPoolCreated?.();
+    } catch (error) {
+      console.error('Error creating burn pool:', error);
+      toast({
+        title: "Failed to create burn pool",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto border-2 border-border">
+        <DialogHeader>
+          <DialogTitle className="font-pixel text-sm">CREATE BURN POOL</DialogTitle>
+          <DialogDescription className="text-xs">
+            The pool opens once the reward supply is deposited. The payout table is fixed once the first burn lands.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">TOKEN ADDRESS</Label>
+            <Input value={contractAddress} onChange={e => setContractAddress(e.target.value)} placeholder="Token mint address" />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">NAME</Label>
+              <Input value={tokenName} onChange={e => setTokenName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">SYMBOL</Label>
+              <Input value={tokenSymbol} onChange={e => setTokenSymbol(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">DECIMALS</Label>
+              <Input type="number" min="0" max="9" value={tokenDecimals} onChange={e => setTokenDecimals(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">REWARD SUPPLY</Label>
+            <Input type="number" min="0" value={rewardSupply} onChange={e => setRewardSupply(e.target.value)} />
+            {supply > 0 && !tableError && Number.isFinite(maxBurn) && (
+              <p className="text-xs text-muted-foreground">
+                Largest single burn: {maxBurn.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">PAYOUT TABLE</Label>
+            <PayoutTableEditor value={payoutTable} onChange={setPayoutTable} disabled={isSubmitting} />
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <Button type="submit" className="w-full font-pixel text-[10px]" disabled={!!formError || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'CREATE BURN POOL'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
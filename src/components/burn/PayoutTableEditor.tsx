@@ -0,0 +1,101 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import type { PayoutTier } from '@/types/burn';
+import {
+  MAX_PAYOUT_TIERS,
+  getHouseEdge,
+  validatePayoutTable,
+} from '@shared/burn-payouts';
+
+interface PayoutTableEditorProps {
+  value: PayoutTier[];
+  onChange: (table: PayoutTier[]) => void;
+  disabled?: boolean;
+}
+
+// Lets burn pool creators define odds and multipliers, e.g. 10% → 5x, 30% → 1.5x, 60% → lose
+export const PayoutTableEditor = ({ value, onChange, disabled }: PayoutTableEditorProps) => {
+  const error = validatePayoutTable(value);
+  const totalChance = value.reduce((sum, tier) => sum + (tier.chance || 0), 0);
+
+  const updateTier = (index: number, field: keyof PayoutTier, raw: string) => {
+    const parsed = parseFloat(raw);
+    onChange(value.map((tier, i) => (i === index ? { ...tier, [field]: isNaN(parsed) ? 0 : parsed } : tier)));
+  };
+
+  const addTier = () => {
+    if (value.length >= MAX_PAYOUT_TIERS) return;
+    onChange([...value, { chance: 0, multiplier: 0 }]);
+  };
+
+  const removeTier = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 font-pixel text-[8px] text-muted-foreground">
+        <span>CHANCE %</span>
+        <span>PAYOUT (0 = LOSE)</span>
+        <span className="w-8" />
+      </div>
+
+      {value.map((tier, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={tier.chance}
+            onChange={(e) => updateTier(index, 'chance', e.target.value)}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            value={tier.multiplier}
+            onChange={(e) => updateTier(index, 'multiplier', e.target.value)}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-9 w-8 p-0"
+            onClick={() => removeTier(index)}
+            disabled={disabled || value.length <= 2}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addTier}
+        disabled={disabled || value.length >= MAX_PAYOUT_TIERS}
+        className="w-full font-pixel text-[8px]"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        ADD OUTCOME
+      </Button>
+
+      <div className="flex items-center justify-between font-pixel text-[8px]">
+        <span className={Math.abs(totalChance - 100) > 0.0001 ? 'text-red-400' : 'text-muted-foreground'}>
+          TOTAL: {totalChance.toFixed(2)}%
+        </span>
+        <span className="text-muted-foreground">HOUSE EDGE: {getHouseEdge(value).toFixed(2)}%</span>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useWallet } from "@/contexts/WalletContext";
+import { AprTiersEditor } from "@/components/staking/AprTiersEditor";
+import type { AprTier } from "@/types/staking";
+import { DEFAULT_APR_TIERS, sortAprTiers, validateAprTiers } from "@shared/staking-tiers";
+
+interface CreatePoolFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+type CustodyMode = 'balance' | 'escrow';
+
+const CUSTODY_MODES: Array<{ value: CustodyMode; label: string; description: string }> = [
+  { value: 'balance', label: 'WALLET BALANCE', description: 'Stakers keep their tokens; stakes are capped by what each wallet holds.' },
+  { value: 'escrow', label: 'ESCROW VAULT', description: 'Stakers deposit into the pool vault and withdraw once their lock ends.' },
+];
+
+// Sets up a staking pool through create-staking-pool. The lock tiers are locked once
+// the reward deposit has been verified and the pool goes live.
+const CreatePoolForm = ({ open, onClose, onSave }: CreatePoolFormProps) => {
+  const { walletAddress, invokeWithSession } = useWallet();
+  const [contractAddress, setContractAddress] = useState('');
+  const [tokenName, setTokenName] = useState('');
+  const [tokenSymbol, setTokenSymbol] = useState('');
+  const [tokenDecimals, setTokenDecimals] = useState('6');
+  const [allocation, setAllocation] = useState('');
+  const [minStake, setMinStake] = useState('50000');
+  const [custodyMode, setCustodyMode] = useState<CustodyMode>('balance');
+  const [aprTiers, setAprTiers] = useState<AprTier[]>(DEFAULT_APR_TIERS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const rewardAllocation = parseFloat(allocation) || 0;
+
+  const getFormError = (): string | null => {
+    if (!walletAddress) return 'Connect your wallet to create a pool';
+    if (!contractAddress.trim() || !tokenName.trim() || !tokenSymbol.trim()) return 'Token address, name and symbol are required';
+    if (rewardAllocation <= 0) return 'Reward allocation must be greater than 0';
+    return validateAprTiers(aprTiers);
+  };
+  const formError = getFormError();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formError || !walletAddress) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await invokeWithSession<{
+        poolId?: string;
+        requiresDeposit?: boolean;
+        depositAddress?: string;
+        depositAmount?: number;
+        fundingExpiresAt?: string;
+      }>('create-staking-pool', {
+        walletAddress,
+        tokenAddress: contractAddress.trim(),
+        name: tokenName.trim(),
+        symbol: tokenSymbol.trim().toUpperCase(),
+        decimals: parseInt(tokenDecimals, 10) ?? 6,
+        allocation: rewardAllocation,
+        minStake: parseFloat(minStake) || 0,
+        aprTiers: sortAprTiers(aprTiers),
+        custodyMode
+      });
+
+      if (error || !data?.success) {
+        toast.error(data?.error || 'Failed to create staking pool');
+        return;
+      }
+
+      if (data.requiresDeposit && data.depositAddress) {
+        toast.success(
+          `Pool created! Deposit ${Number(data.depositAmount).toLocaleString()} ${tokenSymbol.toUpperCase()} to ${data.depositAddress}` +
+          (data.fundingExpiresAt ? ` before ${new Date(data.fundingExpiresAt).toLocaleString()}` : ''),
+          { duration: 15000 }
+        );
+      } else {
+        toast.success('Staking pool created!');
+      }
+      onSave();
+    } catch (error) {
+      console.error('Error creating staking pool:', error);
+      toast.error('Failed to create staking pool');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto border-2 border-border">
+        <DialogHeader>
+          <DialogTitle className="font-pixel text-sm">CREATE STAKING POOL</DialogTitle>
+          <DialogDescription className="text-xs">
+            Lock tiers are fixed once the reward deposit is verified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">TOKEN ADDRESS</Label>
+            <Input value={contractAddress} onChange={e => setContractAddress(e.target.value)} placeholder="Token mint address" />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">NAME</Label>
+              <Input value={tokenName} onChange={e => setTokenName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">SYMBOL</Label>
+              <Input value={tokenSymbol} onChange={e => setTokenSymbol(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">DECIMALS</Label>
+              <Input type="number" min="0" max="9" value={tokenDecimals} onChange={e => setTokenDecimals(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">REWARD ALLOCATION</Label>
+              <Input type="number" min="0" value={allocation} onChange={e => setAllocation(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">MIN STAKE</Label>
+              <Input type="number" min="0" value={minStake} onChange={e => setMinStake(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">CUSTODY</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {CUSTODY_MODES.map(mode => (
+                <Button
+                  key={mode.value}
+                  type="button"
+                  size="sm"
+                  variant={custodyMode === mode.value ? 'default' : 'outline'}
+                  onClick={() => setCustodyMode(mode.value)}
+                  disabled={isSubmitting}
+                  className="font-pixel text-[8px]"
+                >
+                  {mode.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {CUSTODY_MODES.find(mode => mode.value === custodyMode)?.description}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">LOCK TIERS</Label>
+            <AprTiersEditor value={aprTiers} onChange={setAprTiers} disabled={isSubmitting} />
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <Button type="submit" className="w-full font-pixel text-[10px]" disabled={!!formError || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'CREATE POOL'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreatePoolForm;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+
+interface BalanceSnapshot {
+  balance: number;
+  snapshot_at: string;
+}
+
+interface BalanceHistoryChartProps {
+  raceId: string;
+  roundNumber: number;
+  walletAddress: string;
+  entryBalance?: number;
+  tokenSymbol?: string | null;
+}
+
+const formatCompact = (num: number): string => {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+// Balance samples taken by distribute-race-rewards through the round, with the 90% retention line
+export const BalanceHistoryChart = ({ raceId, roundNumber, walletAddress, entryBalance, tokenSymbol }: BalanceHistoryChartProps) => {
+  const [snapshots, setSnapshots] = useState<BalanceSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSnapshots = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('race_balance_snapshots')
+        .select('balance, snapshot_at')
+        .eq('race_id', raceId)
+        .eq('round_number', roundNumber)
+        .eq('wallet_address', walletAddress)
+        .order('snapshot_at', { ascending: true });
+
+      if (!error && data) {
+        setSnapshots(data);
+      }
+      setIsLoading(false);
+    };
+
+    fetchSnapshots();
+
+    const channel = supabase
+      .channel(`race-balance-snapshots-${raceId}-${walletAddress}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'race_balance_snapshots',
+        filter: `race_id=eq.${raceId}`
+      }, (payload) => {
+        const sample = payload.new as BalanceSnapshot & { wallet_address: string; round_number: number };
+        if (sample.wallet_address === walletAddress && sample.round_number === roundNumber) {
+          setSnapshots(prev => [...prev, { balance: sample.balance, snapshot_at: sample.snapshot_at }]);
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [raceId, roundNumber, walletAddress]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <Loader2 className="h-6 w-6 animate-spin text-green-500" />
+      </div>
+    );
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-12">
+        No balance snapshots yet. The first one is taken when entry closes.
+      </p>
+    );
+  }
+
+  const chartData = snapshots.map(s => ({
+    time: new Date(s.snapshot_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    balance: Number(s.balance)
+  }));
+
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis dataKey="time" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+          <YAxis tickFormatter={formatCompact} tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" width={48} />
+          <Tooltip
+            formatter={(value: number) => [`${formatCompact(value)} ${tokenSymbol || ''}`, 'Balance']}
+            contentStyle={{ background: 'hsl(var(--background))', border: '1px solid hsl(var(--border))' }}
+          />
+          {entryBalance !== undefined && entryBalance > 0 && (
+            <ReferenceLine
+              y={entryBalance * 0.9}
+              stroke="#f87171"
+              strokeDasharray="4 4"
+              label={{ value: '90% of entry', fontSize: 10, fill: '#f87171', position: 'insideBottomRight' }}
+            />
+          )}
+          <Line type="stepAfter" dataKey="balance" stroke="#4ade80" strokeWidth={2} dot={{ r: 2 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
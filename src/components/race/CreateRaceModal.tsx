@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useWallet } from "@/contexts/WalletContext";
+import { useToast } from "@/hooks/use-toast";
+import { RankingModeSelector } from "@/components/race/RankingModeSelector";
+import { RoundScheduleEditor } from "@/components/race/RoundScheduleEditor";
+import { RewardScheduleEditor } from "@/components/race/RewardScheduleEditor";
+import type { RaceRankingMode, RaceRewardSchedule, RaceRoundSchedule } from "@/types/race";
+import { DEFAULT_REWARD_SCHEDULE, validateRewardSchedule } from "@shared/race-rewards";
+import { DEFAULT_ROUND_SCHEDULE, validateRoundSchedule } from "@shared/race-schedule";
+
+interface CreateRaceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRaceCreated?: () => void;
+}
+
+const MAX_ROUNDS = 365;
+
+// Sets up a token race through create-race-pool. Round 1 starts once the prize pool is
+// deposited; the ranking mode, round schedule and reward schedule chosen here are locked from then on.
+export const CreateRaceModal = ({ open, onOpenChange, onRaceCreated }: CreateRaceModalProps) => {
+  const { walletAddress, invokeWithSession } = useWallet();
+  const { toast } = useToast();
+  const [contractAddress, setContractAddress] = useState('');
+  const [tokenName, setTokenName] = useState('');
+  const [tokenSymbol, setTokenSymbol] = useState('');
+  const [tokenDecimals, setTokenDecimals] = useState('6');
+  const [prizePool, setPrizePool] = useState('');
+  const [totalRounds, setTotalRounds] = useState('7');
+  const [rankingMode, setRankingMode] = useState<RaceRankingMode>('balance');
+  const [roundSchedule, setRoundSchedule] = useState<RaceRoundSchedule>(DEFAULT_ROUND_SCHEDULE);
+  const [rewardSchedule, setRewardSchedule] = useState<RaceRewardSchedule>(DEFAULT_REWARD_SCHEDULE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const rounds = parseInt(totalRounds, 10) || 0;
+  const prize = parseFloat(prizePool) || 0;
+  const roundPool = rounds > 0 ? prize / rounds : 0;
+
+  const getFormError = (): string | null => {
+    if (!walletAddress) return 'Connect your wallet to create a race';
+    if (!contractAddress.trim() || !tokenName.trim() || !tokenSymbol.trim()) return 'Token address, name and symbol are required';
+    if (prize <= 0) return 'Prize pool must be greater than 0';
+    if (rounds < 1 || rounds > MAX_ROUNDS) return `Rounds must be between 1 and ${MAX_ROUNDS}`;
+    return validateRoundSchedule(roundSchedule) || validateRewardSchedule(rewardSchedule);
+  };
+  const formError = getFormError();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formError || !walletAddress) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await invokeWithSession<{
+        raceId?: string;
+        depositAddress?: string;
+        depositAmount?: number;
+        fundingExpiresAt?: string;
+      }>('create-race-pool', {
+        walletAddress,
+        tokenAddress: contractAddress.trim(),
+        name: tokenName.trim(),
+        symbol: tokenSymbol.trim().toUpperCase(),
+        decimals: parseInt(tokenDecimals, 10) ?? 6,
+        prizePool: prize,
+        totalRounds: rounds,
+        rankingMode,
+        roundSchedule,
+        rewardSchedule
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.error || 'Failed to create race');
+      }
+
+      toast({
+        title: "Race created",
+        description: `Deposit ${Number(data.depositAmount).toLocaleString()} ${tokenSymbol.toUpperCase()} to ${data.depositAddress}` +
+          (data.fundingExpiresAt ? ` before ${new Date(data.fundingExpiresAt).toLocaleString()}` : '') +
+          ' to start round 1',
+      });
+      onOpenChange(false);
+      onRaceCreated?.();
+    } catch (error) {
+      console.error('Error creating race:', error);
+      toast({
+        title: "Failed to create race",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto border-2 border-border">
+        <DialogHeader>
+          <DialogTitle className="font-pixel text-sm">CREATE TOKEN RACE</DialogTitle>
+          <DialogDescription className="text-xs">
+            Round 1 starts once the prize pool is deposited. The schedule below is fixed from then on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">TOKEN ADDRESS</Label>
+            <Input value={contractAddress} onChange={e => setContractAddress(e.target.value)} placeholder="Token mint address" />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">NAME</Label>
+              <Input value={tokenName} onChange={e => setTokenName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">SYMBOL</Label>
+              <Input value={tokenSymbol} onChange={e => setTokenSymbol(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">DECIMALS</Label>
+              <Input type="number" min="0" max="9" value={tokenDecimals} onChange={e => setTokenDecimals(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">PRIZE POOL</Label>
+              <Input type="number" min="0" value={prizePool} onChange={e => setPrizePool(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-pixel text-[9px] text-muted-foreground">ROUNDS</Label>
+              <Input type="number" min="1" max={MAX_ROUNDS} value={totalRounds} onChange={e => setTotalRounds(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">RANKING</Label>
+            <RankingModeSelector value={rankingMode} onChange={setRankingMode} disabled={isSubmitting} />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">ROUND SCHEDULE</Label>
+            <RoundScheduleEditor
+              value={roundSchedule}
+              onChange={setRoundSchedule}
+              totalRounds={rounds || undefined}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-pixel text-[9px] text-muted-foreground">REWARD SCHEDULE</Label>
+            <RewardScheduleEditor
+              value={rewardSchedule}
+              onChange={setRewardSchedule}
+              roundPool={roundPool}
+              tokenSymbol={tokenSymbol.toUpperCase() || undefined}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <Button type="submit" className="w-full font-pixel text-[10px]" disabled={!!formError || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'CREATE RACE'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { Ban, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useWallet } from "@/contexts/WalletContext";
+import { useToast } from "@/hooks/use-toast";
+import type { ManualRaceExclusion, RaceExclusion, RaceExclusionReason } from "@/types/race";
+
+interface ExcludedWalletsProps {
+  raceId: string;
+  roundNumber: number;
+  creatorWallet: string | null;
+  manualExclusions: ManualRaceExclusion[];
+  tokenSymbol?: string | null;
+  onManualExclusionsChange?: (exclusions: ManualRaceExclusion[]) => void;
+}
+
+const REASON_LABELS: Record<RaceExclusionReason, string> = {
+  bonding_curve: 'Bonding curve',
+  amm_vault: 'LP vault',
+  program_owned: 'Program account',
+  exchange: 'Exchange',
+  creator: 'Creator',
+  manual: 'Excluded by creator',
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const formatCompact = (num: number): string => {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+// Wallets skipped when ranking this round, plus the creator's own exclusion list editor
+export const ExcludedWallets = ({
+  raceId,
+  roundNumber,
+  creatorWallet,
+  manualExclusions,
+  tokenSymbol,
+  onManualExclusionsChange
+}: ExcludedWalletsProps) => {
+  const { walletAddress, invokeWithSession } = useWallet();
+  const { toast } = useToast();
+  const [exclusions, setExclusions] = useState<RaceExclusion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<ManualRaceExclusion[]>(manualExclusions);
+  const [newAddress, setNewAddress] = useState('');
+  const [newReason, setNewReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isCreator = !!walletAddress && walletAddress === creatorWallet;
+
+  useEffect(() => {
+    setDraft(manualExclusions);
+  }, [manualExclusions]);
+
+  useEffect(() => {
+    const fetchExclusions = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('race_exclusions')
+        .select('wallet_address, reason, detail, balance')
+        .eq('race_id', raceId)
+        .eq('round_number', roundNumber)
+        .order('balance', { ascending: false });
+
+      if (!error && data) {
+        setExclusions(data as RaceExclusion[]);
+      }
+      setIsLoading(false);
+    };
+
+    fetchExclusions();
+  }, [raceId, roundNumber]);
+
+  const addDraft = () => {
+    const address = newAddress.trim();
+    if (!address || draft.some(e => e.address === address)) return;
+    setDraft([...draft, newReason.trim() ? { address, reason: newReason.trim() } : { address }]);
+    setNewAddress('');
+    setNewReason('');
+  };
+
+  const saveDraft = async () => {
+    setIsSaving(true);
+    try {
+      const { data, error } = await invokeWithSession<{ exclusions: ManualRaceExclusion[] }>('update-race-exclusions', {
+        raceId,
+        walletAddress,
+        exclusions: draft
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || 'Failed to update exclusions');
+      }
+
+      onManualExclusionsChange?.(data.exclusions);
+      toast({ title: "Exclusions Updated", description: "Applied from the next snapshot" });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update exclusions';
+      toast({ title: "Update Failed", description: message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(manualExclusions);
+
+  return (
+    <Card className="p-4 border-border space-y-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Ban className="w-4 h-4 text-muted-foreground" />
+          <span className="font-bold">Excluded Wallets</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Bonding curves, LP vaults, other program accounts, exchange wallets and the creator cannot win. Ranks are computed without them.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-green-500" />
+        </div>
+      ) : exclusions.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No wallets excluded this round yet</p>
+      ) : (
+        <div className="space-y-2">
+          {exclusions.map(exclusion => (
+            <div key={exclusion.wallet_address} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-mono">{formatAddress(exclusion.wallet_address)}</span>
+                <Badge variant="outline" className="text-[10px]">{REASON_LABELS[exclusion.reason]}</Badge>
+                {exclusion.detail && exclusion.detail !== REASON_LABELS[exclusion.reason] && (
+                  <span className="text-xs text-muted-foreground truncate">{exclusion.detail}</span>
+                )}
+              </div>
+              <span className="font-mono text-xs text-muted-foreground">{formatCompact(Number(exclusion.balance))} {tokenSymbol}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isCreator && (
+        <div className="border-t border-border pt-4 space-y-2">
+          <p className="text-xs font-bold">Your exclusion list</p>
+          {draft.map(entry => (
+            <div key={entry.address} className="flex items-center justify-between text-sm">
+              <span className="font-mono">{formatAddress(entry.address)}</span>
+              <div className="flex items-center gap-2">
+                {entry.reason && <span className="text-xs text-muted-foreground">{entry.reason}</span>}
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setDraft(draft.filter(e => e.address !== entry.address))} disabled={isSaving}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="grid grid-cols-[2fr_1fr_auto] gap-2">
+            <Input placeholder="Wallet address" value={newAddress} onChange={(e) => setNewAddress(e.target.value)} disabled={isSaving} className="font-mono text-xs h-9" />
+            <Input placeholder="Reason (optional)" value={newReason} onChange={(e) => setNewReason(e.target.value)} disabled={isSaving} className="text-xs h-9" />
+            <Button variant="outline" size="sm" className="h-9" onClick={addDraft} disabled={isSaving || !newAddress.trim()}>
+              <Plus className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+          <Button size="sm" className="w-full" onClick={saveDraft} disabled={isSaving || !isDirty}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save Exclusions'}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import type { RaceRankingMode } from '@/types/race';
+
+interface RankingModeSelectorProps {
+  value: RaceRankingMode;
+  onChange: (mode: RaceRankingMode) => void;
+  disabled?: boolean;
+}
+
+const MODES: Array<{ value: RaceRankingMode; label: string; description: string }> = [
+  {
+    value: 'balance',
+    label: 'HOLDER RACE',
+    description: 'Top holders at entry win if they keep 90% of their balance until the round ends.',
+  },
+  {
+    value: 'net_buy',
+    label: 'NET BUY RACE',
+    description: 'Wallets that buy the most during the round win. Sells are subtracted from buys.',
+  },
+];
+
+// Lets race creators choose whether rounds rank holders by balance or by net buy volume
+export const RankingModeSelector = ({ value, onChange, disabled }: RankingModeSelectorProps) => {
+  const selected = MODES.find(mode => mode.value === value) || MODES[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {MODES.map(mode => (
+          <Button
+            key={mode.value}
+            type="button"
+            size="sm"
+            variant={value === mode.value ? 'default' : 'outline'}
+            onClick={() => onChange(mode.value)}
+            disabled={disabled}
+            className="font-pixel text-[8px]"
+          >
+            {mode.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{selected.description}</p>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import type { RaceRewardSchedule, RewardCurve, RewardTier } from '@/types/race';
+import {
+  DEFAULT_REWARD_SCHEDULE,
+  MAX_RANKED_PLACES,
+  MAX_REWARD_TIERS,
+  getRankPayouts,
+  validateRewardSchedule,
+} from '@shared/race-rewards';
+
+interface RewardScheduleEditorProps {
+  value: RaceRewardSchedule;
+  onChange: (schedule: RaceRewardSchedule) => void;
+  roundPool: number;
+  tokenSymbol?: string;
+  disabled?: boolean;
+}
+
+const CURVES: Array<{ value: RewardCurve; label: string }> = [
+  { value: 'tiers', label: 'TIERS' },
+  { value: 'linear', label: 'LINEAR' },
+  { value: 'exponential', label: 'EXPONENTIAL' },
+  { value: 'winner_takes_most', label: 'WINNER TAKES MOST' },
+];
+
+const PREVIEW_RANKS = 10;
+
+const formatAmount = (num: number): string => {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(2)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+// Lets race creators define how each round's pool is split across ranks, with a per-rank preview
+export const RewardScheduleEditor = ({ value, onChange, roundPool, tokenSymbol, disabled }: RewardScheduleEditorProps) => {
+  const error = validateRewardSchedule(value);
+  const payouts = error ? [] : getRankPayouts(value, roundPool);
+  const tiers = value.tiers || [];
+
+  const parseNumber = (raw: string) => {
+    const parsed = parseFloat(raw);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  const setCurve = (curve: RewardCurve) => {
+    if (curve === 'tiers') {
+      onChange({ ...value, curve, tiers: value.tiers?.length ? value.tiers : DEFAULT_REWARD_SCHEDULE.tiers });
+    } else if (curve === 'exponential') {
+      onChange({ ...value, curve, decay: value.decay ?? 0.85 });
+    } else if (curve === 'winner_takes_most') {
+      onChange({ ...value, curve, winnerPercent: value.winnerPercent ?? 50 });
+    } else {
+      onChange({ ...value, curve });
+    }
+  };
+
+  const updateTier = (index: number, field: keyof RewardTier, raw: string) => {
+    onChange({ ...value, tiers: tiers.map((tier, i) => (i === index ? { ...tier, [field]: parseNumber(raw) } : tier)) });
+  };
+
+  const addTier = () => {
+    if (tiers.length >= MAX_REWARD_TIERS) return;
+    const lastTo = tiers.length > 0 ? tiers[tiers.length - 1].toRank : 0;
+    onChange({ ...value, tiers: [...tiers, { fromRank: lastTo + 1, toRank: Math.min(lastTo + 10, value.places), percent: 0 }] });
+  };
+
+  const removeTier = (index: number) => {
+    onChange({ ...value, tiers: tiers.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {CURVES.map(curve => (
+          <Button
+            key={curve.value}
+            type="button"
+            size="sm"
+            variant={value.curve === curve.value ? 'default' : 'outline'}
+            onClick={() => setCurve(curve.value)}
+            disabled={disabled}
+            className="font-pixel text-[8px]"
+          >
+            {curve.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">RANKED PLACES</p>
+          <Input
+            type="number"
+            min="1"
+            max={MAX_RANKED_PLACES}
+            step="1"
+            value={value.places}
+            onChange={(e) => onChange({ ...value, places: Math.floor(parseNumber(e.target.value)) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">MAX PER WALLET (OPTIONAL)</p>
+          <Input
+            type="number"
+            min="0"
+            value={value.maxRewardPerParticipant ?? ''}
+            onChange={(e) => onChange({ ...value, maxRewardPerParticipant: e.target.value === '' ? null : parseNumber(e.target.value) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+      </div>
+
+      {value.curve === 'tiers' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 font-pixel text-[8px] text-muted-foreground">
+            <span>FROM RANK</span>
+            <span>TO RANK</span>
+            <span>SHARE %</span>
+            <span className="w-8" />
+          </div>
+          {tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+              <Input type="number" min="1" step="1" value={tier.fromRank} onChange={(e) => updateTier(index, 'fromRank', e.target.value)} disabled={disabled} className="font-mono text-sm h-9" />
+              <Input type="number" min="1" step="1" value={tier.toRank} onChange={(e) => updateTier(index, 'toRank', e.target.value)} disabled={disabled} className="font-mono text-sm h-9" />
+              <Input type="number" min="0" max="100" step="0.1" value={tier.percent} onChange={(e) => updateTier(index, 'percent', e.target.value)} disabled={disabled} className="font-mono text-sm h-9" />
+              <Button type="button" variant="ghost" size="sm" className="h-9 w-8 p-0" onClick={() => removeTier(index)} disabled={disabled || tiers.length <= 1}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addTier}
+            disabled={disabled || tiers.length >= MAX_REWARD_TIERS}
+            className="w-full font-pixel text-[8px]"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            ADD TIER
+          </Button>
+        </div>
+      )}
+
+      {value.curve === 'exponential' && (
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">EACH RANK GETS (x PREVIOUS)</p>
+          <Input
+            type="number"
+            min="0.01"
+            max="0.99"
+            step="0.01"
+            value={value.decay ?? 0.85}
+            onChange={(e) => onChange({ ...value, decay: parseNumber(e.target.value) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+      )}
+
+      {value.curve === 'winner_takes_most' && (
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">WINNER SHARE %</p>
+          <Input
+            type="number"
+            min="1"
+            max="100"
+            step="1"
+            value={value.winnerPercent ?? 50}
+            onChange={(e) => onChange({ ...value, winnerPercent: parseNumber(e.target.value) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        <div className="border border-border p-2 space-y-1">
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">PAYOUT PREVIEW (PER ROUND)</p>
+          {payouts.slice(0, PREVIEW_RANKS).map((amount, i) => (
+            <div key={i} className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">#{i + 1}</span>
+              <span className="font-mono">{formatAmount(amount)} {tokenSymbol}</span>
+            </div>
+          ))}
+          {payouts.length > PREVIEW_RANKS && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">#{payouts.length}</span>
+              <span className="font-mono">{formatAmount(payouts[payouts.length - 1])} {tokenSymbol}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
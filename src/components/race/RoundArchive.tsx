@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ChevronRight, History } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import type { RaceRoundRecord } from "@/types/race";
+
+interface RoundArchiveProps {
+  raceId: string;
+  contractAddress: string;
+  tokenSymbol?: string | null;
+}
+
+const formatNumber = (num: number): string => {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+// Finished rounds of a race, each linking to its public results page
+export const RoundArchive = ({ raceId, contractAddress, tokenSymbol }: RoundArchiveProps) => {
+  const navigate = useNavigate();
+  const [rounds, setRounds] = useState<RaceRoundRecord[]>([]);
+
+  useEffect(() => {
+    const fetchRounds = async () => {
+      const { data, error } = await supabase
+        .from('race_rounds')
+        .select('round_number, started_at, entry_snapshot_at, ended_at, ranking_mode, eligibility_basis, reward_schedule, round_pool, participant_count, eligible_count, total_rewarded')
+        .eq('race_id', raceId)
+        .order('round_number', { ascending: false });
+
+      if (!error && data) {
+        setRounds(data as RaceRoundRecord[]);
+      }
+    };
+
+    fetchRounds();
+  }, [raceId]);
+
+  if (rounds.length === 0) return null;
+
+  return (
+    <Card className="border-border overflow-hidden">
+      <div className="flex items-center gap-2 p-4 border-b border-border">
+        <History className="w-4 h-4 text-muted-foreground" />
+        <h3 className="font-bold">Round Archive</h3>
+      </div>
+      <div className="divide-y divide-border">
+        {rounds.map(round => (
+          <button
+            key={round.round_number}
+            type="button"
+            onClick={() => navigate(`/race/${contractAddress}/round/${round.round_number}`)}
+            className="w-full flex items-center justify-between p-3 text-left hover:bg-muted/50 transition-colors"
+          >
+            <div>
+              <p className="font-bold">Round {round.round_number}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(round.ended_at).toLocaleDateString()} • {round.eligible_count}/{round.participant_count} eligible
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-sm text-green-400">
+                {formatNumber(Number(round.total_rewarded))} {tokenSymbol}
+              </span>
+              <ChevronRight className="w-4 h-4 text-muted-foreground" />
+            </div>
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+};
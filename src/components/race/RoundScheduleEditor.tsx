@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { RaceRoundSchedule } from '@/types/race';
+import {
+  MAX_ROUND_LENGTH_MINUTES,
+  MIN_ENTRY_WINDOW_MINUTES,
+  MIN_ROUND_LENGTH_MINUTES,
+  ROUND_SCHEDULE_PRESETS,
+  formatScheduleDuration,
+  validateRoundSchedule,
+} from '@shared/race-schedule';
+
+interface RoundScheduleEditorProps {
+  value: RaceRoundSchedule;
+  onChange: (schedule: RaceRoundSchedule) => void;
+  totalRounds?: number;
+  disabled?: boolean;
+}
+
+// Lets race creators pick a round length and entry window, from sprint presets to weekly rounds
+export const RoundScheduleEditor = ({ value, onChange, totalRounds, disabled }: RoundScheduleEditorProps) => {
+  const error = validateRoundSchedule(value);
+
+  const parseMinutes = (raw: string, unitMinutes: number) => {
+    const parsed = parseFloat(raw);
+    return isNaN(parsed) ? 0 : Math.round(parsed * unitMinutes);
+  };
+
+  const isPreset = (schedule: RaceRoundSchedule) =>
+    schedule.roundLengthMinutes === value.roundLengthMinutes && schedule.entryWindowMinutes === value.entryWindowMinutes;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {ROUND_SCHEDULE_PRESETS.map(preset => (
+          <Button
+            key={preset.label}
+            type="button"
+            size="sm"
+            variant={isPreset(preset.schedule) ? 'default' : 'outline'}
+            onClick={() => onChange(preset.schedule)}
+            disabled={disabled}
+            className="font-pixel text-[8px]"
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">ROUND LENGTH (HOURS)</p>
+          <Input
+            type="number"
+            min={MIN_ROUND_LENGTH_MINUTES / 60}
+            max={MAX_ROUND_LENGTH_MINUTES / 60}
+            step="1"
+            value={value.roundLengthMinutes / 60}
+            onChange={(e) => onChange({ ...value, roundLengthMinutes: parseMinutes(e.target.value, 60) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">ENTRY WINDOW (MINUTES)</p>
+          <Input
+            type="number"
+            min={MIN_ENTRY_WINDOW_MINUTES}
+            step="5"
+            value={value.entryWindowMinutes}
+            onChange={(e) => onChange({ ...value, entryWindowMinutes: parseMinutes(e.target.value, 1) })}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Entry closes {formatScheduleDuration(value.entryWindowMinutes)} after each round starts, then holders must keep 90% of their balance for {formatScheduleDuration(value.roundLengthMinutes - value.entryWindowMinutes)}.
+          {totalRounds ? ` ${totalRounds} rounds last ${formatScheduleDuration(value.roundLengthMinutes * totalRounds)} in total.` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
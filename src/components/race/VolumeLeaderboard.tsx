@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { RaceVolumeEntry } from "@/types/race";
+
+interface VolumeLeaderboardProps {
+  raceId: string;
+  roundNumber: number;
+  rankPayouts: number[];
+  excludedAddresses: Set<string>;
+  walletAddress?: string | null;
+}
+
+const formatCompact = (num: number): string => {
+  const abs = Math.abs(num);
+  if (abs >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`;
+  if (abs >= 1_000) return `${(num / 1_000).toFixed(2)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Live net-buy leaderboard for volume races, refreshed as distribute-race-rewards records swaps
+export const VolumeLeaderboard = ({ raceId, roundNumber, rankPayouts, excludedAddresses, walletAddress }: VolumeLeaderboardProps) => {
+  const [entries, setEntries] = useState<RaceVolumeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchVolume = async () => {
+      const { data, error } = await supabase
+        .from('race_volume_leaderboard')
+        .select('wallet_address, buy_volume, sell_volume, net_volume, trade_count, last_trade_at')
+        .eq('race_id', raceId)
+        .eq('round_number', roundNumber)
+        .order('net_volume', { ascending: false })
+        .limit(rankPayouts.length + excludedAddresses.size + 50);
+
+      if (!error && data) {
+        setEntries(data as RaceVolumeEntry[]);
+      }
+      setIsLoading(false);
+    };
+
+    setIsLoading(true);
+    fetchVolume();
+
+    const channel = supabase
+      .channel(`race-volume-${raceId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'race_volume_trades',
+        filter: `race_id=eq.${raceId}`
+      }, () => {
+        fetchVolume();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [raceId, roundNumber, rankPayouts.length, excludedAddresses.size]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <Loader2 className="h-6 w-6 animate-spin text-green-500" />
+      </div>
+    );
+  }
+
+  // Same rule as the end snapshot: only positive net buyers place. The end snapshot also
+  // caps each net buy at the wallet's closing balance, which is not known until then.
+  const ranked = entries.filter(e => Number(e.net_volume) > 0 && !excludedAddresses.has(e.wallet_address));
+
+  if (ranked.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-12">
+        No net buys yet this round. Buy during the round to climb the leaderboard.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-[500px] overflow-y-auto">
+      <Table>
+        <TableHeader className="sticky top-0 bg-background">
+          <TableRow>
+            <TableHead className="w-16">Rank</TableHead>
+            <TableHead>Wallet</TableHead>
+            <TableHead className="text-right">Bought</TableHead>
+            <TableHead className="text-right">Sold</TableHead>
+            <TableHead className="text-right">Net Buy</TableHead>
+            <TableHead className="text-right">Est. Reward</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ranked.map((entry, index) => {
+            const rank = index + 1;
+            const reward = rankPayouts[index] || 0;
+            const isUser = entry.wallet_address === walletAddress;
+
+            return (
+              <TableRow key={entry.wallet_address} className={isUser ? 'ring-2 ring-green-500' : ''}>
+                <TableCell className="font-bold">#{rank}</TableCell>
+                <TableCell>
+                  <span className="font-mono text-sm">{formatAddress(entry.wallet_address)}</span>
+                  {isUser && <Badge className="ml-2 bg-green-500">You</Badge>}
+                </TableCell>
+                <TableCell className="text-right font-mono text-green-400">{formatCompact(Number(entry.buy_volume))}</TableCell>
+                <TableCell className="text-right font-mono text-red-400">{formatCompact(Number(entry.sell_volume))}</TableCell>
+                <TableCell className="text-right font-mono font-bold">{formatCompact(Number(entry.net_volume))}</TableCell>
+                <TableCell className={`text-right font-bold ${reward > 0 ? 'text-green-400' : 'text-muted-foreground'}`}>
+                  +{formatCompact(reward)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import type { AprTier } from '@/types/staking';
+import { MAX_APR_TIERS, validateAprTiers } from '@shared/staking-tiers';
+
+interface AprTiersEditorProps {
+  value: AprTier[];
+  onChange: (tiers: AprTier[]) => void;
+  disabled?: boolean;
+}
+
+// Lets staking pool creators offer several locks, e.g. 7 days → 100%, 30 days → 250%, 90 days → 600%
+export const AprTiersEditor = ({ value, onChange, disabled }: AprTiersEditorProps) => {
+  const error = validateAprTiers(value);
+
+  const updateTier = (index: number, field: keyof AprTier, raw: string) => {
+    const parsed = field === 'days' ? parseInt(raw, 10) : parseFloat(raw);
+    onChange(value.map((tier, i) => (i === index ? { ...tier, [field]: isNaN(parsed) ? 0 : parsed } : tier)));
+  };
+
+  const addTier = () => {
+    if (value.length >= MAX_APR_TIERS) return;
+    const longest = value.reduce((max, tier) => Math.max(max, tier.days), 0);
+    onChange([...value, { days: longest > 0 ? longest * 2 : 30, apr: 0 }]);
+  };
+
+  const removeTier = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 font-pixel text-[8px] text-muted-foreground">
+        <span>LOCK (DAYS)</span>
+        <span>APR %</span>
+        <span className="w-8" />
+      </div>
+
+      {value.map((tier, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            value={tier.days}
+            onChange={(e) => updateTier(index, 'days', e.target.value)}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={tier.apr}
+            onChange={(e) => updateTier(index, 'apr', e.target.value)}
+            disabled={disabled}
+            className="font-mono text-sm h-9"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-9 w-8 p-0"
+            onClick={() => removeTier(index)}
+            disabled={disabled || value.length <= 1}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addTier}
+        disabled={disabled || value.length >= MAX_APR_TIERS}
+        className="w-full font-pixel text-[8px]"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        ADD LOCK TIER
+      </Button>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
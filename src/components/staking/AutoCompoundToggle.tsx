@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Repeat } from 'lucide-react';
+import { formatYield, getAccrualsPerYear, getEffectiveApy } from '@/utils/staking-apy';
+
+interface AutoCompoundToggleProps {
+  enabled: boolean;
+  apr: number;
+  frequencyValue: number | null;
+  frequencyUnit: string | null;
+  compoundedRewards: number;
+  tokenSymbol: string;
+  onToggle: (enabled: boolean) => Promise<boolean>;
+}
+
+// Auto-compound switch with the simple APR next to the APY it compounds to
+export const AutoCompoundToggle = ({
+  enabled,
+  apr,
+  frequencyValue,
+  frequencyUnit,
+  compoundedRewards,
+  tokenSymbol,
+  onToggle,
+}: AutoCompoundToggleProps) => {
+  const [saving, setSaving] = useState(false);
+  const apy = getEffectiveApy(apr, getAccrualsPerYear(frequencyValue, frequencyUnit));
+
+  const handleToggle = async () => {
+    setSaving(true);
+    await onToggle(!enabled);
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">SIMPLE APR</p>
+          <p className="font-pixel text-sm text-foreground">{formatYield(apr)}</p>
+        </div>
+        <div>
+          <p className="font-pixel text-[8px] text-muted-foreground mb-1">COMPOUNDED APY</p>
+          <p className="font-pixel text-sm text-green-400">{formatYield(apy)}</p>
+        </div>
+      </div>
+
+      {compoundedRewards > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {compoundedRewards.toLocaleString(undefined, { maximumFractionDigits: 4 })} {tokenSymbol} compounded into your stake
+        </p>
+      )}
+
+      <Button
+        size="sm"
+        variant={enabled ? 'pixel' : 'outline'}
+        className="w-full font-pixel text-[8px]"
+        disabled={saving}
+        onClick={handleToggle}
+      >
+        {saving ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <>
+            <Repeat className="w-3 h-3 mr-1" />
+            AUTO-COMPOUND: {enabled ? 'ON' : 'OFF'}
+          </>
+        )}
+      </Button>
+
+      <p className="text-xs text-muted-foreground">
+        {enabled
+          ? 'Unlocked rewards are added to your stake each interval. Turn off to make them claimable again.'
+          : 'Rewards become claimable each interval.'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AprTier } from '@/types/staking';
+
+interface LockTierPickerProps {
+  tiers: AprTier[];
+  selectedDays: number;
+  onSelect: (days: number) => void;
+  disabled?: boolean;
+}
+
+// Lock options for a staking pool: longer locks earn a higher APR
+export const LockTierPicker = ({ tiers, selectedDays, onSelect, disabled }: LockTierPickerProps) => (
+  <div className={cn('grid gap-2', tiers.length === 1 ? 'grid-cols-1' : tiers.length === 2 ? 'grid-cols-2' : 'grid-cols-3')}>
+    {tiers.map(tier => {
+      const isSelected = tier.days === selectedDays;
+      return (
+        <button
+          key={tier.days}
+          type="button"
+          onClick={() => onSelect(tier.days)}
+          disabled={disabled && !isSelected}
+          className={cn(
+            'p-3 border-2 text-center transition-colors',
+            isSelected
+              ? 'border-green-400 bg-green-400/10'
+              : 'border-border bg-muted/40 hover:border-green-400/50',
+            disabled && !isSelected && 'opacity-40 cursor-not-allowed hover:border-border'
+          )}
+        >
+          <p className="font-pixel text-[8px] text-muted-foreground flex items-center justify-center gap-1 mb-1">
+            <Lock className="w-3 h-3" />
+            {tier.days}D
+          </p>
+          <p className={cn('font-pixel text-sm', isSelected ? 'text-green-400' : 'text-foreground')}>
+            {tier.apr}%
+          </p>
+        </button>
+      );
+    })}
+  </div>
+);
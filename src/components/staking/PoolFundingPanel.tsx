@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Clock, Copy, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PoolFundingPanelProps {
+  status: string;
+  depositAddress: string | null;
+  requestedAllocation: number;
+  fundedAmount: number;
+  fundingExpiresAt: string | null;
+  tokenSymbol: string;
+  isCreator: boolean;
+  onCheck: () => Promise<boolean>;
+}
+
+const formatAmount = (num: number) => num.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const formatTimeLeft = (ms: number): string => {
+  const minutes = Math.ceil(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}D ${hours}H`;
+  if (hours > 0) return `${hours}H ${minutes % 60}M`;
+  return `${minutes}M`;
+};
+
+// Funding state of a staking pool that is not live yet: where to send the reward
+// allocation, how much has arrived, and when the window closes
+export const PoolFundingPanel = ({
+  status,
+  depositAddress,
+  requestedAllocation,
+  fundedAmount,
+  fundingExpiresAt,
+  tokenSymbol,
+  isCreator,
+  onCheck,
+}: PoolFundingPanelProps) => {
+  const [now, setNow] = useState(Date.now());
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (status === 'expired') {
+    return (
+      <div className="flex items-start gap-2">
+        <XCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+        <p className="text-xs text-muted-foreground">
+          This pool expired without receiving its reward deposit and will not open for staking.
+        </p>
+      </div>
+    );
+  }
+
+  if (!isCreator) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This pool opens for staking once its creator deposits the reward allocation.
+      </p>
+    );
+  }
+
+  const remaining = Math.max(0, requestedAllocation - fundedAmount);
+  const progress = requestedAllocation > 0 ? Math.min(100, (fundedAmount / requestedAllocation) * 100) : 0;
+  const msLeft = fundingExpiresAt ? new Date(fundingExpiresAt).getTime() - now : null;
+
+  const copyAddress = () => {
+    if (!depositAddress) return;
+    navigator.clipboard.writeText(depositAddress);
+    toast.success('Deposit address copied');
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    await onCheck();
+    setChecking(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Send exactly <span className="text-foreground font-mono">{formatAmount(remaining)} {tokenSymbol}</span> to
+        the pool's reward wallet. The pool goes live as soon as the full allocation arrives.
+      </p>
+
+      {depositAddress ? (
+        <button
+          className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-muted border-2 border-border hover:border-green-400/50 transition-colors font-mono text-xs"
+          onClick={copyAddress}
+        >
+          <span className="truncate">{depositAddress}</span>
+          <Copy className="w-3.5 h-3.5 shrink-0 text-green-400" />
+        </button>
+      ) : (
+        <p className="text-xs text-red-400">No deposit wallet is recorded for this pool. Please contact support.</p>
+      )}
+
+      <div>
+        <div className="h-2 bg-muted border border-border overflow-hidden">
+          <div className="h-full bg-green-400 transition-all duration-500" style={{ width: `${progress}%` }} />
+        </div>
+        <div className="flex items-center justify-between mt-1 font-pixel text-[8px] text-muted-foreground">
+          <span>{formatAmount(fundedAmount)} / {formatAmount(requestedAllocation)} RECEIVED</span>
+          {msLeft !== null && (
+            <span className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {msLeft > 0 ? `CLOSES IN ${formatTimeLeft(msLeft)}` : 'CLOSING'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {fundedAmount > 0 && remaining > 0 && (
+        <p className="text-xs text-muted-foreground">
+          If the window closes before the rest arrives, the pool goes live with the {formatAmount(fundedAmount)} {tokenSymbol} received.
+        </p>
+      )}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full font-pixel text-[8px]"
+        disabled={checking}
+        onClick={handleCheck}
+      >
+        {checking ? <Loader2 className="w-3 h-3 animate-spin" /> : <><RefreshCw className="w-3 h-3 mr-1" />CHECK DEPOSIT</>}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus } from 'lucide-react';
+import type { StakingRewardStream, StakingStreamReward } from '@/types/staking';
+import { PoolFundingPanel } from '@/components/staking/PoolFundingPanel';
+import { MAX_REWARD_STREAMS, NATIVE_SOL_MINT, getStreamDailyShare, getStreamDepletionDate } from '@shared/staking-streams';
+
+interface NewRewardStream {
+  mint: string;
+  tokenSymbol?: string;
+  tokensPerDay: number;
+  allocation: number;
+}
+
+interface RewardStreamsPanelProps {
+  streams: StakingRewardStream[];
+  rewards: StakingStreamReward[];
+  // The wallet's earning principal and the pool total, for its estimated daily share
+  walletPrincipal: number;
+  totalStaked: number;
+  isCreator: boolean;
+  onCheckFunding: () => Promise<boolean>;
+  onAddStream: (stream: NewRewardStream) => Promise<unknown>;
+}
+
+const formatAmount = (num: number) => num.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+// Extra reward tokens a staking pool pays next to its own: each stream's emission,
+// how much of it is left, and what the connected wallet has earned from it
+export const RewardStreamsPanel = ({
+  streams,
+  rewards,
+  walletPrincipal,
+  totalStaked,
+  isCreator,
+  onCheckFunding,
+  onAddStream,
+}: RewardStreamsPanelProps) => {
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ mint: '', tokenSymbol: '', tokensPerDay: '', allocation: '' });
+
+  const openStreams = streams.filter(stream => stream.status !== 'expired');
+  const canAdd = isCreator && openStreams.length < MAX_REWARD_STREAMS;
+
+  if (streams.length === 0 && !canAdd) return null;
+
+  const handleAdd = async () => {
+    setSaving(true);
+    const created = await onAddStream({
+      mint: form.mint.trim(),
+      tokenSymbol: form.tokenSymbol.trim() || undefined,
+      tokensPerDay: parseFloat(form.tokensPerDay) || 0,
+      allocation: parseFloat(form.allocation) || 0,
+    });
+    setSaving(false);
+    if (created) {
+      setAdding(false);
+      setForm({ mint: '', tokenSymbol: '', tokensPerDay: '', allocation: '' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {streams.map(stream => {
+        const reward = rewards.find(r => r.stream_id === stream.id);
+        const progress = stream.allocation > 0 ? Math.min(100, (stream.rewards_distributed / stream.allocation) * 100) : 0;
+        const depletesAt = stream.status === 'active' ? getStreamDepletionDate(stream) : null;
+        const dailyShare = getStreamDailyShare(stream.tokens_per_day, walletPrincipal, totalStaked);
+
+        return (
+          <div key={stream.id} className="p-3 bg-muted/40 border border-border space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-pixel text-sm text-foreground">
+                {stream.token_symbol}
+                <span className="text-[10px] text-green-400 ml-2">{formatAmount(stream.tokens_per_day)} / DAY</span>
+              </span>
+              <span className="font-pixel text-[8px] text-muted-foreground uppercase">{stream.status}</span>
+            </div>
+
+            {stream.status === 'pending' ? (
+              <PoolFundingPanel
+                status={stream.status}
+                depositAddress={stream.deposit_wallet_address}
+                requestedAllocation={Number(stream.requested_allocation)}
+                fundedAmount={Number(stream.funded_amount || 0)}
+                fundingExpiresAt={stream.funding_expires_at}
+                tokenSymbol={stream.token_symbol}
+                isCreator={isCreator}
+                onCheck={onCheckFunding}
+              />
+            ) : stream.status === 'expired' ? (
+              <p className="text-xs text-muted-foreground">This stream was never funded and pays nothing.</p>
+            ) : (
+              <>
+                <div className="h-2 bg-muted border border-border overflow-hidden">
+                  <div className="h-full bg-green-400 transition-all duration-500" style={{ width: `${progress}%` }} />
+                </div>
+                <div className="flex items-center justify-between font-pixel text-[8px] text-muted-foreground">
+                  <span>{formatAmount(stream.rewards_distributed)} / {formatAmount(stream.allocation)} PAID</span>
+                  {depletesAt && <span>ENDS ~{depletesAt.toLocaleDateString()}</span>}
+                </div>
+              </>
+            )}
+
+            {(reward || dailyShare > 0) && stream.status !== 'pending' && (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {dailyShare > 0 && stream.status === 'active' ? `~${formatAmount(dailyShare)} ${stream.token_symbol}/day for you` : ''}
+                </span>
+                <span className="font-pixel text-[10px] text-green-400">
+                  {formatAmount(Number(reward?.pending_rewards || 0))} {stream.token_symbol} CLAIMABLE
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {canAdd && !adding && (
+        <Button size="sm" variant="outline" className="w-full font-pixel text-[8px]" onClick={() => setAdding(true)}>
+          <Plus className="w-3 h-3 mr-1" />
+          ADD REWARD TOKEN
+        </Button>
+      )}
+
+      {canAdd && adding && (
+        <div className="space-y-2 p-3 border border-border">
+          <div className="grid grid-cols-[1fr_auto] gap-2">
+            <Input
+              placeholder="Reward token mint"
+              value={form.mint}
+              onChange={(e) => setForm({ ...form, mint: e.target.value })}
+              className="font-mono text-xs h-9"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="font-pixel text-[8px] h-9"
+              onClick={() => setForm({ ...form, mint: NATIVE_SOL_MINT, tokenSymbol: 'SOL' })}
+            >
+              SOL
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              placeholder="Symbol"
+              value={form.tokenSymbol}
+              onChange={(e) => setForm({ ...form, tokenSymbol: e.target.value })}
+              className="font-mono text-xs h-9"
+            />
+            <Input
+              type="number"
+              min="0"
+              placeholder="Per day"
+              value={form.tokensPerDay}
+              onChange={(e) => setForm({ ...form, tokensPerDay: e.target.value })}
+              className="font-mono text-xs h-9"
+            />
+            <Input
+              type="number"
+              min="0"
+              placeholder="Allocation"
+              value={form.allocation}
+              onChange={(e) => setForm({ ...form, allocation: e.target.value })}
+              className="font-mono text-xs h-9"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" className="flex-1 font-pixel text-[8px]" onClick={() => setAdding(false)} disabled={saving}>
+              CANCEL
+            </Button>
+            <Button
+              size="sm"
+              variant="pixel"
+              className="flex-1 font-pixel text-[8px]"
+              onClick={handleAdd}
+              disabled={saving || !form.mint.trim() || !(parseFloat(form.tokensPerDay) > 0) || !(parseFloat(form.allocation) > 0)}
+            >
+              {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : 'CREATE STREAM'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
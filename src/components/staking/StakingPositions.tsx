@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Loader2, Lock, Unlock } from 'lucide-react';
+import type { StakingDeposit } from '@/hooks/use-pool-data';
+import { getEarlyExitPenalty, getEarlyExitPenaltyPercent } from '@shared/staking-penalty';
+
+interface StakingPositionsProps {
+  deposits: StakingDeposit[];
+  tokenSymbol: string;
+  // Pool's early-exit penalty; 0 keeps positions locked until they expire
+  earlyExitPenaltyPercent: number;
+  onWithdraw: (depositId: string, acceptPenalty: boolean) => Promise<boolean>;
+}
+
+const formatAmount = (num: number) => num.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatTimeLeft = (ms: number): string => {
+  const minutes = Math.ceil(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}D ${hours}H`;
+  if (hours > 0) return `${hours}H ${minutes % 60}M`;
+  return `${minutes}M`;
+};
+
+// Escrow positions: each vault deposit with its lock expiry, withdrawable once unlocked
+// or, in pools with an early-exit penalty, before then for the penalty it would pay right now
+export const StakingPositions = ({ deposits, tokenSymbol, earlyExitPenaltyPercent, onWithdraw }: StakingPositionsProps) => {
+  const [now, setNow] = useState(Date.now());
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  // An early exit takes a second click, so the penalty is never paid by accident
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const open = deposits.filter(d => d.status !== 'withdrawn');
+  const withdrawn = deposits.filter(d => d.status === 'withdrawn');
+
+  if (deposits.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground text-center py-4">
+        No positions yet. Staked tokens are held in the pool vault until their lock expires.
+      </p>
+    );
+  }
+
+  const handleWithdraw = async (depositId: string, acceptPenalty: boolean) => {
+    if (acceptPenalty && confirmingId !== depositId) {
+      setConfirmingId(depositId);
+      return;
+    }
+    setConfirmingId(null);
+    setWithdrawingId(depositId);
+    await onWithdraw(depositId, acceptPenalty);
+    setWithdrawingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {open.map(deposit => {
+        const lockedUntil = new Date(deposit.locked_until);
+        const msLeft = lockedUntil.getTime() - now;
+        const isLocked = msLeft > 0;
+        const isWithdrawing = deposit.status === 'withdrawing' || withdrawingId === deposit.id;
+        const penaltyPercent = getEarlyExitPenaltyPercent(earlyExitPenaltyPercent, deposit, now);
+        const penalty = getEarlyExitPenalty(earlyExitPenaltyPercent, deposit, now);
+        const canExitEarly = isLocked && penaltyPercent > 0;
+
+        return (
+          <div key={deposit.id} className="flex items-center justify-between gap-3 p-3 bg-muted/40 border border-border">
+            <div className="min-w-0">
+              <p className="font-pixel text-sm text-foreground">
+                {formatAmount(Number(deposit.amount))} {tokenSymbol}
+                <span className="text-[10px] text-green-400 ml-2">{deposit.lock_days}D · {deposit.apr}% APR</span>
+              </p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                {isLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3 text-green-400" />}
+                {isLocked
+                  ? `Locked until ${lockedUntil.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+                  : `Unlocked since ${lockedUntil.toLocaleDateString()}`}
+              </p>
+              {canExitEarly && (
+                <p className="text-xs text-yellow-500 mt-1">
+                  Exiting now forfeits {formatAmount(penalty)} {tokenSymbol} ({penaltyPercent.toFixed(2)}%) to the other stakers
+                </p>
+              )}
+              {deposit.withdraw_error && deposit.status === 'active' && (
+                <p className="text-xs text-red-400 mt-1">Last withdrawal failed: {deposit.withdraw_error}</p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant={isLocked ? 'outline' : 'pixel'}
+              className="font-pixel text-[8px] shrink-0"
+              disabled={(isLocked && !canExitEarly) || isWithdrawing}
+              onClick={() => handleWithdraw(deposit.id, canExitEarly)}
+            >
+              {isWithdrawing ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : canExitEarly ? (
+                confirmingId === deposit.id ? 'CONFIRM EARLY EXIT' : `EXIT EARLY (−${penaltyPercent.toFixed(1)}%)`
+              ) : isLocked ? (
+                `UNLOCKS IN ${formatTimeLeft(msLeft)}`
+              ) : (
+                'WITHDRAW'
+              )}
+            </Button>
+          </div>
+        );
+      })}
+
+      {withdrawn.length > 0 && (
+        <div className="pt-2 space-y-1">
+          <p className="font-pixel text-[8px] text-muted-foreground">WITHDRAWN</p>
+          {withdrawn.map(deposit => (
+            <div key={deposit.id} className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {formatAmount(Number(deposit.amount))} {tokenSymbol}
+                {Number(deposit.withdraw_penalty) > 0 && ` (−${formatAmount(Number(deposit.withdraw_penalty))} PENALTY)`}
+              </span>
+              {deposit.withdraw_tx_signature && (
+                <a
+                  href={`https://solscan.io/tx/${deposit.withdraw_tx_signature}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 hover:text-green-400"
+                >
+                  {deposit.withdrawn_at ? new Date(deposit.withdrawn_at).toLocaleDateString() : 'TX'}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,9 @@ import { formatSolAmount, simulateTransaction, recordTransaction, sendSolanaTran
 import { PublicKey } from '@solana/web3.js';
 import { TransactionLoading } from '@/components/wallet/TransactionLoading';
 import { WalletSelectModal } from '@/components/wallet/WalletSelectModal';
+import { supabase } from '@/integrations/supabase/client';
+import type { FunctionsResponse } from '@supabase/functions-js';
+import { SESSION_HEADER, SessionFunctionResult, clearWalletSession, getStoredWalletSession, revokeWalletSession, signInWithWallet } from '@/utils/wallet-session';
 
 export interface JoinedPool {
   id: string;
@@ -46,6 +49,8 @@ interface WalletContextType {
   wallet: any;
   getPumpHoldings: (symbol: string) => number;
   connectedWalletName: string | null;
+  getWalletSession: () => Promise<string | null>;
+  invokeWithSession: <T = object>(functionName: string, body: Record<string, unknown>) => Promise<FunctionsResponse<SessionFunctionResult<T>>>;
 }
 
 const WalletContext = createContext<WalletContextType>({
@@ -69,6 +74,8 @@ const WalletContext = createContext<WalletContextType>({
   wallet: null,
   getPumpHoldings: () => 0,
   connectedWalletName: null,
+  getWalletSession: async () => null,
+  invokeWithSession: async () => ({ data: null, error: new Error('Wallet not connected') }),
 });
 
 // Get all wallet options (installed or not)
@@ -307,6 +314,9 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       if (activeProvider?.disconnect) await activeProvider.disconnect();
     } catch (e) {}
     
+    // Revoke the session server-side too, so a copied token stops working once the wallet disconnects
+    if (walletAddress) await revokeWalletSession(walletAddress);
+
     setConnected(false);
     setWalletAddress(null);
     setPublicKey(null);
@@ -415,12 +425,54 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const getPumpHoldings = () => 1000;
 
+  // Returns a valid session token, asking the wallet to sign in if there is none
+  const getWalletSession = async (): Promise<string | null> => {
+    if (!walletAddress) return null;
+
+    const stored = getStoredWalletSession(walletAddress);
+    if (stored) return stored;
+
+    try {
+      return await signInWithWallet(activeProvider, walletAddress);
+    } catch (error: unknown) {
+      console.error("Wallet sign-in error:", error);
+      const message = error instanceof Error ? error.message : "";
+      if (!message.includes("User rejected")) {
+        toast.error("Sign-in Failed", { description: message || "Could not verify wallet" });
+      }
+      return null;
+    }
+  };
+
+  // Invoke an edge function that acts for the connected wallet
+  const invokeWithSession = async <T = object,>(functionName: string, body: Record<string, unknown>): Promise<FunctionsResponse<SessionFunctionResult<T>>> => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const token = await getWalletSession();
+      if (!token) {
+        return { data: null, error: new Error('Wallet sign-in required') };
+      }
+
+      const result = await supabase.functions.invoke<SessionFunctionResult<T>>(functionName, {
+        body,
+        headers: { [SESSION_HEADER]: token },
+      });
+
+      // Session expired or revoked server-side: sign in again once
+      if (result.error?.context?.status === 401 && walletAddress && attempt === 0) {
+        clearWalletSession(walletAddress);
+        continue;
+      }
+      return result;
+    }
+    return { data: null, error: new Error('Wallet sign-in required') };
+  };
+
   return (
     <WalletContext.Provider value={{
       connected, connecting, walletAddress, balance, publicKey, joinedPools, isConfirmingTransaction,
       connectWallet, disconnectWallet, formatAddress, isPoolJoined, joinPool, withdrawFromPool,
       sendSolTransaction, updateRewards, lastRewardUpdate, nextRewardTime, wallet, getPumpHoldings,
-      connectedWalletName,
+      connectedWalletName, getWalletSession, invokeWithSession,
     }}>
       {children}
       <TransactionLoading isVisible={isConfirmingTransaction} />
@@ -2,28 +2,97 @@ import { supabase } from '@/integrations/supabase/client';
 import { useWallet } from '@/contexts/WalletContext';
 import { toast } from 'sonner';
 import { useWithdrawalRequest } from './use-withdrawal-request';
+import { sendSplTokenTransaction } from '@/utils/spl-token-utils';
+
+// One claimable balance in a single mint; rewardStreamId is set for a staking pool's extra streams
+interface RewardPayout {
+  amount: number;
+  tokenSymbol: string;
+  tokenAddress: string;
+  rewardStreamId?: string;
+}
 
 export const usePoolActions = () => {
   const { createWithdrawalRequest } = useWithdrawalRequest();
-  const { walletAddress, connected } = useWallet();
+  const { walletAddress, connected, invokeWithSession } = useWallet();
 
-  const stake = async (poolId: string, poolType: string, amount: number) => {
+  // lockDays picks one of the pool's APR tiers; omitted, the shortest lock applies
+  const stake = async (poolId: string, poolType: string, amount: number, lockDays?: number) => {
     if (!connected || !walletAddress) {
       toast.error('Please connect your wallet');
       return false;
     }
 
     try {
-      toast.loading('Validating stake...', { id: 'stake' });
-
-      // Use secure edge function that validates on-chain balance
-      const { data, error } = await supabase.functions.invoke('stake-tokens', {
-        body: {
-          walletAddress,
-          poolId,
-          poolType,
-          amount
+      const { data: pool } = poolType === 'staking'
+        ? await supabase
+            .from('staking_pools')
+            .select('contract_address, token_decimals, min_stake, status, custody_mode, vault_wallet_address, depleted_at')
+            .eq('id', poolId)
+            .single()
+        : { data: null };
+
+      // Checked before any tokens move: escrow deposits cannot be refused once they reach the vault
+      if (pool && pool.status !== 'active') {
+        toast.error('This pool is not accepting stakes');
+        return false;
+      }
+      if (pool?.depleted_at) {
+        toast.error('This pool has paid out its full reward allocation');
+        return false;
+      }
+
+      // Escrow pools: send the tokens to the pool vault first, then have the server verify the deposit
+      let txHash: string | undefined;
+      if (pool?.custody_mode === 'escrow') {
+        const { data: existing } = await supabase
+          .from('user_stakes')
+          .select('amount')
+          .eq('wallet_address', walletAddress)
+          .eq('pool_type', 'staking')
+          .eq('pool_id', poolId)
+          .maybeSingle();
+
+        // Checked before sending: once tokens reach the vault the deposit is always credited
+        if (Number(existing?.amount || 0) + amount < (pool.min_stake || 0)) {
+          toast.error(`Minimum stake is ${Number(pool.min_stake).toLocaleString()}`);
+          return false;
         }
+
+        const phantom = window.phantom?.solana;
+        if (!phantom?.isPhantom) {
+          toast.error('Phantom wallet required to stake');
+          return false;
+        }
+
+        toast.loading('Sending tokens to the staking vault...', { id: 'stake' });
+        const transfer = await sendSplTokenTransaction(
+          phantom,
+          pool.contract_address,
+          pool.vault_wallet_address,
+          amount,
+          pool.token_decimals ?? 6
+        );
+
+        // An unconfirmed transfer is still submitted: the server waits for it on-chain
+        if (!transfer.txHash) {
+          toast.dismiss('stake');
+          toast.error(transfer.message || 'Token transfer failed');
+          return false;
+        }
+        txHash = transfer.txHash;
+      }
+
+      toast.loading(txHash ? 'Verifying deposit...' : 'Validating stake...', { id: 'stake' });
+
+      // Use secure edge function that validates on-chain balance, or the vault deposit for escrow pools
+      const { data, error } = await invokeWithSession<{ creditedAmount?: number; lockedUntil?: string; stakedAmount?: number; addedAmount?: number }>('stake-tokens', {
+        walletAddress,
+        poolId,
+        poolType,
+        amount,
+        txHash,
+        lockDays
       });
 
       toast.dismiss('stake');
@@ -33,7 +102,14 @@ export const usePoolActions = () => {
         return false;
       }
 
-      toast.success('Staked successfully!');
+      if (data.lockedUntil) {
+        toast.success(`Staked ${Number(data.creditedAmount).toLocaleString()}! Locked until ${new Date(data.lockedUntil).toLocaleDateString()}`);
+      } else if (data.addedAmount !== undefined) {
+        // Balance stakes add up: the response carries the new total
+        toast.success(`Staked ${Number(data.addedAmount).toLocaleString()}! You now stake ${Number(data.stakedAmount).toLocaleString()}`);
+      } else {
+        toast.success('Staked successfully!');
+      }
       return true;
     } catch (error) {
       toast.dismiss('stake');
@@ -44,12 +120,263 @@ export const usePoolActions = () => {
   };
 
   const unstake = async (poolId: string, poolType: string, amount: number) => {
-    // Unstaking is handled automatically - when users sell tokens, 
-    // the distribute-rewards function auto-adjusts their staked position
-    toast.info('Your staking position auto-adjusts based on your wallet balance');
+    if (poolType === 'staking') {
+      const { data: pool } = await supabase
+        .from('staking_pools')
+        .select('custody_mode')
+        .eq('id', poolId)
+        .single();
+
+      // Escrow stakes leave the vault one position at a time, once each position's lock has passed
+      if (pool?.custody_mode === 'escrow') {
+        toast.info('Withdraw each position from Your Positions once its lock expires');
+        return false;
+      }
+    }
+
+    // Balance stakes have nothing to withdraw: when tokens leave the wallet,
+    // accrue-staking-rewards trims the stake to what the wallet still holds
+    toast.info('Your staking position is trimmed to your wallet balance at each reward interval');
     return true;
   };
 
+  // acceptPenalty confirms an early exit from a pool that charges for one
+  const withdrawPosition = async (poolId: string, depositId: string, acceptPenalty = false) => {
+    if (!connected || !walletAddress) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    try {
+      toast.loading('Withdrawing from the staking vault...', { id: 'unstake' });
+
+      // The server enforces the lock period and signs the payout from the vault
+      const { data, error } = await invokeWithSession<{ txHash?: string; amount?: number; penalty?: number; netAmount?: number }>('unstake-tokens', {
+        walletAddress,
+        poolId,
+        depositId,
+        acceptPenalty
+      });
+
+      toast.dismiss('unstake');
+
+      if (error || !data?.success) {
+        if (data?.txHash) {
+          toast.message(data.error || 'Withdrawal submitted — waiting for confirmation', {
+            description: `TX: ${String(data.txHash).slice(0, 8)}...`,
+          });
+        } else {
+          toast.error(data?.error || 'Failed to withdraw');
+        }
+        return false;
+      }
+
+      const penalty = Number(data.penalty || 0);
+      toast.success(
+        penalty > 0
+          ? `Withdrew ${Number(data.netAmount).toLocaleString()} after a ${penalty.toLocaleString()} early-exit penalty! TX: ${String(data.txHash).slice(0, 8)}...`
+          : `Withdrew ${Number(data.amount).toLocaleString()}! TX: ${String(data.txHash).slice(0, 8)}...`
+      );
+      return true;
+    } catch (error) {
+      toast.dismiss('unstake');
+      console.error('Withdraw error:', error);
+      toast.error('Failed to withdraw');
+      return false;
+    }
+  };
+
+  // Takes effect at the next reward interval: the accrual job does the compounding
+  const setAutoCompound = async (poolId: string, enabled: boolean) => {
+    if (!connected || !walletAddress) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    try {
+      const { data, error } = await invokeWithSession('set-auto-compound', {
+        walletAddress,
+        poolId,
+        enabled
+      });
+
+      if (error || !data?.success) {
+        toast.error(data?.error || 'Failed to update auto-compound');
+        return false;
+      }
+
+      toast.success(enabled
+        ? 'Auto-compound on: rewards will be added to your stake'
+        : 'Auto-compound off: compounded rewards become claimable at the next interval');
+      return true;
+    } catch (error) {
+      console.error('Auto-compound error:', error);
+      toast.error('Failed to update auto-compound');
+      return false;
+    }
+  };
+
+  // Asks the deposit watcher to check a pending pool now instead of on its next run
+  const checkPoolFunding = async (poolId: string) => {
+    try {
+      const { data, error } = await invokeWithSession<{
+        results?: Array<{ outcome: string; fundedAmount?: number }>;
+        streamResults?: Array<{ outcome: string }>;
+      }>('watch-staking-deposits', { poolId });
+
+      if (error || !data?.success) {
+        toast.error(data?.error || 'Failed to check deposit');
+        return false;
+      }
+
+      const result = data.results?.[0];
+      if (result?.outcome === 'activated' || result?.outcome === 'activated_partial') {
+        toast.success('Deposit confirmed, the pool is live!');
+      } else if (result?.outcome === 'expired') {
+        toast.error('The funding window closed before any deposit arrived');
+      } else if (result) {
+        toast.message(`Received ${Number(result.fundedAmount || 0).toLocaleString()} so far`);
+      }
+
+      // Reward streams waiting for their own deposits are checked in the same run
+      const streamsLive = (data.streamResults || []).filter(
+        stream => stream.outcome === 'activated' || stream.outcome === 'activated_partial'
+      ).length;
+      if (streamsLive > 0) {
+        toast.success(`${streamsLive} reward stream${streamsLive === 1 ? ' is' : 's are'} now live!`);
+      } else if (!result) {
+        toast.message('No new reward stream deposits yet');
+      }
+      return true;
+    } catch (error) {
+      console.error('Deposit check error:', error);
+      toast.error('Failed to check deposit');
+      return false;
+    }
+  };
+
+  // Requests and settles the payout of one claimable balance
+  const payOutReward = async (wallet: string, poolId: string, poolType: string, payout: RewardPayout) => {
+    // Create withdrawal request
+    const result = await createWithdrawalRequest({
+      walletAddress: wallet,
+      feature: poolType as 'staking' | 'race' | 'burn' | 'social_farming',
+      amount: payout.amount,
+      tokenSymbol: payout.tokenSymbol,
+      tokenAddress: payout.tokenAddress,
+      poolId,
+      rewardStreamId: payout.rewardStreamId
+    });
+
+    if (!result) {
+      return false;
+    }
+
+    // Record transaction as pending
+    await supabase.from('transactions').insert({
+      wallet_address: wallet,
+      pool_type: poolType,
+      pool_id: poolId,
+      type: 'claim',
+      amount: payout.amount,
+      status: 'pending',
+    });
+
+    // Get partially-signed transaction from edge function
+    toast.loading(`Preparing ${payout.tokenSymbol} transaction...`, { id: 'payout' });
+
+    const { data: payoutResult, error: payoutError } = await invokeWithSession<{ txHash?: string }>('process-claim-payout', {
+      withdrawalRequestId: result.id,
+      userWalletAddress: wallet
+    });
+
+    if (payoutError || !payoutResult?.success) {
+      toast.dismiss('payout');
+      console.error('Payout error:', payoutError || payoutResult?.error);
+
+      // Sometimes the payout actually succeeds but the response errors/timeouts.
+      // Before cancelling, re-check the request status.
+      const { data: latestRequest } = await supabase
+        .from('withdrawal_requests')
+        .select('status, tx_hash, admin_notes')
+        .eq('id', result.id)
+        .maybeSingle();
+
+      if (latestRequest?.status === 'completed' && latestRequest?.tx_hash) {
+        toast.success(`${payout.tokenSymbol} rewards claimed! TX: ${latestRequest.tx_hash.slice(0, 8)}...`);
+        return true;
+      }
+
+      if (latestRequest?.status === 'processing' && latestRequest?.tx_hash) {
+        toast.message(`${payout.tokenSymbol} claim submitted — waiting for confirmation`, {
+          description: `TX: ${latestRequest.tx_hash.slice(0, 8)}...`,
+        });
+        return true;
+      }
+
+      // Only cancel if backend never submitted anything.
+      await supabase
+        .from('withdrawal_requests')
+        .update({
+          status: 'cancelled',
+          admin_notes: payoutResult?.error || 'Payout preparation failed',
+        })
+        .eq('id', result.id);
+
+      toast.error(payoutResult?.error || `Failed to prepare ${payout.tokenSymbol} transaction`);
+      return false;
+    }
+
+    toast.dismiss('payout');
+
+    // Backend now handles everything: sign, submit, confirm, reset balances
+    if (payoutResult?.txHash) {
+      const signature = payoutResult.txHash;
+      toast.success(`${payout.tokenSymbol} rewards claimed! TX: ${signature.slice(0, 8)}...`);
+      return true;
+    }
+
+    // If no txHash, something went wrong
+    toast.error('Payout failed - no transaction returned');
+    return false;
+  };
+
+  // Creator only: attach a second reward token (or 'SOL') that is funded separately
+  const addRewardStream = async (
+    poolId: string,
+    params: { mint: string; tokenSymbol?: string; tokensPerDay: number; allocation: number; fundingWindowHours?: number }
+  ) => {
+    if (!connected || !walletAddress) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    try {
+      const { data, error } = await invokeWithSession<{
+        streamId: string;
+        depositAddress: string;
+        depositAmount: number;
+        fundingExpiresAt: string;
+      }>('add-staking-reward-stream', {
+        walletAddress,
+        poolId,
+        ...params
+      });
+
+      if (error || !data?.success) {
+        toast.error(data?.error || 'Failed to add reward stream');
+        return null;
+      }
+
+      toast.success('Reward stream added. Deposit its allocation to start paying it out.');
+      return data;
+    } catch (error) {
+      console.error('Add reward stream error:', error);
+      toast.error('Failed to add reward stream');
+      return null;
+    }
+  };
+
   const claimRewards = async (poolId: string, poolType: string, amount?: number) => {
     if (!connected || !walletAddress) {
       toast.error('Please connect your wallet');
@@ -67,6 +394,8 @@ export const usePoolActions = () => {
       let rewardsAmount = amount || 0;
       let tokenSymbol = '';
       let tokenAddress = '';
+      // Staking pools can also pay extra reward streams, each in its own mint
+      const streamPayouts: RewardPayout[] = [];
 
       // Handle different pool types - GET INFO ONLY, don't modify yet
       if (poolType === 'staking') {
@@ -76,14 +405,9 @@ export const usePoolActions = () => {
           .eq('wallet_address', walletAddress)
           .eq('pool_type', poolType)
           .eq('pool_id', poolId)
-          .single();
-
-        if (!stake || stake.pending_rewards <= 0) {
-          toast.error('No rewards to claim');
-          return false;
-        }
+          .maybeSingle();
 
-        rewardsAmount = stake.pending_rewards;
+        rewardsAmount = Number(stake?.pending_rewards || 0);
 
         const { data: pool } = await supabase
           .from('staking_pools')
@@ -93,6 +417,31 @@ export const usePoolActions = () => {
         tokenSymbol = pool?.token_symbol || '';
         tokenAddress = pool?.contract_address || '';
 
+        const { data: streamRewards } = await supabase
+          .from('staking_stream_rewards')
+          .select('stream_id, pending_rewards')
+          .eq('pool_id', poolId)
+          .eq('wallet_address', walletAddress)
+          .gt('pending_rewards', 0);
+
+        if (streamRewards && streamRewards.length > 0) {
+          const { data: streams } = await supabase
+            .from('staking_reward_streams')
+            .select('id, mint, token_symbol')
+            .in('id', streamRewards.map(reward => reward.stream_id));
+
+          for (const reward of streamRewards) {
+            const stream = streams?.find(s => s.id === reward.stream_id);
+            if (!stream) continue;
+            streamPayouts.push({
+              amount: Number(reward.pending_rewards),
+              tokenSymbol: stream.token_symbol,
+              tokenAddress: stream.mint,
+              rewardStreamId: stream.id,
+            });
+          }
+        }
+
       } else if (poolType === 'burn') {
         const { data: burnReward } = await supabase
           .from('burn_rewards')
@@ -150,94 +499,22 @@ export const usePoolActions = () => {
         tokenAddress = pool?.contract_address || '';
       }
 
-      if (rewardsAmount <= 0) {
-        toast.error('No rewards to claim');
-        return false;
-      }
-
-      // Create withdrawal request
-      const result = await createWithdrawalRequest({
-        walletAddress,
-        feature: poolType as 'staking' | 'race' | 'burn' | 'social_farming',
-        amount: rewardsAmount,
-        tokenSymbol,
-        tokenAddress,
-        poolId
-      });
-
-       if (!result) {
-         return false;
-       }
-
-       // Record transaction as pending
-       await supabase.from('transactions').insert({
-         wallet_address: walletAddress,
-         pool_type: poolType,
-         pool_id: poolId,
-         type: 'claim',
-         amount: rewardsAmount,
-         status: 'pending',
-       });
-
-      // Get partially-signed transaction from edge function
-      toast.loading('Preparing transaction...', { id: 'payout' });
-      
-      const { data: payoutResult, error: payoutError } = await supabase.functions.invoke('process-claim-payout', {
-        body: { 
-          withdrawalRequestId: result.id,
-          userWalletAddress: walletAddress
-        }
-      });
-
-      if (payoutError || !payoutResult?.success) {
-        toast.dismiss('payout');
-        console.error('Payout error:', payoutError || payoutResult?.error);
-
-        // Sometimes the payout actually succeeds but the response errors/timeouts.
-        // Before cancelling, re-check the request status.
-        const { data: latestRequest } = await supabase
-          .from('withdrawal_requests')
-          .select('status, tx_hash, admin_notes')
-          .eq('id', result.id)
-          .maybeSingle();
-
-        if (latestRequest?.status === 'completed' && latestRequest?.tx_hash) {
-          toast.success(`Rewards claimed! TX: ${latestRequest.tx_hash.slice(0, 8)}...`);
-          return true;
-        }
+      const payouts: RewardPayout[] = [
+        ...(rewardsAmount > 0 ? [{ amount: rewardsAmount, tokenSymbol, tokenAddress }] : []),
+        ...streamPayouts,
+      ];
 
-        if (latestRequest?.status === 'processing' && latestRequest?.tx_hash) {
-          toast.message('Claim submitted — waiting for confirmation', {
-            description: `TX: ${latestRequest.tx_hash.slice(0, 8)}...`,
-          });
-          return true;
-        }
-
-        // Only cancel if backend never submitted anything.
-        await supabase
-          .from('withdrawal_requests')
-          .update({
-            status: 'cancelled',
-            admin_notes: payoutResult?.error || 'Payout preparation failed',
-          })
-          .eq('id', result.id);
-
-        toast.error(payoutResult?.error || 'Failed to prepare transaction');
+      if (payouts.length === 0) {
+        toast.error('No rewards to claim');
         return false;
       }
 
-      toast.dismiss('payout');
-
-      // Backend now handles everything: sign, submit, confirm, reset balances
-      if (payoutResult?.txHash) {
-        const signature = payoutResult.txHash as string;
-        toast.success(`Rewards claimed! TX: ${signature.slice(0, 8)}...`);
-        return true;
+      // One withdrawal request and payout per reward mint
+      let claimed = 0;
+      for (const payout of payouts) {
+        if (await payOutReward(walletAddress, poolId, poolType, payout)) claimed++;
       }
-
-      // If no txHash, something went wrong
-      toast.error('Payout failed - no transaction returned');
-      return false;
+      return claimed > 0;
 
     } catch (error) {
       console.error('Claim error:', error);
@@ -253,51 +530,8 @@ export const usePoolActions = () => {
     }
 
     try {
-      // Update burn pool stats
-      const { data: pool } = await supabase
-        .from('burn_pools')
-        .select('*')
-        .eq('id', poolId)
-        .single();
-
-      if (pool) {
-        // Check if user already burned in this pool
-        const { data: existingStake } = await supabase
-          .from('user_stakes')
-          .select('*')
-          .eq('wallet_address', walletAddress)
-          .eq('pool_type', 'burn')
-          .eq('pool_id', poolId)
-          .maybeSingle();
-
-        const isNewParticipant = !existingStake;
-
-        await supabase
-          .from('burn_pools')
-          .update({ 
-            total_burned: pool.total_burned + amount,
-            participants: isNewParticipant ? pool.participants + 1 : pool.participants
-          })
-          .eq('id', poolId);
-
-        if (existingStake) {
-          await supabase
-            .from('user_stakes')
-            .update({ amount: existingStake.amount + amount })
-            .eq('id', existingStake.id);
-        } else {
-          await supabase.from('user_stakes').insert({
-            wallet_address: walletAddress,
-            pool_type: 'burn',
-            pool_id: poolId,
-            amount: amount,
-            pending_rewards: 0,
-            points: 0
-          });
-        }
-      }
-
-      // Record transaction
+      // Pool totals and the wallet's burn_rewards are recorded by burn-gamble in the same
+      // transaction as the roll, so only the activity entry is written here
       await supabase.from('transactions').insert({
         wallet_address: walletAddress,
         pool_type: 'burn',
@@ -316,5 +550,5 @@ export const usePoolActions = () => {
     }
   };
 
-  return { stake, unstake, claimRewards, burn };
+  return { stake, unstake, withdrawPosition, setAutoCompound, checkPoolFunding, addRewardStream, claimRewards, burn };
 };
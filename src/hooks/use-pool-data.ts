@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useWallet as useCustomWallet } from '@/contexts/WalletContext';
+import type { AprTier, StakingRewardStream, StakingStreamReward } from '@/types/staking';
 
 // Token info is now embedded in each pool table
 
@@ -13,11 +14,31 @@ interface StakingPool {
   allocation: number;
   min_stake: number;
   lock_period_days: number;
+  // Lock options, sorted by days; apr and lock_period_days mirror the shortest
+  apr_tiers: AprTier[] | null;
   reward_frequency_value: number;
   reward_frequency_unit: string;
   status: string;
   rewards_distributed: number;
   last_distribution_at: string;
+  // 'escrow' pools hold stakes in vault_wallet_address; 'balance' pools track wallet balances
+  custody_mode: 'balance' | 'escrow';
+  vault_wallet_address: string | null;
+  // 'emission' pools share tokens_per_day between stakers instead of paying apr;
+  // depleted_at is set once the whole allocation has been credited
+  reward_mode: 'apr' | 'emission';
+  tokens_per_day: number | null;
+  depleted_at: string | null;
+  // Escrow only: percent of a position withheld if withdrawn at deposit time, decaying to 0 at unlock
+  early_exit_penalty_percent: number;
+  // Funding: 'pending' pools wait for requested_allocation at deposit_wallet_address until
+  // funding_expires_at, then go 'active' (allocation = what arrived) or 'expired'
+  creator_wallet: string | null;
+  deposit_wallet_address: string | null;
+  requested_allocation: number | null;
+  funded_amount: number;
+  funded_at: string | null;
+  funding_expires_at: string | null;
   // Embedded token fields
   token_name: string | null;
   token_symbol: string | null;
@@ -80,6 +101,12 @@ interface SocialFarmingPool {
   tasks: unknown;
   default_points_per_task: number | null;
   custom_points_per_task: number | null;
+  // Epoch schedule the reward pool is paid out on
+  epoch_length_hours: number;
+  epoch_count: number;
+  epochs_settled: number;
+  current_epoch_started_at: string;
+  rewards_distributed: number;
   // Embedded token fields
   token_name: string | null;
   token_symbol: string | null;
@@ -113,11 +140,39 @@ interface UserStake {
   pool_id: string;
   amount: number;
   pending_rewards: number;
+  // Staking only: rewards accrued inside the lock period, released once it ends
+  locked_rewards: number;
+  rewards_accrued_at: string | null;
+  // Staking only: the rate this stake accrues at and, for balance pools, its chosen lock
+  apr: number | null;
+  lock_days: number | null;
+  // Staking only: released rewards are added to amount; compounded_rewards is the part of amount they make up
+  auto_compound: boolean;
+  compounded_rewards: number;
   points: number;
   rank: number | null;
   joined_at: string;
 }
 
+// One verified deposit into an escrow staking vault
+export interface StakingDeposit {
+  id: string;
+  pool_id: string;
+  wallet_address: string;
+  amount: number;
+  deposit_tx_signature: string;
+  deposited_at: string;
+  locked_until: string;
+  apr: number;
+  lock_days: number;
+  status: 'active' | 'withdrawing' | 'withdrawn';
+  withdraw_tx_signature: string | null;
+  // Tokens withheld for an early exit and shared with the pool's other stakers
+  withdraw_penalty: number;
+  withdrawn_at: string | null;
+  withdraw_error: string | null;
+}
+
 interface Transaction {
   id: string;
   wallet_address: string;
@@ -560,6 +615,138 @@ export const useUserStake = (poolType: string, poolId: string | undefined) => {
   return { stake, loading };
 };
 
+export const useStakingDeposits = (poolId: string | undefined) => {
+  const { walletAddress } = useCustomWallet();
+  const [deposits, setDeposits] = useState<StakingDeposit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!walletAddress || !poolId) {
+      setDeposits([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchDeposits = async () => {
+      const { data, error } = await supabase
+        .from('staking_deposits')
+        .select('*')
+        .eq('pool_id', poolId)
+        .eq('wallet_address', walletAddress)
+        .order('deposited_at', { ascending: false });
+
+      if (!error && data) {
+        setDeposits(data as StakingDeposit[]);
+      }
+      setLoading(false);
+    };
+
+    fetchDeposits();
+
+    const channel = supabase
+      .channel(`staking-deposits-${poolId}-${walletAddress}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'staking_deposits',
+          filter: `pool_id=eq.${poolId}`
+        },
+        () => {
+          fetchDeposits();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [walletAddress, poolId]);
+
+  return { deposits, loading };
+};
+
+// A staking pool's extra reward streams and, when connected, the wallet's balance in each
+export const useStakingRewardStreams = (poolId: string | undefined) => {
+  const { walletAddress } = useCustomWallet();
+  const [streams, setStreams] = useState<StakingRewardStream[]>([]);
+  const [rewards, setRewards] = useState<StakingStreamReward[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!poolId) {
+      setStreams([]);
+      setRewards([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchStreams = async () => {
+      const { data, error } = await supabase
+        .from('staking_reward_streams')
+        .select('*')
+        .eq('pool_id', poolId)
+        .order('created_at', { ascending: true });
+
+      if (!error && data) {
+        setStreams(data as StakingRewardStream[]);
+      }
+
+      if (walletAddress) {
+        const { data: rewardData, error: rewardError } = await supabase
+          .from('staking_stream_rewards')
+          .select('*')
+          .eq('pool_id', poolId)
+          .eq('wallet_address', walletAddress);
+
+        if (!rewardError && rewardData) {
+          setRewards(rewardData as StakingStreamReward[]);
+        }
+      } else {
+        setRewards([]);
+      }
+      setLoading(false);
+    };
+
+    fetchStreams();
+
+    const channel = supabase
+      .channel(`staking-streams-${poolId}-${walletAddress || 'anon'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'staking_reward_streams',
+          filter: `pool_id=eq.${poolId}`
+        },
+        () => {
+          fetchStreams();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'staking_stream_rewards',
+          filter: `pool_id=eq.${poolId}`
+        },
+        () => {
+          fetchStreams();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [walletAddress, poolId]);
+
+  return { streams, rewards, loading };
+};
+
 export const useUserTransactions = (poolType: string, poolId: string | undefined) => {
   const { walletAddress } = useCustomWallet();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -9,6 +9,8 @@ interface CreateWithdrawalRequestParams {
   tokenSymbol: string;
   tokenAddress: string;
   poolId: string;
+  // Staking only: the extra reward stream being claimed; omitted for the pool's own token
+  rewardStreamId?: string;
 }
 
 interface WithdrawalRequest {
@@ -20,6 +22,7 @@ interface WithdrawalRequest {
   token_symbol: string;
   token_address: string;
   pool_id: string;
+  reward_stream_id: string | null;
   status: string;
   tx_hash: string | null;
   created_at: string;
@@ -33,13 +36,14 @@ export function useWithdrawalRequest() {
     setIsLoading(true);
 
     try {
-      // Prevent duplicate claims while one is pending/processing
+      // Prevent duplicate claims of the same mint while one is pending/processing
       const { data: existing } = await supabase
         .from('withdrawal_requests')
         .select('id, status, created_at')
         .eq('wallet_address', params.walletAddress)
         .eq('pool_id', params.poolId)
         .eq('feature', params.feature)
+        .eq('token_address', params.tokenAddress)
         .eq('request_type', 'claim')
         .in('status', ['pending', 'processing'])
         .order('created_at', { ascending: false })
@@ -63,6 +67,7 @@ export function useWithdrawalRequest() {
           token_symbol: params.tokenSymbol,
           token_address: params.tokenAddress,
           pool_id: params.poolId,
+          reward_stream_id: params.rewardStreamId ?? null,
           status: 'pending',
         })
         .select()
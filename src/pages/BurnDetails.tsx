@@ -1,15 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Flame, Copy, ExternalLink, Loader2, Trophy, Skull, Wallet, Gift, Clock, CheckCircle2 } from 'lucide-react';
+import { ArrowLeft, Flame, Copy, ExternalLink, Loader2, Trophy, Skull, Wallet, Gift, Clock, CheckCircle2, ShieldCheck, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useWallet } from '@/contexts/WalletContext';
 import { useTokenBalance } from '@/hooks/use-token-balance';
 import { burnSplTokens } from '@/utils/spl-token-utils';
 import { usePoolActions } from '@/hooks/use-pool-actions';
+import { generateClientSeed, verifyBurnRoll, RollVerification } from '@shared/provably-fair';
+import { DEFAULT_PAYOUT_TABLE, formatPayoutTier, getHouseEdge, getMaxBurnAmount, getMaxMultiplier } from '@shared/burn-payouts';
+import type { PayoutTier } from '@/types/burn';
 
 interface BurnPoolData {
   id: string;
@@ -25,6 +28,7 @@ interface BurnPoolData {
   token_logo_url: string;
   token_decimals: number;
   token_total_supply: number;
+  payout_table: PayoutTier[] | null;
 }
 
 interface BurnTransaction {
@@ -34,6 +38,26 @@ interface BurnTransaction {
   result: 'win' | 'lose';
   reward_amount: number;
   created_at: string;
+  seed_id: string | null;
+  client_seed: string | null;
+  nonce: number | null;
+  roll: number | null;
+  multiplier: number | null;
+}
+
+interface BurnSeed {
+  id: string;
+  server_seed_hash: string;
+  server_seed: string | null;
+  next_nonce: number;
+  status: 'active' | 'revealed';
+  payout_table: PayoutTier[] | null;
+}
+
+interface RollCheck {
+  tx: BurnTransaction;
+  seed: BurnSeed | null;
+  verification: RollVerification | null;
 }
 
 interface UserRewards {
@@ -51,7 +75,7 @@ const BurnDetails = () => {
   const { contractAddress } = useParams<{ contractAddress: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { connected, walletAddress } = useWallet();
+  const { connected, walletAddress, getWalletSession, invokeWithSession } = useWallet();
   const { claimRewards } = usePoolActions();
 
   const [pool, setPool] = useState<BurnPoolData | null>(null);
@@ -62,10 +86,15 @@ const BurnDetails = () => {
   const [isGambling, setIsGambling] = useState(false);
   const [gameResult, setGameResult] = useState<GameResult>(null);
   const [lastWinAmount, setLastWinAmount] = useState<number>(0);
+  const [lastMultiplier, setLastMultiplier] = useState<number>(0);
   const [isClaiming, setIsClaiming] = useState(false);
   const [activeTab, setActiveTab] = useState("burn");
-  const [pendingWithdrawals, setPendingWithdrawals] = useState<any[]>([]);
+  const [pendingWithdrawals, setPendingWithdrawals] = useState<Array<{ status: string }>>([]);
   const [hasPendingClaim, setHasPendingClaim] = useState(false);
+  const [activeSeed, setActiveSeed] = useState<BurnSeed | null>(null);
+  const [clientSeed, setClientSeed] = useState("");
+  const [rollCheck, setRollCheck] = useState<RollCheck | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
 
   useEffect(() => {
     const fetchPool = async () => {
@@ -108,26 +137,74 @@ const BurnDetails = () => {
     return () => { supabase.removeChannel(channel); };
   }, [contractAddress]);
 
+  // Effects below only depend on which pool is shown, not on every realtime update to it
+  const poolId = pool?.id;
+
   useEffect(() => {
-    if (!pool) return;
+    if (!poolId) return;
     
     const fetchTransactions = async () => {
       const { data, error } = await supabase.from('burn_transactions').select('*')
-        .eq('pool_id', pool.id).order('created_at', { ascending: false }).limit(15);
+        .eq('pool_id', poolId).order('created_at', { ascending: false }).limit(15);
       if (!error && data) {
         setTransactions(data as BurnTransaction[]);
       }
     };
     
     fetchTransactions();
-  }, [pool?.id]);
+  }, [poolId]);
+
+  const fetchActiveSeed = useCallback(async (seedPoolId: string) => {
+    const { data } = await supabase.from('burn_seeds_public').select('*')
+      .eq('pool_id', seedPoolId).eq('status', 'active').maybeSingle();
+    setActiveSeed(data as BurnSeed | null);
+  }, []);
+
+  useEffect(() => {
+    if (!poolId) return;
+    fetchActiveSeed(poolId);
+  }, [poolId, fetchActiveSeed]);
+
+  // Client seed persists per wallet so players control their half of every roll
+  useEffect(() => {
+    if (!walletAddress) return;
+    const storageKey = `burn_client_seed_${walletAddress}`;
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      setClientSeed(stored);
+    } else {
+      const seed = generateClientSeed();
+      localStorage.setItem(storageKey, seed);
+      setClientSeed(seed);
+    }
+  }, [walletAddress]);
+
+  const updateClientSeed = (seed: string) => {
+    setClientSeed(seed);
+    if (walletAddress && seed) localStorage.setItem(`burn_client_seed_${walletAddress}`, seed);
+  };
+
+  const handleVerifyRoll = async (tx: BurnTransaction) => {
+    if (!tx.seed_id || !tx.client_seed || tx.nonce === null) return;
+    setIsVerifying(true);
+    setRollCheck({ tx, seed: null, verification: null });
+
+    const { data } = await supabase.from('burn_seeds_public').select('*').eq('id', tx.seed_id).maybeSingle();
+    const seed = data as BurnSeed | null;
+    const verification = seed?.server_seed
+      ? await verifyBurnRoll(seed.server_seed, seed.server_seed_hash, tx.client_seed, tx.nonce, seed.payout_table || DEFAULT_PAYOUT_TABLE)
+      : null;
+
+    setRollCheck({ tx, seed, verification });
+    setIsVerifying(false);
+  };
 
   useEffect(() => {
-    if (!pool || !walletAddress) return;
+    if (!poolId || !walletAddress) return;
     
     const fetchUserRewards = async () => {
       const { data, error } = await supabase.from('burn_rewards').select('*')
-        .eq('pool_id', pool.id).eq('wallet_address', walletAddress).maybeSingle();
+        .eq('pool_id', poolId).eq('wallet_address', walletAddress).maybeSingle();
       if (!error && data) {
         setUserRewards(data as UserRewards);
       } else {
@@ -136,10 +213,10 @@ const BurnDetails = () => {
     };
     
     fetchUserRewards();
-  }, [pool?.id, walletAddress]);
+  }, [poolId, walletAddress]);
 
   useEffect(() => {
-    if (!pool || !walletAddress) return;
+    if (!poolId || !walletAddress) return;
     let cancelled = false;
     
     const fetchWithdrawals = async () => {
@@ -147,13 +224,13 @@ const BurnDetails = () => {
         .from('withdrawal_requests')
         .select('*')
         .eq('wallet_address', walletAddress)
-        .eq('pool_id', pool.id)
+        .eq('pool_id', poolId)
         .eq('feature', 'burn')
         .order('created_at', { ascending: false });
       
       if (!error && data && !cancelled) {
         setPendingWithdrawals(data);
-        const hasPending = data.some((w: any) => w.status === 'pending' || w.status === 'processing');
+        const hasPending = data.some((w: { status: string }) => w.status === 'pending' || w.status === 'processing');
         setHasPendingClaim(hasPending);
       }
     };
@@ -161,7 +238,7 @@ const BurnDetails = () => {
     fetchWithdrawals();
 
     const channel = supabase
-      .channel(`burn-withdrawals-${pool.id}-${walletAddress}`)
+      .channel(`burn-withdrawals-${poolId}-${walletAddress}`)
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
@@ -170,14 +247,14 @@ const BurnDetails = () => {
       .subscribe();
 
     const rewardsChannel = supabase
-      .channel(`burn-rewards-${pool.id}-${walletAddress}`)
+      .channel(`burn-rewards-${poolId}-${walletAddress}`)
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'burn_rewards',
       }, async () => {
         const { data } = await supabase.from('burn_rewards').select('*')
-          .eq('pool_id', pool.id).eq('wallet_address', walletAddress).maybeSingle();
+          .eq('pool_id', poolId).eq('wallet_address', walletAddress).maybeSingle();
         if (data && !cancelled) setUserRewards(data as UserRewards);
       })
       .subscribe();
@@ -187,7 +264,7 @@ const BurnDetails = () => {
       supabase.removeChannel(channel);
       supabase.removeChannel(rewardsChannel);
     };
-  }, [pool?.id, walletAddress]);
+  }, [poolId, walletAddress]);
 
   const { balance, loading: balanceLoading, refetch: refetchBalance } = useTokenBalance(pool?.contract_address);
 
@@ -227,11 +304,10 @@ const BurnDetails = () => {
       return;
     }
 
-    const potentialWin = amount * 2;
     const availableRewards = pool.reward_supply - pool.total_paid_out;
+    const maxBurnAmount = getMaxBurnAmount(payoutTable, availableRewards);
     
-    if (potentialWin > availableRewards) {
-      const maxBurnAmount = availableRewards / 2;
+    if (amount > maxBurnAmount) {
       toast({ 
         title: "Amount Too High", 
         description: `Max burn: ${formatNumber(maxBurnAmount)} (based on available rewards)`,
@@ -240,6 +316,13 @@ const BurnDetails = () => {
       return;
     }
 
+    // Sign in before burning so the result can always be submitted afterwards
+    const session = await getWalletSession();
+    if (!session) {
+      toast({ title: "Sign-in Required", description: "Sign the message in your wallet to play", variant: "destructive" });
+      return;
+    }
+
     setIsGambling(true);
     setGameResult('pending');
 
@@ -247,7 +330,7 @@ const BurnDetails = () => {
       { publicKey: walletAddress },
       pool.contract_address,
       amount,
-      pool.token_decimals || 6
+      pool.token_decimals ?? 6
     );
 
     if (!burnResult.success) {
@@ -264,13 +347,12 @@ const BurnDetails = () => {
     refetchBalance();
     toast({ title: "Tokens Burned!", description: `TX: ${burnResult.txHash.slice(0, 8)}...` });
     
-    const { data: gambleResult, error: gambleError } = await supabase.functions.invoke('burn-gamble', {
-      body: {
-        poolId: pool.id,
-        walletAddress,
-        burnAmount: amount,
-        burnTxHash: burnResult.txHash,
-      },
+    const { data: gambleResult, error: gambleError } = await invokeWithSession<{ won: boolean; rewardAmount: number; multiplier: number }>('burn-gamble', {
+      poolId: pool.id,
+      walletAddress,
+      burnAmount: amount,
+      burnTxHash: burnResult.txHash,
+      clientSeed: clientSeed || undefined,
     });
 
     if (gambleError || !gambleResult?.success) {
@@ -285,12 +367,13 @@ const BurnDetails = () => {
       return;
     }
 
-    const { won, rewardAmount } = gambleResult;
+    const { won, rewardAmount, multiplier } = gambleResult;
 
     if (won) {
       setGameResult('win');
       setLastWinAmount(rewardAmount);
-      toast({ title: "DOUBLED!", description: `+${formatNumber(rewardAmount)} ${pool.token_symbol}` });
+      setLastMultiplier(multiplier);
+      toast({ title: `${multiplier}x WIN!`, description: `+${formatNumber(rewardAmount)} ${pool.token_symbol}` });
     } else {
       setGameResult('lose');
       toast({ title: "BURNED!", description: "Gone forever", variant: "destructive" });
@@ -304,6 +387,8 @@ const BurnDetails = () => {
       .eq('pool_id', pool.id).order('created_at', { ascending: false }).limit(15);
     if (updatedTx) setTransactions(updatedTx as BurnTransaction[]);
 
+    fetchActiveSeed(pool.id);
+
     const { data: updatedPool } = await supabase.from('burn_pools').select('status').eq('id', pool.id).single();
     if (updatedPool?.status === 'completed') {
       setTimeout(() => {
@@ -343,6 +428,8 @@ const BurnDetails = () => {
 
   const burnPercentage = pool?.token_total_supply ? ((pool.total_burned / pool.token_total_supply) * 100).toFixed(4) : '0';
   const remainingRewards = pool ? pool.reward_supply - pool.total_paid_out : 0;
+  const payoutTable = pool?.payout_table || DEFAULT_PAYOUT_TABLE;
+  const isDoubleOrNothing = payoutTable.length === 2 && getMaxMultiplier(payoutTable) === 2 && payoutTable[0].chance === 50;
 
   if (loading) {
     return (
@@ -398,7 +485,9 @@ const BurnDetails = () => {
           <h1 className="font-pixel text-xl sm:text-2xl text-foreground mb-2">
             BURN <span className="text-orange-400">{pool.token_symbol}</span>
           </h1>
-          <p className="text-sm text-muted-foreground mb-4">Double or nothing gamble</p>
+          <p className="text-sm text-muted-foreground mb-4">
+            {isDoubleOrNothing ? 'Double or nothing gamble' : `Burn to win up to ${getMaxMultiplier(payoutTable)}x`}
+          </p>
           
           {isPoolCompleted && (
             <div className="inline-flex items-center gap-2 px-4 py-2 bg-muted border-2 border-border mb-4">
@@ -498,7 +587,7 @@ const BurnDetails = () => {
                   {gameResult === 'win' && (
                     <>
                       <Trophy className="w-10 h-10 mx-auto mb-2 text-green-400" />
-                      <p className="font-pixel text-lg text-green-400">DOUBLED!</p>
+                      <p className="font-pixel text-lg text-green-400">{lastMultiplier === 2 ? 'DOUBLED!' : `${lastMultiplier}x WIN!`}</p>
                       <p className="font-pixel text-[9px] text-muted-foreground">+{formatNumber(lastWinAmount)} {pool.token_symbol}</p>
                     </>
                   )}
@@ -560,14 +649,70 @@ const BurnDetails = () => {
                       ) : (
                         <>
                           <Flame className="w-5 h-5 mr-2" />
-                          DOUBLE OR NOTHING
+                          {isDoubleOrNothing ? 'DOUBLE OR NOTHING' : 'BURN & ROLL'}
                         </>
                       )}
                     </Button>
 
-                    <p className="text-center font-pixel text-[8px] text-muted-foreground">
-                      50% chance to double • 50% chance to lose all
-                    </p>
+                    {/* Payout Table */}
+                    <div className="p-3 bg-muted border border-border">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-pixel text-[8px] text-foreground">PAYOUT TABLE</span>
+                        <span className="font-pixel text-[7px] text-muted-foreground">
+                          HOUSE EDGE {getHouseEdge(payoutTable).toFixed(2)}%
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {payoutTable.map((tier, index) => (
+                          <span
+                            key={index}
+                            className={`px-2 py-1 border font-pixel text-[8px] ${tier.multiplier > 0 ? 'border-green-400/40 text-green-400' : 'border-red-400/40 text-red-400'}`}
+                          >
+                            {formatPayoutTier(tier)}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="font-pixel text-[7px] text-muted-foreground mt-2">
+                        Max burn: {formatNumber(getMaxBurnAmount(payoutTable, remainingRewards))} {pool.token_symbol}
+                      </p>
+                    </div>
+
+                    {/* Provably Fair */}
+                    <div className="p-3 bg-muted border border-border space-y-2">
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="w-3 h-3 text-green-400" />
+                        <span className="font-pixel text-[8px] text-foreground">PROVABLY FAIR</span>
+                      </div>
+                      <div>
+                        <p className="font-pixel text-[7px] text-muted-foreground mb-1">SERVER SEED HASH</p>
+                        <p className="font-mono text-[10px] text-foreground break-all">
+                          {activeSeed ? activeSeed.server_seed_hash : 'Committed on first burn'}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="font-pixel text-[7px] text-muted-foreground mb-1">YOUR CLIENT SEED</p>
+                        <div className="flex gap-2">
+                          <Input
+                            value={clientSeed}
+                            onChange={(e) => updateClientSeed(e.target.value.slice(0, 64))}
+                            className="font-mono text-xs h-8 bg-card border border-border"
+                            disabled={isGambling}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => updateClientSeed(generateClientSeed())}
+                            disabled={isGambling}
+                          >
+                            <RefreshCw className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="font-pixel text-[7px] text-muted-foreground">
+                        Next nonce: {activeSeed?.next_nonce ?? 0} • Seed is revealed after it rotates
+                      </p>
+                    </div>
                   </div>
                 </>
               )}
@@ -639,11 +784,73 @@ const BurnDetails = () => {
                         <p className={`font-pixel text-[9px] ${tx.result === 'win' ? 'text-green-400' : 'text-red-400'}`}>
                           {tx.result === 'win' ? `+${formatNumber(tx.reward_amount)}` : `-${formatNumber(tx.burn_amount)}`}
                         </p>
+                        {tx.result === 'win' && tx.multiplier && (
+                          <p className="font-pixel text-[7px] text-muted-foreground">{tx.multiplier}x</p>
+                        )}
+                        {tx.seed_id && (
+                          <button
+                            onClick={() => handleVerifyRoll(tx)}
+                            className="font-pixel text-[7px] text-muted-foreground hover:text-orange-400 transition-colors"
+                          >
+                            VERIFY
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))
                 )}
               </div>
+
+              {/* Verify this roll */}
+              {rollCheck && (
+                <div className="mt-4 p-4 bg-muted border-2 border-border space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="w-4 h-4 text-orange-400" />
+                      <span className="font-pixel text-[9px] text-foreground">VERIFY THIS ROLL</span>
+                    </div>
+                    <button onClick={() => setRollCheck(null)} className="font-pixel text-[8px] text-muted-foreground hover:text-foreground">
+                      CLOSE
+                    </button>
+                  </div>
+
+                  {isVerifying ? (
+                    <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />
+                  ) : (
+                    <>
+                      <div className="font-mono text-[10px] text-muted-foreground space-y-1 break-all">
+                        <p>Server seed hash: <span className="text-foreground">{rollCheck.seed?.server_seed_hash || '—'}</span></p>
+                        <p>Server seed: <span className="text-foreground">{rollCheck.seed?.server_seed || 'not revealed yet'}</span></p>
+                        <p>Client seed: <span className="text-foreground">{rollCheck.tx.client_seed}</span></p>
+                        <p>Nonce: <span className="text-foreground">{rollCheck.tx.nonce}</span></p>
+                        <p>Recorded roll: <span className="text-foreground">{rollCheck.tx.roll?.toFixed(8) ?? '—'}</span></p>
+                      </div>
+
+                      {rollCheck.verification ? (
+                        (() => {
+                          const { hashMatches, roll, result, multiplier } = rollCheck.verification;
+                          const fair = hashMatches && result === rollCheck.tx.result
+                            && (rollCheck.tx.multiplier === null || rollCheck.tx.multiplier === multiplier);
+                          return (
+                            <div className={`p-3 border-2 ${fair ? 'border-green-400 bg-green-400/10' : 'border-red-400 bg-red-400/10'}`}>
+                              <p className={`font-pixel text-[9px] ${fair ? 'text-green-400' : 'text-red-400'}`}>
+                                {fair ? 'VERIFIED' : 'MISMATCH'}
+                              </p>
+                              <p className="font-mono text-[10px] text-muted-foreground">
+                                Hash {hashMatches ? 'matches' : 'does not match'} • Roll {roll.toFixed(8)} → {multiplier > 0 ? `${multiplier}x` : 'LOSE'}
+                              </p>
+                            </div>
+                          );
+                        })()
+                      ) : (
+                        <p className="font-pixel text-[8px] text-muted-foreground">
+                          This seed is still active. It will be revealed when it rotates, then this roll can be recomputed.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           </TabsContent>
         </Tabs>
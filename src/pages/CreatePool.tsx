@@ -43,7 +43,7 @@ const features = [
     id: "burn" as const,
     icon: Flame,
     label: "Burn Pool",
-    description: "Gamified burn mechanism with 50/50 odds to win 2x your burned tokens",
+    description: "Gamified burn mechanism with configurable odds and payout multipliers",
     color: "text-orange-500",
     bgColor: "bg-orange-500/10",
     borderColor: "border-orange-500/20 hover:border-orange-500/40",
@@ -92,7 +92,7 @@ const categoryConfig = {
   'burn': { 
     icon: Flame, 
     label: 'Burn', 
-    description: 'Gamified burn-to-earn mechanics with 50/50 odds.',
+    description: 'Gamified burn-to-earn mechanics with configurable odds.',
     color: 'text-orange-400'
   },
   'social-farming': { 
@@ -153,7 +153,7 @@ const Docs = () => {
     {
       question: "How are rewards calculated?",
       answer:
-        "Rewards vary by utility type. Staking uses APR-based calculations, Race distributes prizes based on leaderboard rankings, Burn offers 50/50 odds for 2x returns, and Social Farming rewards proportional to engagement points.",
+        "Rewards vary by utility type. Staking uses APR-based calculations, Race distributes prizes based on leaderboard rankings, Burn pays out from a creator-defined odds table (50/50 for 2x by default), and Social Farming rewards proportional to engagement points.",
     },
     {
       question: "Are there any fees?",
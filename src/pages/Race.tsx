@@ -19,6 +19,7 @@ interface RacePool {
   time_remaining_hours: number;
   current_round: number | null;
   total_rounds: number | null;
+  ranking_mode: 'balance' | 'net_buy' | null;
 }
 
 const Race = () => {
@@ -188,6 +189,9 @@ const Race = () => {
                   <div>
                     <h3 className="font-pixel text-[10px] group-hover:text-yellow-400 transition-colors">
                       {pool.token_symbol || 'TOKEN'}
+                      {pool.ranking_mode === 'net_buy' && (
+                        <span className="ml-2 font-pixel text-[7px] text-green-400 border border-green-500/30 px-1">NET BUY</span>
+                      )}
                     </h3>
                     <p className="text-xs text-muted-foreground">
                       {pool.token_name || 'Unknown'}
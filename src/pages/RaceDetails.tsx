@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Trophy, ArrowLeft, TrendingUp, Award, ExternalLink, Loader2, Clock, Users, Gift, CheckCircle2, Copy, Zap, Target, Flame, History } from "lucide-react";
+import { Trophy, ArrowLeft, TrendingUp, Award, ExternalLink, Loader2, Clock, Users, Gift, CheckCircle2, Copy, Zap, Target, Flame, History, LineChart } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -18,6 +18,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { useWallet } from "@/contexts/WalletContext";
 import { useToast } from "@/hooks/use-toast";
 import { usePoolActions } from "@/hooks/use-pool-actions";
+import { BalanceHistoryChart } from "@/components/race/BalanceHistoryChart";
+import { ExcludedWallets } from "@/components/race/ExcludedWallets";
+import { VolumeLeaderboard } from "@/components/race/VolumeLeaderboard";
+import { RoundArchive } from "@/components/race/RoundArchive";
+import type { ManualRaceExclusion, RaceRankingMode, RaceRewardSchedule } from "@/types/race";
+import { DEFAULT_REWARD_SCHEDULE, formatRewardSchedule, getRankPayouts } from "@shared/race-rewards";
+import { formatScheduleDuration, getRoundSchedule, getRoundTimeline } from "@shared/race-schedule";
 
 interface RaceData {
   id: string;
@@ -30,11 +37,20 @@ interface RaceData {
   total_rounds: number;
   daily_reward_amount: number;
   round_started_at: string;
+  round_length_minutes: number | null;
+  entry_window_minutes: number | null;
   contract_address: string;
   entry_snapshot_at: string | null;
   snapshot_status: string | null;
   snapshot_error: string | null;
   retry_count: number | null;
+  snapshot_interval_minutes: number | null;
+  eligibility_basis: 'min' | 'time_weighted' | null;
+  reward_schedule: RaceRewardSchedule | null;
+  creator_wallet: string | null;
+  excluded_wallets: ManualRaceExclusion[] | null;
+  auto_distribute: boolean | null;
+  ranking_mode: RaceRankingMode | null;
   // Embedded token fields
   token_name: string | null;
   token_symbol: string | null;
@@ -69,6 +85,9 @@ interface UserReward {
   claimed: boolean;
   created_at: string;
   is_eligible: boolean | null;
+  payout_status: 'queued' | 'sending' | 'paid' | 'failed' | null;
+  payout_tx_signature: string | null;
+  payout_attempts: number | null;
 }
 
 interface WithdrawalRequest {
@@ -79,6 +98,27 @@ interface WithdrawalRequest {
   tx_hash: string | null;
 }
 
+const BAND_STYLES = [
+  { card: 'bg-yellow-500/10 border-yellow-500/20', text: 'text-yellow-400' },
+  { card: 'bg-slate-500/10 border-slate-500/20', text: 'text-slate-400' },
+  { card: 'bg-orange-500/10 border-orange-500/20', text: 'text-orange-400' },
+];
+
+// Must match MAX_PAYOUT_ATTEMPTS in supabase/functions/_shared/race-payouts.ts
+const MAX_AUTO_PAYOUT_ATTEMPTS = 5;
+
+// Auto-distribute races push rewards to winners; those rewards are only claimable by hand once retries run out
+const isAutoPayoutInProgress = (reward: Pick<UserReward, 'payout_status' | 'payout_attempts'>): boolean =>
+  reward.payout_status === 'queued' ||
+  reward.payout_status === 'sending' ||
+  (reward.payout_status === 'failed' && (reward.payout_attempts || 0) < MAX_AUTO_PAYOUT_ATTEMPTS);
+
+// Per-rank payouts for one round, assuming every ranked place stays eligible
+const getRaceRankPayouts = (race: Pick<RaceData, 'daily_reward_amount' | 'prize_pool' | 'total_rounds' | 'reward_schedule'>): number[] => {
+  const dailyPool = race.daily_reward_amount || (race.prize_pool / (race.total_rounds || 1));
+  return getRankPayouts(race.reward_schedule || DEFAULT_REWARD_SCHEDULE, dailyPool);
+};
+
 const RaceDetails = () => {
   const { contractAddress } = useParams<{ contractAddress: string }>();
   const navigate = useNavigate();
@@ -97,6 +137,7 @@ const RaceDetails = () => {
   const [entryTimeRemaining, setEntryTimeRemaining] = useState({ hours: 0, minutes: 0, seconds: 0 });
   const [racePhase, setRacePhase] = useState<'entry' | 'holding' | 'ended'>('entry');
   const [isClaiming, setIsClaiming] = useState<string | null>(null);
+  const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
 
   // Fetch race data and real holders from Helius
   useEffect(() => {
@@ -136,18 +177,13 @@ const RaceDetails = () => {
 
         if (existingParticipants && existingParticipants.length > 0) {
           console.log(`Using ${existingParticipants.length} existing participants from database for round ${data.current_round}`);
-          const dailyPool = data.daily_reward_amount || (data.prize_pool / (data.total_rounds || 1));
-          const tier1Pool = dailyPool * 0.60;
-          const tier2Pool = dailyPool * 0.30;
-          const tier3Pool = dailyPool * 0.10;
+          const rankPayouts = getRaceRankPayouts(data);
           
           const dbHolders: Holder[] = existingParticipants.map((p: any) => {
-            // Calculate estimated reward based on tier if not yet distributed
+            // Calculate estimated reward from the race's schedule if not yet distributed
             let estimatedReward = p.reward_amount;
             if (estimatedReward === 0) {
-              if (p.rank <= 10) estimatedReward = tier1Pool / 10;
-              else if (p.rank <= 50) estimatedReward = tier2Pool / 40;
-              else if (p.rank <= 100) estimatedReward = tier3Pool / 50;
+              estimatedReward = rankPayouts[p.rank - 1] || 0;
             }
             return {
               rank: p.rank,
@@ -162,7 +198,7 @@ const RaceDetails = () => {
           console.log("Fetching real holders for token:", tokenAddress);
           
           try {
-            const tokenDecimals = data.token_decimals || 6;
+            const tokenDecimals = data.token_decimals ?? 6;
             const { data: holdersData, error: holdersError } = await supabase.functions.invoke('fetch-race-holders', {
               body: { tokenAddress, limit: 100, decimals: tokenDecimals }
             });
@@ -170,43 +206,38 @@ const RaceDetails = () => {
             console.log("Holders response:", { holdersData, holdersError });
 
             if (!holdersError && holdersData?.success && holdersData.holders?.length > 0) {
-              const dailyPool = data.daily_reward_amount || (data.prize_pool / (data.total_rounds || 1));
-              const tier1Pool = dailyPool * 0.60;
-              const tier2Pool = dailyPool * 0.30;
-              const tier3Pool = dailyPool * 0.10;
-
-              const realHolders: Holder[] = holdersData.holders.map((h: any) => {
-                let reward = 0;
-                if (h.rank <= 10) reward = tier1Pool / 10;
-                else if (h.rank <= 50) reward = tier2Pool / 40;
-                else reward = tier3Pool / 50;
-
-                return {
-                  rank: h.rank,
+              const rankPayouts = getRaceRankPayouts(data);
+
+              // Preview only: the entry snapshot also skips program-owned and exchange wallets
+              const excludedAddresses = new Set<string>([
+                ...(data.creator_wallet ? [data.creator_wallet] : []),
+                ...((data.excluded_wallets as ManualRaceExclusion[] | null) || []).map(e => e.address)
+              ]);
+
+              const realHolders: Holder[] = holdersData.holders
+                .filter((h: { wallet: string }) => !excludedAddresses.has(h.wallet))
+                .map((h: { wallet: string; balance: number }, index: number) => ({
+                  rank: index + 1,
                   address: h.wallet,
                   balance: h.balance,
-                  dailyReward: reward,
+                  dailyReward: rankPayouts[index] || 0,
                   percentage: 0
-                };
-              });
+                }));
               setHolders(realHolders);
               console.log(`Loaded ${realHolders.length} real holders from Helius`);
             } else {
               console.log("Holders fetch failed or empty, error:", holdersError);
-              const dailyPool = data.daily_reward_amount || (data.prize_pool / (data.total_rounds || 1));
-              const mockHolders: Holder[] = generateMockHolders(dailyPool, data.token_symbol || 'TOKEN');
+              const mockHolders: Holder[] = generateMockHolders(getRaceRankPayouts(data));
               setHolders(mockHolders);
             }
           } catch (fetchError) {
             console.error("Edge function call failed:", fetchError);
-            const dailyPool = data.daily_reward_amount || (data.prize_pool / (data.total_rounds || 1));
-            const mockHolders: Holder[] = generateMockHolders(dailyPool, data.token_symbol || 'TOKEN');
+            const mockHolders: Holder[] = generateMockHolders(getRaceRankPayouts(data));
             setHolders(mockHolders);
           }
         } else {
           console.log("No token address found");
-          const dailyPool = data.daily_reward_amount || (data.prize_pool / (data.total_rounds || 1));
-          const mockHolders: Holder[] = generateMockHolders(dailyPool, data.token_symbol || 'TOKEN');
+          const mockHolders: Holder[] = generateMockHolders(getRaceRankPayouts(data));
           setHolders(mockHolders);
         }
 
@@ -257,7 +288,7 @@ const RaceDetails = () => {
   }, [raceId, walletAddress]);
 
   // Fetch locked participants during holding phase
-  const fetchLockedParticipants = async (currentPhase: 'entry' | 'holding' | 'ended') => {
+  const fetchLockedParticipants = useCallback(async (currentPhase: 'entry' | 'holding' | 'ended') => {
     if (!raceId || !raceData || currentPhase !== 'holding') {
       setLockedParticipants([]);
       return;
@@ -277,10 +308,10 @@ const RaceDetails = () => {
       }
 
       const tokenAddress = raceData.contract_address;
-      const tokenDecimals = raceData.token_decimals || 6;
+      const tokenDecimals = raceData.token_decimals ?? 6;
       const walletAddresses = participants.map(p => p.wallet_address);
 
-      let currentBalances: Record<string, number> = {};
+      const currentBalances: Record<string, number> = {};
 
       try {
         const { data: balancesData, error: balancesError } = await supabase.functions.invoke('fetch-wallet-balances', {
@@ -297,10 +328,7 @@ const RaceDetails = () => {
         console.error('Failed to fetch current balances:', err);
       }
 
-      const dailyPool = raceData.daily_reward_amount || (raceData.prize_pool / (raceData.total_rounds || 1));
-      const tier1Pool = dailyPool * 0.60;
-      const tier2Pool = dailyPool * 0.30;
-      const tier3Pool = dailyPool * 0.10;
+      const rankPayouts = getRaceRankPayouts(raceData);
 
       const locked: LockedParticipant[] = participants.map((p) => {
         const currentBalance = currentBalances[p.wallet_address] || 0;
@@ -308,10 +336,7 @@ const RaceDetails = () => {
         const retentionPercentage = entryBalance > 0 ? (currentBalance / entryBalance) * 100 : 0;
         const isEligible = retentionPercentage >= 90;
 
-        let reward = 0;
-        if (p.rank <= 10) reward = tier1Pool / 10;
-        else if (p.rank <= 50) reward = tier2Pool / 40;
-        else reward = tier3Pool / 50;
+        const reward = rankPayouts[p.rank - 1] || 0;
 
         return {
           rank: p.rank,
@@ -330,11 +355,11 @@ const RaceDetails = () => {
     } catch (error) {
       console.error('Error fetching locked participants:', error);
     }
-  };
+  }, [raceId, raceData]);
 
   useEffect(() => {
     fetchLockedParticipants(racePhase);
-  }, [raceId, raceData, racePhase]);
+  }, [fetchLockedParticipants, racePhase]);
 
   // Refresh balances every hour during holding phase
   useEffect(() => {
@@ -350,7 +375,7 @@ const RaceDetails = () => {
     }, 60 * 60 * 1000); // 1 hour
 
     return () => clearInterval(hourlyInterval);
-  }, [racePhase, raceId, raceData]);
+  }, [racePhase, raceId, raceData, fetchLockedParticipants]);
 
   // Realtime subscription for participants
   useEffect(() => {
@@ -372,15 +397,13 @@ const RaceDetails = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [raceId, raceData, racePhase]);
+  }, [raceId, racePhase, fetchLockedParticipants]);
 
   useEffect(() => {
     if (!raceData?.round_started_at) return;
 
     const updateCountdown = () => {
-      const roundStart = new Date(raceData.round_started_at);
-      const entryEnd = new Date(roundStart.getTime() + 1 * 60 * 60 * 1000);
-      const roundEnd = new Date(roundStart.getTime() + 24 * 60 * 60 * 1000);
+      const { entryEnd, roundEnd } = getRoundTimeline(raceData.round_started_at, getRoundSchedule(raceData));
       const now = new Date();
 
       if (now < entryEnd) {
@@ -415,7 +438,7 @@ const RaceDetails = () => {
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [raceData?.round_started_at]);
+  }, [raceData]);
 
   // Fetch pending withdrawals
   useEffect(() => {
@@ -443,7 +466,7 @@ const RaceDetails = () => {
     }
 
     const reward = userRewards.find(r => r.id === rewardId);
-    if (!reward) return;
+    if (!reward || isAutoPayoutInProgress(reward)) return;
 
     setIsClaiming(rewardId);
     try {
@@ -493,18 +516,10 @@ const RaceDetails = () => {
     return 'Just now';
   };
 
-  const generateMockHolders = (dailyPool: number, symbol: string): Holder[] => {
-    const tier1Pool = dailyPool * 0.60;
-    const tier2Pool = dailyPool * 0.30;
-    const tier3Pool = dailyPool * 0.10;
-
+  const generateMockHolders = (rankPayouts: number[]): Holder[] => {
     return Array.from({ length: 100 }, (_, i) => {
       const rank = i + 1;
-      let reward = 0;
-
-      if (rank <= 10) reward = tier1Pool / 10;
-      else if (rank <= 50) reward = tier2Pool / 40;
-      else reward = tier3Pool / 50;
+      const reward = rankPayouts[i] || 0;
 
       return {
         rank,
@@ -535,7 +550,7 @@ const RaceDetails = () => {
   };
 
   // Only show actually claimable rewards (not claimed AND reward_amount > 0)
-  const unclaimedRewards = userRewards.filter(r => !r.claimed && r.reward_amount > 0);
+  const unclaimedRewards = userRewards.filter(r => !r.claimed && r.reward_amount > 0 && !isAutoPayoutInProgress(r));
   const totalUnclaimedAmount = unclaimedRewards.reduce((sum, r) => sum + r.reward_amount, 0);
 
   if (isLoading) {
@@ -565,6 +580,37 @@ const RaceDetails = () => {
   }
 
   const dailyPool = raceData.daily_reward_amount || (raceData.prize_pool / raceData.total_rounds);
+  const rewardSchedule = raceData.reward_schedule || DEFAULT_REWARD_SCHEDULE;
+  const rankPayouts = getRaceRankPayouts(raceData);
+
+  const roundSchedule = getRoundSchedule(raceData);
+  const excludedAddresses = new Set<string>([
+    ...(raceData.creator_wallet ? [raceData.creator_wallet] : []),
+    ...(raceData.excluded_wallets || []).map(e => e.address)
+  ]);
+  const roundSecondsLeft = timeRemaining.hours * 3600 + timeRemaining.minutes * 60 + timeRemaining.seconds;
+  const roundProgress = racePhase === 'ended'
+    ? 100
+    : Math.min(100, Math.max(0, (1 - roundSecondsLeft / (roundSchedule.roundLengthMinutes * 60)) * 100));
+
+  // Tier schedules show their tiers; curves show the top three ranks
+  const rewardBands = rewardSchedule.curve === 'tiers'
+    ? (rewardSchedule.tiers || []).map(tier => ({
+        label: tier.fromRank === 1 ? `Top ${tier.toRank}` : `Rank ${tier.fromRank}-${tier.toRank}`,
+        perRank: rankPayouts[tier.fromRank - 1] || 0,
+        note: `${tier.percent}% pool`
+      }))
+    : rankPayouts.slice(0, 3).map((amount, i) => ({
+        label: `Rank ${i + 1}`,
+        perRank: amount,
+        note: `${dailyPool > 0 ? ((amount / dailyPool) * 100).toFixed(1) : '0'}% pool`
+      }));
+
+  // Balance chart: the clicked participant, else the connected wallet if it is racing, else the leader
+  const chartParticipant =
+    lockedParticipants.find(p => p.wallet_address === selectedWallet) ||
+    lockedParticipants.find(p => p.wallet_address === walletAddress) ||
+    lockedParticipants[0];
   const userHolder = connected && walletAddress ? holders.find(h => h.address === walletAddress) : null;
 
   return (
@@ -596,7 +642,13 @@ const RaceDetails = () => {
               <h1 className="text-2xl font-bold">{raceData.token_name} Race</h1>
               <p className="text-muted-foreground">${raceData.token_symbol} • Round {raceData.current_round}/{raceData.total_rounds}</p>
             </div>
-            <Badge className={`ml-auto ${racePhase === 'entry' ? 'bg-green-500' : racePhase === 'holding' ? 'bg-yellow-500' : 'bg-red-500'}`}>
+            {raceData.auto_distribute && (
+              <Badge variant="outline" className="ml-auto border-green-500/30 text-green-400">
+                <Zap className="w-3 h-3 mr-1" />
+                Auto-payout
+              </Badge>
+            )}
+            <Badge className={`${raceData.auto_distribute ? '' : 'ml-auto'} ${racePhase === 'entry' ? 'bg-green-500' : racePhase === 'holding' ? 'bg-yellow-500' : 'bg-red-500'}`}>
               {racePhase === 'entry' ? 'Entry Phase' : racePhase === 'holding' ? 'Holding Phase' : 'Round Ended'}
             </Badge>
           </div>
@@ -606,7 +658,11 @@ const RaceDetails = () => {
             <div className="flex items-center justify-between text-sm mb-2">
               <span className="text-muted-foreground">Round Progress</span>
               <span className="font-medium">
-                {racePhase === 'entry' ? 'Entry Phase (1h)' : racePhase === 'holding' ? 'Holding Phase (23h)' : 'Round Complete'}
+                {racePhase === 'entry'
+                  ? `Entry Phase (${formatScheduleDuration(roundSchedule.entryWindowMinutes)})`
+                  : racePhase === 'holding'
+                    ? `Holding Phase (${formatScheduleDuration(roundSchedule.roundLengthMinutes - roundSchedule.entryWindowMinutes)})`
+                    : 'Round Complete'}
               </span>
             </div>
             <div className="h-2 bg-muted rounded-full overflow-hidden">
@@ -614,18 +670,13 @@ const RaceDetails = () => {
                 className={`h-full transition-all duration-500 ${
                   racePhase === 'entry' ? 'bg-green-500' : racePhase === 'holding' ? 'bg-yellow-500' : 'bg-primary'
                 }`}
-                style={{
-                  width: racePhase === 'ended' ? '100%' : 
-                    racePhase === 'entry' 
-                      ? `${((60 - entryTimeRemaining.minutes) / 60) * 4.17}%`  // Entry is ~4.17% of 24h
-                      : `${4.17 + ((23 - timeRemaining.hours) / 23) * 95.83}%` // Holding is remaining 95.83%
-                }}
+                style={{ width: `${roundProgress}%` }}
               />
             </div>
             <div className="flex justify-between text-xs text-muted-foreground mt-1">
               <span>Start</span>
-              <span>Entry Closes (1h)</span>
-              <span>Round Ends (24h)</span>
+              <span>Entry Closes ({formatScheduleDuration(roundSchedule.entryWindowMinutes)})</span>
+              <span>Round Ends ({formatScheduleDuration(roundSchedule.roundLengthMinutes)})</span>
             </div>
           </div>
 
@@ -683,22 +734,18 @@ const RaceDetails = () => {
           </div>
 
           {/* Reward Tiers - Compact */}
+          <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+            <span>Reward Schedule</span>
+            <span>{formatRewardSchedule(rewardSchedule)}</span>
+          </div>
           <div className="grid grid-cols-3 gap-2 mb-6">
-            <div className="p-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-center">
-              <p className="text-[10px] text-muted-foreground">Top 10</p>
-              <p className="text-sm font-bold text-yellow-400">{formatNumber(dailyPool * 0.6 / 10)}</p>
-              <p className="text-[10px] text-muted-foreground">60% pool</p>
-            </div>
-            <div className="p-2 bg-slate-500/10 border border-slate-500/20 rounded-lg text-center">
-              <p className="text-[10px] text-muted-foreground">Rank 11-50</p>
-              <p className="text-sm font-bold text-slate-400">{formatNumber(dailyPool * 0.3 / 40)}</p>
-              <p className="text-[10px] text-muted-foreground">30% pool</p>
-            </div>
-            <div className="p-2 bg-orange-500/10 border border-orange-500/20 rounded-lg text-center">
-              <p className="text-[10px] text-muted-foreground">Rank 51-100</p>
-              <p className="text-sm font-bold text-orange-400">{formatNumber(dailyPool * 0.1 / 50)}</p>
-              <p className="text-[10px] text-muted-foreground">10% pool</p>
-            </div>
+            {rewardBands.map((band, i) => (
+              <div key={band.label} className={`p-2 border rounded-lg text-center ${BAND_STYLES[i % BAND_STYLES.length].card}`}>
+                <p className="text-[10px] text-muted-foreground">{band.label}</p>
+                <p className={`text-sm font-bold ${BAND_STYLES[i % BAND_STYLES.length].text}`}>{formatNumber(band.perRank)}</p>
+                <p className="text-[10px] text-muted-foreground">{band.note}</p>
+              </div>
+            ))}
           </div>
 
           {/* User Rewards */}
@@ -733,7 +780,7 @@ const RaceDetails = () => {
 
           {/* Leaderboard */}
           <Tabs defaultValue="leaderboard" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="leaderboard">
                 <Trophy className="w-4 h-4 mr-2" />
                 Leaderboard
@@ -746,80 +793,114 @@ const RaceDetails = () => {
                 <History className="w-4 h-4 mr-2" />
                 History
               </TabsTrigger>
+              <TabsTrigger value="balances">
+                <LineChart className="w-4 h-4 mr-2" />
+                Balances
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="leaderboard" className="mt-4">
-              <Card className="border-green-500/20 overflow-hidden">
-                <div className="max-h-[500px] overflow-y-auto">
-                  <Table>
-                    <TableHeader className="sticky top-0 bg-background">
-                      <TableRow>
-                        <TableHead className="w-16">Rank</TableHead>
-                        <TableHead>Wallet</TableHead>
-                        {racePhase === 'holding' && <TableHead className="text-center">Status</TableHead>}
-                        <TableHead className="text-right">Balance</TableHead>
-                        {racePhase === 'holding' && <TableHead className="text-right">Retention</TableHead>}
-                        <TableHead className="text-right">Daily Reward</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {(racePhase === 'holding' ? lockedParticipants : holders).slice(0, 100).map((holder, index) => {
-                        const isLocked = 'wallet_address' in holder;
-                        const address = isLocked ? (holder as LockedParticipant).wallet_address : (holder as Holder).address;
-                        const entryBalance = isLocked ? (holder as LockedParticipant).entry_balance : 0;
-                        const currentBalance = isLocked ? (holder as LockedParticipant).current_balance : (holder as Holder).balance;
-                        const retentionPct = isLocked ? (holder as LockedParticipant).retention_percentage : 100;
-                        const isEligible = isLocked ? (holder as LockedParticipant).is_eligible : true;
-                        const reward = holder.dailyReward;
-                        const isUser = address === walletAddress;
+              {raceData.ranking_mode === 'net_buy' ? (
+                <Card className="border-green-500/20 overflow-hidden">
+                  <p className="text-xs text-muted-foreground p-3 border-b border-border">
+                    Ranked by net buy volume this round: tokens bought minus tokens sold through swaps, counted up to what each wallet still holds when the round ends.
+                  </p>
+                  <VolumeLeaderboard
+                    raceId={raceData.id}
+                    roundNumber={raceData.current_round}
+                    rankPayouts={rankPayouts}
+                    excludedAddresses={excludedAddresses}
+                    walletAddress={walletAddress}
+                  />
+                </Card>
+              ) : (
+                <Card className="border-green-500/20 overflow-hidden">
+                  <div className="max-h-[500px] overflow-y-auto">
+                    <Table>
+                      <TableHeader className="sticky top-0 bg-background">
+                        <TableRow>
+                          <TableHead className="w-16">Rank</TableHead>
+                          <TableHead>Wallet</TableHead>
+                          {racePhase === 'holding' && <TableHead className="text-center">Status</TableHead>}
+                          <TableHead className="text-right">Balance</TableHead>
+                          {racePhase === 'holding' && <TableHead className="text-right">Retention</TableHead>}
+                          <TableHead className="text-right">Daily Reward</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {(racePhase === 'holding' ? lockedParticipants : holders).slice(0, 100).map((holder, index) => {
+                          const isLocked = 'wallet_address' in holder;
+                          const address = isLocked ? (holder as LockedParticipant).wallet_address : (holder as Holder).address;
+                          const entryBalance = isLocked ? (holder as LockedParticipant).entry_balance : 0;
+                          const currentBalance = isLocked ? (holder as LockedParticipant).current_balance : (holder as Holder).balance;
+                          const retentionPct = isLocked ? (holder as LockedParticipant).retention_percentage : 100;
+                          const isEligible = isLocked ? (holder as LockedParticipant).is_eligible : true;
+                          const reward = holder.dailyReward;
+                          const isUser = address === walletAddress;
                         
-                        return (
-                          <TableRow key={index} className={`${getRankBg(holder.rank)} ${isUser ? 'ring-2 ring-green-500' : ''} ${!isEligible && racePhase === 'holding' ? 'opacity-60' : ''}`}>
-                            <TableCell className="font-bold">
-                              {holder.rank <= 3 ? (
-                                <span className={`${holder.rank === 1 ? 'text-yellow-400' : holder.rank === 2 ? 'text-slate-300' : 'text-orange-400'}`}>
-                                  #{holder.rank}
-                                </span>
-                              ) : (
-                                `#${holder.rank}`
-                              )}
-                            </TableCell>
-                            <TableCell>
-                              <span className="font-mono text-sm">{formatAddress(address)}</span>
-                              {isUser && <Badge className="ml-2 bg-green-500">You</Badge>}
-                            </TableCell>
-                            {racePhase === 'holding' && (
-                              <TableCell className="text-center">
-                                {isEligible ? (
-                                  <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
-                                    <CheckCircle2 className="w-3 h-3 mr-1" />
-                                    Eligible
-                                  </Badge>
+                          return (
+                            <TableRow
+                              key={index}
+                              className={`${getRankBg(holder.rank)} ${isUser ? 'ring-2 ring-green-500' : ''} ${!isEligible && racePhase === 'holding' ? 'opacity-60' : ''} ${isLocked ? 'cursor-pointer' : ''}`}
+                              onClick={() => isLocked && setSelectedWallet(address)}
+                            >
+                              <TableCell className="font-bold">
+                                {holder.rank <= 3 ? (
+                                  <span className={`${holder.rank === 1 ? 'text-yellow-400' : holder.rank === 2 ? 'text-slate-300' : 'text-orange-400'}`}>
+                                    #{holder.rank}
+                                  </span>
                                 ) : (
-                                  <Badge variant="destructive" className="bg-red-500/20 text-red-400 border-red-500/30">
-                                    Sold
-                                  </Badge>
+                                  `#${holder.rank}`
                                 )}
                               </TableCell>
-                            )}
-                            <TableCell className="text-right font-mono">{formatNumber(currentBalance)}</TableCell>
-                            {racePhase === 'holding' && (
-                              <TableCell className="text-right">
-                                <span className={`font-mono text-sm ${retentionPct >= 90 ? 'text-green-400' : 'text-red-400'}`}>
-                                  {retentionPct.toFixed(1)}%
-                                </span>
+                              <TableCell>
+                                <span className="font-mono text-sm">{formatAddress(address)}</span>
+                                {isUser && <Badge className="ml-2 bg-green-500">You</Badge>}
                               </TableCell>
-                            )}
-                            <TableCell className={`text-right font-bold ${isEligible ? 'text-green-400' : 'text-muted-foreground line-through'}`}>
-                              +{formatNumber(reward)}
-                            </TableCell>
-                          </TableRow>
-                        );
-                      })}
-                    </TableBody>
-                  </Table>
-                </div>
-              </Card>
+                              {racePhase === 'holding' && (
+                                <TableCell className="text-center">
+                                  {isEligible ? (
+                                    <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                                      Eligible
+                                    </Badge>
+                                  ) : (
+                                    <Badge variant="destructive" className="bg-red-500/20 text-red-400 border-red-500/30">
+                                      Sold
+                                    </Badge>
+                                  )}
+                                </TableCell>
+                              )}
+                              <TableCell className="text-right font-mono">{formatNumber(currentBalance)}</TableCell>
+                              {racePhase === 'holding' && (
+                                <TableCell className="text-right">
+                                  <span className={`font-mono text-sm ${retentionPct >= 90 ? 'text-green-400' : 'text-red-400'}`}>
+                                    {retentionPct.toFixed(1)}%
+                                  </span>
+                                </TableCell>
+                              )}
+                              <TableCell className={`text-right font-bold ${isEligible ? 'text-green-400' : 'text-muted-foreground line-through'}`}>
+                                +{formatNumber(reward)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </Card>
+              )}
+
+              <div className="mt-4">
+                <ExcludedWallets
+                  raceId={raceData.id}
+                  roundNumber={raceData.current_round}
+                  creatorWallet={raceData.creator_wallet}
+                  manualExclusions={raceData.excluded_wallets || []}
+                  tokenSymbol={raceData.token_symbol}
+                  onManualExclusionsChange={(excluded_wallets) => setRaceData({ ...raceData, excluded_wallets })}
+                />
+              </div>
             </TabsContent>
 
             <TabsContent value="my-rewards" className="mt-4">
@@ -883,7 +964,24 @@ const RaceDetails = () => {
                                 +{formatNumber(reward.reward_amount)}
                               </TableCell>
                               <TableCell className="text-right">
-                                {reward.claimed ? (
+                                {reward.claimed && reward.payout_status === 'paid' ? (
+                                  <div className="flex items-center justify-end gap-2">
+                                    <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                                      Auto-paid
+                                    </Badge>
+                                    {reward.payout_tx_signature && (
+                                      <a
+                                        href={`https://solscan.io/tx/${reward.payout_tx_signature}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-primary hover:underline"
+                                      >
+                                        <ExternalLink className="w-4 h-4" />
+                                      </a>
+                                    )}
+                                  </div>
+                                ) : reward.claimed ? (
                                   withdrawal ? (
                                     <div className="flex items-center justify-end gap-2">
                                       <Badge 
@@ -914,6 +1012,11 @@ const RaceDetails = () => {
                                       Claimed
                                     </Badge>
                                   )
+                                ) : isAutoPayoutInProgress(reward) ? (
+                                  <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                                    <Clock className="w-3 h-3 mr-1" />
+                                    {reward.payout_status === 'failed' ? 'Retrying' : 'Sending'}
+                                  </Badge>
                                 ) : reward.reward_amount === 0 || reward.is_eligible === false ? (
                                   <TooltipProvider>
                                     <Tooltip>
@@ -923,7 +1026,7 @@ const RaceDetails = () => {
                                         </Badge>
                                       </TooltipTrigger>
                                       <TooltipContent>
-                                        <p>You sold or dropped below 90% of entry balance</p>
+                                        <p>Your balance dropped below 90% of entry during the round</p>
                                       </TooltipContent>
                                     </Tooltip>
                                   </TooltipProvider>
@@ -948,7 +1051,8 @@ const RaceDetails = () => {
               )}
             </TabsContent>
 
-            <TabsContent value="history" className="mt-4">
+            <TabsContent value="history" className="mt-4 space-y-4">
+              <RoundArchive raceId={raceData.id} contractAddress={raceData.contract_address} tokenSymbol={raceData.token_symbol} />
               {!connected ? (
                 <Card className="p-8 text-center border-border">
                   <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
@@ -1006,7 +1110,13 @@ const RaceDetails = () => {
                               <TableCell>
                                 <div className="flex items-center gap-2">
                                   <Trophy className={`w-4 h-4 ${reward.rank <= 3 ? 'text-yellow-400' : 'text-muted-foreground'}`} />
-                                  <span className="font-bold">Round {reward.round_number}</span>
+                                  <button
+                                    type="button"
+                                    className="font-bold hover:underline"
+                                    onClick={() => navigate(`/race/${raceData.contract_address}/round/${reward.round_number}`)}
+                                  >
+                                    Round {reward.round_number}
+                                  </button>
                                 </div>
                               </TableCell>
                               <TableCell>
@@ -1080,6 +1190,34 @@ const RaceDetails = () => {
               )}
             </TabsContent>
 
+            <TabsContent value="balances" className="mt-4">
+              {!chartParticipant ? (
+                <Card className="p-8 text-center border-border">
+                  <LineChart className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">Balance history is recorded for participants once entry closes</p>
+                </Card>
+              ) : (
+                <Card className="p-4 border-green-500/20">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-bold">
+                      #{chartParticipant.rank} • <span className="font-mono text-sm">{formatAddress(chartParticipant.wallet_address)}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">Entry: {formatNumber(chartParticipant.entry_balance)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    Sampled every {raceData.snapshot_interval_minutes || 60} min. Rank and eligibility use the {raceData.eligibility_basis === 'time_weighted' ? 'time-weighted' : 'minimum'} balance across all samples. Click a leaderboard row to view another wallet.
+                  </p>
+                  <BalanceHistoryChart
+                    raceId={raceData.id}
+                    roundNumber={raceData.current_round}
+                    walletAddress={chartParticipant.wallet_address}
+                    entryBalance={chartParticipant.entry_balance}
+                    tokenSymbol={raceData.token_symbol}
+                  />
+                </Card>
+              )}
+            </TabsContent>
+
           </Tabs>
         </div>
       </main>
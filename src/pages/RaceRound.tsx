@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ChevronLeft, ChevronRight, Copy, ExternalLink, History, Loader2, Trophy } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useWallet } from "@/contexts/WalletContext";
+import { useToast } from "@/hooks/use-toast";
+import type { RaceExclusion, RaceRoundRecord } from "@/types/race";
+import { formatRewardSchedule } from "@shared/race-rewards";
+
+interface ArchivedRace {
+  id: string;
+  contract_address: string;
+  token_name: string | null;
+  token_symbol: string | null;
+  token_logo_url: string | null;
+  current_round: number;
+  total_rounds: number;
+  status: string;
+}
+
+interface ArchivedParticipant {
+  id: string;
+  rank: number;
+  wallet_address: string;
+  entry_balance: number | null;
+  token_balance: number;
+  min_balance: number | null;
+  time_weighted_balance: number | null;
+  net_buy_volume: number | null;
+  is_eligible: boolean | null;
+  reward_amount: number;
+  claimed: boolean;
+  payout_status: string | null;
+  payout_tx_signature: string | null;
+}
+
+// Must match MIN_RETENTION_RATIO in distribute-race-rewards
+const MIN_RETENTION_RATIO = 0.9;
+
+const formatNumber = (num: number): string => {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+// Public, shareable record of one finished race round: who ranked where, why they were or were not eligible, and what they were paid
+const RaceRound = () => {
+  const { contractAddress, roundNumber } = useParams<{ contractAddress: string; roundNumber: string }>();
+  const navigate = useNavigate();
+  const { walletAddress } = useWallet();
+  const { toast } = useToast();
+
+  const [race, setRace] = useState<ArchivedRace | null>(null);
+  const [round, setRound] = useState<RaceRoundRecord | null>(null);
+  const [participants, setParticipants] = useState<ArchivedParticipant[]>([]);
+  const [exclusions, setExclusions] = useState<Map<string, RaceExclusion>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const requestedRound = parseInt(roundNumber || '', 10);
+
+  useEffect(() => {
+    const fetchRound = async () => {
+      if (!contractAddress || !Number.isInteger(requestedRound) || requestedRound < 1) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        // A token can have had several races; the archive follows the latest one
+        const { data: raceRow, error: raceError } = await supabase
+          .from('race_pools')
+          .select('id, contract_address, token_name, token_symbol, token_logo_url, current_round, total_rounds, status')
+          .eq('contract_address', contractAddress)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (raceError) throw raceError;
+        setRace(raceRow as ArchivedRace | null);
+        if (!raceRow) return;
+
+        const [roundResult, participantsResult, exclusionsResult] = await Promise.all([
+          supabase
+            .from('race_rounds')
+            .select('*')
+            .eq('race_id', raceRow.id)
+            .eq('round_number', requestedRound)
+            .maybeSingle(),
+          supabase
+            .from('race_participants')
+            .select('id, rank, wallet_address, entry_balance, token_balance, min_balance, time_weighted_balance, net_buy_volume, is_eligible, reward_amount, claimed, payout_status, payout_tx_signature')
+            .eq('race_id', raceRow.id)
+            .eq('round_number', requestedRound)
+            .order('rank', { ascending: true }),
+          supabase
+            .from('race_exclusions')
+            .select('wallet_address, reason, detail, balance')
+            .eq('race_id', raceRow.id)
+            .eq('round_number', requestedRound)
+        ]);
+
+        setRound(roundResult.data as RaceRoundRecord | null);
+        setParticipants((participantsResult.data || []) as ArchivedParticipant[]);
+        setExclusions(new Map(((exclusionsResult.data || []) as RaceExclusion[]).map(e => [e.wallet_address, e])));
+      } catch (error) {
+        console.error("Error fetching race round:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRound();
+  }, [contractAddress, requestedRound]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast({ title: "Link Copied", description: `Round ${requestedRound} results link copied` });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <main className="pb-20 md:pb-0">
+          <div className="flex items-center justify-center h-[80vh]">
+            <Loader2 className="h-8 w-8 animate-spin text-green-500" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!race || !round) {
+    return (
+      <div className="min-h-screen bg-background">
+        <main className="pb-20 md:pb-0">
+          <div className="flex flex-col items-center justify-center h-[80vh] gap-4">
+            <History className="h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">{race ? `Round ${requestedRound} has not finished yet` : 'Race not found'}</p>
+            <Button onClick={() => navigate(race ? `/race/${race.contract_address}` : '/race')} variant="outline">
+              {race ? 'Back to Race' : 'Back to Races'}
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const isNetBuy = round.ranking_mode === 'net_buy';
+  const basisLabel = round.eligibility_basis === 'time_weighted' ? 'Time-weighted' : 'Minimum';
+  const lastArchivedRound = race.status === 'completed' ? race.total_rounds : race.current_round - 1;
+
+  // Why a wallet did or did not qualify, from the values the distributor stored
+  const getOutcome = (p: ArchivedParticipant): { label: string; eligible: boolean; detail?: string } => {
+    const exclusion = exclusions.get(p.wallet_address);
+    if (exclusion) return { label: 'Excluded', eligible: false, detail: exclusion.detail || exclusion.reason };
+    if (isNetBuy) return { label: 'Eligible', eligible: p.is_eligible !== false };
+    if (p.is_eligible) return { label: 'Eligible', eligible: true };
+    return { label: 'Sold', eligible: false, detail: `Below ${MIN_RETENTION_RATIO * 100}% of entry` };
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="pb-20 md:pb-0">
+        <div className="max-w-4xl mx-auto px-4 py-6">
+          <div className="flex items-center justify-between mb-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/race/${race.contract_address}`)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Race
+            </Button>
+            <Button variant="outline" size="sm" onClick={copyLink}>
+              <Copy className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-6">
+            {race.token_logo_url && (
+              <img
+                src={race.token_logo_url}
+                alt={race.token_name || ''}
+                className="w-16 h-16 rounded-full border-2 border-green-500/30"
+              />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold">{race.token_name} Race • Round {round.round_number}</h1>
+              <p className="text-muted-foreground">
+                ${race.token_symbol} • {formatDateTime(round.started_at)} → {formatDateTime(round.ended_at)}
+              </p>
+            </div>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={round.round_number <= 1}
+                onClick={() => navigate(`/race/${race.contract_address}/round/${round.round_number - 1}`)}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={round.round_number >= lastArchivedRound}
+                onClick={() => navigate(`/race/${race.contract_address}/round/${round.round_number + 1}`)}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Round rules and totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            <Card className="p-3 text-center">
+              <p className="text-xs text-muted-foreground mb-1">Round Pool</p>
+              <p className="font-bold text-green-400">{formatNumber(Number(round.round_pool))}</p>
+            </Card>
+            <Card className="p-3 text-center">
+              <p className="text-xs text-muted-foreground mb-1">Participants</p>
+              <p className="font-bold">{round.participant_count}</p>
+            </Card>
+            <Card className="p-3 text-center">
+              <p className="text-xs text-muted-foreground mb-1">Eligible</p>
+              <p className="font-bold">{round.eligible_count}</p>
+            </Card>
+            <Card className="p-3 text-center">
+              <p className="text-xs text-muted-foreground mb-1">Paid Out</p>
+              <p className="font-bold text-green-400">{formatNumber(Number(round.total_rewarded))}</p>
+            </Card>
+          </div>
+          <p className="text-xs text-muted-foreground mb-6">
+            {isNetBuy
+              ? 'Ranked by net buy volume (tokens bought minus sold) during the round.'
+              : `Entry snapshot ${formatDateTime(round.entry_snapshot_at)}. Ranked by ${basisLabel.toLowerCase()} balance; wallets whose ${basisLabel.toLowerCase()} balance fell below ${MIN_RETENTION_RATIO * 100}% of their entry balance were ineligible.`}
+            {' '}Rewards: {formatRewardSchedule(round.reward_schedule)}.
+          </p>
+
+          <Card className="border-green-500/20 overflow-hidden">
+            {participants.length === 0 ? (
+              <div className="p-8 text-center">
+                <Trophy className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No participants were ranked this round</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Rank</TableHead>
+                      <TableHead>Wallet</TableHead>
+                      {isNetBuy ? (
+                        <TableHead className="text-right">Net Buy</TableHead>
+                      ) : (
+                        <>
+                          <TableHead className="text-right">Entry</TableHead>
+                          <TableHead className="text-right">{basisLabel}</TableHead>
+                          <TableHead className="text-right">End</TableHead>
+                        </>
+                      )}
+                      <TableHead className="text-center">Outcome</TableHead>
+                      <TableHead className="text-right">Reward</TableHead>
+                      <TableHead className="text-right">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {participants.map(p => {
+                      const outcome = getOutcome(p);
+                      const entryBalance = Number(p.entry_balance ?? p.token_balance);
+                      const decidingBalance = Number(
+                        (round.eligibility_basis === 'time_weighted' ? p.time_weighted_balance : p.min_balance) ?? p.token_balance
+                      );
+                      const retention = entryBalance > 0 ? (decidingBalance / entryBalance) * 100 : 0;
+                      const isUser = p.wallet_address === walletAddress;
+
+                      return (
+                        <TableRow key={p.id} className={`${isUser ? 'ring-2 ring-green-500' : ''} ${outcome.eligible ? '' : 'opacity-60'}`}>
+                          <TableCell className="font-bold">#{p.rank}</TableCell>
+                          <TableCell>
+                            <a
+                              href={`https://solscan.io/account/${p.wallet_address}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-sm hover:underline"
+                            >
+                              {formatAddress(p.wallet_address)}
+                            </a>
+                            {isUser && <Badge className="ml-2 bg-green-500">You</Badge>}
+                          </TableCell>
+                          {isNetBuy ? (
+                            <TableCell className="text-right font-mono">{formatNumber(Number(p.net_buy_volume || 0))}</TableCell>
+                          ) : (
+                            <>
+                              <TableCell className="text-right font-mono">{formatNumber(entryBalance)}</TableCell>
+                              <TableCell className="text-right font-mono">
+                                {formatNumber(decidingBalance)}
+                                <span className={`ml-1 text-xs ${retention >= MIN_RETENTION_RATIO * 100 ? 'text-green-400' : 'text-red-400'}`}>
+                                  {retention.toFixed(1)}%
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-right font-mono">{formatNumber(Number(p.token_balance))}</TableCell>
+                            </>
+                          )}
+                          <TableCell className="text-center">
+                            <Badge
+                              className={outcome.eligible ? 'bg-green-500/20 text-green-400 border-green-500/30' : 'bg-red-500/20 text-red-400 border-red-500/30'}
+                              title={outcome.detail}
+                            >
+                              {outcome.label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className={`text-right font-bold ${p.reward_amount > 0 ? 'text-green-400' : 'text-muted-foreground'}`}>
+                            {p.reward_amount > 0 ? `+${formatNumber(Number(p.reward_amount))}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-right text-xs">
+                            {p.reward_amount <= 0 ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : p.claimed ? (
+                              <span className="inline-flex items-center gap-1 text-green-400">
+                                {p.payout_status === 'paid' ? 'Auto-paid' : 'Claimed'}
+                                {p.payout_tx_signature && (
+                                  <a
+                                    href={`https://solscan.io/tx/${p.payout_tx_signature}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-primary"
+                                  >
+                                    <ExternalLink className="w-3 h-3" />
+                                  </a>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-yellow-400">Unclaimed</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default RaceRound;
@@ -86,6 +86,7 @@ interface SafuContribution {
   created_at: string;
   claimed: boolean;
   claimed_at: string | null;
+  claim_status: 'unclaimed' | 'claiming' | 'claimed' | 'failed';
 }
 
 interface SafuChatMessage {
@@ -101,7 +102,7 @@ const HARDCAP_SOL = 11;
 
 const Safu = () => {
   const navigate = useNavigate();
-  const { publicKey, walletAddress, wallet, connected } = useWallet();
+  const { publicKey, walletAddress, wallet, connected, invokeWithSession } = useWallet();
   
   const [activeTab, setActiveTab] = useState("funding");
   const [searchTerm, setSearchTerm] = useState("");
@@ -424,12 +425,10 @@ const Safu = () => {
 
     setContributingTo(launch.id);
     try {
-      const { data: validateData, error: validateError } = await supabase.functions.invoke('contribute-safu-launch', {
-        body: {
-          launchId: launch.id,
-          walletAddress: walletAddress,
-          amount
-        }
+      const { data: validateData, error: validateError } = await invokeWithSession('contribute-safu-launch', {
+        launchId: launch.id,
+        walletAddress: walletAddress,
+        amount
       });
 
       if (validateError) throw validateError;
@@ -453,18 +452,23 @@ const Safu = () => {
       const signature = await connection.sendRawTransaction(signedTx.serialize());
       await connection.confirmTransaction(signature, 'confirmed');
 
-      const { error: confirmError } = await supabase.functions.invoke('confirm-safu-contribution', {
-        body: {
-          launchId: launch.id,
-          walletAddress: walletAddress,
-          amount,
-          txHash: signature
-        }
+      const { data: confirmResult, error: confirmError } = await invokeWithSession<{ creditedAmount: number; refundAmount: number }>('confirm-safu-contribution', {
+        launchId: launch.id,
+        walletAddress: walletAddress,
+        amount,
+        txHash: signature
       });
 
       if (confirmError) throw confirmError;
 
-      toast.success(`Contributed ${amount} SOL successfully!`);
+      // The server credits what the transaction actually moved, up to the limits; the rest is refunded
+      if (confirmResult?.refundAmount > 0) {
+        toast.warning(confirmResult.creditedAmount > 0
+          ? `Contributed ${confirmResult.creditedAmount} SOL. ${confirmResult.refundAmount} SOL over the limit will be refunded`
+          : `${confirmResult.refundAmount} SOL could not be contributed and will be refunded`);
+      } else {
+        toast.success(`Contributed ${confirmResult?.creditedAmount ?? amount} SOL successfully!`);
+      }
       setContributionAmounts(prev => ({ ...prev, [launch.id]: '' }));
       fetchLaunches();
     } catch (error: any) {
@@ -489,11 +493,9 @@ const Safu = () => {
 
     setRefundingFrom(launch.id);
     try {
-      const { data, error } = await supabase.functions.invoke('refund-safu-contribution', {
-        body: {
-          launchId: launch.id,
-          walletAddress: walletAddress,
-        }
+      const { data, error } = await invokeWithSession<{ txHash: string }>('refund-safu-contribution', {
+        launchId: launch.id,
+        walletAddress: walletAddress,
       });
 
       if (error) throw error;
@@ -520,20 +522,22 @@ const Safu = () => {
       toast.error('No tokens to claim');
       return;
     }
+    if (userContribution.claim_status === 'claiming') {
+      toast.info('Your claim is already being processed');
+      return;
+    }
 
     setClaimingFrom(launch.id);
     try {
-      const { data, error } = await supabase.functions.invoke('claim-safu-tokens', {
-        body: {
-          launchId: launch.id,
-          walletAddress: walletAddress,
-        }
+      const { data, error } = await invokeWithSession<{ txHash: string; tokensClaimed: number }>('claim-safu-tokens', {
+        launchId: launch.id,
+        walletAddress: walletAddress,
       });
 
       if (error) throw error;
       if (!data.success) throw new Error(data.error);
 
-      toast.success(`Claimed ${data.tokenAmount.toLocaleString()} ${launch.token_symbol}! TX: ${data.txHash.slice(0, 8)}...`);
+      toast.success(`Claimed ${data.tokensClaimed.toLocaleString()} ${launch.token_symbol}! TX: ${data.txHash.slice(0, 8)}...`);
       fetchLaunches();
     } catch (error: any) {
       console.error('Claim error:', error);
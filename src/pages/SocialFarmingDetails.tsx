@@ -2,10 +2,14 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { ArrowLeft, Copy, ExternalLink, Users, TrendingUp, Award, Sparkles, Twitter, Heart, Share2, MessageSquare, Send, Check, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useWallet } from '@/contexts/WalletContext';
+import { usePoolActions } from '@/hooks/use-pool-actions';
+import { useUserStake } from '@/hooks/use-pool-data';
+import { estimateEpochShare, getEpochEmission, getEpochEndDate, isFarmingFinished } from '@/utils/social-farming-epochs';
 
 interface Task {
   id: string;
@@ -41,6 +45,12 @@ interface SocialPoolDetails {
   contractAddress: string;
   status: string;
   tasks: DbTask[];
+  // Epoch schedule the reward pool is paid out on
+  epochLengthHours: number;
+  epochCount: number;
+  epochsSettled: number;
+  currentEpochStartedAt: string;
+  rewardsDistributed: number;
 }
 
 const getIconForPlatform = (iconName: string, platform: string): React.ElementType => {
@@ -74,11 +84,22 @@ const getIconStyles = (platform: string): { bg: string; color: string } => {
   return styleMap[platform] || { bg: 'bg-primary/20', color: 'text-primary' };
 };
 
+// Platforms whose tasks are verified against an account the wallet links
+const ACCOUNT_PLATFORMS: { [key: string]: { key: 'twitter' | 'telegram' | 'discord'; label: string; placeholder: string } } = {
+  'Twitter/X': { key: 'twitter', label: 'X handle', placeholder: '@handle' },
+  'Telegram': { key: 'telegram', label: 'Telegram user ID', placeholder: 'Numeric ID, e.g. from @userinfobot' },
+  'Discord': { key: 'discord', label: 'Discord user ID', placeholder: 'Numeric ID (Developer Mode > Copy User ID)' },
+};
+
+// Link visits cannot be observed from outside: the server counts them once the task has
+// been open this long (MIN_VISIT_SECONDS in social-verifiers), so the page marks them unverified
+const VISIT_SECONDS = 10;
+
 const SocialFarmingDetails = () => {
   const { contractAddress } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { connected, walletAddress } = useWallet();
+  const { connected, walletAddress, invokeWithSession } = useWallet();
   const [pool, setPool] = useState<SocialPoolDetails | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -86,9 +107,17 @@ const SocialFarmingDetails = () => {
   const [awaitingConfirm, setAwaitingConfirm] = useState<{ [key: string]: boolean }>({});
   const [countdown, setCountdown] = useState<{ [key: string]: number }>({});
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set());
+  const [verifying, setVerifying] = useState<{ [key: string]: boolean }>({});
+  // Linked accounts by platform key, as typed or as stored
+  const [accounts, setAccounts] = useState<{ [key: string]: string }>({});
   const [userPoints, setUserPoints] = useState(0);
-  const [pendingRewards, setPendingRewards] = useState(0);
+  // Points not yet settled into an epoch: the wallet's and the whole pool's
+  const [userEpochPoints, setUserEpochPoints] = useState(0);
+  const [poolEpochPoints, setPoolEpochPoints] = useState(0);
   const [isClaiming, setIsClaiming] = useState(false);
+  const { claimRewards } = usePoolActions();
+  const { stake } = useUserStake('social_farming', pool?.id);
+  const claimableRewards = Number(stake?.pending_rewards || 0);
 
   // Fetch pool details
   useEffect(() => {
@@ -126,7 +155,12 @@ const SocialFarmingDetails = () => {
             rewardPool: poolData.reward_pool || 0,
             contractAddress: poolData.contract_address || '',
             status: poolData.status,
-            tasks: dbTasks
+            tasks: dbTasks,
+            epochLengthHours: poolData.epoch_length_hours,
+            epochCount: poolData.epoch_count,
+            epochsSettled: poolData.epochs_settled || 0,
+            currentEpochStartedAt: poolData.current_epoch_started_at,
+            rewardsDistributed: Number(poolData.rewards_distributed || 0)
           });
 
           // Convert DB tasks to UI tasks
@@ -164,7 +198,7 @@ const SocialFarmingDetails = () => {
       try {
         const { data: completions, error } = await supabase
           .from('social_farming_completions')
-          .select('task_id, points_earned')
+          .select('task_id, points_earned, epoch_id, status')
           .eq('pool_id', pool.id)
           .eq('wallet_address', walletAddress);
 
@@ -174,12 +208,25 @@ const SocialFarmingDetails = () => {
         }
 
         if (completions && completions.length > 0) {
-          const completedTaskIds = new Set(completions.map(c => c.task_id));
-          const totalPoints = completions.reduce((sum, c) => sum + c.points_earned, 0);
+          // Only verified completions earn points; the rest are waiting to be verified again
+          const verified = completions.filter(c => c.status === 'verified');
+          const totalPoints = verified.reduce((sum, c) => sum + c.points_earned, 0);
           
-          setCompletedTasks(completedTaskIds);
+          setCompletedTasks(new Set(verified.map(c => c.task_id)));
+          setAwaitingConfirm(Object.fromEntries(
+            completions.filter(c => c.status !== 'verified').map(c => [c.task_id, true])
+          ));
           setUserPoints(totalPoints);
-          setPendingRewards(totalPoints * 0.1);
+          setUserEpochPoints(verified.filter(c => !c.epoch_id).reduce((sum, c) => sum + c.points_earned, 0));
+        }
+
+        const { data: linkedAccounts } = await supabase
+          .from('social_accounts')
+          .select('platform, account_id')
+          .eq('wallet_address', walletAddress);
+
+        if (linkedAccounts) {
+          setAccounts(Object.fromEntries(linkedAccounts.map(a => [a.platform, a.account_id])));
         }
       } catch (error) {
         console.error("Error loading user completions:", error);
@@ -189,6 +236,29 @@ const SocialFarmingDetails = () => {
     fetchUserCompletions();
   }, [pool?.id, walletAddress]);
 
+  // Points everyone has earned in the running epoch, for the estimated share
+  useEffect(() => {
+    const fetchEpochPoints = async () => {
+      if (!pool?.id) return;
+
+      const { data, error } = await supabase
+        .from('social_farming_completions')
+        .select('points_earned')
+        .eq('pool_id', pool.id)
+        .eq('status', 'verified')
+        .is('epoch_id', null);
+
+      if (error) {
+        console.error("Error fetching epoch points:", error);
+        return;
+      }
+
+      setPoolEpochPoints((data || []).reduce((sum, c) => sum + c.points_earned, 0));
+    };
+
+    fetchEpochPoints();
+  }, [pool?.id, pool?.epochsSettled]);
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -197,7 +267,7 @@ const SocialFarmingDetails = () => {
     });
   };
 
-  const handleTaskAction = (task: Task) => {
+  const handleTaskAction = async (task: Task) => {
     if (!connected) {
       toast({
         title: "Connect Wallet",
@@ -207,7 +277,17 @@ const SocialFarmingDetails = () => {
       return;
     }
 
-    if (actionCooldown[task.id] || awaitingConfirm[task.id]) {
+    if (actionCooldown[task.id] || awaitingConfirm[task.id] || !pool?.id) {
+      return;
+    }
+
+    const accountPlatform = ACCOUNT_PLATFORMS[task.platform];
+    if (accountPlatform && !accounts[accountPlatform.key]?.trim()) {
+      toast({
+        title: "Link Your Account",
+        description: `Enter your ${accountPlatform.label} under Linked Accounts so this task can be verified`,
+        variant: "destructive"
+      });
       return;
     }
 
@@ -216,14 +296,34 @@ const SocialFarmingDetails = () => {
       window.open(task.link, '_blank');
     }
 
+    // The server starts timing the task and links the account it will be verified with
+    const { data, error } = await invokeWithSession<{ status?: string }>('submit-social-task', {
+      walletAddress,
+      poolId: pool.id,
+      taskId: task.id,
+      accountId: accountPlatform ? accounts[accountPlatform.key].trim() : undefined
+    });
+
+    if (error || !data?.success) {
+      if (data?.status === 'verified') {
+        setCompletedTasks(prev => new Set([...prev, task.id]));
+      }
+      toast({
+        title: "Error",
+        description: data?.error || "Failed to start task",
+        variant: "destructive"
+      });
+      return;
+    }
+
     // Start cooldown with countdown
     setActionCooldown(prev => ({ ...prev, [task.id]: true }));
-    setCountdown(prev => ({ ...prev, [task.id]: 10 }));
+    setCountdown(prev => ({ ...prev, [task.id]: VISIT_SECONDS }));
 
     // Countdown timer
     const countdownInterval = setInterval(() => {
       setCountdown(prev => {
-        const newValue = (prev[task.id] || 10) - 1;
+        const newValue = (prev[task.id] || VISIT_SECONDS) - 1;
         if (newValue <= 0) {
           clearInterval(countdownInterval);
           setActionCooldown(prevCooldown => ({ ...prevCooldown, [task.id]: false }));
@@ -235,6 +335,7 @@ const SocialFarmingDetails = () => {
     }, 1000);
   };
 
+  // Completions only earn points once the server has verified them with the platform
   const handleConfirmTask = async (task: Task) => {
     if (!pool?.id || !walletAddress) {
       toast({
@@ -245,78 +346,77 @@ const SocialFarmingDetails = () => {
       return;
     }
 
+    setVerifying(prev => ({ ...prev, [task.id]: true }));
     try {
-      // Save completion to database
-      const { error } = await supabase
-        .from('social_farming_completions')
-        .insert({
-          pool_id: pool.id,
-          wallet_address: walletAddress,
-          task_id: task.id,
-          points_earned: task.points
-        });
+      const { data, error } = await invokeWithSession<{ status: 'verified' | 'pending' | 'rejected'; points?: number; reason?: string; attemptsLeft?: number }>('verify-social-task', {
+        walletAddress,
+        poolId: pool.id,
+        taskId: task.id
+      });
 
-      if (error) {
-        // Check if it's a duplicate (already completed)
-        if (error.code === '23505') {
-          toast({
-            title: "Already Completed",
-            description: "You have already completed this task",
-            variant: "destructive"
-          });
-          setAwaitingConfirm(prev => ({ ...prev, [task.id]: false }));
-          setCompletedTasks(prev => new Set([...prev, task.id]));
-          return;
-        }
-        throw error;
+      if (error || !data?.success) {
+        toast({
+          title: "Verification Failed",
+          description: data?.error || "Failed to verify task",
+          variant: "destructive"
+        });
+        return;
       }
 
-      // Update local state
-      setAwaitingConfirm(prev => ({ ...prev, [task.id]: false }));
-      setCompletedTasks(prev => new Set([...prev, task.id]));
-      setUserPoints(prev => prev + task.points);
-      setPendingRewards(prev => prev + (task.points * 0.1));
-
-      // Update pool total points
-      await supabase
-        .from('social_farming_pools')
-        .update({ total_points: (pool.totalPoints || 0) + task.points })
-        .eq('id', pool.id);
-      
-      toast({
-        title: "Task Completed!",
-        description: `+${task.points} points earned`,
-      });
-    } catch (error: any) {
-      console.error("Error saving completion:", error);
+      if (data.status === 'verified') {
+        setAwaitingConfirm(prev => ({ ...prev, [task.id]: false }));
+        setCompletedTasks(prev => new Set([...prev, task.id]));
+        setUserPoints(prev => prev + data.points);
+        setUserEpochPoints(prev => prev + data.points);
+        setPoolEpochPoints(prev => prev + data.points);
+        setPool(prev => prev ? { ...prev, totalPoints: prev.totalPoints + data.points } : prev);
+        toast({
+          title: "Task Verified!",
+          description: `+${data.points} points earned`,
+        });
+      } else if (data.status === 'pending') {
+        toast({
+          title: "Not Verified Yet",
+          description: data.reason,
+        });
+      } else {
+        toast({
+          title: "Task Not Completed",
+          description: `${data.reason}${data.attemptsLeft !== undefined ? ` (${data.attemptsLeft} attempts left)` : ''}`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error verifying task:", error);
       toast({
         title: "Error",
-        description: "Failed to save task completion",
+        description: "Failed to verify task",
         variant: "destructive"
       });
+    } finally {
+      setVerifying(prev => ({ ...prev, [task.id]: false }));
     }
   };
 
+  // Only settled epoch shares are claimable; they are paid out like staking rewards
   const handleClaimRewards = async () => {
-    if (pendingRewards === 0) {
+    if (!pool?.id) return;
+
+    if (claimableRewards <= 0) {
       toast({
         title: "No Rewards",
-        description: "Complete tasks to earn rewards",
+        description: "Rewards become claimable when the current epoch ends",
         variant: "destructive"
       });
       return;
     }
 
     setIsClaiming(true);
-    
-    setTimeout(() => {
-      toast({
-        title: "Rewards Claimed!",
-        description: `${pendingRewards.toFixed(2)} ${pool?.symbol} claimed successfully`,
-      });
-      setPendingRewards(0);
+    try {
+      await claimRewards(pool.id, 'social_farming');
+    } finally {
       setIsClaiming(false);
-    }, 2000);
+    }
   };
 
   const formatNumber = (num: number) => {
@@ -362,6 +462,19 @@ const SocialFarmingDetails = () => {
   const totalTasks = tasks.length;
   const progressPercent = (completedCount / totalTasks) * 100;
 
+  const epochTerms = {
+    reward_pool: pool.rewardPool,
+    epoch_length_hours: pool.epochLengthHours,
+    epoch_count: pool.epochCount,
+    epochs_settled: pool.epochsSettled,
+    current_epoch_started_at: pool.currentEpochStartedAt,
+    rewards_distributed: pool.rewardsDistributed,
+  };
+  const farmingFinished = isFarmingFinished(epochTerms);
+  const epochEndsAt = getEpochEndDate(epochTerms);
+  const estimatedShare = estimateEpochShare(getEpochEmission(epochTerms), userEpochPoints, poolEpochPoints);
+  const linkablePlatforms = Object.entries(ACCOUNT_PLATFORMS).filter(([platform]) => tasks.some(t => t.platform === platform));
+
   return (
     <div className="min-h-screen bg-background">
       
@@ -435,23 +548,58 @@ const SocialFarmingDetails = () => {
                       <p className="text-2xl font-bold text-yellow-400">{formatNumber(userPoints)}</p>
                     </div>
                     <div className="bg-background/50 rounded-lg p-3">
-                      <p className="text-xs text-muted-foreground mb-1">Pending</p>
-                      <p className="text-2xl font-bold text-green-400">N/A</p>
+                      <p className="text-xs text-muted-foreground mb-1">Claimable</p>
+                      <p className="text-2xl font-bold text-green-400">{formatNumber(claimableRewards)}</p>
                     </div>
                   </div>
                   
                   <Button 
-                    disabled
-                    className="w-full bg-muted text-muted-foreground font-bold h-12 cursor-not-allowed"
+                    onClick={handleClaimRewards}
+                    disabled={!connected || isClaiming || claimableRewards <= 0}
+                    className="w-full bg-yellow-600 hover:bg-yellow-700 text-black font-bold h-12"
                   >
-                    <Award className="w-4 h-4 mr-2" />
-                    Claim Coming Soon
+                    {isClaiming ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Award className="w-4 h-4 mr-2" />
+                    )}
+                    {isClaiming ? 'Claiming...' : `Claim ${pool.symbol}`}
                   </Button>
                   
-                  <p className="text-xs text-center text-muted-foreground">Token claiming will be available soon</p>
+                  {farmingFinished ? (
+                    <p className="text-xs text-center text-muted-foreground">All {pool.epochCount} epochs have been paid out</p>
+                  ) : (
+                    <p className="text-xs text-center text-muted-foreground">
+                      Epoch {pool.epochsSettled + 1} of {pool.epochCount} ends {epochEndsAt.toLocaleString()}
+                      {estimatedShare > 0 && <> · ~{formatNumber(estimatedShare)} {pool.symbol} for your {formatNumber(userEpochPoints)} points so far</>}
+                    </p>
+                  )}
                 </div>
               </Card>
 
+              {/* Linked Accounts */}
+              {connected && linkablePlatforms.length > 0 && (
+                <Card className="border-border">
+                  <div className="p-4 border-b border-border">
+                    <h2 className="font-bold">Linked Accounts</h2>
+                  </div>
+                  <div className="p-4 space-y-3">
+                    {linkablePlatforms.map(([platform, account]) => (
+                      <div key={platform} className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{account.label}</p>
+                        <Input
+                          placeholder={account.placeholder}
+                          value={accounts[account.key] || ''}
+                          onChange={(e) => setAccounts(prev => ({ ...prev, [account.key]: e.target.value }))}
+                          className="h-9 text-sm"
+                        />
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">Tasks are checked against these accounts. Each account can only farm for one wallet.</p>
+                  </div>
+                </Card>
+              )}
+
               {/* Pool Stats */}
               <Card className="border-border">
                 <div className="p-4 border-b border-border">
@@ -527,6 +675,11 @@ const SocialFarmingDetails = () => {
                         <div className="flex-1">
                           <h3 className="font-semibold">{task.title}</h3>
                           <p className="text-xs text-muted-foreground">{task.description}</p>
+                          {!ACCOUNT_PLATFORMS[task.platform] && (
+                            <p className="text-[10px] text-orange-400">
+                              UNVERIFIED: the visit itself is not checked; this counts once the task has been open {VISIT_SECONDS}s
+                            </p>
+                          )}
                         </div>
                         
                         <div className="text-right mr-2">
@@ -546,9 +699,10 @@ const SocialFarmingDetails = () => {
                         ) : isAwaitingConfirm ? (
                           <Button 
                             onClick={() => handleConfirmTask(task)}
+                            disabled={verifying[task.id]}
                             className="bg-green-500 hover:bg-green-600 text-white font-semibold w-24"
                           >
-                            Confirm
+                            {verifying[task.id] ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
                           </Button>
                         ) : isLoading ? (
                           <Button 
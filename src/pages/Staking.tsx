@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { useNavigate, Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { getLiveApr } from '@/utils/staking-emission';
 
 interface StakingPool {
   id: string;
@@ -19,11 +20,17 @@ interface StakingPool {
   allocation: number;
   min_stake: number;
   lock_period_days: number;
+  creator_wallet: string | null;
+  requested_allocation: number | null;
+  funded_amount: number;
+  funding_expires_at: string | null;
+  reward_mode: 'apr' | 'emission';
+  tokens_per_day: number | null;
 }
 
 const Staking = () => {
   const navigate = useNavigate();
-  const { connected } = useWallet();
+  const { connected, publicKey } = useWallet();
   const [pools, setPools] = useState<StakingPool[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'active' | 'ended'>('active');
@@ -50,6 +57,13 @@ const Staking = () => {
     }
   };
 
+  // Emission pools show the APR their daily emission works out to at the current stake
+  const formatApr = (pool: StakingPool) => {
+    const apr = getLiveApr(pool);
+    if (apr === null) return '—';
+    return `${apr.toLocaleString(undefined, { maximumFractionDigits: apr >= 100 ? 0 : 2 })}%`;
+  };
+
   const formatNumber = (num: number) => {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
     if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
@@ -64,6 +78,12 @@ const Staking = () => {
     return matchesFilter && matchesSearch;
   });
 
+  // Pools the connected creator still has to fund; they are not listed under the tabs
+  const creatorWallet = publicKey?.toBase58();
+  const unfundedPools = creatorWallet
+    ? pools.filter(pool => pool.creator_wallet === creatorWallet && (pool.status === 'pending' || pool.status === 'expired'))
+    : [];
+
   return (
     <div className="bg-background min-h-screen">
       {/* Hero Section - Gamified */}
@@ -148,6 +168,45 @@ const Staking = () => {
           </div>
         )}
 
+        {/* Creator's pools waiting for their reward deposit */}
+        {unfundedPools.length > 0 && (
+          <div className="p-4 border-2 border-yellow-500/30 bg-card mb-4">
+            <p className="font-pixel text-[9px] text-foreground mb-3">YOUR POOLS AWAITING FUNDING</p>
+            <div className="space-y-2">
+              {unfundedPools.map((pool) => {
+                const requested = Number(pool.requested_allocation ?? pool.allocation);
+                return (
+                  <div
+                    key={pool.id}
+                    onClick={() => navigate(`/staking/${pool.id}`)}
+                    className="group flex items-center justify-between gap-3 p-3 bg-muted/40 border border-border cursor-pointer hover:border-primary transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-pixel text-[10px] group-hover:text-primary transition-colors">
+                        {pool.token_symbol || 'TOKEN'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatNumber(Number(pool.funded_amount || 0))} / {formatNumber(requested)} deposited
+                        {pool.status === 'pending' && pool.funding_expires_at &&
+                          ` · closes ${new Date(pool.funding_expires_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className={cn(
+                        "font-pixel text-[8px] uppercase",
+                        pool.status === 'expired' ? "text-red-400" : "text-yellow-500"
+                      )}>
+                        {pool.status}
+                      </span>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Pool List */}
         {loading ? (
           <div className="space-y-2">
@@ -199,7 +258,7 @@ const Staking = () => {
                 <div className="hidden sm:flex items-center gap-6">
                   <div className="text-right">
                     <p className="font-pixel text-[8px] text-muted-foreground">APR</p>
-                    <p className="font-pixel text-sm text-primary">{pool.apr}%</p>
+                    <p className="font-pixel text-sm text-primary">{formatApr(pool)}</p>
                   </div>
                   <div className="text-right">
                     <p className="font-pixel text-[8px] text-muted-foreground">STAKED</p>
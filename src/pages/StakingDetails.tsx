@@ -1,10 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Copy, ExternalLink, Loader2, Coins, TrendingUp, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { StakingContent } from '@/components/shared/StakingContent';
-import { useStakingPool } from '@/hooks/use-pool-data';
+import { StakingPositions } from '@/components/staking/StakingPositions';
+import { LockTierPicker } from '@/components/staking/LockTierPicker';
+import { AutoCompoundToggle } from '@/components/staking/AutoCompoundToggle';
+import { PoolFundingPanel } from '@/components/staking/PoolFundingPanel';
+import { RewardStreamsPanel } from '@/components/staking/RewardStreamsPanel';
+import { useStakingDeposits, useStakingPool, useStakingRewardStreams, useUserStake } from '@/hooks/use-pool-data';
+import { usePoolActions } from '@/hooks/use-pool-actions';
+import { useWallet } from '@/contexts/WalletContext';
+import { useRewardCountdown } from '@/hooks/use-reward-countdown';
+import { getAprRange, getAprTiers } from '@shared/staking-tiers';
+import { getDepletionDate, getLiveApr } from '@/utils/staking-emission';
 
 const StakingDetails = () => {
   const navigate = useNavigate();
@@ -12,6 +22,17 @@ const StakingDetails = () => {
   const { toast } = useToast();
 
   const { pool, loading: poolLoading } = useStakingPool(contractAddress);
+  const { stake } = useUserStake('staking', pool?.id);
+  const { deposits } = useStakingDeposits(pool?.custody_mode === 'escrow' ? pool.id : undefined);
+  const { streams, rewards: streamRewards } = useStakingRewardStreams(pool?.id);
+  const { withdrawPosition, setAutoCompound, checkPoolFunding, addRewardStream } = usePoolActions();
+  const { walletAddress } = useWallet();
+  const [selectedLockDays, setSelectedLockDays] = useState<number | null>(null);
+  const countdown = useRewardCountdown(
+    pool?.last_distribution_at,
+    pool?.reward_frequency_value || 1,
+    pool?.reward_frequency_unit || 'hours'
+  );
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -55,6 +76,28 @@ const StakingDetails = () => {
   const rewardsDistributed = pool.rewards_distributed || 0;
   const distributionProgress = pool.allocation > 0 ? Math.min(100, (rewardsDistributed / pool.allocation) * 100) : 0;
 
+  // Balance pools hold one position per wallet, so an existing stake keeps its tier.
+  // Escrow deposits each choose their own.
+  const tiers = getAprTiers(pool);
+  const aprRange = getAprRange(tiers);
+  const tierLocked = pool.custody_mode !== 'escrow' && !!stake && Number(stake.amount) > 0;
+  const lockDays = tierLocked
+    ? stake?.lock_days ?? pool.lock_period_days
+    : selectedLockDays ?? tiers[0].days;
+  const rewardLockDays = stake?.lock_days ?? pool.lock_period_days;
+  const isLive = pool.status === 'active';
+  const requestedAllocation = Number(pool.requested_allocation ?? pool.allocation);
+  const partiallyFunded = isLive && pool.allocation < requestedAllocation;
+  const isCreator = !!walletAddress && walletAddress === pool.creator_wallet;
+  // Emission pools have no fixed APR: it follows from the daily emission and the total staked
+  const isEmission = pool.reward_mode === 'emission';
+  const liveApr = getLiveApr(pool);
+  const depletionDate = isLive ? getDepletionDate(pool) : null;
+  // Compounded rewards are part of the amount, but earn nothing once no staked tokens are left
+  const stakePrincipal = stake && Number(stake.amount) > Number(stake.compounded_rewards || 0)
+    ? Number(stake.amount)
+    : 0;
+
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-2xl mx-auto px-4 py-6">
@@ -122,8 +165,17 @@ const StakingDetails = () => {
                 <TrendingUp className="w-4 h-4 text-green-400" />
               </div>
             </div>
-            <p className="font-pixel text-[8px] text-muted-foreground mb-1">APR</p>
-            <p className="font-pixel text-lg text-green-400">{pool.apr}%</p>
+            <p className="font-pixel text-[8px] text-muted-foreground mb-1">{isEmission ? 'LIVE APR' : 'APR'}</p>
+            <p className="font-pixel text-lg text-green-400">
+              {isEmission
+                ? (liveApr === null ? '—' : `${liveApr.toLocaleString(undefined, { maximumFractionDigits: liveApr >= 100 ? 0 : 2 })}%`)
+                : aprRange.min === aprRange.max ? `${aprRange.max}%` : `${aprRange.min}-${aprRange.max}%`}
+            </p>
+            {isEmission && (
+              <p className="font-pixel text-[7px] text-muted-foreground mt-1">
+                {Number(pool.tokens_per_day).toLocaleString()} / DAY
+              </p>
+            )}
           </div>
           
           <div className="p-4 bg-card border-2 border-border text-center">
@@ -147,6 +199,26 @@ const StakingDetails = () => {
           </div>
         </div>
 
+        {/* Funding - pools open for staking once the creator's reward deposit is confirmed */}
+        {!isLive && (
+          <div className="p-4 bg-card border-2 border-yellow-500/30 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-pixel text-[9px] text-foreground">POOL FUNDING</span>
+              <span className="font-pixel text-[8px] text-muted-foreground uppercase">{pool.status}</span>
+            </div>
+            <PoolFundingPanel
+              status={pool.status}
+              depositAddress={pool.deposit_wallet_address}
+              requestedAllocation={requestedAllocation}
+              fundedAmount={Number(pool.funded_amount || 0)}
+              fundingExpiresAt={pool.funding_expires_at}
+              tokenSymbol={tokenSymbol}
+              isCreator={isCreator}
+              onCheck={() => checkPoolFunding(pool.id)}
+            />
+          </div>
+        )}
+
         {/* Rewards Progress */}
         <div className="p-4 bg-card border-2 border-border mb-6">
           <div className="flex items-center justify-between mb-3">
@@ -167,17 +239,146 @@ const StakingDetails = () => {
                 ? `${distributionProgress.toFixed(4)}%` 
                 : `${distributionProgress.toFixed(1)}%`} DISTRIBUTED
             </span>
+            {partiallyFunded && (
+              <span className="font-pixel text-[8px] text-muted-foreground">
+                PARTLY FUNDED ({requestedAllocation.toLocaleString()} REQUESTED)
+              </span>
+            )}
           </div>
+          {pool.depleted_at ? (
+            <p className="text-xs text-muted-foreground mt-2">
+              All rewards were distributed on {new Date(pool.depleted_at).toLocaleDateString()}. Nothing new accrues;
+              locked rewards are still released when their lock ends.
+            </p>
+          ) : depletionDate && (
+            <p className="font-pixel text-[8px] text-muted-foreground mt-2">
+              RUNS OUT ~{depletionDate.toLocaleDateString()} AT {isEmission ? 'THE CURRENT EMISSION' : 'THE CURRENT STAKE'}
+            </p>
+          )}
         </div>
 
+        {/* Your Rewards - accrued server-side by accrue-staking-rewards */}
+        {stake && (
+          <div className="p-4 bg-card border-2 border-border mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-pixel text-[9px] text-foreground">YOUR REWARDS</span>
+              <span className="font-pixel text-[8px] text-muted-foreground">
+                NEXT ACCRUAL: {countdown.isReady ? 'PENDING' : countdown.formatted}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="font-pixel text-[8px] text-muted-foreground mb-1">CLAIMABLE</p>
+                <p className="font-pixel text-sm text-green-400">
+                  {Number(stake.pending_rewards || 0).toLocaleString(undefined, { maximumFractionDigits: 4 })} {tokenSymbol}
+                </p>
+              </div>
+              <div>
+                <p className="font-pixel text-[8px] text-muted-foreground mb-1">LOCKED</p>
+                <p className="font-pixel text-sm text-foreground">
+                  {Number(stake.locked_rewards || 0).toLocaleString(undefined, { maximumFractionDigits: 4 })} {tokenSymbol}
+                </p>
+              </div>
+            </div>
+            {rewardLockDays > 0 && Number(stake.locked_rewards || 0) > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Rewards unlock {rewardLockDays} days after you staked
+              </p>
+            )}
+            {stake.apr !== null && tiers.length > 1 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Earning {Number(stake.apr).toLocaleString(undefined, { maximumFractionDigits: 2 })}% APR
+              </p>
+            )}
+            <div className="mt-4 pt-4 border-t border-border">
+              <AutoCompoundToggle
+                enabled={stake.auto_compound}
+                apr={isEmission ? liveApr ?? 0 : Number(stake.apr ?? pool.apr)}
+                frequencyValue={pool.reward_frequency_value}
+                frequencyUnit={pool.reward_frequency_unit}
+                compoundedRewards={Number(stake.compounded_rewards || 0)}
+                tokenSymbol={tokenSymbol}
+                onToggle={(enabled) => setAutoCompound(pool.id, enabled)}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Extra reward streams - other tokens or SOL, each funded and paid out separately */}
+        {(streams.length > 0 || (isCreator && pool.status !== 'expired')) && (
+          <div className="p-4 bg-card border-2 border-border mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-pixel text-[9px] text-foreground">BONUS REWARDS</span>
+              <span className="font-pixel text-[8px] text-muted-foreground">CLAIMED WITH {tokenSymbol}</span>
+            </div>
+            <RewardStreamsPanel
+              streams={streams}
+              rewards={streamRewards}
+              walletPrincipal={stakePrincipal}
+              totalStaked={Number(pool.total_staked || 0)}
+              isCreator={isCreator}
+              onCheckFunding={() => checkPoolFunding(pool.id)}
+              onAddStream={(stream) => addRewardStream(pool.id, stream)}
+            />
+          </div>
+        )}
+
+        {/* Escrow positions - each deposit is locked in the pool vault for its tier's lock */}
+        {pool.custody_mode === 'escrow' && (
+          <div className="p-4 bg-card border-2 border-border mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-pixel text-[9px] text-foreground">YOUR POSITIONS</span>
+              <span className="font-pixel text-[8px] text-muted-foreground">
+                {tiers.map(tier => tier.days).join(' / ')}D LOCK
+              </span>
+            </div>
+            {Number(pool.early_exit_penalty_percent) > 0 && (
+              <p className="text-xs text-muted-foreground mb-3">
+                Positions can exit before unlocking for a penalty of up to {Number(pool.early_exit_penalty_percent)}%,
+                shrinking to zero as the lock runs out. Penalties are shared with the remaining stakers.
+              </p>
+            )}
+            <StakingPositions
+              deposits={deposits}
+              tokenSymbol={tokenSymbol}
+              earlyExitPenaltyPercent={Number(pool.early_exit_penalty_percent || 0)}
+              onWithdraw={(depositId, acceptPenalty) => withdrawPosition(pool.id, depositId, acceptPenalty)}
+            />
+          </div>
+        )}
+
+        {/* Lock tier - the chosen lock sets the APR the next stake earns */}
+        {isLive && tiers.length > 1 && (
+          <div className="p-4 bg-card border-2 border-border mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-pixel text-[9px] text-foreground">LOCK PERIOD</span>
+              <span className="font-pixel text-[8px] text-muted-foreground">LONGER LOCK, HIGHER APR</span>
+            </div>
+            <LockTierPicker
+              tiers={tiers}
+              selectedDays={lockDays}
+              onSelect={setSelectedLockDays}
+              disabled={tierLocked}
+            />
+            {tierLocked && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Your stake is on the {lockDays} day lock
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Main Staking Content */}
-        <div className="bg-card border-2 border-border p-6">
-          <StakingContent 
-            tokenSymbol={tokenSymbol}
-            contractAddress={contractAddress || ''}
-            variant="full"
-          />
-        </div>
+        {isLive && (
+          <div className="bg-card border-2 border-border p-6">
+            <StakingContent 
+              tokenSymbol={tokenSymbol}
+              contractAddress={contractAddress || ''}
+              variant="full"
+              lockDays={lockDays}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1 @@
+export type { PayoutTier } from '@shared/burn-payouts';
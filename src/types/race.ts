@@ -0,0 +1,49 @@
+import type { RaceRewardSchedule } from '@shared/race-rewards';
+
+export type { RewardCurve, RewardTier, RaceRewardSchedule } from '@shared/race-rewards';
+
+export type RaceExclusionReason = 'bonding_curve' | 'amm_vault' | 'program_owned' | 'exchange' | 'creator' | 'manual';
+
+// Creator-editable entry in race_pools.excluded_wallets
+export interface ManualRaceExclusion {
+  address: string;
+  reason?: string;
+}
+
+// Row in race_exclusions: a wallet skipped by distribute-race-rewards for one round
+export interface RaceExclusion {
+  wallet_address: string;
+  reason: RaceExclusionReason;
+  detail: string | null;
+  balance: number;
+}
+
+export type { RaceRoundSchedule } from '@shared/race-schedule';
+
+// 'balance' ranks holders by balance held through the round; 'net_buy' by tokens bought minus sold during it
+export type RaceRankingMode = 'balance' | 'net_buy';
+
+// Row of the race_volume_leaderboard view
+export interface RaceVolumeEntry {
+  wallet_address: string;
+  buy_volume: number;
+  sell_volume: number;
+  net_volume: number;
+  trade_count: number;
+  last_trade_at: string;
+}
+
+// Row in race_rounds: summary of a finished round, written by distribute-race-rewards
+export interface RaceRoundRecord {
+  round_number: number;
+  started_at: string | null;
+  entry_snapshot_at: string | null;
+  ended_at: string;
+  ranking_mode: RaceRankingMode;
+  eligibility_basis: 'min' | 'time_weighted' | null;
+  reward_schedule: RaceRewardSchedule;
+  round_pool: number;
+  participant_count: number;
+  eligible_count: number;
+  total_rewarded: number;
+}
@@ -0,0 +1,33 @@
+export type { AprTier } from '@shared/staking-tiers';
+
+// An extra reward token (or SOL, via the wrapped SOL mint) paid to a pool's stakers
+// from its own allocation, funded through its own deposit wallet
+export interface StakingRewardStream {
+  id: string;
+  pool_id: string;
+  mint: string;
+  token_symbol: string;
+  token_decimals: number;
+  tokens_per_day: number; // Shared between stakers by time-weighted principal
+  allocation: number;
+  requested_allocation: number;
+  rewards_distributed: number;
+  status: 'pending' | 'active' | 'expired' | 'depleted';
+  deposit_wallet_address: string;
+  funded_amount: number;
+  funded_at: string | null;
+  funding_expires_at: string;
+  last_distribution_at: string | null;
+  created_at: string;
+}
+
+// A wallet's claimable balance in one reward stream
+export interface StakingStreamReward {
+  id: string;
+  stream_id: string;
+  pool_id: string;
+  wallet_address: string;
+  pending_rewards: number;
+  total_earned: number;
+  updated_at: string;
+}
@@ -0,0 +1,47 @@
+// Epoch schedule of social farming pools
+// A pool's reward_pool is paid over epoch_count epochs; when an epoch ends, what is
+// left of the pool divided by the epochs remaining is split between wallets by the
+// points they earned in it (see settle_social_farming_epoch). Only the settled
+// shares are claimable; anything derived here is an estimate for display.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface PoolEpochTerms {
+  reward_pool: number;
+  epoch_length_hours: number;
+  epoch_count: number;
+  epochs_settled: number;
+  current_epoch_started_at: string;
+  rewards_distributed: number;
+}
+
+/**
+ * Whether every epoch has been settled and the pool pays nothing more
+ */
+export function isFarmingFinished(pool: Pick<PoolEpochTerms, 'epoch_count' | 'epochs_settled'>): boolean {
+  return Number(pool.epochs_settled) >= Number(pool.epoch_count);
+}
+
+/**
+ * When the running epoch ends and gets settled
+ */
+export function getEpochEndDate(pool: Pick<PoolEpochTerms, 'epoch_length_hours' | 'current_epoch_started_at'>): Date {
+  return new Date(new Date(pool.current_epoch_started_at).getTime() + Number(pool.epoch_length_hours) * HOUR_MS);
+}
+
+/**
+ * Tokens the running epoch will split between the wallets that earn points in it
+ */
+export function getEpochEmission(pool: PoolEpochTerms): number {
+  if (isFarmingFinished(pool)) return 0;
+  const remaining = Math.max(Number(pool.reward_pool || 0) - Number(pool.rewards_distributed || 0), 0);
+  return remaining / (Number(pool.epoch_count) - Number(pool.epochs_settled));
+}
+
+/**
+ * A wallet's estimated share of the running epoch if nobody else earns more points before it ends
+ */
+export function estimateEpochShare(emission: number, walletPoints: number, epochPoints: number): number {
+  if (walletPoints <= 0 || epochPoints <= 0) return 0;
+  return emission * Math.min(walletPoints / epochPoints, 1);
+}
@@ -12,6 +12,7 @@ import {
   ASSOCIATED_TOKEN_PROGRAM_ID
 } from '@solana/spl-token';
 import { supabase } from "@/integrations/supabase/client";
+import { toBaseUnits } from "@shared/token-amounts";
 
 export interface TokenTransferResult {
   success: boolean;
@@ -222,7 +223,7 @@ export const sendSplTokenTransaction = async (
     console.log("Recipient ATA exists:", recipientATAExists);
 
     // Calculate the raw amount based on decimals
-    const rawAmount = BigInt(Math.floor(amount * Math.pow(10, decimals)));
+    const rawAmount = toBaseUnits(amount, decimals);
     console.log("Raw amount (BigInt):", rawAmount.toString());
 
     // Create transaction
@@ -377,7 +378,7 @@ export const burnSplTokens = async (
     const blockhash = blockhashResult.value.blockhash;
     console.log("Got blockhash:", blockhash);
 
-    const rawAmount = BigInt(Math.floor(amount * Math.pow(10, decimals)));
+    const rawAmount = toBaseUnits(amount, decimals);
     console.log("Raw amount to burn (BigInt):", rawAmount.toString());
 
     const transaction = new Transaction();
@@ -0,0 +1,37 @@
+// Effective yield of auto-compounding stakes
+// accrue-staking-rewards runs once per reward interval; with auto-compound on,
+// each run adds the released rewards to the principal the next run pays on.
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Reward intervals per year, in the same units as the accrual job and the countdown
+ */
+export function getAccrualsPerYear(frequencyValue: number | null, frequencyUnit: string | null): number {
+  const value = frequencyValue && frequencyValue > 0 ? frequencyValue : 1;
+  const unitMs = frequencyUnit === 'minutes'
+    ? 60 * 1000
+    : frequencyUnit === 'days'
+      ? 24 * 60 * 60 * 1000
+      : 60 * 60 * 1000;
+  return YEAR_MS / (value * unitMs);
+}
+
+/**
+ * APY of a stake that compounds every reward interval
+ * @param apr Simple APR in percent
+ * @returns APY in percent
+ */
+export function getEffectiveApy(apr: number, accrualsPerYear: number): number {
+  if (apr <= 0 || accrualsPerYear <= 0) return Math.max(0, apr);
+  return (Math.pow(1 + apr / 100 / accrualsPerYear, accrualsPerYear) - 1) * 100;
+}
+
+/**
+ * Format a yield percentage; compounding high APRs produces very large numbers
+ */
+export function formatYield(percent: number): string {
+  if (!Number.isFinite(percent)) return '∞%';
+  if (percent >= 1e6) return `${percent.toExponential(2)}%`;
+  return `${percent.toLocaleString(undefined, { maximumFractionDigits: percent >= 100 ? 0 : 2 })}%`;
+}
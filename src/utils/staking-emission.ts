@@ -0,0 +1,46 @@
+// Reward rate and runway of staking pools
+// 'apr' pools pay each stake its APR; 'emission' pools share tokens_per_day between
+// stakers, so their APR follows from how much is staked. Rewards are paid in the
+// staked token, so the APR needs no price.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PoolRewardTerms {
+  reward_mode: 'apr' | 'emission';
+  apr: number;
+  tokens_per_day: number | null;
+  total_staked: number;
+  allocation: number;
+  rewards_distributed: number;
+  depleted_at: string | null;
+}
+
+/**
+ * APR a stake earns right now; null for an emission pool nobody has staked in yet
+ */
+export function getLiveApr(pool: Pick<PoolRewardTerms, 'reward_mode' | 'apr' | 'tokens_per_day' | 'total_staked'>): number | null {
+  if (pool.reward_mode !== 'emission') return Number(pool.apr);
+  const staked = Number(pool.total_staked || 0);
+  if (staked <= 0) return null;
+  return (Number(pool.tokens_per_day || 0) * 365 / staked) * 100;
+}
+
+/**
+ * Tokens the pool pays out per day at the current total stake.
+ * APR pools are estimated at their base APR; stakes on longer locks earn more.
+ */
+export function getDailyRewardSpend(pool: PoolRewardTerms): number {
+  if (pool.reward_mode === 'emission') return Number(pool.tokens_per_day || 0);
+  return Number(pool.total_staked || 0) * (Number(pool.apr) / 100) / 365;
+}
+
+/**
+ * Projected date the allocation runs out; null once depleted or while nothing is being paid
+ */
+export function getDepletionDate(pool: PoolRewardTerms, now: number = Date.now()): Date | null {
+  if (pool.depleted_at) return null;
+  const remaining = Number(pool.allocation) - Number(pool.rewards_distributed || 0);
+  const spend = getDailyRewardSpend(pool);
+  if (remaining <= 0 || spend <= 0) return null;
+  return new Date(now + (remaining / spend) * DAY_MS);
+}
@@ -0,0 +1,119 @@
+// Sign-in-with-Solana session utilities
+// Edge functions that act on behalf of a wallet require a session token proving
+// the caller controls that wallet. The token is obtained by signing a one-time
+// nonce issued by the wallet-auth function.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const SESSION_HEADER = 'x-wallet-session';
+
+// Every session-gated edge function answers { success, error? } plus its own fields
+export type SessionFunctionResult<T = object> = { success: boolean; error?: string } & T;
+
+// Re-sign slightly before the server-side expiry to avoid racing it
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface StoredWalletSession {
+  token: string;
+  expiresAt: string;
+}
+
+interface MessageSigner {
+  signMessage?: (message: Uint8Array, display?: string) => Promise<{ signature: Uint8Array } | Uint8Array>;
+}
+
+const storageKey = (walletAddress: string) => `walletSession_${walletAddress}`;
+
+/**
+ * Get a stored, unexpired session token for a wallet
+ * @param walletAddress The wallet address
+ * @returns The session token, or null if missing or expired
+ */
+export const getStoredWalletSession = (walletAddress: string): string | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(walletAddress));
+    if (!raw) return null;
+
+    const session: StoredWalletSession = JSON.parse(raw);
+    if (new Date(session.expiresAt).getTime() - EXPIRY_MARGIN_MS <= Date.now()) {
+      localStorage.removeItem(storageKey(walletAddress));
+      return null;
+    }
+    return session.token;
+  } catch (error) {
+    console.error("Error reading wallet session:", error);
+    return null;
+  }
+};
+
+/**
+ * Clear the stored session for a wallet
+ * @param walletAddress The wallet address
+ */
+export const clearWalletSession = (walletAddress: string): void => {
+  localStorage.removeItem(storageKey(walletAddress));
+};
+
+/**
+ * Revoke a wallet's session server-side and clear it locally
+ * The local copy is cleared even if the server cannot be reached.
+ * @param walletAddress The wallet address
+ */
+export const revokeWalletSession = async (walletAddress: string): Promise<void> => {
+  const token = getStoredWalletSession(walletAddress);
+  clearWalletSession(walletAddress);
+  if (!token) return;
+
+  const { data, error } = await supabase.functions.invoke('revoke-wallet-session', {
+    body: {},
+    headers: { [SESSION_HEADER]: token },
+  });
+  if (error || !data?.success) {
+    console.error("Error revoking wallet session:", data?.error || error);
+  }
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+/**
+ * Sign in with a wallet: sign the server nonce and exchange it for a session token
+ * @param provider The connected wallet provider (must support signMessage)
+ * @param walletAddress The wallet address to sign in as
+ * @returns The session token
+ */
+export const signInWithWallet = async (provider: MessageSigner | null, walletAddress: string): Promise<string> => {
+  if (!provider?.signMessage) {
+    throw new Error('This wallet does not support message signing');
+  }
+
+  const { data: nonceData, error: nonceError } = await supabase.functions.invoke('wallet-auth', {
+    body: { action: 'nonce', walletAddress }
+  });
+  if (nonceError || !nonceData?.success) {
+    throw new Error(nonceData?.error || 'Failed to start wallet sign-in');
+  }
+
+  // Phantom returns { signature }, some wallets return the raw bytes
+  const signed = await provider.signMessage(new TextEncoder().encode(nonceData.message), 'utf8');
+  const signature = signed instanceof Uint8Array ? signed : signed.signature;
+
+  const { data: sessionData, error: sessionError } = await supabase.functions.invoke('wallet-auth', {
+    body: {
+      action: 'verify',
+      walletAddress,
+      nonce: nonceData.nonce,
+      signature: bytesToBase64(new Uint8Array(signature)),
+    }
+  });
+  if (sessionError || !sessionData?.success) {
+    throw new Error(sessionData?.error || 'Wallet sign-in failed');
+  }
+
+  const session: StoredWalletSession = { token: sessionData.token, expiresAt: sessionData.expiresAt };
+  localStorage.setItem(storageKey(walletAddress), JSON.stringify(session));
+  return session.token;
+};
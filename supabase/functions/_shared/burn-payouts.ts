@@ -0,0 +1,96 @@
+// Payout tables for burn pools, used by both the app and burn-gamble.
+// A roll in [0, 1) walks the tiers in order; the first tier whose cumulative
+// chance exceeds the roll decides the payout.
+
+export interface PayoutTier {
+  chance: number;     // Percent chance of landing on this tier (all tiers sum to 100)
+  multiplier: number; // Payout as a multiple of the burned amount, 0 = loss
+}
+
+export const DEFAULT_PAYOUT_TABLE: PayoutTier[] = [
+  { chance: 50, multiplier: 2 },
+  { chance: 50, multiplier: 0 },
+];
+
+export const MAX_PAYOUT_TIERS = 10;
+export const MAX_PAYOUT_MULTIPLIER = 100;
+
+/**
+ * Expected return per token burned (1 = break-even for players)
+ */
+export function getExpectedReturn(table: PayoutTier[]): number {
+  return table.reduce((sum, tier) => sum + (tier.chance / 100) * tier.multiplier, 0);
+}
+
+/**
+ * House edge as a percentage (0 = fair game)
+ */
+export function getHouseEdge(table: PayoutTier[]): number {
+  return (1 - getExpectedReturn(table)) * 100;
+}
+
+/**
+ * Largest multiple of the burn a single roll can pay out
+ */
+export function getMaxMultiplier(table: PayoutTier[]): number {
+  return Math.max(0, ...table.map(tier => tier.multiplier));
+}
+
+/**
+ * Largest burn the pool can accept without a single win overdrawing its rewards
+ */
+export function getMaxBurnAmount(table: PayoutTier[], availableRewards: number): number {
+  const maxMultiplier = getMaxMultiplier(table);
+  return maxMultiplier > 0 ? availableRewards / maxMultiplier : Infinity;
+}
+
+/**
+ * Validate a payout table
+ * @returns An error message, or null when the table is valid
+ */
+export function validatePayoutTable(table: PayoutTier[]): string | null {
+  if (!Array.isArray(table) || table.length < 2 || table.length > MAX_PAYOUT_TIERS) {
+    return `Payout table needs between 2 and ${MAX_PAYOUT_TIERS} outcomes`;
+  }
+
+  for (const tier of table) {
+    if (!Number.isFinite(tier.chance) || tier.chance <= 0) {
+      return 'Every outcome needs a chance above 0%';
+    }
+    if (!Number.isFinite(tier.multiplier) || tier.multiplier < 0 || tier.multiplier > MAX_PAYOUT_MULTIPLIER) {
+      return `Multipliers must be between 0x and ${MAX_PAYOUT_MULTIPLIER}x`;
+    }
+  }
+
+  const totalChance = table.reduce((sum, tier) => sum + tier.chance, 0);
+  if (Math.abs(totalChance - 100) > 0.0001) {
+    return `Chances must add up to 100% (currently ${totalChance.toFixed(2)}%)`;
+  }
+
+  if (getExpectedReturn(table) > 1.0001) {
+    return 'Expected payout exceeds 1x, the pool would lose money on average';
+  }
+
+  return null;
+}
+
+/**
+ * Map a roll onto the payout table
+ * @param roll A number in [0, 1)
+ * @returns The tier the roll landed on
+ */
+export function resolvePayout(roll: number, table: PayoutTier[]): PayoutTier {
+  let cumulative = 0;
+  for (const tier of table) {
+    cumulative += tier.chance / 100;
+    if (roll < cumulative) return tier;
+  }
+  return table[table.length - 1];
+}
+
+/**
+ * Format a tier for display, e.g. "10% → 5x"
+ */
+export function formatPayoutTier(tier: PayoutTier): string {
+  return tier.multiplier > 0 ? `${tier.chance}% → ${tier.multiplier}x` : `${tier.chance}% → lose`;
+}
@@ -0,0 +1,13 @@
+// Shared-secret check for scheduled jobs and operator-only requests.
+// These functions run with verify_jwt = false, so the scheduler sends CRON_SECRET
+// in the x-cron-secret header and every other caller is turned away before any work.
+
+export const CRON_SECRET_HEADER = 'x-cron-secret';
+
+// Allowed headers for every function that accepts the cron secret
+export const CRON_CORS_HEADERS = `authorization, x-client-info, apikey, content-type, ${CRON_SECRET_HEADER}`;
+
+export function hasCronSecret(req: Request): boolean {
+  const secret = Deno.env.get('CRON_SECRET');
+  return !!secret && req.headers.get(CRON_SECRET_HEADER) === secret;
+}
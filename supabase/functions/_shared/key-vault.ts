@@ -0,0 +1,205 @@
+// Envelope encryption for custodial wallet private keys.
+// Every wallet gets its own random AES-256-GCM data key. The private key is
+// encrypted with the data key, and the data key is wrapped with a versioned
+// master key held only in function secrets (KEY_VAULT_MASTER_KEY_V<n>).
+// Every decryption is written to key_vault_audit_log before the key is returned.
+// Both layers are bound to the row that stores them (table and id as AES-GCM
+// additional data), so ciphertext copied onto another row fails to decrypt.
+//
+// process-claim-payout and admin-get-wallet-keys are deployed outside this repo and
+// still read keys with the legacy XOR scheme only. They cannot read any envelope row,
+// which includes every wallet created since the vault shipped, and migrate-wallet-keys
+// refuses to re-encrypt XOR rows until KEY_VAULT_LEGACY_READERS_RETIRED confirms they
+// have been moved onto decryptPrivateKey.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { encode as base64Encode, decode as base64Decode } from 'https://deno.land/std@0.208.0/encoding/base64.ts';
+
+export const ENVELOPE_SCHEME = 'aes-gcm-envelope-v2';
+// Envelopes written before keys were bound to their row. Still readable; migrate-wallet-keys upgrades them.
+export const UNBOUND_ENVELOPE_SCHEME = 'aes-gcm-envelope';
+export const LEGACY_XOR_SCHEME = 'xor';
+
+const IV_LENGTH = 12;
+
+export interface EncryptedKeyFields {
+  encrypted_private_key: string;
+  encrypted_data_key: string;
+  key_version: number;
+  encryption_scheme: string;
+}
+
+// Columns read from safu_launches / pool_wallets when decrypting
+export interface StoredKeyRecord {
+  encrypted_private_key: string;
+  encrypted_data_key?: string | null;
+  key_version?: number | null;
+  encryption_scheme?: string | null;
+}
+
+export type WalletTable = 'safu_launches' | 'pool_wallets';
+
+// The row a key is stored on. Its id must be known before encrypting, so inserts pass it explicitly.
+export interface KeyBinding {
+  walletTable: WalletTable;
+  recordId: string;
+}
+
+export interface DecryptionAudit extends KeyBinding {
+  functionName: string;
+  launchId?: string | null;
+  poolId?: string | null;
+  reason: string;
+}
+
+export function getActiveKeyVersion(): number {
+  const version = parseInt(Deno.env.get('KEY_VAULT_ACTIVE_VERSION') || '1', 10);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('KEY_VAULT_ACTIVE_VERSION is invalid');
+  }
+  return version;
+}
+
+async function importMasterKey(version: number): Promise<CryptoKey> {
+  const encoded = Deno.env.get(`KEY_VAULT_MASTER_KEY_V${version}`);
+  if (!encoded) {
+    throw new Error(`Master key version ${version} is not configured`);
+  }
+  const raw = base64Decode(encoded);
+  if (raw.length !== 32) {
+    throw new Error(`Master key version ${version} must be 32 bytes`);
+  }
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function bindingData(binding: KeyBinding): Uint8Array {
+  return new TextEncoder().encode(`${binding.walletTable}:${binding.recordId}`);
+}
+
+function gcmParams(iv: Uint8Array, additionalData?: Uint8Array): AesGcmParams {
+  return additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv };
+}
+
+// Output is base64(iv || ciphertext)
+async function sealBytes(key: CryptoKey, plaintext: Uint8Array, additionalData?: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(gcmParams(iv, additionalData), key, plaintext));
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_LENGTH);
+  return base64Encode(sealed);
+}
+
+async function openBytes(key: CryptoKey, sealed: string, additionalData?: Uint8Array): Promise<Uint8Array> {
+  const bytes = base64Decode(sealed);
+  const iv = bytes.slice(0, IV_LENGTH);
+  const ciphertext = bytes.slice(IV_LENGTH);
+  return new Uint8Array(await crypto.subtle.decrypt(gcmParams(iv, additionalData), key, ciphertext));
+}
+
+/**
+ * Encrypt a wallet secret key under a fresh data key wrapped by the active master key,
+ * bound to the row it will be stored on
+ */
+export async function encryptPrivateKey(secretKey: Uint8Array, binding: KeyBinding): Promise<EncryptedKeyFields> {
+  const keyVersion = getActiveKeyVersion();
+  const masterKey = await importMasterKey(keyVersion);
+  const additionalData = bindingData(binding);
+
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['encrypt']);
+
+  const encryptedPrivateKey = await sealBytes(dataKey, secretKey, additionalData);
+  const encryptedDataKey = await sealBytes(masterKey, rawDataKey, additionalData);
+  rawDataKey.fill(0);
+
+  return {
+    encrypted_private_key: encryptedPrivateKey,
+    encrypted_data_key: encryptedDataKey,
+    key_version: keyVersion,
+    encryption_scheme: ENVELOPE_SCHEME,
+  };
+}
+
+/**
+ * Re-wrap an envelope's data key under the active master key without touching the private key
+ */
+export async function rewrapDataKey(
+  record: StoredKeyRecord,
+  binding: KeyBinding
+): Promise<Pick<EncryptedKeyFields, 'encrypted_data_key' | 'key_version'>> {
+  if (record.encryption_scheme !== ENVELOPE_SCHEME || !record.encrypted_data_key || !record.key_version) {
+    throw new Error('Only bound envelope records can be re-wrapped');
+  }
+  const activeVersion = getActiveKeyVersion();
+  const additionalData = bindingData(binding);
+  const rawDataKey = await openBytes(await importMasterKey(record.key_version), record.encrypted_data_key, additionalData);
+  const encryptedDataKey = await sealBytes(await importMasterKey(activeVersion), rawDataKey, additionalData);
+  rawDataKey.fill(0);
+  return { encrypted_data_key: encryptedDataKey, key_version: activeVersion };
+}
+
+// Pre-vault rows: XOR with WALLET_ENCRYPTION_KEY over a JSON array of secret key bytes.
+// Only used until migrate-wallet-keys has re-encrypted every row.
+export function decryptLegacyXor(encryptedData: string): Uint8Array {
+  const legacyKey = Deno.env.get('WALLET_ENCRYPTION_KEY');
+  if (!legacyKey) {
+    throw new Error('WALLET_ENCRYPTION_KEY is required to read legacy keys');
+  }
+  const encrypted = base64Decode(encryptedData);
+  const keyBytes = new TextEncoder().encode(legacyKey);
+  const decrypted = new Uint8Array(encrypted.length);
+  for (let i = 0; i < encrypted.length; i++) {
+    decrypted[i] = encrypted[i] ^ keyBytes[i % keyBytes.length];
+  }
+  return new Uint8Array(JSON.parse(new TextDecoder().decode(decrypted)));
+}
+
+async function decryptStoredKey(record: StoredKeyRecord, binding: KeyBinding): Promise<Uint8Array> {
+  const scheme = record.encryption_scheme || LEGACY_XOR_SCHEME;
+
+  if (scheme === LEGACY_XOR_SCHEME) {
+    console.warn('Decrypting legacy XOR-encrypted wallet key; run migrate-wallet-keys');
+    return decryptLegacyXor(record.encrypted_private_key);
+  }
+
+  if ((scheme !== ENVELOPE_SCHEME && scheme !== UNBOUND_ENVELOPE_SCHEME) || !record.encrypted_data_key || !record.key_version) {
+    throw new Error(`Unsupported key encryption scheme: ${scheme}`);
+  }
+
+  const additionalData = scheme === ENVELOPE_SCHEME ? bindingData(binding) : undefined;
+  const rawDataKey = await openBytes(await importMasterKey(record.key_version), record.encrypted_data_key, additionalData);
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['decrypt']);
+  rawDataKey.fill(0);
+  return openBytes(dataKey, record.encrypted_private_key, additionalData);
+}
+
+/**
+ * Decrypt a wallet secret key. The access is audited first and the call fails
+ * closed if the audit entry cannot be written.
+ */
+export async function decryptPrivateKey(
+  supabase: SupabaseClient,
+  record: StoredKeyRecord,
+  audit: DecryptionAudit
+): Promise<Uint8Array> {
+  const { error: auditError } = await supabase
+    .from('key_vault_audit_log')
+    .insert({
+      function_name: audit.functionName,
+      wallet_table: audit.walletTable,
+      record_id: audit.recordId,
+      launch_id: audit.launchId || null,
+      pool_id: audit.poolId || null,
+      reason: audit.reason,
+      key_version: record.key_version || null,
+      encryption_scheme: record.encryption_scheme || LEGACY_XOR_SCHEME,
+    });
+
+  if (auditError) {
+    console.error('SECURITY: Failed to write key vault audit log:', auditError);
+    throw new Error('Key access could not be audited');
+  }
+
+  return decryptStoredKey(record, audit);
+}
@@ -0,0 +1,77 @@
+// Provably-fair rolls for burn pools, computed by burn-gamble and re-checked in the app:
+// roll = first 32 bits of HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`) / 2^32
+
+import { DEFAULT_PAYOUT_TABLE, PayoutTier, resolvePayout } from './burn-payouts.ts';
+
+export const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * Hash a server seed the same way it is committed before any roll
+ * @param serverSeed The revealed server seed
+ * @returns Hex-encoded SHA-256 of the seed
+ */
+export async function hashServerSeed(serverSeed: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serverSeed));
+  return toHex(digest);
+}
+
+/**
+ * Recompute a roll from its seeds
+ * @param serverSeed The revealed server seed
+ * @param clientSeed The client seed recorded with the burn
+ * @param nonce The nonce recorded with the burn
+ * @returns A uniformly distributed number in [0, 1)
+ */
+export async function computeRoll(serverSeed: string, clientSeed: string, nonce: number): Promise<number> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(serverSeed),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${clientSeed}:${nonce}`));
+  return parseInt(toHex(signature).slice(0, 8), 16) / 0x100000000;
+}
+
+/**
+ * Generate a random client seed for a new player
+ * @returns 32 hex characters of browser randomness
+ */
+export function generateClientSeed(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+export interface RollVerification {
+  hashMatches: boolean;
+  roll: number;
+  multiplier: number;
+  result: 'win' | 'lose';
+}
+
+/**
+ * Verify a past burn: the revealed seed must match its commitment and
+ * the recomputed roll must reproduce the recorded payout
+ */
+export async function verifyBurnRoll(
+  serverSeed: string,
+  serverSeedHash: string,
+  clientSeed: string,
+  nonce: number,
+  payoutTable: PayoutTier[] = DEFAULT_PAYOUT_TABLE
+): Promise<RollVerification> {
+  const hashMatches = (await hashServerSeed(serverSeed)) === serverSeedHash;
+  const roll = await computeRoll(serverSeed, clientSeed, nonce);
+  const { multiplier } = resolvePayout(roll, payoutTable);
+  return {
+    hashMatches,
+    roll,
+    multiplier,
+    result: multiplier > 0 ? 'win' : 'lose',
+  };
+}
@@ -0,0 +1,95 @@
+// Wallets that must never take a race prize.
+// pump.fun's bonding curve and AMM pool vaults hold large balances but are
+// owned by programs, not people; exchange hot wallets pool many users' tokens.
+
+import { PublicKey } from 'https://esm.sh/@solana/web3.js@1.87.6';
+
+export type ExclusionReason = 'bonding_curve' | 'amm_vault' | 'program_owned' | 'exchange' | 'creator' | 'manual';
+
+export interface ManualExclusion {
+  address: string;
+  reason?: string;
+}
+
+export interface Exclusion {
+  reason: ExclusionReason;
+  detail: string;
+}
+
+export const MAX_MANUAL_EXCLUSIONS = 100;
+
+const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// Authorities that own the token vaults of AMM pools
+const AMM_AUTHORITIES: Record<string, string> = {
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1': 'Raydium AMM v4',
+  'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL': 'Raydium CPMM',
+};
+
+const EXCHANGE_WALLETS: Record<string, string> = {
+  '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9': 'Binance',
+  '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM': 'Binance',
+  'H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS': 'Coinbase',
+  '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD': 'OKX',
+  'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2': 'Bybit',
+  'FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5': 'Kraken',
+};
+
+export function isValidWalletAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a classifier for one race's token.
+ * @returns A function mapping a holder wallet to its exclusion, or null if it may rank
+ */
+export function createExclusionClassifier(
+  tokenMint: string,
+  creatorWallet: string | null,
+  manualExclusions: ManualExclusion[]
+): (wallet: string) => Exclusion | null {
+  const [bondingCurve] = PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode('bonding-curve'), new PublicKey(tokenMint).toBytes()],
+    PUMP_FUN_PROGRAM_ID
+  );
+  const bondingCurveAddress = bondingCurve.toBase58();
+
+  const manual = new Map<string, string>();
+  for (const entry of manualExclusions.slice(0, MAX_MANUAL_EXCLUSIONS)) {
+    if (entry?.address) manual.set(entry.address, entry.reason || 'Excluded by race creator');
+  }
+
+  return (wallet: string) => {
+    if (wallet === bondingCurveAddress) {
+      return { reason: 'bonding_curve', detail: 'pump.fun bonding curve' };
+    }
+    if (AMM_AUTHORITIES[wallet]) {
+      return { reason: 'amm_vault', detail: `${AMM_AUTHORITIES[wallet]} pool vault` };
+    }
+    if (EXCHANGE_WALLETS[wallet]) {
+      return { reason: 'exchange', detail: `${EXCHANGE_WALLETS[wallet]} hot wallet` };
+    }
+    if (creatorWallet && wallet === creatorWallet) {
+      return { reason: 'creator', detail: 'Race creator' };
+    }
+    if (manual.has(wallet)) {
+      return { reason: 'manual', detail: manual.get(wallet)! };
+    }
+
+    // Owners off the ed25519 curve are PDAs: no private key, so a program holds the tokens
+    try {
+      if (!PublicKey.isOnCurve(new PublicKey(wallet).toBytes())) {
+        return { reason: 'program_owned', detail: 'Program-owned account' };
+      }
+    } catch {
+      return { reason: 'program_owned', detail: 'Invalid owner address' };
+    }
+
+    return null;
+  };
+}
@@ -0,0 +1,307 @@
+// Push payouts for auto-distribute races, used by distribute-race-rewards.
+// Winners are sent their round reward from the race pool wallet in batched SPL
+// transfers. Each batch is signed once and its signature is written to every
+// participant row in it before sending, so an interrupted run can be settled
+// from the chain. Every transition out of 'sending' is conditional on the row
+// still holding that signature.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import bs58 from 'https://esm.sh/bs58@5.0.0';
+import { Connection, Keypair, PublicKey, Transaction } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { getAssociatedTokenAddress, createTransferInstruction, createAssociatedTokenAccountInstruction, getAccount } from 'https://esm.sh/@solana/spl-token@0.3.11';
+import { decryptPrivateKey } from './key-vault.ts';
+import { getClaimChainStatus } from './safu-claims.ts';
+
+// Transfers per transaction; ATA creation for new holders keeps this well under the size limit
+const PAYOUT_BATCH_SIZE = 5;
+const MAX_PAYOUTS_PER_RUN = 100;
+export const MAX_PAYOUT_ATTEMPTS = 5;
+const RETRY_BACKOFF_MINUTES = 10;
+// Batches younger than this may still be confirming in the run that sent them
+const SENDING_STALE_MINUTES = 5;
+
+interface PayoutRace {
+  id: string;
+  contract_address: string | null;
+  token_decimals: number | null;
+  auto_distribute: boolean | null;
+}
+
+interface PayoutRow {
+  id: string;
+  wallet_address: string;
+  reward_amount: number;
+  payout_status: string;
+  payout_attempts: number;
+  payout_tx_signature: string | null;
+  payout_last_valid_block_height: number | null;
+}
+
+export interface PayoutSummary {
+  paid: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * Queue every eligible, unclaimed winner of a round for a push payout
+ * @returns Number of participants queued
+ */
+export async function queueRoundPayouts(supabase: SupabaseClient, raceId: string, roundNumber: number): Promise<number> {
+  const { data, error } = await supabase
+    .from('race_participants')
+    .update({ payout_status: 'queued', payout_next_attempt_at: new Date().toISOString(), payout_error: null })
+    .eq('race_id', raceId)
+    .eq('round_number', roundNumber)
+    .eq('is_eligible', true)
+    .eq('claimed', false)
+    .gt('reward_amount', 0)
+    .is('payout_status', null)
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+}
+
+async function markBatchPaid(supabase: SupabaseClient, rows: PayoutRow[], signature: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('race_participants')
+    .update({
+      payout_status: 'paid',
+      claimed: true,
+      claimed_at: new Date().toISOString(),
+      payout_error: null
+    })
+    .in('id', rows.map(r => r.id))
+    .eq('payout_status', 'sending')
+    .eq('payout_tx_signature', signature)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to mark payout batch ${signature} as paid:`, error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+// Attempts are counted per row, so each row is released on its own
+async function markBatchFailed(supabase: SupabaseClient, rows: PayoutRow[], signature: string | null, reason: string): Promise<number> {
+  let failed = 0;
+  for (const row of rows) {
+    const attempts = (row.payout_attempts || 0) + 1;
+    let query = supabase
+      .from('race_participants')
+      .update({
+        payout_status: 'failed',
+        payout_attempts: attempts,
+        payout_next_attempt_at: new Date(Date.now() + RETRY_BACKOFF_MINUTES * attempts * 60 * 1000).toISOString(),
+        payout_error: reason
+      })
+      .eq('id', row.id)
+      .eq('payout_status', 'sending');
+
+    query = signature ? query.eq('payout_tx_signature', signature) : query.is('payout_tx_signature', null);
+
+    const { data, error } = await query.select('id');
+    if (error) {
+      console.error(`Failed to release payout ${row.id}:`, error);
+    } else if (data && data.length > 0) {
+      failed++;
+    }
+  }
+  return failed;
+}
+
+// Batches left in 'sending' by a run that never finished
+async function settleStaleBatches(supabase: SupabaseClient, connection: Connection, raceId: string, summary: PayoutSummary) {
+  const staleBefore = new Date(Date.now() - SENDING_STALE_MINUTES * 60 * 1000).toISOString();
+  const { data: stale, error } = await supabase
+    .from('race_participants')
+    .select('id, wallet_address, reward_amount, payout_status, payout_attempts, payout_tx_signature, payout_last_valid_block_height')
+    .eq('race_id', raceId)
+    .eq('payout_status', 'sending')
+    .lt('payout_started_at', staleBefore);
+
+  if (error) throw error;
+
+  const bySignature = new Map<string | null, PayoutRow[]>();
+  for (const row of (stale as PayoutRow[]) || []) {
+    const list = bySignature.get(row.payout_tx_signature) || [];
+    list.push(row);
+    bySignature.set(row.payout_tx_signature, list);
+  }
+
+  for (const [signature, rows] of bySignature) {
+    if (!signature) {
+      summary.failed += await markBatchFailed(supabase, rows, null, 'Payout was interrupted before sending');
+      continue;
+    }
+
+    const chainStatus = await getClaimChainStatus(connection, signature, rows[0].payout_last_valid_block_height);
+    if (chainStatus === 'confirmed') {
+      summary.paid += await markBatchPaid(supabase, rows, signature);
+    } else if (chainStatus === 'failed') {
+      summary.failed += await markBatchFailed(supabase, rows, signature, 'Payout transaction failed or expired');
+    } else {
+      summary.pending += rows.length;
+    }
+  }
+}
+
+async function sendBatch(
+  supabase: SupabaseClient,
+  connection: Connection,
+  sender: Keypair,
+  race: PayoutRace,
+  batch: PayoutRow[],
+  summary: PayoutSummary
+) {
+  // Take the rows: only ones still queued or due for a retry, and never claimed by hand in the meantime
+  const { data: taken, error: takeError } = await supabase
+    .from('race_participants')
+    .update({ payout_status: 'sending', payout_started_at: new Date().toISOString(), payout_tx_signature: null, payout_last_valid_block_height: null })
+    .in('id', batch.map(r => r.id))
+    .in('payout_status', ['queued', 'failed'])
+    .eq('claimed', false)
+    .select('id');
+
+  if (takeError) throw takeError;
+  const takenIds = new Set((taken || []).map((r: { id: string }) => r.id));
+  const rows = batch.filter(r => takenIds.has(r.id));
+  if (rows.length === 0) return;
+
+  const decimals = race.token_decimals ?? 6;
+  const tokenMint = new PublicKey(race.contract_address!);
+  const senderAta = await getAssociatedTokenAddress(tokenMint, sender.publicKey);
+
+  let signature: string | null = null;
+  try {
+    const transaction = new Transaction();
+    let totalAmount = BigInt(0);
+
+    for (const row of rows) {
+      const recipient = new PublicKey(row.wallet_address);
+      const recipientAta = await getAssociatedTokenAddress(tokenMint, recipient);
+      try {
+        await getAccount(connection, recipientAta);
+      } catch {
+        transaction.add(createAssociatedTokenAccountInstruction(sender.publicKey, recipientAta, recipient, tokenMint));
+      }
+
+      const amount = BigInt(Math.floor(Number(row.reward_amount) * Math.pow(10, decimals)));
+      totalAmount += amount;
+      transaction.add(createTransferInstruction(senderAta, recipientAta, sender.publicKey, amount));
+    }
+
+    const senderAccount = await getAccount(connection, senderAta);
+    if (senderAccount.amount < totalAmount) {
+      throw new Error('Insufficient tokens in race pool wallet');
+    }
+
+    // Sign once and record the signature before sending, so a crash can be reconciled
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = sender.publicKey;
+    transaction.sign(sender);
+    const batchSignature = bs58.encode(transaction.signature!);
+
+    const { data: recorded, error: recordError } = await supabase
+      .from('race_participants')
+      .update({ payout_tx_signature: batchSignature, payout_last_valid_block_height: lastValidBlockHeight })
+      .in('id', rows.map(r => r.id))
+      .eq('payout_status', 'sending')
+      .is('payout_tx_signature', null)
+      .select('id');
+
+    if (recordError || !recorded || recorded.length !== rows.length) {
+      throw new Error('Failed to record payout signature');
+    }
+    signature = batchSignature;
+
+    await connection.sendRawTransaction(transaction.serialize(), { skipPreflight: false, maxRetries: 3 });
+    const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    summary.paid += await markBatchPaid(supabase, rows, signature);
+    console.log(`Race ${race.id}: paid ${rows.length} winners in ${signature}`);
+
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Race ${race.id}: payout batch failed:`, message);
+
+    if (!signature) {
+      summary.failed += await markBatchFailed(supabase, rows, null, message);
+      return;
+    }
+
+    // The transfer may still have landed even though sending or confirming errored
+    const chainStatus = await getClaimChainStatus(connection, signature, null).catch(() => 'pending' as const);
+    if (chainStatus === 'confirmed') {
+      summary.paid += await markBatchPaid(supabase, rows, signature);
+    } else if (chainStatus === 'failed') {
+      summary.failed += await markBatchFailed(supabase, rows, signature, message);
+    } else {
+      // Left in 'sending'; the next run settles it once the blockhash has expired
+      summary.pending += rows.length;
+    }
+  }
+}
+
+/**
+ * Send every queued or retry-due payout of an auto-distribute race, and settle batches a previous run left behind
+ */
+export async function sendQueuedPayouts(supabase: SupabaseClient, connection: Connection, race: PayoutRace): Promise<PayoutSummary> {
+  const summary: PayoutSummary = { paid: 0, failed: 0, pending: 0 };
+
+  if (!race.contract_address) {
+    throw new Error('No token address found');
+  }
+
+  await settleStaleBatches(supabase, connection, race.id, summary);
+
+  // With auto_distribute off, queued and failed rewards belong to manual claims
+  if (!race.auto_distribute) return summary;
+
+  const { data: due, error: dueError } = await supabase
+    .from('race_participants')
+    .select('id, wallet_address, reward_amount, payout_status, payout_attempts, payout_tx_signature, payout_last_valid_block_height')
+    .eq('race_id', race.id)
+    .in('payout_status', ['queued', 'failed'])
+    .lt('payout_attempts', MAX_PAYOUT_ATTEMPTS)
+    .lte('payout_next_attempt_at', new Date().toISOString())
+    .eq('claimed', false)
+    .order('rank', { ascending: true })
+    .limit(MAX_PAYOUTS_PER_RUN);
+
+  if (dueError) throw dueError;
+  const rows = (due as PayoutRow[]) || [];
+  if (rows.length === 0) return summary;
+
+  const { data: poolWallet, error: walletError } = await supabase
+    .from('pool_wallets')
+    .select('*')
+    .eq('pool_id', race.id)
+    .eq('pool_type', 'race')
+    .single();
+
+  if (walletError || !poolWallet) {
+    throw new Error('Race pool wallet not found');
+  }
+
+  const secretKey = await decryptPrivateKey(supabase, poolWallet, {
+    functionName: 'distribute-race-rewards',
+    walletTable: 'pool_wallets',
+    recordId: poolWallet.id,
+    poolId: race.id,
+    reason: `Race auto-distribute payout of ${rows.length} winners`,
+  });
+  const sender = Keypair.fromSecretKey(secretKey);
+
+  for (let i = 0; i < rows.length; i += PAYOUT_BATCH_SIZE) {
+    await sendBatch(supabase, connection, sender, race, rows.slice(i, i + PAYOUT_BATCH_SIZE), summary);
+  }
+
+  return summary;
+}
@@ -0,0 +1,184 @@
+// Reward schedules for races
+// A schedule turns a round's prize pool into per-rank payouts. Only eligible
+// ranks within `places` are paid; the shares of ineligible ranks go to the other
+// eligible ranks of the same tier (tiers) or are re-normalised (curves).
+// Used by the app and create-race-pool; must stay in sync with distribute-race-rewards.
+
+export type RewardCurve = 'tiers' | 'linear' | 'exponential' | 'winner_takes_most';
+
+export interface RewardTier {
+  fromRank: number; // First rank in the tier (inclusive)
+  toRank: number;   // Last rank in the tier (inclusive)
+  percent: number;  // Share of the round pool split equally among eligible ranks in the tier
+}
+
+export interface RaceRewardSchedule {
+  curve: RewardCurve;
+  places: number;                          // Number of ranked places that can win
+  tiers?: RewardTier[];                    // curve = 'tiers'
+  decay?: number;                          // curve = 'exponential': each rank gets decay x the rank above
+  winnerPercent?: number;                  // curve = 'winner_takes_most': share for rank 1, the rest decays linearly
+  maxRewardPerParticipant?: number | null; // Optional per-wallet cap per round
+}
+
+export const DEFAULT_REWARD_SCHEDULE: RaceRewardSchedule = {
+  curve: 'tiers',
+  places: 100,
+  tiers: [
+    { fromRank: 1, toRank: 10, percent: 60 },
+    { fromRank: 11, toRank: 50, percent: 30 },
+    { fromRank: 51, toRank: 100, percent: 10 },
+  ],
+};
+
+export const MAX_RANKED_PLACES = 1000;
+export const MAX_REWARD_TIERS = 10;
+
+/**
+ * Relative weight of a rank under a curve schedule (tiers are handled separately)
+ */
+function getRankWeight(schedule: RaceRewardSchedule, rank: number): number {
+  switch (schedule.curve) {
+    case 'linear':
+      return schedule.places - rank + 1;
+    case 'exponential':
+      return Math.pow(schedule.decay ?? 0.9, rank - 1);
+    case 'winner_takes_most': {
+      const winnerPercent = schedule.winnerPercent ?? 50;
+      if (rank === 1) return schedule.places === 1 ? 100 : winnerPercent;
+      const rest = schedule.places - 1;
+      const linearTotal = (rest * (rest + 1)) / 2;
+      return ((100 - winnerPercent) * (schedule.places - rank + 1)) / linearTotal;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Compute the payout of every eligible rank
+ * @param schedule The race's reward schedule
+ * @param roundPool Tokens available for the round
+ * @param eligibleRanks Ranks that kept their eligibility
+ * @returns Reward per rank (ranks outside `places` get nothing)
+ */
+export function computeRankRewards(
+  schedule: RaceRewardSchedule,
+  roundPool: number,
+  eligibleRanks: number[]
+): Map<number, number> {
+  const rewards = new Map<number, number>();
+  const ranks = eligibleRanks.filter(rank => rank >= 1 && rank <= schedule.places);
+  const cap = schedule.maxRewardPerParticipant && schedule.maxRewardPerParticipant > 0
+    ? schedule.maxRewardPerParticipant
+    : Infinity;
+
+  if (schedule.curve === 'tiers') {
+    for (const tier of schedule.tiers || []) {
+      const inTier = ranks.filter(rank => rank >= tier.fromRank && rank <= tier.toRank);
+      if (inTier.length === 0) continue;
+      const share = (roundPool * tier.percent) / 100 / inTier.length;
+      inTier.forEach(rank => rewards.set(rank, Math.min(share, cap)));
+    }
+    return rewards;
+  }
+
+  const totalWeight = ranks.reduce((sum, rank) => sum + getRankWeight(schedule, rank), 0);
+  if (totalWeight <= 0) return rewards;
+
+  for (const rank of ranks) {
+    rewards.set(rank, Math.min((roundPool * getRankWeight(schedule, rank)) / totalWeight, cap));
+  }
+  return rewards;
+}
+
+/**
+ * Payout per rank assuming every ranked place stays eligible (used for previews and estimates)
+ */
+export function getRankPayouts(schedule: RaceRewardSchedule, roundPool: number): number[] {
+  const ranks = Array.from({ length: schedule.places }, (_, i) => i + 1);
+  const rewards = computeRankRewards(schedule, roundPool, ranks);
+  return ranks.map(rank => rewards.get(rank) || 0);
+}
+
+/**
+ * Validate a reward schedule
+ * @returns An error message, or null when the schedule is valid
+ */
+export function validateRewardSchedule(schedule: RaceRewardSchedule): string | null {
+  if (!Number.isInteger(schedule.places) || schedule.places < 1 || schedule.places > MAX_RANKED_PLACES) {
+    return `Ranked places must be between 1 and ${MAX_RANKED_PLACES}`;
+  }
+
+  if (schedule.maxRewardPerParticipant != null && (!Number.isFinite(schedule.maxRewardPerParticipant) || schedule.maxRewardPerParticipant < 0)) {
+    return 'Per-wallet cap must be a positive number';
+  }
+
+  switch (schedule.curve) {
+    case 'tiers':
+      return validateRewardTiers(schedule.tiers || [], schedule.places);
+    case 'linear':
+      return null;
+    case 'exponential':
+      if (!Number.isFinite(schedule.decay) || (schedule.decay ?? 0) <= 0 || (schedule.decay ?? 1) >= 1) {
+        return 'Decay must be between 0 and 1';
+      }
+      return null;
+    case 'winner_takes_most':
+      if (!Number.isFinite(schedule.winnerPercent) || (schedule.winnerPercent ?? 0) <= 0 || (schedule.winnerPercent ?? 101) > 100) {
+        return 'Winner share must be between 0% and 100%';
+      }
+      return null;
+    default:
+      return 'Unknown reward curve';
+  }
+}
+
+function validateRewardTiers(tiers: RewardTier[], places: number): string | null {
+  if (tiers.length < 1 || tiers.length > MAX_REWARD_TIERS) {
+    return `Reward schedule needs between 1 and ${MAX_REWARD_TIERS} tiers`;
+  }
+
+  const sorted = [...tiers].sort((a, b) => a.fromRank - b.fromRank);
+  let previousTo = 0;
+  for (const tier of sorted) {
+    if (!Number.isInteger(tier.fromRank) || !Number.isInteger(tier.toRank) || tier.fromRank < 1 || tier.toRank < tier.fromRank) {
+      return 'Each tier needs a valid rank range';
+    }
+    if (tier.toRank > places) {
+      return `Tiers cannot go past rank ${places}`;
+    }
+    if (tier.fromRank <= previousTo) {
+      return 'Tier rank ranges cannot overlap';
+    }
+    if (!Number.isFinite(tier.percent) || tier.percent <= 0) {
+      return 'Every tier needs a share above 0%';
+    }
+    previousTo = tier.toRank;
+  }
+
+  const totalPercent = tiers.reduce((sum, tier) => sum + tier.percent, 0);
+  if (Math.abs(totalPercent - 100) > 0.0001) {
+    return `Tier shares must add up to 100% (currently ${totalPercent.toFixed(2)}%)`;
+  }
+
+  return null;
+}
+
+/**
+ * Short label for the schedule, e.g. "Top 100 • 3 tiers"
+ */
+export function formatRewardSchedule(schedule: RaceRewardSchedule): string {
+  switch (schedule.curve) {
+    case 'tiers':
+      return `Top ${schedule.places} • ${(schedule.tiers || []).length} tiers`;
+    case 'linear':
+      return `Top ${schedule.places} • linear decay`;
+    case 'exponential':
+      return `Top ${schedule.places} • ${Math.round((1 - (schedule.decay ?? 0.9)) * 100)}% decay per rank`;
+    case 'winner_takes_most':
+      return `Top ${schedule.places} • winner takes ${schedule.winnerPercent ?? 50}%`;
+    default:
+      return `Top ${schedule.places}`;
+  }
+}
@@ -0,0 +1,78 @@
+// Round schedule for races
+// Every round opens at round_started_at. Holders are locked in when the entry
+// window closes and rewards are computed when the round length has elapsed.
+// Used by the app and create-race-pool; must stay in sync with distribute-race-rewards
+// and the race_pools constraints.
+
+// Stored on race_pools as round_length_minutes / entry_window_minutes
+export interface RaceRoundSchedule {
+  roundLengthMinutes: number; // From round start to the end snapshot
+  entryWindowMinutes: number; // From round start to the entry snapshot
+}
+
+export const DEFAULT_ROUND_SCHEDULE: RaceRoundSchedule = {
+  roundLengthMinutes: 24 * 60,
+  entryWindowMinutes: 60,
+};
+
+export const MIN_ROUND_LENGTH_MINUTES = 60;
+export const MAX_ROUND_LENGTH_MINUTES = 7 * 24 * 60;
+export const MIN_ENTRY_WINDOW_MINUTES = 5;
+
+export const ROUND_SCHEDULE_PRESETS: Array<{ label: string; schedule: RaceRoundSchedule }> = [
+  { label: 'SPRINT 1H', schedule: { roundLengthMinutes: 60, entryWindowMinutes: 10 } },
+  { label: 'SPRINT 6H', schedule: { roundLengthMinutes: 6 * 60, entryWindowMinutes: 30 } },
+  { label: 'DAILY', schedule: DEFAULT_ROUND_SCHEDULE },
+  { label: 'WEEKLY', schedule: { roundLengthMinutes: 7 * 24 * 60, entryWindowMinutes: 24 * 60 } },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Read a race's round schedule, falling back to the defaults for older rows
+ */
+export function getRoundSchedule(race: { round_length_minutes?: number | null; entry_window_minutes?: number | null }): RaceRoundSchedule {
+  return {
+    roundLengthMinutes: race.round_length_minutes || DEFAULT_ROUND_SCHEDULE.roundLengthMinutes,
+    entryWindowMinutes: race.entry_window_minutes || DEFAULT_ROUND_SCHEDULE.entryWindowMinutes,
+  };
+}
+
+/**
+ * @returns An error message, or null if the schedule is valid
+ */
+export function validateRoundSchedule(schedule: RaceRoundSchedule): string | null {
+  const { roundLengthMinutes, entryWindowMinutes } = schedule;
+  if (!Number.isInteger(roundLengthMinutes) || roundLengthMinutes < MIN_ROUND_LENGTH_MINUTES || roundLengthMinutes > MAX_ROUND_LENGTH_MINUTES) {
+    return 'Round length must be between 1 hour and 7 days';
+  }
+  if (!Number.isInteger(entryWindowMinutes) || entryWindowMinutes < MIN_ENTRY_WINDOW_MINUTES) {
+    return `Entry window must be at least ${MIN_ENTRY_WINDOW_MINUTES} minutes`;
+  }
+  if (entryWindowMinutes * 4 > roundLengthMinutes * 3) {
+    return 'Entry window can be at most 75% of the round';
+  }
+  return null;
+}
+
+/**
+ * When the current round's entry window closes and when the round ends
+ */
+export function getRoundTimeline(roundStartedAt: string | Date, schedule: RaceRoundSchedule): { entryEnd: Date; roundEnd: Date } {
+  const start = new Date(roundStartedAt).getTime();
+  return {
+    entryEnd: new Date(start + schedule.entryWindowMinutes * MINUTE_MS),
+    roundEnd: new Date(start + schedule.roundLengthMinutes * MINUTE_MS),
+  };
+}
+
+/**
+ * Short duration label, e.g. "45m", "6h", "1h 30m", "7d"
+ */
+export function formatScheduleDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
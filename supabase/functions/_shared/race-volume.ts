@@ -0,0 +1,176 @@
+// Swap volume for net-buy races, used by distribute-race-rewards.
+// Swaps come from Helius parsed transaction history for the token mint, which
+// covers both the pump.fun bonding curve and AMM pools. The fee payer is the
+// trader: tokens moved to them are a buy, tokens moved from them are a sell.
+// Swaps a relayer pays for on someone else's behalf are therefore missed, and tokens
+// bought and then moved to another wallet still count as bought. distribute-race-rewards
+// caps each wallet's net buy at what it holds when the round ends to limit the latter.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_SCAN = 20;
+
+interface VolumeRace {
+  id: string;
+  contract_address: string | null;
+  current_round: number | null;
+  round_started_at: string | null;
+  volume_cursor_signature: string | null;
+  volume_backfill_before: string | null;
+  volume_backfill_newest: string | null;
+}
+
+interface HeliusTokenTransfer {
+  fromUserAccount: string | null;
+  toUserAccount: string | null;
+  mint: string;
+  tokenAmount: number;
+}
+
+interface HeliusTransaction {
+  signature: string;
+  timestamp: number;
+  feePayer: string;
+  source: string;
+  transactionError: unknown;
+  tokenTransfers: HeliusTokenTransfer[] | null;
+}
+
+interface VolumeTrade {
+  signature: string;
+  wallet: string;
+  tokenAmount: number;
+  source: string;
+  blockTime: string;
+}
+
+/**
+ * Net token amount a swap moved to its fee payer (negative for a sell)
+ */
+function getTraderTokenDelta(tx: HeliusTransaction, mint: string): number {
+  let delta = 0;
+  for (const transfer of tx.tokenTransfers || []) {
+    if (transfer.mint !== mint) continue;
+    if (transfer.toUserAccount === tx.feePayer) delta += transfer.tokenAmount;
+    if (transfer.fromUserAccount === tx.feePayer) delta -= transfer.tokenAmount;
+  }
+  return delta;
+}
+
+async function fetchSwapPage(mint: string, apiKey: string, before?: string): Promise<HeliusTransaction[]> {
+  const params = new URLSearchParams({ 'api-key': apiKey, type: 'SWAP', limit: String(PAGE_SIZE) });
+  if (before) params.set('before', before);
+
+  const response = await fetch(`https://api.helius.xyz/v0/addresses/${mint}/transactions?${params}`);
+  if (!response.ok) {
+    throw new Error(`Helius transactions API error: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+type VolumeCursor = Pick<VolumeRace, 'volume_cursor_signature' | 'volume_backfill_before' | 'volume_backfill_newest'>;
+
+export interface VolumeScanResult {
+  trades: number;
+  // False when the page limit cut the scan short; the next scan resumes where it stopped
+  complete: boolean;
+  // The race's scan position after this scan, as stored
+  cursor: VolumeCursor;
+}
+
+/**
+ * Record every swap of the round since the last scan (or since the round started) and move the cursor.
+ * Pages are read newest first; the cursor only advances once the scan reaches
+ * ground it has already covered. A scan cut short stores where it stopped, and the
+ * next one continues from there before reading newer swaps.
+ */
+export async function scanRoundVolume(supabase: SupabaseClient, race: VolumeRace, roundEnd: Date, apiKey: string): Promise<VolumeScanResult> {
+  if (!race.contract_address || !race.round_started_at) {
+    throw new Error('Race has no token address or round start');
+  }
+
+  const mint = race.contract_address;
+  const roundStart = new Date(race.round_started_at).getTime() / 1000;
+  const roundEndSeconds = roundEnd.getTime() / 1000;
+  const trades: VolumeTrade[] = [];
+  let newestSignature: string | null = race.volume_backfill_newest;
+  let before: string | undefined = race.volume_backfill_before || undefined;
+  let reachedCovered = false;
+
+  for (let page = 0; page < MAX_PAGES_PER_SCAN && !reachedCovered; page++) {
+    const transactions = await fetchSwapPage(mint, apiKey, before);
+    if (transactions.length === 0) {
+      reachedCovered = true;
+      break;
+    }
+
+    for (const tx of transactions) {
+      if (tx.signature === race.volume_cursor_signature || tx.timestamp < roundStart) {
+        reachedCovered = true;
+        break;
+      }
+      newestSignature = newestSignature || tx.signature;
+      // Swaps after the round closed belong to the next round, which scans from its own start
+      if (tx.transactionError || tx.timestamp > roundEndSeconds) continue;
+
+      const delta = getTraderTokenDelta(tx, mint);
+      if (delta === 0) continue;
+
+      trades.push({
+        signature: tx.signature,
+        wallet: tx.feePayer,
+        tokenAmount: delta,
+        source: tx.source,
+        blockTime: new Date(tx.timestamp * 1000).toISOString()
+      });
+    }
+
+    before = transactions[transactions.length - 1].signature;
+    if (transactions.length < PAGE_SIZE) reachedCovered = true;
+  }
+
+  if (trades.length > 0) {
+    const { error } = await supabase
+      .from('race_volume_trades')
+      .upsert(
+        trades.map(trade => ({
+          race_id: race.id,
+          round_number: race.current_round || 1,
+          signature: trade.signature,
+          wallet_address: trade.wallet,
+          token_amount: trade.tokenAmount,
+          source: trade.source,
+          block_time: trade.blockTime
+        })),
+        { onConflict: 'race_id,signature,wallet_address', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+
+  if (!reachedCovered) {
+    console.warn(`Race ${race.id}: volume scan hit the page limit, resuming next run`);
+  }
+
+  const cursor: VolumeCursor = reachedCovered
+    ? {
+        volume_cursor_signature: newestSignature || race.volume_cursor_signature,
+        volume_backfill_before: null,
+        volume_backfill_newest: null
+      }
+    : {
+        volume_cursor_signature: race.volume_cursor_signature,
+        volume_backfill_before: before ?? null,
+        volume_backfill_newest: newestSignature
+      };
+
+  const { error: cursorError } = await supabase
+    .from('race_pools')
+    .update({ ...cursor, last_volume_scan_at: new Date().toISOString() })
+    .eq('id', race.id);
+
+  if (cursorError) throw cursorError;
+
+  return { trades: trades.length, complete: reachedCovered, cursor };
+}
@@ -0,0 +1,90 @@
+// Shared SAFU claim state transitions, used by claim-safu-tokens and reconcile-safu-claims.
+// A claim moves unclaimed -> claiming -> claimed | failed. Every transition out of
+// 'claiming' is conditional on the row still being 'claiming', so a request and
+// the reconciler can never both settle the same claim.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Connection } from 'https://esm.sh/@solana/web3.js@1.87.6';
+
+export type ClaimChainStatus = 'confirmed' | 'failed' | 'pending';
+
+/**
+ * Look up a recorded claim transaction on-chain.
+ * 'failed' means it errored on-chain or its blockhash expired without it landing,
+ * so it can never move tokens and the claim is safe to retry.
+ */
+export async function getClaimChainStatus(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number | null
+): Promise<ClaimChainStatus> {
+  const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+  const status = value[0];
+
+  if (status) {
+    if (status.err) return 'failed';
+    if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+      return 'confirmed';
+    }
+    return 'pending';
+  }
+
+  if (lastValidBlockHeight !== null) {
+    const blockHeight = await connection.getBlockHeight('confirmed');
+    if (blockHeight > lastValidBlockHeight) return 'failed';
+  }
+  return 'pending';
+}
+
+export async function markClaimConfirmed(
+  supabase: SupabaseClient,
+  contributionId: string,
+  signature: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('safu_contributions')
+    .update({
+      claim_status: 'claimed',
+      claimed: true,
+      claimed_at: new Date().toISOString(),
+      tx_hash: signature,
+      claim_error: null,
+    })
+    .eq('id', contributionId)
+    .eq('claim_status', 'claiming')
+    .eq('claim_tx_signature', signature)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to mark claim ${contributionId} as claimed:`, error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+/**
+ * Release a claim to 'failed' so it can be retried.
+ * Pass the recorded signature (or null if none was recorded) so a claim that
+ * has since been re-taken with a new transaction is left alone.
+ */
+export async function markClaimFailed(
+  supabase: SupabaseClient,
+  contributionId: string,
+  signature: string | null,
+  reason: string
+): Promise<boolean> {
+  let query = supabase
+    .from('safu_contributions')
+    .update({ claim_status: 'failed', claim_error: reason })
+    .eq('id', contributionId)
+    .eq('claim_status', 'claiming');
+
+  query = signature ? query.eq('claim_tx_signature', signature) : query.is('claim_tx_signature', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error(`Failed to release claim ${contributionId}:`, error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,45 @@
+// In-memory stand-in for the platform verifiers in social-verifiers.ts.
+// Tests mark which (task, account) pairs are done and register the fake in place
+// of a live verifier, so verification can be exercised without any platform API.
+
+import { SocialAccountPlatform, SocialTaskVerifier, VerificationResult } from './social-verifiers.ts';
+
+export interface InMemoryVerifier extends SocialTaskVerifier {
+  // Record that the account did the task; pass null for platforms without accounts
+  complete(taskId: string, accountId: string | null): void;
+  revoke(taskId: string, accountId: string | null): void;
+  // Make the next checks answer 'pending' with this reason, e.g. to simulate rate limits
+  setUnavailable(reason: string | null): void;
+  // Every check made, in order
+  calls: Array<{ taskId: string; accountId: string | null }>;
+}
+
+export function createInMemoryVerifier(accountPlatform: SocialAccountPlatform | null): InMemoryVerifier {
+  const done = new Set<string>();
+  const key = (taskId: string, accountId: string | null) => `${taskId}:${accountId ?? ''}`;
+  let unavailableReason: string | null = null;
+
+  const verifier: InMemoryVerifier = {
+    accountPlatform,
+    calls: [],
+    complete(taskId, accountId) {
+      done.add(key(taskId, accountId));
+    },
+    revoke(taskId, accountId) {
+      done.delete(key(taskId, accountId));
+    },
+    setUnavailable(reason) {
+      unavailableReason = reason;
+    },
+    async verify({ task, accountId }): Promise<VerificationResult> {
+      verifier.calls.push({ taskId: task.id, accountId });
+      if (unavailableReason) return { status: 'pending', reason: unavailableReason };
+      if (accountPlatform && !accountId) return { status: 'rejected', reason: 'No linked account' };
+      return done.has(key(task.id, accountId))
+        ? { status: 'verified' }
+        : { status: 'rejected', reason: 'Task not completed' };
+    },
+  };
+
+  return verifier;
+}
@@ -0,0 +1,153 @@
+// Tests for verifyCompletion, the verify and reject paths behind verify-social-task,
+// run against the in-memory verifier: deno test supabase/functions/_shared
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CompletionRow, SocialTask, VerifierRegistry, verifyCompletion } from './social-verifiers.ts';
+import { createInMemoryVerifier } from './social-verifiers-memory.ts';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+
+const TASK: SocialTask = {
+  id: 'follow',
+  title: 'Follow us on X',
+  platform: 'Twitter/X',
+  icon: 'Twitter',
+  points: 50,
+  link: 'https://x.com/example',
+};
+
+function makeCompletion(overrides: Partial<CompletionRow> = {}): CompletionRow {
+  return {
+    id: 'completion-1',
+    pool_id: 'pool-1',
+    wallet_address: 'wallet-1',
+    task_id: TASK.id,
+    points_earned: 0,
+    status: 'pending_verification',
+    verification_attempts: 0,
+    started_at: '2026-10-18T11:59:00Z',
+    ...overrides,
+  };
+}
+
+// Just enough of the client for verifyCompletion: the linked account lookup, the
+// verify RPC and the completion update, each recorded for the assertions
+function createFakeSupabase(linkedAccountId: string | null) {
+  const rpcCalls: Array<{ fn: string; args: Record<string, unknown> }> = [];
+  const updates: Array<Record<string, unknown>> = [];
+
+  const client = {
+    from(table: string) {
+      if (table === 'social_accounts') {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          maybeSingle: async () => ({ data: linkedAccountId ? { account_id: linkedAccountId } : null, error: null }),
+        };
+        return query;
+      }
+
+      return {
+        update(values: Record<string, unknown>) {
+          updates.push(values);
+          const query = {
+            eq: () => query,
+            neq: async () => ({ error: null }),
+          };
+          return query;
+        },
+      };
+    },
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return { data: true, error: null };
+    },
+  };
+
+  return { supabase: client as unknown as SupabaseClient, rpcCalls, updates };
+}
+
+Deno.test('a completed task is verified at the task\'s points', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  verifier.complete(TASK.id, 'example_user');
+  const verifiers: VerifierRegistry = { 'Twitter/X': verifier };
+  const { supabase, rpcCalls, updates } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, verifiers, makeCompletion({ points_earned: 9999 }), TASK, NOW);
+
+  assertEquals(outcome, { status: 'verified', points: 50 });
+  assertEquals(rpcCalls, [{ fn: 'verify_social_farming_completion', args: { p_completion_id: 'completion-1', p_points: 50 } }]);
+  assertEquals(updates, []);
+  assertEquals(verifier.calls, [{ taskId: TASK.id, accountId: 'example_user' }]);
+});
+
+Deno.test('a task that was not done is rejected and uses an attempt', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  const { supabase, rpcCalls, updates } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, { 'Twitter/X': verifier }, makeCompletion({ verification_attempts: 2 }), TASK, NOW);
+
+  assertEquals(outcome, { status: 'rejected', reason: 'Task not completed' });
+  assertEquals(rpcCalls, []);
+  assertEquals(updates.length, 1);
+  assertEquals(updates[0].status, 'rejected');
+  assertEquals(updates[0].verification_attempts, 3);
+});
+
+Deno.test('a task done by another account is rejected', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  verifier.complete(TASK.id, 'someone_else');
+  const { supabase, rpcCalls } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, { 'Twitter/X': verifier }, makeCompletion(), TASK, NOW);
+
+  assertEquals(outcome.status, 'rejected');
+  assertEquals(rpcCalls, []);
+});
+
+Deno.test('a wallet without a linked account is rejected', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  const { supabase, rpcCalls } = createFakeSupabase(null);
+
+  const outcome = await verifyCompletion(supabase, { 'Twitter/X': verifier }, makeCompletion(), TASK, NOW);
+
+  assertEquals(outcome, { status: 'rejected', reason: 'No linked account' });
+  assertEquals(rpcCalls, []);
+});
+
+Deno.test('a verifier that cannot answer leaves the completion pending without using an attempt', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  verifier.complete(TASK.id, 'example_user');
+  verifier.setUnavailable('Rate limited');
+  const { supabase, rpcCalls, updates } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, { 'Twitter/X': verifier }, makeCompletion({ verification_attempts: 1 }), TASK, NOW);
+
+  assertEquals(outcome, { status: 'pending', reason: 'Rate limited' });
+  assertEquals(rpcCalls, []);
+  assertEquals(updates[0].status, 'pending_verification');
+  assertEquals(updates[0].verification_attempts, 1);
+});
+
+Deno.test('a platform without a verifier stays pending', async () => {
+  const { supabase, rpcCalls, updates } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, {}, makeCompletion(), TASK, NOW);
+
+  assertEquals(outcome, { status: 'pending', reason: 'Twitter/X tasks cannot be verified right now' });
+  assertEquals(rpcCalls, []);
+  assertEquals(updates, []);
+});
+
+Deno.test('a revoked task is rejected on the next check', async () => {
+  const verifier = createInMemoryVerifier('twitter');
+  verifier.complete(TASK.id, 'example_user');
+  verifier.revoke(TASK.id, 'example_user');
+  const { supabase, rpcCalls } = createFakeSupabase('example_user');
+
+  const outcome = await verifyCompletion(supabase, { 'Twitter/X': verifier }, makeCompletion(), TASK, NOW);
+
+  assertEquals(outcome.status, 'rejected');
+  assertEquals(rpcCalls, []);
+});
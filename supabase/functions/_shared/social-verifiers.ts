@@ -0,0 +1,379 @@
+// Social farming task verification, used by submit-social-task and verify-social-task.
+// Each task platform has a verifier that checks the task was really done: Twitter/X
+// follows, likes and retweets through the X API, Telegram and Discord joins through
+// a bot, and link visits by how long the server has seen the task open. Verifiers
+// only see a task, the wallet's linked account and the time; anything they need
+// from outside goes through their own client, so tests can swap in the in-memory
+// verifier from social-verifiers-memory.ts for any platform.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// A wallet can retry a rejected task this many times before it is final
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+// Minimum gap between checks of one completion, to spare the platform APIs
+export const MIN_VERIFICATION_INTERVAL_SECONDS = 10;
+// Matches the countdown the task page shows before offering to confirm
+export const MIN_VISIT_SECONDS = 10;
+
+// Platforms a wallet links an account on; visits need none
+export type SocialAccountPlatform = 'twitter' | 'telegram' | 'discord';
+
+// A task as stored in social_farming_pools.tasks
+export interface SocialTask {
+  id: string;
+  title: string;
+  platform: string;
+  icon: string;
+  points: number;
+  link: string;
+}
+
+export interface VerificationContext {
+  task: SocialTask;
+  // The wallet's account on the verifier's platform; null for visits
+  accountId: string | null;
+  // When the wallet opened the task
+  startedAt: Date;
+  now: Date;
+}
+
+// 'pending' means the task could not be decided yet and does not use up an attempt
+export type VerificationResult =
+  | { status: 'verified' }
+  | { status: 'pending'; reason: string }
+  | { status: 'rejected'; reason: string };
+
+export interface SocialTaskVerifier {
+  accountPlatform: SocialAccountPlatform | null;
+  verify(context: VerificationContext): Promise<VerificationResult>;
+}
+
+// Verifiers by task platform, as the task page names them
+export type VerifierRegistry = Record<string, SocialTaskVerifier>;
+
+interface VerifierConfig {
+  twitterBearerToken?: string;
+  telegramBotToken?: string;
+  discordBotToken?: string;
+}
+
+/**
+ * The production verifiers. A platform whose credentials are not configured has
+ * no verifier, so its tasks stay pending instead of being waved through.
+ */
+export function createLiveVerifiers(config: VerifierConfig): VerifierRegistry {
+  const visit = createVisitVerifier(MIN_VISIT_SECONDS);
+  const registry: VerifierRegistry = {
+    'Dexscreener': visit,
+    'Pump.fun': visit,
+    'YouTube': visit,
+    'Website': visit,
+  };
+
+  if (config.twitterBearerToken) registry['Twitter/X'] = createTwitterVerifier(config.twitterBearerToken);
+  if (config.telegramBotToken) registry['Telegram'] = createTelegramVerifier(config.telegramBotToken);
+  if (config.discordBotToken) registry['Discord'] = createDiscordVerifier(config.discordBotToken);
+
+  return registry;
+}
+
+/**
+ * Canonical form of a linked account, or null when it is not a valid one.
+ * Twitter accounts are handles; Telegram and Discord accounts are numeric user ids.
+ */
+export function normalizeAccountId(platform: SocialAccountPlatform, accountId: unknown): string | null {
+  if (typeof accountId !== 'string') return null;
+  const value = accountId.trim();
+
+  if (platform === 'twitter') {
+    const handle = value.replace(/^@/, '').toLowerCase();
+    return /^[a-z0-9_]{1,15}$/.test(handle) ? handle : null;
+  }
+  return /^\d{5,20}$/.test(value) ? value : null;
+}
+
+function parseUrl(link: string): URL | null {
+  try {
+    return new URL(link);
+  } catch {
+    return null;
+  }
+}
+
+// A visit cannot be observed from outside, so it counts once the task has been open
+// on the server's clock for as long as the page makes the wallet wait. This proves
+// nothing about the visit itself; the task page labels these tasks unverified.
+export function createVisitVerifier(minSeconds: number): SocialTaskVerifier {
+  return {
+    accountPlatform: null,
+    async verify({ startedAt, now }) {
+      const elapsed = (now.getTime() - startedAt.getTime()) / 1000;
+      if (elapsed < minSeconds) {
+        return { status: 'pending', reason: `Keep the page open for ${Math.ceil(minSeconds - elapsed)}s more` };
+      }
+      return { status: 'verified' };
+    },
+  };
+}
+
+type TwitterAction = 'follow' | 'like' | 'retweet';
+
+interface TwitterResponse<T> {
+  data?: T;
+  meta?: { next_token?: string };
+}
+
+class RateLimitedError extends Error {
+  constructor() {
+    super('Rate limited');
+  }
+}
+
+// Pages of followers or retweeters checked before giving up
+const TWITTER_MAX_PAGES = 5;
+
+// Follow tasks link a profile; like and retweet tasks link a post and say which by their icon
+function getTwitterTarget(task: SocialTask): { action: TwitterAction; target: string } | null {
+  const url = parseUrl(task.link);
+  if (!url || !/(^|\.)(twitter|x)\.com$/.test(url.hostname)) return null;
+
+  const [handle, kind, postId] = url.pathname.split('/').filter(Boolean);
+  if (kind === 'status' && postId && /^\d+$/.test(postId)) {
+    if (task.icon === 'Heart') return { action: 'like', target: postId };
+    if (task.icon === 'Repeat') return { action: 'retweet', target: postId };
+    return null;
+  }
+  if (handle && !kind) return { action: 'follow', target: handle.toLowerCase() };
+  return null;
+}
+
+export function createTwitterVerifier(bearerToken: string): SocialTaskVerifier {
+  const get = async <T,>(path: string): Promise<{ status: number; body: TwitterResponse<T> | null }> => {
+    const response = await fetch(`https://api.twitter.com/2${path}`, {
+      headers: { Authorization: `Bearer ${bearerToken}` }
+    });
+    return { status: response.status, body: response.status === 200 ? await response.json() : null };
+  };
+
+  const getUserId = async (handle: string): Promise<string | null> => {
+    const { status, body } = await get<{ id: string }>(`/users/by/username/${encodeURIComponent(handle)}`);
+    if (status === 429) throw new RateLimitedError();
+    return body?.data?.id ?? null;
+  };
+
+  // Walks a paginated list of users or posts looking for one id
+  const listContains = async (path: string, id: string): Promise<boolean> => {
+    let paginationToken: string | null = null;
+    for (let page = 0; page < TWITTER_MAX_PAGES; page++) {
+      const separator = path.includes('?') ? '&' : '?';
+      const { status, body } = await get<Array<{ id: string }>>(paginationToken ? `${path}${separator}pagination_token=${paginationToken}` : path);
+      if (status === 429) throw new RateLimitedError();
+      if (status !== 200) return false;
+      if ((body?.data || []).some(item => item.id === id)) return true;
+      paginationToken = body?.meta?.next_token ?? null;
+      if (!paginationToken) return false;
+    }
+    return false;
+  };
+
+  return {
+    accountPlatform: 'twitter',
+    async verify({ task, accountId }) {
+      if (!accountId) return { status: 'rejected', reason: 'Link your X account first' };
+
+      const target = getTwitterTarget(task);
+      if (!target) return { status: 'rejected', reason: 'This X task cannot be verified automatically' };
+
+      try {
+        const userId = await getUserId(accountId);
+        if (!userId) return { status: 'rejected', reason: `X account @${accountId} not found` };
+
+        let done = false;
+        if (target.action === 'follow') {
+          const targetId = await getUserId(target.target);
+          if (!targetId) return { status: 'rejected', reason: `X account @${target.target} not found` };
+          done = await listContains(`/users/${userId}/following?max_results=1000`, targetId);
+        } else if (target.action === 'like') {
+          // The like was just made, so it is at the top of the account's recent likes
+          done = await listContains(`/users/${userId}/liked_tweets?max_results=100`, target.target);
+        } else {
+          done = await listContains(`/tweets/${target.target}/retweeted_by?max_results=100`, userId);
+        }
+
+        if (done) return { status: 'verified' };
+        const verb = target.action === 'follow' ? `following @${target.target}` : target.action === 'like' ? 'a like on the post' : 'a repost of the post';
+        return { status: 'rejected', reason: `No ${verb} found from @${accountId}` };
+      } catch (error) {
+        if (error instanceof RateLimitedError) {
+          return { status: 'pending', reason: 'X is rate limiting checks, try again in a few minutes' };
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+const TELEGRAM_MEMBER_STATUSES = ['creator', 'administrator', 'member'];
+
+// Join tasks link a public group or channel (t.me/name); the bot must be in it
+function getTelegramChat(link: string): string | null {
+  const url = parseUrl(link);
+  if (!url || !['t.me', 'telegram.me'].includes(url.hostname)) return null;
+  const [name] = url.pathname.split('/').filter(Boolean);
+  return name && /^[A-Za-z0-9_]{5,32}$/.test(name) ? `@${name}` : null;
+}
+
+export function createTelegramVerifier(botToken: string): SocialTaskVerifier {
+  return {
+    accountPlatform: 'telegram',
+    async verify({ task, accountId }) {
+      if (!accountId) return { status: 'rejected', reason: 'Link your Telegram user ID first' };
+
+      const chatId = getTelegramChat(task.link);
+      if (!chatId) return { status: 'rejected', reason: 'This Telegram task cannot be verified automatically' };
+
+      const params = new URLSearchParams({ chat_id: chatId, user_id: accountId });
+      const response = await fetch(`https://api.telegram.org/bot${botToken}/getChatMember?${params}`);
+      const data = await response.json();
+
+      if (response.status === 429) {
+        return { status: 'pending', reason: 'Telegram is rate limiting checks, try again shortly' };
+      }
+      if (!data?.ok) {
+        // The bot not being in the chat is ours to fix, not the wallet's
+        const description = String(data?.description || '');
+        if (/user not found|participant_id_invalid/i.test(description)) {
+          return { status: 'rejected', reason: `Not a member of ${chatId}` };
+        }
+        console.error(`Telegram check for ${chatId} failed: ${description}`);
+        return { status: 'pending', reason: 'Telegram membership cannot be checked right now' };
+      }
+
+      const member = data.result;
+      if (TELEGRAM_MEMBER_STATUSES.includes(member?.status) || (member?.status === 'restricted' && member?.is_member)) {
+        return { status: 'verified' };
+      }
+      return { status: 'rejected', reason: `Not a member of ${chatId}` };
+    },
+  };
+}
+
+// Join tasks link an invite (discord.gg/code or discord.com/invite/code); the bot must be in the server
+function getDiscordInvite(link: string): string | null {
+  const url = parseUrl(link);
+  if (!url) return null;
+  const parts = url.pathname.split('/').filter(Boolean);
+  if (url.hostname === 'discord.gg') return parts[0] || null;
+  if (/(^|\.)discord(app)?\.com$/.test(url.hostname) && parts[0] === 'invite') return parts[1] || null;
+  return null;
+}
+
+export function createDiscordVerifier(botToken: string): SocialTaskVerifier {
+  const get = (path: string) => fetch(`https://discord.com/api/v10${path}`, {
+    headers: { Authorization: `Bot ${botToken}` }
+  });
+
+  return {
+    accountPlatform: 'discord',
+    async verify({ task, accountId }) {
+      if (!accountId) return { status: 'rejected', reason: 'Link your Discord user ID first' };
+
+      const invite = getDiscordInvite(task.link);
+      if (!invite) return { status: 'rejected', reason: 'This Discord task cannot be verified automatically' };
+
+      const inviteResponse = await get(`/invites/${encodeURIComponent(invite)}`);
+      if (inviteResponse.status === 429) {
+        return { status: 'pending', reason: 'Discord is rate limiting checks, try again shortly' };
+      }
+      const guildId = inviteResponse.ok ? (await inviteResponse.json())?.guild?.id : null;
+      if (!guildId) return { status: 'rejected', reason: 'The Discord invite for this task is no longer valid' };
+
+      const memberResponse = await get(`/guilds/${guildId}/members/${accountId}`);
+      if (memberResponse.ok) return { status: 'verified' };
+      if (memberResponse.status === 404) return { status: 'rejected', reason: 'Not a member of the Discord server' };
+      if (memberResponse.status === 429) {
+        return { status: 'pending', reason: 'Discord is rate limiting checks, try again shortly' };
+      }
+
+      // Usually the bot was never added to the server
+      console.error(`Discord member check in guild ${guildId} failed with ${memberResponse.status}`);
+      return { status: 'pending', reason: 'Discord membership cannot be checked right now' };
+    },
+  };
+}
+
+export interface CompletionRow {
+  id: string;
+  pool_id: string;
+  wallet_address: string;
+  task_id: string;
+  points_earned: number;
+  status: 'pending_verification' | 'verified' | 'rejected';
+  verification_attempts: number;
+  started_at: string;
+}
+
+export type VerificationOutcome =
+  | { status: 'verified'; points: number }
+  | { status: 'pending' | 'rejected'; reason: string };
+
+/**
+ * Check one completion with its platform's verifier and record the result.
+ * Verified completions are promoted by verify_social_farming_completion, which
+ * records the task's points and adds them exactly once; a rejection uses up one of
+ * the wallet's attempts.
+ */
+export async function verifyCompletion(
+  supabase: SupabaseClient,
+  verifiers: VerifierRegistry,
+  completion: CompletionRow,
+  task: SocialTask,
+  now: Date = new Date()
+): Promise<VerificationOutcome> {
+  const verifier = verifiers[task.platform];
+  if (!verifier) {
+    return { status: 'pending', reason: `${task.platform} tasks cannot be verified right now` };
+  }
+
+  let accountId: string | null = null;
+  if (verifier.accountPlatform) {
+    const { data: account } = await supabase
+      .from('social_accounts')
+      .select('account_id')
+      .eq('wallet_address', completion.wallet_address)
+      .eq('platform', verifier.accountPlatform)
+      .maybeSingle();
+    accountId = account?.account_id ?? null;
+  }
+
+  let result: VerificationResult;
+  try {
+    result = await verifier.verify({ task, accountId, startedAt: new Date(completion.started_at), now });
+  } catch (error) {
+    console.error(`Verifier for ${task.platform} failed on completion ${completion.id}:`, error);
+    result = { status: 'pending', reason: 'Verification is temporarily unavailable' };
+  }
+
+  if (result.status === 'verified') {
+    const { error } = await supabase.rpc('verify_social_farming_completion', {
+      p_completion_id: completion.id,
+      p_points: task.points
+    });
+    if (error) throw error;
+    return { status: 'verified', points: task.points };
+  }
+
+  const { error } = await supabase
+    .from('social_farming_completions')
+    .update({
+      status: result.status === 'rejected' ? 'rejected' : completion.status,
+      verification_attempts: completion.verification_attempts + (result.status === 'rejected' ? 1 : 0),
+      verification_error: result.reason,
+      last_verification_at: now.toISOString()
+    })
+    .eq('id', completion.id)
+    .neq('status', 'verified');
+
+  if (error) throw error;
+  return { status: result.status, reason: result.reason };
+}
@@ -0,0 +1,72 @@
+// Balance staking state across pools, used by stake-tokens and accrue-staking-rewards.
+// A balance stake is backed by tokens the wallet keeps in its own wallet, so several
+// balance pools on the same mint draw on one balance. It is handed out to the wallet's
+// stakes in the order they were opened: the earliest stake is backed first, and a later
+// stake only counts what is left over.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface BalanceStake {
+  id: string;
+  wallet_address: string;
+  pool_id: string;
+  amount: number;
+  compounded_rewards: number;
+  joined_at: string;
+}
+
+/**
+ * Token-backed part of a stake: its amount less the compounded rewards the wallet never held
+ */
+export function getBackedAmount(stake: { amount: number; compounded_rewards: number | null }): number {
+  return Math.max(0, Number(stake.amount || 0) - Number(stake.compounded_rewards || 0));
+}
+
+/**
+ * Every staking position the given wallets hold in balance pools on a mint
+ */
+export async function getMintBalanceStakes(
+  supabase: SupabaseClient,
+  mint: string,
+  walletAddresses: string[]
+): Promise<BalanceStake[]> {
+  if (walletAddresses.length === 0) return [];
+
+  const { data: pools, error: poolsError } = await supabase
+    .from('staking_pools')
+    .select('id')
+    .eq('contract_address', mint)
+    .eq('custody_mode', 'balance');
+
+  if (poolsError) throw poolsError;
+  if (!pools || pools.length === 0) return [];
+
+  const { data: stakes, error: stakesError } = await supabase
+    .from('user_stakes')
+    .select('id, wallet_address, pool_id, amount, compounded_rewards, joined_at')
+    .eq('pool_type', 'staking')
+    .in('pool_id', pools.map(pool => pool.id))
+    .in('wallet_address', walletAddresses);
+
+  if (stakesError) throw stakesError;
+  return (stakes as BalanceStake[]) || [];
+}
+
+/**
+ * Share one wallet's balance between its balance stakes, earliest first
+ * @returns How much of each stake's token-backed amount the balance covers, by stake id
+ */
+export function allocateBalance(stakes: BalanceStake[], balance: number): Map<string, number> {
+  const ordered = [...stakes].sort((a, b) =>
+    new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime() || a.id.localeCompare(b.id)
+  );
+
+  const covered = new Map<string, number>();
+  let left = Math.max(0, balance);
+  for (const stake of ordered) {
+    const backed = Math.min(getBackedAmount(stake), left);
+    covered.set(stake.id, backed);
+    left -= backed;
+  }
+  return covered;
+}
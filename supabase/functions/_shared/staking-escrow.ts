@@ -0,0 +1,87 @@
+// Escrow staking state, used by stake-tokens and unstake-tokens.
+// In an escrow pool every verified deposit is a staking_deposits row. The
+// wallet's user_stakes.amount (which the accrual engine pays APR on) and the
+// pool's total_staked are always recomputed from those rows, never adjusted in place.
+// Auto-compounded rewards are not in the vault, so they are added on top of the deposits.
+// Each deposit keeps the APR of the lock tier it chose; the wallet's stake accrues
+// at the amount-weighted blend of those rates.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Positions still in the vault: a withdrawal only stops counting once it has landed
+const STAKED_STATUSES = ['active', 'withdrawing'];
+
+export function getLockedUntil(depositedAt: Date, lockPeriodDays: number | null): Date {
+  return new Date(depositedAt.getTime() + Math.max(0, lockPeriodDays || 0) * DAY_MS);
+}
+
+/**
+ * Recompute a wallet's staked amount, blended APR and the pool total from its escrow deposits
+ * @returns The wallet's staked amount
+ */
+export async function syncEscrowStake(supabase: SupabaseClient, poolId: string, walletAddress: string): Promise<number> {
+  const { data: deposits, error: depositsError } = await supabase
+    .from('staking_deposits')
+    .select('wallet_address, amount, apr')
+    .eq('pool_id', poolId)
+    .in('status', STAKED_STATUSES);
+
+  if (depositsError) throw depositsError;
+
+  let walletAmount = 0;
+  let walletAprAmount = 0;
+  let poolTotal = 0;
+  for (const deposit of deposits || []) {
+    poolTotal += Number(deposit.amount);
+    if (deposit.wallet_address === walletAddress) {
+      walletAmount += Number(deposit.amount);
+      walletAprAmount += Number(deposit.amount) * Number(deposit.apr);
+    }
+  }
+
+  // With nothing left in the vault the stake earns nothing, so its last rate is kept
+  const apr = walletAmount > 0 ? walletAprAmount / walletAmount : undefined;
+
+  const { data: stake, error: stakeError } = await supabase
+    .from('user_stakes')
+    .select('id, compounded_rewards')
+    .eq('wallet_address', walletAddress)
+    .eq('pool_type', 'staking')
+    .eq('pool_id', poolId)
+    .maybeSingle();
+
+  if (stakeError) throw stakeError;
+
+  if (stake) {
+    const amount = walletAmount + Number(stake.compounded_rewards || 0);
+    const { error } = await supabase
+      .from('user_stakes')
+      .update(apr === undefined ? { amount } : { amount, apr })
+      .eq('id', stake.id);
+    if (error) throw error;
+  } else if (walletAmount > 0) {
+    const { error } = await supabase
+      .from('user_stakes')
+      .insert({
+        wallet_address: walletAddress,
+        pool_type: 'staking',
+        pool_id: poolId,
+        amount: walletAmount,
+        apr,
+        pending_rewards: 0,
+        points: 0
+      });
+    if (error) throw error;
+  }
+
+  const { error: poolError } = await supabase
+    .from('staking_pools')
+    .update({ total_staked: poolTotal })
+    .eq('id', poolId);
+
+  if (poolError) throw poolError;
+
+  return walletAmount;
+}
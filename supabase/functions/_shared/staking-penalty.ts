@@ -0,0 +1,32 @@
+// Early-exit penalties for escrow staking pools, used by both the app and unstake-tokens.
+// A pool's early_exit_penalty_percent applies in full at deposit time and decays
+// linearly to zero as the deposit's own lock runs out.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_EARLY_EXIT_PENALTY_PERCENT = 50;
+
+/**
+ * Penalty percentage a deposit would pay if withdrawn at `now`
+ */
+export function getEarlyExitPenaltyPercent(
+  penaltyPercent: number | null | undefined,
+  deposit: { locked_until: string; lock_days: number | null },
+  now: number = Date.now()
+): number {
+  const lockMs = Math.max(0, deposit.lock_days || 0) * DAY_MS;
+  const remainingMs = new Date(deposit.locked_until).getTime() - now;
+  if (!penaltyPercent || penaltyPercent <= 0 || lockMs <= 0 || remainingMs <= 0) return 0;
+  return Number(penaltyPercent) * Math.min(1, remainingMs / lockMs);
+}
+
+/**
+ * Tokens withheld from a deposit withdrawn at `now`
+ */
+export function getEarlyExitPenalty(
+  penaltyPercent: number | null | undefined,
+  deposit: { amount: number; locked_until: string; lock_days: number | null },
+  now: number = Date.now()
+): number {
+  return Number(deposit.amount) * getEarlyExitPenaltyPercent(penaltyPercent, deposit, now) / 100;
+}
@@ -0,0 +1,56 @@
+// Extra reward streams for staking pools, used by both the app and add-staking-reward-stream,
+// accrue-staking-rewards and watch-staking-deposits.
+// A stream emits tokens_per_day of its own mint from its own allocation, shared
+// between a pool's stakers by time-weighted principal. SOL streams use the wrapped
+// SOL mint and are paid as native SOL.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const NATIVE_SOL_DECIMALS = 9;
+export const MAX_REWARD_STREAMS = 3;
+
+export interface RewardStream {
+  id: string;
+  pool_id: string;
+  mint: string;
+  token_decimals: number;
+  tokens_per_day: number;
+  allocation: number;
+  rewards_distributed: number;
+  last_distribution_at: string | null;
+}
+
+export function isNativeSol(mint: string): boolean {
+  return mint === NATIVE_SOL_MINT;
+}
+
+/**
+ * Tokens a stream releases between two instants, never more than it has left
+ */
+export function getStreamEmission(stream: RewardStream, from: Date, to: Date): number {
+  const elapsedMs = Math.max(0, to.getTime() - from.getTime());
+  const emitted = Number(stream.tokens_per_day) * elapsedMs / DAY_MS;
+  const remaining = Math.max(0, Number(stream.allocation) - Number(stream.rewards_distributed || 0));
+  return Math.min(emitted, remaining);
+}
+
+/**
+ * When an active stream runs out at its current emission rate
+ */
+export function getStreamDepletionDate(
+  stream: { tokens_per_day: number; allocation: number; rewards_distributed: number },
+  now: number = Date.now()
+): Date | null {
+  const remaining = Number(stream.allocation) - Number(stream.rewards_distributed || 0);
+  if (!(stream.tokens_per_day > 0) || remaining <= 0) return null;
+  return new Date(now + (remaining / Number(stream.tokens_per_day)) * DAY_MS);
+}
+
+/**
+ * A wallet's share of a stream's daily emission at the pool's current total stake
+ */
+export function getStreamDailyShare(tokensPerDay: number, walletPrincipal: number, totalStaked: number): number {
+  if (walletPrincipal <= 0 || totalStaked <= 0) return 0;
+  return Number(tokensPerDay) * Math.min(1, walletPrincipal / totalStaked);
+}
@@ -0,0 +1,93 @@
+// Lock-duration tiers for staking pools, used by both the app and create-staking-pool
+// and stake-tokens. A pool offers one or more locks, each with its own APR; every stake
+// records the tier it picked and accrues at that tier's rate.
+// Tiers are stored sorted by lock period; the shortest one is mirrored into
+// staking_pools.apr and lock_period_days for listings and older clients.
+// The database re-checks stored tiers with is_valid_apr_tiers, which uses the same limits.
+
+export interface AprTier {
+  days: number; // Lock period in whole days, unique within a pool
+  apr: number;  // Percent APR paid on stakes that choose this lock
+}
+
+export const DEFAULT_APR_TIERS: AprTier[] = [
+  { days: 7, apr: 100 },
+  { days: 30, apr: 250 },
+  { days: 90, apr: 600 },
+];
+
+export const MAX_APR_TIERS = 5;
+export const MAX_TIER_LOCK_DAYS = 3650;
+export const MAX_TIER_APR = 10000;
+
+/**
+ * Read a pool's tiers, falling back to its single APR and lock for older rows
+ */
+export function getAprTiers(pool: { apr: number; lock_period_days: number | null; apr_tiers?: AprTier[] | null }): AprTier[] {
+  if (Array.isArray(pool.apr_tiers) && pool.apr_tiers.length > 0) {
+    return pool.apr_tiers;
+  }
+  return [{ days: pool.lock_period_days || 1, apr: pool.apr }];
+}
+
+/**
+ * Find the tier with a given lock period
+ */
+export function findAprTier(tiers: AprTier[], days: number): AprTier | null {
+  return tiers.find(tier => tier.days === days) ?? null;
+}
+
+/**
+ * Lowest and highest APR on offer, for pool listings
+ */
+export function getAprRange(tiers: AprTier[]): { min: number; max: number } {
+  const aprs = tiers.map(tier => tier.apr);
+  return { min: Math.min(...aprs), max: Math.max(...aprs) };
+}
+
+/**
+ * Sort tiers by lock period, the order they are stored and shown in
+ */
+export function sortAprTiers(tiers: AprTier[]): AprTier[] {
+  return [...tiers].sort((a, b) => a.days - b.days);
+}
+
+/**
+ * Validate a pool's tiers
+ * @returns An error message, or null when the tiers are valid
+ */
+export function validateAprTiers(tiers: AprTier[]): string | null {
+  if (!Array.isArray(tiers) || tiers.length < 1 || tiers.length > MAX_APR_TIERS) {
+    return `Pools need between 1 and ${MAX_APR_TIERS} lock tiers`;
+  }
+
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier.days) || tier.days < 1 || tier.days > MAX_TIER_LOCK_DAYS) {
+      return `Lock periods must be whole days between 1 and ${MAX_TIER_LOCK_DAYS}`;
+    }
+    if (!Number.isFinite(tier.apr) || tier.apr < 0 || tier.apr > MAX_TIER_APR) {
+      return `APR must be between 0% and ${MAX_TIER_APR}%`;
+    }
+  }
+
+  const days = tiers.map(tier => tier.days);
+  if (new Set(days).size !== days.length) {
+    return 'Each tier needs a different lock period';
+  }
+
+  return null;
+}
+
+/**
+ * Normalize client input into tiers sorted by lock period
+ * @returns The tiers, or an error message when they are invalid
+ */
+export function parseAprTiers(input: unknown): { tiers: AprTier[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: `Pools need between 1 and ${MAX_APR_TIERS} lock tiers` };
+  }
+
+  const tiers = input.map(raw => ({ days: Number(raw?.days), apr: Number(raw?.apr) }));
+  const error = validateAprTiers(tiers);
+  return error ? { error } : { tiers: sortAprTiers(tiers) };
+}
@@ -0,0 +1,24 @@
+// Token amount conversions shared by the app and the edge functions.
+// Amounts are converted through their decimal string so that e.g. 0.29 of a
+// 6-decimal token is 290000 base units, not the 289999 that float math gives.
+
+/**
+ * Convert a UI amount to base units, dropping digits beyond the token's decimals
+ * @throws When the amount is not a finite, non-negative number
+ */
+export function toBaseUnits(amount: number | string, decimals: number): bigint {
+  let text = typeof amount === 'number' ? String(amount) : amount.trim();
+  // String() switches to exponent notation below 1e-6; toFixed(20) spells it out exactly enough
+  if (typeof amount === 'number' && /e-/i.test(text)) {
+    text = amount.toFixed(20);
+  }
+
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const whole = match[1];
+  const fraction = (match[2] || '').padEnd(decimals, '0').slice(0, decimals);
+  return BigInt(whole + fraction);
+}
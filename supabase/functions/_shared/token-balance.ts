@@ -0,0 +1,119 @@
+// On-chain token holdings for balance-mode staking pools, used by stake-tokens when a
+// wallet stakes and by accrue-staking-rewards to trim stakes to the lowest balance held over a period.
+
+// Transactions walked per token account when finding the lowest balance over a period.
+// A busier account cannot be checked, and the caller treats it as unverified.
+const MAX_HISTORY_TRANSACTIONS = 100;
+
+interface ParsedTokenAccount {
+  pubkey: string;
+  account: {
+    data: {
+      parsed: {
+        info: {
+          tokenAmount: { uiAmount: number | null };
+        };
+      };
+    };
+  };
+}
+
+interface SignatureInfo {
+  signature: string;
+  blockTime: number | null;
+  err: unknown;
+}
+
+interface TokenBalanceEntry {
+  accountIndex: number;
+  uiTokenAmount: { uiAmount: number | null };
+}
+
+interface ParsedTransaction {
+  meta: { preTokenBalances?: TokenBalanceEntry[] } | null;
+  transaction: { message: { accountKeys: Array<{ pubkey: string }> } };
+}
+
+async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || `RPC ${method} failed`);
+  }
+  return data.result as T;
+}
+
+async function getTokenAccounts(rpcUrl: string, walletAddress: string, mint: string): Promise<Array<{ pubkey: string; amount: number }>> {
+  const result = await rpcCall<{ value?: ParsedTokenAccount[] }>(rpcUrl, 'getTokenAccountsByOwner', [
+    walletAddress,
+    { mint },
+    { encoding: 'jsonParsed', commitment: 'confirmed' }
+  ]);
+
+  return (result?.value || []).map(account => ({
+    pubkey: account.pubkey,
+    amount: Number(account.account.data.parsed.info.tokenAmount.uiAmount || 0),
+  }));
+}
+
+// Lowest balance a token account held since `since`: its balance before each transaction
+// that touched it in the period, and its balance now
+async function getLowestAccountBalance(rpcUrl: string, account: { pubkey: string; amount: number }, since: Date): Promise<number> {
+  const sinceSeconds = Math.floor(since.getTime() / 1000);
+  const signatures = await rpcCall<SignatureInfo[]>(rpcUrl, 'getSignaturesForAddress', [
+    account.pubkey,
+    { limit: MAX_HISTORY_TRANSACTIONS + 1, commitment: 'confirmed' }
+  ]);
+
+  const inPeriod = (signatures || []).filter(sig => sig.blockTime === null || sig.blockTime >= sinceSeconds);
+  if (inPeriod.length > MAX_HISTORY_TRANSACTIONS) {
+    throw new Error(`Token account ${account.pubkey} has too many transactions to check`);
+  }
+
+  let lowest = account.amount;
+  for (const sig of inPeriod) {
+    if (sig.err) continue;
+
+    const tx = await rpcCall<ParsedTransaction | null>(rpcUrl, 'getTransaction', [
+      sig.signature,
+      { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+    ]);
+    if (!tx) {
+      throw new Error(`Transaction ${sig.signature} not found`);
+    }
+
+    const accountIndex = tx.transaction.message.accountKeys.findIndex(key => key.pubkey === account.pubkey);
+    const before = tx.meta?.preTokenBalances?.find(entry => entry.accountIndex === accountIndex);
+    // No balance before the transaction means the account was created by it
+    lowest = Math.min(lowest, Number(before?.uiTokenAmount.uiAmount || 0));
+  }
+  return lowest;
+}
+
+/**
+ * The wallet's current holding of a token mint, summed over all its token accounts
+ * @throws When the RPC node returns an error
+ */
+export async function getWalletTokenBalance(rpcUrl: string, walletAddress: string, mint: string): Promise<number> {
+  const accounts = await getTokenAccounts(rpcUrl, walletAddress, mint);
+  return accounts.reduce((sum, account) => sum + account.amount, 0);
+}
+
+/**
+ * The least the wallet can have held of a token mint at any point since `since`, summed
+ * over its current token accounts. Tokens moved out and back in within the period do not count.
+ * @throws When the RPC node returns an error or an account's history is too long to check
+ */
+export async function getWalletLowestTokenBalance(rpcUrl: string, walletAddress: string, mint: string, since: Date): Promise<number> {
+  const accounts = await getTokenAccounts(rpcUrl, walletAddress, mint);
+  let lowest = 0;
+  for (const account of accounts) {
+    lowest += await getLowestAccountBalance(rpcUrl, account, since);
+  }
+  return lowest;
+}
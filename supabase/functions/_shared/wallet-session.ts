@@ -0,0 +1,58 @@
+// Shared sign-in-with-Solana session checks for edge functions.
+// wallet-auth issues a session token after the wallet signs a one-time nonce;
+// mutating functions call requireWalletSession so a request can only act for
+// the wallet that actually signed in, never for an address typed into the body.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const SESSION_HEADER = 'x-wallet-session';
+
+// Allowed headers for every function that accepts a wallet session
+export const SESSION_CORS_HEADERS = `authorization, x-client-info, apikey, content-type, ${SESSION_HEADER}`;
+
+export type WalletSessionResult =
+  | { ok: true; walletAddress: string }
+  | { ok: false; status: number; error: string };
+
+export async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Resolve the signed-in wallet for a request.
+ * When expectedWallet is given, the session must belong to that wallet.
+ */
+export async function requireWalletSession(
+  supabase: SupabaseClient,
+  req: Request,
+  expectedWallet?: string | null
+): Promise<WalletSessionResult> {
+  const token = req.headers.get(SESSION_HEADER);
+  if (!token) {
+    return { ok: false, status: 401, error: 'Wallet sign-in required' };
+  }
+
+  const { data: session } = await supabase
+    .from('wallet_sessions')
+    .select('wallet_address, expires_at, revoked')
+    .eq('token_hash', await hashSessionToken(token))
+    .maybeSingle();
+
+  if (!session || session.revoked) {
+    return { ok: false, status: 401, error: 'Invalid wallet session' };
+  }
+
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    return { ok: false, status: 401, error: 'Wallet session expired, please sign in again' };
+  }
+
+  if (expectedWallet && session.wallet_address !== expectedWallet) {
+    console.error(`SECURITY: Session for ${session.wallet_address} used to act as ${expectedWallet}`);
+    return { ok: false, status: 403, error: 'Wallet does not match signed-in wallet' };
+  }
+
+  return { ok: true, walletAddress: session.wallet_address };
+}
@@ -0,0 +1,400 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { RewardStream, getStreamEmission } from '../_shared/staking-streams.ts';
+import { CRON_CORS_HEADERS, hasCronSecret } from '../_shared/cron-secret.ts';
+import { getWalletLowestTokenBalance } from '../_shared/token-balance.ts';
+import { BalanceStake, allocateBalance, getBackedAmount, getMintBalanceStakes } from '../_shared/staking-balance.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': CRON_CORS_HEADERS,
+};
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rounding slack when deciding whether the whole allocation has been credited
+const ALLOCATION_EPSILON = 1e-9;
+
+interface StakingPool {
+  id: string;
+  apr: number;
+  allocation: number;
+  lock_period_days: number | null;
+  reward_frequency_value: number | null;
+  reward_frequency_unit: string | null;
+  rewards_distributed: number | null;
+  last_accrual_at: string | null;
+  funded_at: string | null;
+  // 'emission' pools share tokens_per_day between stakers instead of paying each an APR
+  reward_mode: 'apr' | 'emission';
+  tokens_per_day: number | null;
+  depleted_at: string | null;
+  // Balance pools pay on what the wallet still holds of contract_address
+  custody_mode: 'balance' | 'escrow';
+  contract_address: string;
+}
+
+interface StakeRow {
+  id: string;
+  wallet_address: string;
+  amount: number;
+  pending_rewards: number;
+  locked_rewards: number;
+  accrued_amount_seconds: number;
+  balance_updated_at: string;
+  rewards_accrued_at: string | null;
+  joined_at: string;
+  // The stake's lock tier; older rows fall back to the pool's terms
+  apr: number | null;
+  lock_days: number | null;
+  // Released rewards are added to amount instead of pending_rewards; compounded_rewards
+  // is the part of amount that came from them and is not held on-chain
+  auto_compound: boolean;
+  compounded_rewards: number;
+}
+
+// Same units as the reward countdown shown in the UI
+function getFrequencyMs(value: number | null, unit: string | null): number {
+  const frequency = value && value > 0 ? value : 1;
+  switch (unit) {
+    case 'minutes':
+      return frequency * 60 * 1000;
+    case 'days':
+      return frequency * DAY_MS;
+    case 'hours':
+    default:
+      return frequency * 60 * 60 * 1000;
+  }
+}
+
+// Share each active stream's emission since its last distribution between the stakes
+// accrued this run, by the same time-weighted principal the primary reward uses.
+// Streams only start emitting once the pool itself is live.
+async function accrueStreams(
+  supabase: SupabaseClient,
+  pool: StakingPool,
+  streams: RewardStream[],
+  earners: Array<{ walletAddress: string; amountSeconds: number }>,
+  now: Date
+): Promise<number> {
+  const totalWeight = earners.reduce((sum, earner) => sum + earner.amountSeconds, 0);
+  let accrued = 0;
+
+  for (const stream of streams) {
+    const since = stream.last_distribution_at ? new Date(stream.last_distribution_at) : now;
+    const poolLiveAt = pool.funded_at ? new Date(pool.funded_at) : since;
+    const from = since.getTime() > poolLiveAt.getTime() ? since : poolLiveAt;
+
+    // With nobody earning, the clock still moves on and the emission stays in the allocation
+    const emission = totalWeight > 0 ? getStreamEmission(stream, from, now) : 0;
+    const unit = Math.pow(10, stream.token_decimals);
+    const credits = earners
+      .map(earner => ({
+        wallet_address: earner.walletAddress,
+        amount: Math.floor(emission * (earner.amountSeconds / totalWeight) * unit) / unit,
+      }))
+      .filter(credit => credit.amount > 0);
+
+    const { data: credited, error } = await supabase.rpc('credit_staking_reward_stream', {
+      p_stream_id: stream.id,
+      p_since: stream.last_distribution_at,
+      p_until: now.toISOString(),
+      p_credits: credits,
+    });
+
+    if (error) {
+      console.error(`Pool ${pool.id}: failed to accrue stream ${stream.id}:`, error);
+      continue;
+    }
+    if (credited === null) {
+      console.log(`Pool ${pool.id}: stream ${stream.id} already accrued for this period`);
+      continue;
+    }
+
+    accrued += Number(credited);
+  }
+
+  return accrued;
+}
+
+// What a wallet held of the mint at all times since `since`, left for this stake once its
+// earlier balance stakes on the same mint are covered
+async function getCoveredAmount(stake: StakeRow, walletStakes: BalanceStake[], mint: string, since: Date): Promise<number> {
+  const lowest = await getWalletLowestTokenBalance(RPC_URL, stake.wallet_address, mint, since);
+  return allocateBalance(walletStakes, lowest).get(stake.id) ?? 0;
+}
+
+async function accruePool(supabase: SupabaseClient, pool: StakingPool, streams: RewardStream[], now: Date) {
+  const nowIso = now.toISOString();
+
+  // Only one run may accrue a pool for a given period: claim it by moving last_accrual_at
+  let claimQuery = supabase
+    .from('staking_pools')
+    .update({ last_accrual_at: nowIso })
+    .eq('id', pool.id);
+  claimQuery = pool.last_accrual_at
+    ? claimQuery.eq('last_accrual_at', pool.last_accrual_at)
+    : claimQuery.is('last_accrual_at', null);
+
+  const { data: claimed, error: claimError } = await claimQuery.select('id');
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) {
+    console.log(`Pool ${pool.id}: already being accrued by another run`);
+    return { stakers: 0, accrued: 0, streamAccrued: 0 };
+  }
+
+  let stakesQuery = supabase
+    .from('user_stakes')
+    .select('id, wallet_address, amount, pending_rewards, locked_rewards, accrued_amount_seconds, balance_updated_at, rewards_accrued_at, joined_at, apr, lock_days, auto_compound, compounded_rewards')
+    .eq('pool_type', 'staking')
+    .eq('pool_id', pool.id);
+
+  // Once a pool has paid out its allocation, only stakes still holding rewards back need a visit
+  if (pool.depleted_at && streams.length === 0) {
+    stakesQuery = stakesQuery.or('locked_rewards.gt.0,compounded_rewards.gt.0');
+  }
+
+  const { data: stakes, error: stakesError } = await stakesQuery;
+  if (stakesError) throw stakesError;
+
+  // SECURITY: A balance stake only counts what the wallet held the whole time: its lowest balance
+  // since the stake last changed, less what its earlier stakes in other balance pools on the same
+  // mint already use. A stake above that is trimmed to it. Amount-seconds folded in before the last
+  // change are capped the same way from the previous accrual. When the history cannot be checked,
+  // the stake earns nothing for the period and is left as it is.
+  const heldAmounts = new Map<string, number>();
+  const foldedCaps = new Map<string, number>();
+  const unverified = new Set<string>();
+  if (pool.custody_mode !== 'escrow') {
+    const backedStakes = ((stakes as StakeRow[]) || []).filter(stake => getBackedAmount(stake) > 0);
+    const mintStakes = await getMintBalanceStakes(supabase, pool.contract_address, backedStakes.map(stake => stake.wallet_address));
+
+    for (const stake of backedStakes) {
+      const walletStakes = mintStakes.filter(other => other.wallet_address === stake.wallet_address);
+      const changedAt = new Date(stake.balance_updated_at);
+      try {
+        const covered = await getCoveredAmount(stake, walletStakes, pool.contract_address, changedAt);
+        if (covered < getBackedAmount(stake)) heldAmounts.set(stake.id, covered);
+
+        if (Number(stake.accrued_amount_seconds || 0) > 0 && stake.rewards_accrued_at) {
+          const accruedAt = new Date(stake.rewards_accrued_at);
+          const foldedSeconds = Math.max(0, (changedAt.getTime() - accruedAt.getTime()) / 1000);
+          const foldedCovered = await getCoveredAmount(stake, walletStakes, pool.contract_address, accruedAt);
+          foldedCaps.set(stake.id, foldedCovered > 0 ? (foldedCovered + Number(stake.compounded_rewards || 0)) * foldedSeconds : 0);
+        }
+      } catch (balanceError) {
+        console.error(`Pool ${pool.id}: could not check the balance history of ${stake.wallet_address}:`, balanceError);
+        unverified.add(stake.id);
+      }
+    }
+  }
+
+  // Time-weighted balance since the last accrual: folded-in amount x seconds plus the current balance since its last change.
+  // Compounded rewards are part of the amount, but only earn while something token-backed is still staked
+  // (see stake_earning_principal).
+  const weighted = (stakes as StakeRow[] || []).map(stake => {
+    const heldSeconds = Math.max(0, (now.getTime() - new Date(stake.balance_updated_at).getTime()) / 1000);
+    const isUnverified = unverified.has(stake.id);
+    const backedAmount = isUnverified ? 0 : heldAmounts.get(stake.id) ?? getBackedAmount(stake);
+    const principal = backedAmount > 0
+      ? backedAmount + Number(stake.compounded_rewards || 0)
+      : 0;
+    const folded = isUnverified ? 0 : Math.min(Number(stake.accrued_amount_seconds || 0), foldedCaps.get(stake.id) ?? Infinity);
+    const amountSeconds = folded + principal * heldSeconds;
+    const apr = stake.apr ?? pool.apr;
+    return { stake, amountSeconds, reward: amountSeconds * (apr / 100) / SECONDS_PER_YEAR };
+  });
+
+  // Emission pools release a fixed amount for the period and share it by the same weights.
+  // With nobody staked, the period's emission stays in the allocation.
+  if (pool.reward_mode === 'emission') {
+    const periodStart = new Date(pool.last_accrual_at ?? pool.funded_at ?? nowIso);
+    const emission = Number(pool.tokens_per_day || 0) * Math.max(0, now.getTime() - periodStart.getTime()) / DAY_MS;
+    const totalWeight = weighted.reduce((sum, entry) => sum + entry.amountSeconds, 0);
+    for (const entry of weighted) {
+      entry.reward = totalWeight > 0 ? emission * (entry.amountSeconds / totalWeight) : 0;
+    }
+  }
+
+  const totalReward = weighted.reduce((sum, entry) => sum + entry.reward, 0);
+  const remaining = Math.max(0, pool.allocation - (pool.rewards_distributed || 0));
+
+  // SECURITY: Never accrue past the pool allocation; scale everyone down pro-rata instead
+  const scale = totalReward > remaining && totalReward > 0 ? remaining / totalReward : 1;
+
+  // Compounded rewards stop earning once the allocation runs out, so they are released instead
+  const runsOut = !!pool.depleted_at || totalReward >= remaining;
+
+  let accrued = 0;
+  let stakers = 0;
+  const earners: Array<{ walletAddress: string; amountSeconds: number }> = [];
+
+  for (const { stake, amountSeconds, reward } of weighted) {
+    const credited = reward * scale;
+    const lockMs = (stake.lock_days ?? pool.lock_period_days ?? 0) * DAY_MS;
+    const unlocked = now.getTime() >= new Date(stake.joined_at).getTime() + lockMs;
+
+    // Rewards earned inside the lock period stay locked until it ends. Escrow stakes
+    // have no lock_days of their own (each deposit locks its principal), so their
+    // rewards follow the pool's shortest lock.
+    const released = unlocked ? Number(stake.locked_rewards || 0) + credited : 0;
+    const update: Record<string, number> = {
+      locked_rewards: unlocked ? 0 : Number(stake.locked_rewards || 0) + credited,
+    };
+    const heldAmount = heldAmounts.get(stake.id);
+    const backedAmount = heldAmount ?? getBackedAmount(stake);
+
+    // Auto-compound adds newly released rewards to the staked amount. It only ever takes
+    // new rewards, so pending_rewards that may already be part of a claim are never moved.
+    // With compounding off, nothing token-backed left or the allocation running out, the
+    // compounded part leaves the amount and becomes claimable, as it is still owed from the allocation.
+    const compounded = Number(stake.compounded_rewards || 0);
+    let nextCompounded = compounded;
+    if (stake.auto_compound && backedAmount > 0 && !runsOut) {
+      nextCompounded = compounded + released;
+    } else if (released + compounded > 0) {
+      update.pending_rewards = Number(stake.pending_rewards || 0) + released + compounded;
+      nextCompounded = 0;
+    }
+    if (heldAmount !== undefined || nextCompounded !== compounded) {
+      update.amount = backedAmount + nextCompounded;
+      update.compounded_rewards = nextCompounded;
+    }
+
+    // Skip stakes whose balance changed since they were read; they are picked up next run
+    const { data: updated, error: updateError } = await supabase
+      .from('user_stakes')
+      .update({
+        ...update,
+        accrued_amount_seconds: 0,
+        balance_updated_at: nowIso,
+        rewards_accrued_at: nowIso,
+      })
+      .eq('id', stake.id)
+      .eq('balance_updated_at', stake.balance_updated_at)
+      .select('id');
+
+    if (updateError) {
+      console.error(`Pool ${pool.id}: failed to accrue stake ${stake.id}:`, updateError);
+      continue;
+    }
+    if (!updated || updated.length === 0) {
+      console.log(`Pool ${pool.id}: stake ${stake.id} changed during accrual, deferring`);
+      continue;
+    }
+
+    accrued += credited;
+    if (credited > 0) stakers++;
+    if (amountSeconds > 0) earners.push({ walletAddress: stake.wallet_address, amountSeconds });
+    if (heldAmount !== undefined) {
+      console.log(`Pool ${pool.id}: stake ${stake.id} trimmed to the held ${heldAmount} plus ${nextCompounded} compounded`);
+    }
+  }
+
+  // Stakes deferred above may still be owed part of what is left, so only a fully credited allocation ends the pool
+  const depleted = !pool.depleted_at && remaining - accrued <= ALLOCATION_EPSILON;
+
+  const { error: poolError } = await supabase
+    .from('staking_pools')
+    .update({
+      rewards_distributed: (pool.rewards_distributed || 0) + accrued,
+      last_distribution_at: nowIso,
+      ...(depleted ? { depleted_at: nowIso } : {}),
+    })
+    .eq('id', pool.id);
+
+  if (poolError) throw poolError;
+
+  if (scale < 1) {
+    console.log(`Pool ${pool.id}: allocation reached, rewards scaled by ${scale.toFixed(6)}`);
+  }
+  if (depleted) {
+    console.log(`Pool ${pool.id}: allocation fully distributed, no further rewards accrue`);
+  }
+
+  const streamAccrued = streams.length > 0 ? await accrueStreams(supabase, pool, streams, earners, now) : 0;
+
+  return { stakers, accrued, streamAccrued };
+}
+
+// Scheduled job: accrues APR or fixed-emission rewards, and the emissions of any extra
+// reward streams, for every active staking pool whose reward frequency has elapsed.
+// The UI only ever displays these values.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // SECURITY: Only the scheduler may run this job
+  if (!hasCronSecret(req)) {
+    console.error('SECURITY: Unauthorized accrual job call');
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: pools, error: poolsError } = await supabase
+      .from('staking_pools')
+      .select('id, apr, allocation, lock_period_days, reward_frequency_value, reward_frequency_unit, rewards_distributed, last_accrual_at, funded_at, reward_mode, tokens_per_day, depleted_at, custody_mode, contract_address')
+      .eq('status', 'active');
+
+    if (poolsError) throw poolsError;
+
+    const { data: activeStreams, error: streamsError } = await supabase
+      .from('staking_reward_streams')
+      .select('id, pool_id, mint, token_decimals, tokens_per_day, allocation, rewards_distributed, last_distribution_at')
+      .eq('status', 'active');
+
+    if (streamsError) throw streamsError;
+
+    const streamsByPool = new Map<string, RewardStream[]>();
+    for (const stream of (activeStreams as RewardStream[]) || []) {
+      streamsByPool.set(stream.pool_id, [...(streamsByPool.get(stream.pool_id) || []), stream]);
+    }
+
+    const now = new Date();
+    const results: Array<{ poolId: string; stakers: number; accrued: number; streamAccrued: number }> = [];
+
+    for (const pool of (pools as StakingPool[]) || []) {
+      const frequencyMs = getFrequencyMs(pool.reward_frequency_value, pool.reward_frequency_unit);
+      if (pool.last_accrual_at && now.getTime() - new Date(pool.last_accrual_at).getTime() < frequencyMs) {
+        continue;
+      }
+
+      // A depleted pool keeps running to release rewards still locked or compounded,
+      // and to pay any stream that has not run out yet
+      const streams = streamsByPool.get(pool.id) || [];
+
+      try {
+        const result = await accruePool(supabase, pool, streams, now);
+        console.log(`Pool ${pool.id}: accrued ${result.accrued} to ${result.stakers} stakers, ${result.streamAccrued} from streams`);
+        results.push({ poolId: pool.id, ...result });
+      } catch (poolError) {
+        console.error(`Pool ${pool.id}: accrual failed:`, poolError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, poolsAccrued: results.length, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Staking accrual error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
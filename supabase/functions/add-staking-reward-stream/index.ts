@@ -0,0 +1,273 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Keypair, PublicKey } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { EncryptedKeyFields, encryptPrivateKey } from '../_shared/key-vault.ts';
+import { MAX_REWARD_STREAMS, NATIVE_SOL_DECIMALS, NATIVE_SOL_MINT } from '../_shared/staking-streams.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// Unfunded streams expire after this window unless the creator picks another
+const DEFAULT_FUNDING_WINDOW_HOURS = 48;
+const MAX_FUNDING_WINDOW_HOURS = 7 * 24;
+const MAX_STREAM_ALLOCATION = 1000000000;
+const MAX_SYMBOL_LENGTH = 12;
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Decimals come from the chain so a creator cannot misstate them; null when the address is not a mint
+async function getMintDecimals(mint: string): Promise<number | null> {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getTokenSupply', params: [mint] })
+  });
+
+  const data = await response.json();
+  const decimals = data?.result?.value?.decimals;
+  return typeof decimals === 'number' ? decimals : null;
+}
+
+// Adds a second reward token, or SOL, to a staking pool. The stream gets its own
+// deposit wallet and starts 'pending'; watch-staking-deposits activates it once the
+// creator has funded it, exactly as for the pool's own allocation.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, mint, tokenSymbol, tokensPerDay, allocation, fundingWindowHours } = await req.json();
+
+    if (!walletAddress || !poolId || !mint) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, poolId and mint' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to add a reward stream`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: pool, error: poolError } = await supabase
+      .from('staking_pools')
+      .select('id, contract_address, creator_wallet, status')
+      .eq('id', poolId)
+      .single();
+
+    if (poolError || !pool) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Only the pool's creator can attach rewards to it
+    if (pool.creator_wallet !== walletAddress) {
+      console.error(`SECURITY: ${walletAddress} attempted to add a reward stream to pool ${poolId} it did not create`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the pool creator can add reward streams' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (pool.status !== 'pending' && pool.status !== 'active') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool is no longer accepting reward streams' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const isSol = mint === 'SOL' || mint === NATIVE_SOL_MINT;
+    const streamMint = isSol ? NATIVE_SOL_MINT : String(mint);
+    try {
+      new PublicKey(streamMint);
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid reward mint address' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (streamMint === pool.contract_address) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'The staked token is already this pool\'s primary reward' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedAllocation = Math.min(Math.max(0, Number(allocation) || 0), MAX_STREAM_ALLOCATION);
+    const validatedPerDay = Number(tokensPerDay) || 0;
+    if (validatedAllocation <= 0 || validatedPerDay <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Allocation and tokens per day must be greater than 0' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: existingStreams, error: existingError } = await supabase
+      .from('staking_reward_streams')
+      .select('id, mint, status')
+      .eq('pool_id', poolId);
+
+    if (existingError) throw existingError;
+
+    if ((existingStreams || []).some(stream => stream.mint === streamMint)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool already has a stream for that token' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if ((existingStreams || []).filter(stream => stream.status !== 'expired').length >= MAX_REWARD_STREAMS) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Pools can have at most ${MAX_REWARD_STREAMS} extra reward streams` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const decimals = isSol ? NATIVE_SOL_DECIMALS : await getMintDecimals(streamMint);
+    if (decimals === null) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Reward mint not found on-chain' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const symbol = isSol
+      ? 'SOL'
+      : (typeof tokenSymbol === 'string' && tokenSymbol.trim()
+        ? tokenSymbol.trim().slice(0, MAX_SYMBOL_LENGTH).toUpperCase()
+        : streamMint.slice(0, 4));
+
+    const windowHours = Math.min(
+      Math.max(1, Math.floor(Number(fundingWindowHours) || DEFAULT_FUNDING_WINDOW_HOURS)),
+      MAX_FUNDING_WINDOW_HOURS
+    );
+    const fundingExpiresAt = new Date(Date.now() + windowHours * 60 * 60 * 1000);
+
+    // The pool_wallets id is chosen up front because the encrypted key is bound to it
+    const walletId = crypto.randomUUID();
+    let depositKeypair: Keypair;
+    let encryptedKey: EncryptedKeyFields;
+    try {
+      depositKeypair = Keypair.generate();
+      encryptedKey = await encryptPrivateKey(depositKeypair.secretKey, { walletTable: 'pool_wallets', recordId: walletId });
+    } catch (vaultError) {
+      console.error('Key vault not configured:', vaultError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Encryption not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const depositAddress = depositKeypair.publicKey.toBase58();
+
+    const { data: stream, error: streamError } = await supabase
+      .from('staking_reward_streams')
+      .insert({
+        pool_id: poolId,
+        mint: streamMint,
+        token_symbol: symbol,
+        token_decimals: decimals,
+        tokens_per_day: validatedPerDay,
+        allocation: validatedAllocation,
+        requested_allocation: validatedAllocation,
+        deposit_wallet_address: depositAddress,
+        funding_expires_at: fundingExpiresAt.toISOString(),
+        status: 'pending'
+      })
+      .select('id')
+      .single();
+
+    if (streamError || !stream) {
+      console.error('Error creating reward stream:', streamError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create reward stream' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The stream's wallet is keyed by the stream id, so payouts can sign for it
+    const { error: walletError } = await supabase
+      .from('pool_wallets')
+      .insert({
+        id: walletId,
+        pool_id: stream.id,
+        pool_type: 'staking_stream',
+        wallet_address: depositAddress,
+        ...encryptedKey
+      });
+
+    if (walletError) {
+      // A stream nobody can pay out from must never go live
+      console.error('Error storing reward stream wallet:', walletError);
+      await supabase.from('staking_reward_streams').delete().eq('id', stream.id);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create reward stream wallet' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Reward stream ${stream.id} for pool ${poolId}: awaiting ${validatedAllocation} ${symbol} at ${depositAddress} until ${fundingExpiresAt.toISOString()}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        streamId: stream.id,
+        depositAddress,
+        depositAmount: validatedAllocation,
+        fundingExpiresAt: fundingExpiresAt.toISOString(),
+        requiresDeposit: true
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Add reward stream error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
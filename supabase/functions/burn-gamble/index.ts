@@ -1,8 +1,12 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { DEFAULT_PAYOUT_TABLE, PayoutTier, getMaxMultiplier, resolvePayout, validatePayoutTable } from '../_shared/burn-payouts.ts';
+import { computeRoll, hashServerSeed, toHex } from '../_shared/provably-fair.ts';
+import { toBaseUnits } from '../_shared/token-amounts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
 // SECURITY: Check if wallet is blocked
@@ -20,15 +24,232 @@ async function isWalletBlocked(supabase: any, walletAddress: string): Promise<{
   return { blocked: false };
 }
 
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+// Both the legacy token program and Token-2022 report burns under these names
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+const BURN_INSTRUCTION_TYPES = ['burn', 'burnChecked'];
+
+interface ParsedInstruction {
+  program?: string;
+  parsed?: {
+    type?: string;
+    info?: {
+      mint?: string;
+      authority?: string;
+      multisigAuthority?: string;
+      amount?: string;
+      tokenAmount?: { amount?: string };
+    };
+  };
+}
+
+interface ParsedTransaction {
+  meta: {
+    err: unknown;
+    innerInstructions?: Array<{ instructions: ParsedInstruction[] }>;
+  } | null;
+  transaction: {
+    message: {
+      accountKeys: Array<{ pubkey: string; signer: boolean }>;
+      instructions: ParsedInstruction[];
+    };
+  };
+}
+
+// Fetch a parsed transaction, retrying while the RPC node catches up to the client
+async function getParsedTransaction(signature: string, maxRetries = 10): Promise<ParsedTransaction | null> {
+  for (let i = 0; i < maxRetries; i++) {
+    const response = await fetch(RPC_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTransaction',
+        params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }]
+      })
+    });
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(data.error.message || 'RPC getTransaction failed');
+    }
+    if (data.result) {
+      return data.result;
+    }
+
+    console.log(`Transaction not visible yet, attempt ${i + 1}/${maxRetries}`);
+    await new Promise(r => setTimeout(r, 1500));
+  }
+  return null;
+}
+
+// SECURITY: Verify the signature is a successful SPL burn of the pool mint,
+// signed by the wallet, for exactly the claimed amount
+async function verifyBurnTransaction(
+  signature: string,
+  walletAddress: string,
+  mintAddress: string,
+  burnAmount: number,
+  decimals: number
+): Promise<{ valid: boolean; error?: string }> {
+  const tx = await getParsedTransaction(signature);
+  if (!tx) {
+    return { valid: false, error: 'Burn transaction not found on-chain' };
+  }
+
+  if (tx.meta?.err) {
+    return { valid: false, error: 'Burn transaction failed on-chain' };
+  }
+
+  const accountKeys = tx.transaction?.message?.accountKeys || [];
+  const signedByWallet = accountKeys.some(key => key.signer && key.pubkey === walletAddress);
+  if (!signedByWallet) {
+    return { valid: false, error: 'Burn transaction was not signed by this wallet' };
+  }
+
+  // Burns can be top-level or nested inside another program's instruction
+  const instructions: ParsedInstruction[] = [
+    ...(tx.transaction?.message?.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions || []),
+  ];
+
+  const expectedRawAmount = toBaseUnits(burnAmount, decimals);
+  let burnedRawAmount = BigInt(0);
+
+  for (const ix of instructions) {
+    if (!TOKEN_PROGRAMS.includes(ix.program) || !BURN_INSTRUCTION_TYPES.includes(ix.parsed?.type)) {
+      continue;
+    }
+
+    const info = ix.parsed.info || {};
+    const authority = info.authority || info.multisigAuthority;
+    if (info.mint !== mintAddress || authority !== walletAddress) {
+      continue;
+    }
+
+    const rawAmount = ix.parsed.type === 'burnChecked' ? info.tokenAmount?.amount : info.amount;
+    burnedRawAmount += BigInt(rawAmount || 0);
+  }
+
+  if (burnedRawAmount === BigInt(0)) {
+    return { valid: false, error: 'No burn of this token found in transaction' };
+  }
+
+  if (burnedRawAmount !== expectedRawAmount) {
+    console.error(`SECURITY: Burn amount mismatch. On-chain: ${burnedRawAmount}, Claimed: ${expectedRawAmount}`);
+    return { valid: false, error: 'Burn amount does not match transaction' };
+  }
+
+  return { valid: true };
+}
+
+// Provably-fair commit-reveal: each pool has one active server seed whose SHA-256
+// is public. Every roll mixes in a client seed and an increasing nonce, and the
+// seed is revealed once it rotates so anyone can recompute past rolls.
+const SEED_ROTATION_ROLLS = 100;
+const MAX_CLIENT_SEED_LENGTH = 64;
+
+interface BurnSeed {
+  id: string;
+  server_seed: string;
+  server_seed_hash: string;
+  next_nonce: number;
+  payout_table: PayoutTier[] | null;
+}
+
+// Create and commit a new server seed. The partial unique index on active seeds
+// means a concurrent creator wins and we simply re-read its seed.
+async function createServerSeed(supabase: SupabaseClient, poolId: string): Promise<void> {
+  const seedBytes = new Uint8Array(32);
+  crypto.getRandomValues(seedBytes);
+  const serverSeed = toHex(seedBytes.buffer);
+
+  const { error } = await supabase
+    .from('burn_seeds')
+    .insert({
+      pool_id: poolId,
+      server_seed: serverSeed,
+      server_seed_hash: await hashServerSeed(serverSeed),
+      next_nonce: 0,
+      status: 'active',
+    });
+
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to create server seed: ${error.message}`);
+  }
+}
+
+// Atomically reserve the next nonce on the pool's active seed
+async function claimRollNonce(supabase: SupabaseClient, poolId: string, maxAttempts = 5): Promise<{ seed: BurnSeed; nonce: number }> {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const { data: seed } = await supabase
+      .from('burn_seeds')
+      .select('id, server_seed, server_seed_hash, next_nonce, payout_table')
+      .eq('pool_id', poolId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (!seed) {
+      await createServerSeed(supabase, poolId);
+      continue;
+    }
+
+    // Conditional update acts as a compare-and-swap on the nonce
+    const { data: claimed } = await supabase
+      .from('burn_seeds')
+      .update({ next_nonce: seed.next_nonce + 1 })
+      .eq('id', seed.id)
+      .eq('status', 'active')
+      .eq('next_nonce', seed.next_nonce)
+      .select('id');
+
+    if (claimed && claimed.length > 0) {
+      return { seed, nonce: seed.next_nonce };
+    }
+  }
+  throw new Error('Could not reserve a roll nonce');
+}
+
+// Payout table snapshotted with the pool's active seed, or null before the first seed is committed
+async function getActiveSeedPayoutTable(supabase: SupabaseClient, poolId: string): Promise<PayoutTier[] | null> {
+  const { data: seed } = await supabase
+    .from('burn_seeds')
+    .select('payout_table')
+    .eq('pool_id', poolId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return seed?.payout_table ?? null;
+}
+
+// Reveal the current seed so its rolls become verifiable, then commit a fresh one
+async function rotateServerSeed(supabase: SupabaseClient, poolId: string, seedId: string, commitNext: boolean): Promise<void> {
+  await supabase
+    .from('burn_seeds')
+    .update({ status: 'revealed', revealed_at: new Date().toISOString() })
+    .eq('id', seedId)
+    .eq('status', 'active');
+
+  if (commitNext) {
+    await createServerSeed(supabase, poolId);
+  }
+  console.log(`Server seed ${seedId} revealed for pool ${poolId}`);
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { poolId, walletAddress, burnAmount, burnTxHash } = await req.json();
+    const { poolId, walletAddress, burnAmount, burnTxHash, clientSeed: requestedClientSeed } = await req.json();
 
-    console.log('Burn gamble request:', { poolId, walletAddress, burnAmount, burnTxHash });
+    console.log('Burn gamble request:', { poolId, walletAddress, burnAmount, burnTxHash, clientSeed: requestedClientSeed });
 
     // Validate required fields
     if (!poolId || !walletAddress || !burnAmount || !burnTxHash) {
@@ -39,7 +260,7 @@ Deno.serve(async (req) => {
     }
 
     // SECURITY: Validate burnAmount is positive and reasonable
-    if (burnAmount <= 0 || burnAmount > 1000000000) { // Max 1B tokens per burn
+    if (typeof burnAmount !== 'number' || !Number.isFinite(burnAmount) || burnAmount <= 0 || burnAmount > 1000000000) { // Max 1B tokens per burn
       console.error(`SECURITY: Invalid burn amount: ${burnAmount}`);
       return new Response(
         JSON.stringify({ success: false, error: 'Invalid burn amount' }),
@@ -56,10 +277,29 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (requestedClientSeed !== undefined && (typeof requestedClientSeed !== 'string' || requestedClientSeed.length === 0 || requestedClientSeed.length > MAX_CLIENT_SEED_LENGTH)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Client seed must be 1-${MAX_CLIENT_SEED_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The burn signature is unpredictable to the server, so it is a safe default client seed
+    const clientSeed: string = requestedClientSeed || burnTxHash;
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, walletAddress);
     if (blockCheck.blocked) {
@@ -93,26 +333,32 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check if this burn tx has already been processed (prevent replay attacks)
-    const { data: existingTx } = await supabase
-      .from('burn_transactions')
-      .select('id')
-      .eq('pool_id', poolId)
-      .eq('wallet_address', walletAddress)
-      .eq('burn_amount', burnAmount)
-      .gte('created_at', new Date(Date.now() - 60000).toISOString()) // Within last minute
-      .limit(1);
+    // Pools waiting for their reward deposit, or expired without one, take no burns
+    if (pool.status !== 'active') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool is not active' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    if (existingTx && existingTx.length > 0) {
-      console.warn('Duplicate burn transaction detected');
+    // SECURITY: Never trust a malformed payout table, even one written directly to the row.
+    // Rolls resolve against the table snapshotted with the active seed, which can differ from the
+    // pool's table after an edit, so both are checked: the seed's table decides this roll, and the
+    // pool's table is what the next seed snapshots if this one rotates before the nonce is claimed.
+    const payoutTable: PayoutTier[] = pool.payout_table || DEFAULT_PAYOUT_TABLE;
+    const seedPayoutTable = await getActiveSeedPayoutTable(supabase, poolId);
+    const tableError = validatePayoutTable(payoutTable) || (seedPayoutTable && validatePayoutTable(seedPayoutTable));
+    if (tableError) {
+      console.error(`SECURITY: Invalid payout table on pool ${poolId}: ${tableError}`);
       return new Response(
-        JSON.stringify({ success: false, error: 'Transaction already processed' }),
+        JSON.stringify({ success: false, error: 'Pool payout table is invalid' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate potential win against available rewards
-    const potentialWin = burnAmount * 2;
+    // Validate the best possible payout against available rewards so a single win can't overdraw the pool
+    const maxMultiplier = Math.max(getMaxMultiplier(payoutTable), seedPayoutTable ? getMaxMultiplier(seedPayoutTable) : 0);
+    const potentialWin = burnAmount * maxMultiplier;
     const availableRewards = pool.reward_supply - pool.total_paid_out;
     
     if (potentialWin > availableRewards) {
@@ -122,97 +368,105 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Generate secure random outcome using crypto API (server-side only)
-    const randomBytes = new Uint8Array(32);
-    crypto.getRandomValues(randomBytes);
-    
-    // Use multiple bytes for better randomness distribution
-    const randomValue = randomBytes.reduce((acc, byte) => acc + byte, 0) / (32 * 255);
-    const won = randomValue >= 0.5;
-    const result = won ? 'win' : 'lose';
-    const rewardAmount = won ? burnAmount * 2 : 0;
+    // SECURITY: Verify the burn actually happened on-chain before resolving the outcome
+    let verification: { valid: boolean; error?: string };
+    try {
+      verification = await verifyBurnTransaction(
+        burnTxHash,
+        walletAddress,
+        pool.contract_address,
+        burnAmount,
+        pool.token_decimals ?? 6
+      );
+    } catch (rpcError) {
+      console.error('Burn verification RPC error:', rpcError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Could not verify burn transaction, please try again' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    console.log('Game result:', { result, randomValue: randomValue.toFixed(4), rewardAmount });
+    if (!verification.valid) {
+      console.error(`SECURITY: Burn verification failed for ${burnTxHash}: ${verification.error}`);
+      return new Response(
+        JSON.stringify({ success: false, error: verification.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Record the burn transaction
-    const { error: txError } = await supabase
-      .from('burn_transactions')
-      .insert({
-        pool_id: poolId,
-        wallet_address: walletAddress,
-        burn_amount: burnAmount,
-        result,
-        reward_amount: rewardAmount,
-      });
+    // SECURITY: Refuse signatures already in the permanent ledger before spending a nonce on them.
+    // record_burn_roll claims the signature again atomically, so a concurrent replay still fails there.
+    const { data: usedSignature } = await supabase
+      .from('used_signatures')
+      .select('signature')
+      .eq('signature', burnTxHash)
+      .maybeSingle();
 
-    if (txError) {
-      console.error('Failed to record transaction:', txError);
+    if (usedSignature) {
+      console.warn(`SECURITY: Replayed burn signature: ${burnTxHash}`);
       return new Response(
-        JSON.stringify({ success: false, error: 'Failed to record transaction' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: 'Transaction already processed' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Update or create user rewards
-    const { data: existingRewards } = await supabase
-      .from('burn_rewards')
-      .select('*')
-      .eq('pool_id', poolId)
-      .eq('wallet_address', walletAddress)
-      .single();
+    // Provably-fair outcome from the committed server seed, client seed and nonce.
+    // The payout table snapshotted with the seed decides it, so the roll can be re-checked later.
+    const { seed, nonce } = await claimRollNonce(supabase, poolId);
+    const rollPayoutTable: PayoutTier[] = seed.payout_table || payoutTable;
 
-    if (existingRewards) {
-      await supabase
-        .from('burn_rewards')
-        .update({
-          claimable_balance: existingRewards.claimable_balance + rewardAmount,
-          total_burned: existingRewards.total_burned + burnAmount,
-          total_won: existingRewards.total_won + (won ? rewardAmount : 0),
-          total_lost: existingRewards.total_lost + (won ? 0 : burnAmount),
-          wins_count: existingRewards.wins_count + (won ? 1 : 0),
-          losses_count: existingRewards.losses_count + (won ? 0 : 1),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingRewards.id);
-    } else {
-      await supabase
-        .from('burn_rewards')
-        .insert({
-          pool_id: poolId,
-          wallet_address: walletAddress,
-          claimable_balance: rewardAmount,
-          total_burned: burnAmount,
-          total_won: won ? rewardAmount : 0,
-          total_lost: won ? 0 : burnAmount,
-          wins_count: won ? 1 : 0,
-          losses_count: won ? 0 : 1,
-        });
-
-      // Increment participants count
-      await supabase
-        .from('burn_pools')
-        .update({ participants: pool.participants + 1 })
-        .eq('id', poolId);
-    }
-
-    // Update pool stats
-    const newTotalBurned = pool.total_burned + burnAmount;
-    const newTotalPaidOut = pool.total_paid_out + rewardAmount;
-    const poolUpdate: Record<string, unknown> = {
-      total_burned: newTotalBurned,
-      total_paid_out: newTotalPaidOut,
-      updated_at: new Date().toISOString(),
-    };
+    // The table may have changed between the checks above and the nonce claim. The signature
+    // is not claimed yet, so the same burn can be retried against the new table.
+    if (validatePayoutTable(rollPayoutTable) || getMaxMultiplier(rollPayoutTable) > maxMultiplier) {
+      console.error(`SECURITY: Payout table on pool ${poolId} changed during roll with seed ${seed.id}`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool payout table changed, please try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const roll = await computeRoll(seed.server_seed, clientSeed, nonce);
+    const { multiplier } = resolvePayout(roll, rollPayoutTable);
+    const won = multiplier > 0;
+    const result = won ? 'win' : 'lose';
+    const rewardAmount = burnAmount * multiplier;
+
+    console.log('Game result:', { result, multiplier, roll: roll.toFixed(6), nonce, seedId: seed.id, rewardAmount });
+
+    // Claim the signature and record the result, the wallet's rewards and the pool totals in one
+    // transaction, so a failure can't leave the burn spent without a result or totals half-applied
+    const { data: poolCompleted, error: recordError } = await supabase.rpc('record_burn_roll', {
+      p_signature: burnTxHash,
+      p_pool_id: poolId,
+      p_wallet_address: walletAddress,
+      p_burn_amount: burnAmount,
+      p_reward_amount: rewardAmount,
+      p_multiplier: multiplier,
+      p_seed_id: seed.id,
+      p_client_seed: clientSeed,
+      p_nonce: nonce,
+      p_roll: roll,
+    });
 
-    // Check if pool should be marked as completed
-    if (newTotalPaidOut >= pool.reward_supply) {
-      poolUpdate.status = 'completed';
+    if (recordError) {
+      if (recordError.code === '23505') {
+        console.warn(`SECURITY: Replayed burn signature: ${burnTxHash}`);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Transaction already processed' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      console.error('Failed to record transaction:', recordError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to record transaction' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    await supabase
-      .from('burn_pools')
-      .update(poolUpdate)
-      .eq('id', poolId);
+    // Reveal the seed once it has served its quota of rolls, or when the pool closes
+    if (poolCompleted === true || nonce + 1 >= SEED_ROTATION_ROLLS) {
+      await rotateServerSeed(supabase, poolId, seed.id, poolCompleted !== true);
+    }
 
     console.log('Burn gamble completed successfully:', { result, rewardAmount });
 
@@ -221,8 +475,13 @@ Deno.serve(async (req) => {
         success: true,
         result,
         won,
+        multiplier,
         rewardAmount,
         burnAmount,
+        roll,
+        nonce,
+        clientSeed,
+        serverSeedHash: seed.server_seed_hash,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1,10 +1,14 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import bs58 from 'https://esm.sh/bs58@5.0.0';
 import { Connection, Keypair, PublicKey, Transaction } from 'https://esm.sh/@solana/web3.js@1.87.6';
 import { getAssociatedTokenAddress, createTransferInstruction, createAssociatedTokenAccountInstruction, getAccount, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } from 'https://esm.sh/@solana/spl-token@0.3.11';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { decryptPrivateKey } from '../_shared/key-vault.ts';
+import { getClaimChainStatus, markClaimConfirmed, markClaimFailed } from '../_shared/safu-claims.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
 // Retry configuration
@@ -59,26 +63,6 @@ async function withRetry<T>(
   throw lastError;
 }
 
-// Decryption function - using base64 decode compatible with Deno
-function decrypt(encryptedData: string, key: string): string {
-  // Decode base64
-  const binaryString = atob(encryptedData);
-  const encrypted = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    encrypted[i] = binaryString.charCodeAt(i);
-  }
-  
-  // XOR decrypt
-  const keyBytes = new TextEncoder().encode(key);
-  const decrypted = new Uint8Array(encrypted.length);
-  
-  for (let i = 0; i < encrypted.length; i++) {
-    decrypted[i] = encrypted[i] ^ keyBytes[i % keyBytes.length];
-  }
-  
-  return new TextDecoder().decode(decrypted);
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -100,17 +84,18 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const heliusApiKey = Deno.env.get('HELIUS_API_KEY');
-    const encryptionKey = Deno.env.get('WALLET_ENCRYPTION_KEY')!;
 
-    if (!encryptionKey) {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
       return new Response(
-        JSON.stringify({ success: false, error: 'Server configuration error' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, walletAddress);
     if (blockCheck.blocked) {
@@ -167,14 +152,61 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Setup connection
+    const rpcEndpoint = heliusApiKey 
+      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+      : 'https://api.mainnet-beta.solana.com';
+    
+    const connection = new Connection(rpcEndpoint, 'confirmed');
+
     // Check if already claimed
-    if (contribution.claimed) {
+    if (contribution.claim_status === 'claimed' || contribution.claimed) {
       return new Response(
         JSON.stringify({ success: false, error: 'Tokens already claimed', claimedAt: contribution.claimed_at }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // A previous attempt is in flight: reconcile its recorded transaction instead of sending another
+    if (contribution.claim_status === 'claiming') {
+      if (!contribution.claim_tx_signature) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'A claim for this contribution is already in progress' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const chainStatus = await getClaimChainStatus(
+        connection,
+        contribution.claim_tx_signature,
+        contribution.claim_last_valid_block_height
+      );
+      console.log(`Previous claim ${contribution.claim_tx_signature} is ${chainStatus}`);
+
+      if (chainStatus === 'confirmed') {
+        await markClaimConfirmed(supabase, contribution.id, contribution.claim_tx_signature);
+        return new Response(
+          JSON.stringify({
+            success: true,
+            txHash: contribution.claim_tx_signature,
+            tokensClaimed: contribution.token_share,
+            tokenSymbol: launch.token_symbol
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (chainStatus === 'pending') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Your claim transaction is still being confirmed', txHash: contribution.claim_tx_signature }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // The previous transaction can never land, so the claim may be retried below
+      await markClaimFailed(supabase, contribution.id, contribution.claim_tx_signature, 'Transaction expired or failed on-chain');
+    }
+
     // Check token share
     if (!contribution.token_share || contribution.token_share <= 0) {
       return new Response(
@@ -183,6 +215,38 @@ Deno.serve(async (req) => {
       );
     }
 
+    // SECURITY: Take the claim with a conditional update so parallel requests cannot both pay out
+    const { data: lockedClaim, error: lockError } = await supabase
+      .from('safu_contributions')
+      .update({
+        claim_status: 'claiming',
+        claim_started_at: new Date().toISOString(),
+        claim_attempts: (contribution.claim_attempts || 0) + 1,
+        claim_tx_signature: null,
+        claim_last_valid_block_height: null,
+        claim_error: null
+      })
+      .eq('id', contribution.id)
+      .in('claim_status', ['unclaimed', 'failed'])
+      .select('id');
+
+    if (lockError || !lockedClaim || lockedClaim.length === 0) {
+      console.error('Could not take claim:', lockError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'A claim for this contribution is already in progress' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Anything that fails before the transaction is sent releases the claim for a retry
+    const releaseClaim = async (status: number, error: string) => {
+      await markClaimFailed(supabase, contribution.id, null, error);
+      return new Response(
+        JSON.stringify({ success: false, error }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    };
+
     console.log(`Token share to claim: ${contribution.token_share} tokens`);
 
     // Get the pool wallet that holds contributor tokens
@@ -195,33 +259,26 @@ Deno.serve(async (req) => {
 
     if (walletError || !poolWallet) {
       console.error('Pool wallet not found:', walletError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Contributor pool wallet not found. Please contact support.' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return releaseClaim(500, 'Contributor pool wallet not found. Please contact support.');
     }
 
     // Decrypt the private key
     let senderKeypair: Keypair;
     try {
-      const privateKeyString = decrypt(poolWallet.encrypted_private_key, encryptionKey);
-      const privateKeyArray = JSON.parse(privateKeyString);
-      senderKeypair = Keypair.fromSecretKey(new Uint8Array(privateKeyArray));
+      const secretKey = await decryptPrivateKey(supabase, poolWallet, {
+        functionName: 'claim-safu-tokens',
+        walletTable: 'pool_wallets',
+        recordId: poolWallet.id,
+        launchId,
+        reason: `SAFU token claim for ${walletAddress}`,
+      });
+      senderKeypair = Keypair.fromSecretKey(secretKey);
       console.log('Pool wallet decrypted successfully');
     } catch (decryptError) {
       console.error('Failed to decrypt pool wallet:', decryptError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to access contributor pool wallet' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return releaseClaim(500, 'Failed to access contributor pool wallet');
     }
 
-    // Setup connection
-    const rpcEndpoint = heliusApiKey 
-      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
-      : 'https://api.mainnet-beta.solana.com';
-    
-    const connection = new Connection(rpcEndpoint, 'confirmed');
     const tokenMint = new PublicKey(launch.contract_address);
     const recipientPubkey = new PublicKey(walletAddress);
 
@@ -242,27 +299,19 @@ Deno.serve(async (req) => {
       
       if (senderAccount.amount < tokenAmount) {
         console.error(`Insufficient tokens. Have: ${senderAccount.amount}, Need: ${tokenAmount}`);
-        return new Response(
-          JSON.stringify({ success: false, error: 'Insufficient tokens in pool. Please contact support.' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+        return releaseClaim(500, 'Insufficient tokens in pool. Please contact support.');
       }
     } catch (ataError) {
       console.error('Sender ATA not found or empty:', ataError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Pool token account not found. Tokens may not be deposited yet.' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return releaseClaim(500, 'Pool token account not found. Tokens may not be deposited yet.');
     }
 
     // Build transaction
     const transaction = new Transaction();
 
     // Check if recipient ATA exists, create if needed
-    let recipientAtaExists = false;
     try {
       await getAccount(connection, recipientAta);
-      recipientAtaExists = true;
       console.log('Recipient ATA exists');
     } catch {
       console.log('Creating recipient ATA...');
@@ -286,52 +335,80 @@ Deno.serve(async (req) => {
       )
     );
 
+    // Sign once: the signature is known before sending, so every retry resends the same transaction
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = senderKeypair.publicKey;
+    transaction.sign(senderKeypair);
+    const signature = bs58.encode(transaction.signature!);
+    const rawTransaction = transaction.serialize();
+
+    // Record the signature before sending so a crash or retry can reconcile it
+    const { data: recorded, error: recordError } = await supabase
+      .from('safu_contributions')
+      .update({
+        claim_tx_signature: signature,
+        claim_last_valid_block_height: lastValidBlockHeight
+      })
+      .eq('id', contribution.id)
+      .eq('claim_status', 'claiming')
+      .is('claim_tx_signature', null)
+      .select('id');
+
+    if (recordError || !recorded || recorded.length === 0) {
+      console.error('Failed to record claim signature, not sending:', recordError);
+      return releaseClaim(500, 'Failed to prepare claim, please try again');
+    }
+
     // Send transaction with retry
-    let signature: string;
     try {
-      signature = await withRetry(async () => {
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-        transaction.recentBlockhash = blockhash;
-        transaction.feePayer = senderKeypair.publicKey;
-        transaction.sign(senderKeypair);
-
-        const sig = await connection.sendRawTransaction(transaction.serialize(), {
+      await withRetry(async () => {
+        await connection.sendRawTransaction(rawTransaction, {
           skipPreflight: false,
           maxRetries: 3
         });
-        console.log(`Transaction sent: ${sig}`);
+        console.log(`Transaction sent: ${signature}`);
 
-        await connection.confirmTransaction({
-          signature: sig,
+        const confirmation = await connection.confirmTransaction({
+          signature,
           blockhash,
           lastValidBlockHeight
         }, 'confirmed');
 
-        return sig;
+        if (confirmation.value.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
       }, 'Token transfer');
       
       console.log('Transaction confirmed!');
     } catch (txError) {
-      console.error('Transaction failed:', txError);
-      return new Response(
-        JSON.stringify({ success: false, error: `Token transfer failed: ${txError instanceof Error ? txError.message : 'Unknown error'}` }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      console.error('Transaction not confirmed:', txError);
+
+      // A resend can fail with "already processed" even though the transfer landed
+      const chainStatus = await getClaimChainStatus(connection, signature, lastValidBlockHeight).catch(() => 'pending' as const);
+
+      if (chainStatus === 'failed') {
+        await markClaimFailed(supabase, contribution.id, signature, txError instanceof Error ? txError.message : 'Unknown error');
+        return new Response(
+          JSON.stringify({ success: false, error: `Token transfer failed: ${txError instanceof Error ? txError.message : 'Unknown error'}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (chainStatus === 'pending') {
+        // Left in 'claiming'; a retry or reconcile-safu-claims settles it from the chain
+        return new Response(
+          JSON.stringify({ success: false, error: 'Your claim transaction is still being confirmed', txHash: signature }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
     }
 
     // Mark as claimed
-    const { error: updateError } = await supabase
-      .from('safu_contributions')
-      .update({
-        claimed: true,
-        claimed_at: new Date().toISOString(),
-        tx_hash: signature
-      })
-      .eq('id', contribution.id);
-
-    if (updateError) {
-      console.error('Failed to update claim status:', updateError);
-      // Don't fail the request since tokens were transferred
+    const marked = await markClaimConfirmed(supabase, contribution.id, signature);
+    if (!marked) {
+      // Don't fail the request since tokens were transferred; the reconciler will settle it
+      console.error(`Claim ${contribution.id} was transferred but not marked claimed`);
     }
 
     console.log(`=== Claim successful! TX: ${signature} ===`);
@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
 // SECURITY: Check if wallet is blocked
@@ -63,6 +64,15 @@ Deno.serve(async (req) => {
       );
     }
 
+    // SECURITY: Only the wallet that owns the withdrawal can confirm it
+    const session = await requireWalletSession(supabase, req, request.wallet_address);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, request.wallet_address);
     if (blockCheck.blocked) {
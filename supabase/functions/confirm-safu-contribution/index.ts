@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
 // SECURITY: Check if wallet is blocked
@@ -20,32 +21,135 @@ async function isWalletBlocked(supabase: any, walletAddress: string): Promise<{
   return { blocked: false };
 }
 
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Each wallet may put at most 1 SOL into a launch; contributors share 150M tokens
+// pro rata against an 11 SOL hardcap
+const MAX_CONTRIBUTION_PER_WALLET = 1;
+const CONTRIBUTOR_TOKENS = 150_000_000;
+const SHARE_HARDCAP = 11;
+
+interface ParsedInstruction {
+  program?: string;
+  parsed?: {
+    type?: string;
+    info?: {
+      source?: string;
+      destination?: string;
+      lamports?: number;
+    };
+  };
+}
+
+interface ParsedTransaction {
+  meta: {
+    err: unknown;
+    innerInstructions?: Array<{ instructions: ParsedInstruction[] }>;
+  } | null;
+  transaction: {
+    message: {
+      accountKeys: Array<{ pubkey: string; signer: boolean }>;
+      instructions: ParsedInstruction[];
+    };
+  };
+}
+
+// Fetch a parsed transaction, retrying while the RPC node catches up to the client
+async function getParsedTransaction(signature: string, maxRetries = 10): Promise<ParsedTransaction | null> {
+  for (let i = 0; i < maxRetries; i++) {
+    const response = await fetch(RPC_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTransaction',
+        params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }]
+      })
+    });
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(data.error.message || 'RPC getTransaction failed');
+    }
+    if (data.result) {
+      return data.result;
+    }
+
+    console.log(`Transaction not visible yet, attempt ${i + 1}/${maxRetries}`);
+    await new Promise(r => setTimeout(r, 1500));
+  }
+  return null;
+}
+
+// SECURITY: Sum the SystemProgram transfers from the contributor to the deposit wallet.
+// Only lamports that actually moved on-chain are ever credited.
+async function verifySolTransfer(
+  signature: string,
+  walletAddress: string,
+  depositWallet: string
+): Promise<{ valid: boolean; lamports: number; error?: string }> {
+  const tx = await getParsedTransaction(signature);
+  if (!tx) {
+    return { valid: false, lamports: 0, error: 'Transaction not found on-chain' };
+  }
+
+  if (tx.meta?.err) {
+    return { valid: false, lamports: 0, error: 'Transaction failed on-chain' };
+  }
+
+  const accountKeys = tx.transaction?.message?.accountKeys || [];
+  const signedByWallet = accountKeys.some(key => key.signer && key.pubkey === walletAddress);
+  if (!signedByWallet) {
+    return { valid: false, lamports: 0, error: 'Transaction was not signed by this wallet' };
+  }
+
+  const instructions: ParsedInstruction[] = [
+    ...(tx.transaction?.message?.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions || []),
+  ];
+
+  let lamports = 0;
+  for (const ix of instructions) {
+    if (ix.program !== 'system' || !['transfer', 'transferWithSeed'].includes(ix.parsed?.type || '')) {
+      continue;
+    }
+    const info = ix.parsed?.info || {};
+    if (info.source === walletAddress && info.destination === depositWallet) {
+      lamports += Number(info.lamports || 0);
+    }
+  }
+
+  if (lamports <= 0) {
+    return { valid: false, lamports: 0, error: 'No SOL transfer to the launch deposit wallet found in transaction' };
+  }
+
+  return { valid: true, lamports };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { launchId, walletAddress, amount, txHash } = await req.json();
+    // amount is the client's claim and is only logged; the credited amount comes from the chain
+    const { launchId, walletAddress, amount: claimedAmount, txHash } = await req.json();
 
-    console.log(`Confirming contribution: ${amount} SOL from ${walletAddress} for launch ${launchId}, tx: ${txHash}`);
+    console.log(`Confirming contribution: ${claimedAmount} SOL (claimed) from ${walletAddress} for launch ${launchId}, tx: ${txHash}`);
 
-    if (!launchId || !walletAddress || !amount || !txHash) {
+    if (!launchId || !walletAddress || !txHash) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // SECURITY: Validate amount range
-    if (amount <= 0 || amount > 1.01) {
-      console.error(`SECURITY: Invalid amount: ${amount}`);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Amount must be between 0 and 1 SOL' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // SECURITY: Validate txHash format
     if (!txHash || txHash.length < 80 || txHash.length > 100) {
       console.error('SECURITY: Invalid txHash format');
@@ -59,6 +163,15 @@ Deno.serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, walletAddress);
     if (blockCheck.blocked) {
@@ -99,107 +212,71 @@ Deno.serve(async (req) => {
       );
     }
 
-    // SECURITY: Verify launch is accepting contributions
-    if (launch.status !== 'pending_contributions') {
-      console.error(`SECURITY: Attempt to contribute to launch with status: ${launch.status}`);
+    // SECURITY: Verify the SOL transfer on-chain and credit what actually moved
+    let transfer: { valid: boolean; lamports: number; error?: string };
+    try {
+      transfer = await verifySolTransfer(txHash, walletAddress, launch.deposit_wallet_address);
+    } catch (rpcError) {
+      console.error('Contribution verification RPC error:', rpcError);
       return new Response(
-        JSON.stringify({ success: false, error: 'Launch is not accepting contributions' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: 'Could not verify transaction, please try again' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Check existing contribution
-    const { data: existingContribution } = await supabase
-      .from('safu_contributions')
-      .select('*')
-      .eq('launch_id', launchId)
-      .eq('wallet_address', walletAddress)
-      .single();
-
-    // SECURITY: Enforce 1 SOL max per user
-    const currentUserContribution = existingContribution?.amount || 0;
-    const newTotalUserContribution = currentUserContribution + amount;
-    
-    if (newTotalUserContribution > 1.01) { // Small tolerance for rounding
-      console.error(`SECURITY: User ${walletAddress} exceeded 1 SOL limit. Current: ${currentUserContribution}, Attempting: ${amount}`);
+    if (!transfer.valid) {
+      console.error(`SECURITY: Contribution verification failed for ${txHash}: ${transfer.error}`);
       return new Response(
-        JSON.stringify({ success: false, error: `Maximum contribution per user is 1 SOL. You have already contributed ${currentUserContribution.toFixed(2)} SOL` }),
+        JSON.stringify({ success: false, error: transfer.error }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // SECURITY: Check if hardcap would be exceeded
-    if (launch.total_contributed + amount > launch.hardcap + 0.01) { // Small tolerance
-      console.error(`SECURITY: Contribution would exceed hardcap. Total: ${launch.total_contributed}, Amount: ${amount}, Hardcap: ${launch.hardcap}`);
-      return new Response(
-        JSON.stringify({ success: false, error: `Maximum remaining contribution is ${(launch.hardcap - launch.total_contributed).toFixed(2)} SOL` }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const amount = transfer.lamports / LAMPORTS_PER_SOL;
+    if (claimedAmount && Math.abs(claimedAmount - amount) > 0.000001) {
+      console.warn(`Claimed ${claimedAmount} SOL but transaction moved ${amount} SOL, crediting on-chain amount`);
     }
 
-    // Calculate expected token share based on hardcap (11 SOL)
-    const CONTRIBUTOR_TOKENS = 150_000_000;
-    const HARDCAP = 11;
-    const sharePercentage = newTotalUserContribution / HARDCAP;
-    const expectedTokenShare = Math.floor(CONTRIBUTOR_TOKENS * sharePercentage);
-
-    if (existingContribution) {
-      // Update existing contribution
-      const { error: updateError } = await supabase
-        .from('safu_contributions')
-        .update({
-          amount: newTotalUserContribution,
-          tx_hash: txHash,
-          token_share: expectedTokenShare
-        })
-        .eq('id', existingContribution.id);
-
-      if (updateError) throw updateError;
-      console.log(`Updated contribution for ${walletAddress}: ${newTotalUserContribution} SOL -> ${expectedTokenShare} tokens`);
-    } else {
-      // Create new contribution
-      const { error: insertError } = await supabase
-        .from('safu_contributions')
-        .insert({
-          launch_id: launchId,
-          wallet_address: walletAddress,
-          amount: amount,
-          tx_hash: txHash,
-          token_share: expectedTokenShare
-        });
-
-      if (insertError) throw insertError;
-      console.log(`New contribution from ${walletAddress}: ${amount} SOL -> ${expectedTokenShare} tokens`);
-    }
-
-    // Update launch totals
-    const newTotal = launch.total_contributed + amount;
-    const newContributorCount = existingContribution 
-      ? launch.contributor_count 
-      : launch.contributor_count + 1;
-
-    const updateData: any = {
-      total_contributed: newTotal,
-      contributor_count: newContributorCount,
-      updated_at: new Date().toISOString()
-    };
+    // The SOL has already moved, so nothing is rejected from here on. The launch row is locked
+    // while the per-wallet limit and hardcap are applied; whatever does not fit (or arrives after
+    // the launch closed) is queued in safu_refunds for process-safu-refunds to pay back.
+    // SECURITY: The signature is claimed in the permanent ledger in the same transaction.
+    // tx_hash on safu_contributions is overwritten by later top-ups, so it alone cannot stop replays.
+    const { data: credit, error: creditError } = await supabase
+      .rpc('credit_safu_contribution', {
+        p_launch_id: launchId,
+        p_wallet_address: walletAddress,
+        p_tx_hash: txHash,
+        p_lamports: transfer.lamports,
+        p_max_per_wallet: MAX_CONTRIBUTION_PER_WALLET,
+        p_contributor_tokens: CONTRIBUTOR_TOKENS,
+        p_share_hardcap: SHARE_HARDCAP,
+      })
+      .single();
 
-    // Check if hardcap reached
-    if (newTotal >= launch.hardcap) {
-      updateData.status = 'ready_to_launch';
-      console.log('Hardcap reached! Launch is ready to execute.');
+    if (creditError) {
+      if (creditError.code === '23505') {
+        console.error(`SECURITY: Replayed contribution signature: ${txHash}`);
+        return new Response(
+          JSON.stringify({ success: false, error: 'This transaction has already been processed' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw creditError;
     }
 
-    const { error: launchUpdateError } = await supabase
-      .from('safu_launches')
-      .update(updateData)
-      .eq('id', launchId);
+    const creditedAmount = Number(credit.credited_amount);
+    const refundAmount = Number(credit.refund_amount);
+    const newTotal = Number(credit.launch_total);
 
-    if (launchUpdateError) throw launchUpdateError;
+    if (refundAmount > 0) {
+      console.warn(`Queued refund of ${refundAmount} SOL to ${walletAddress} for launch ${launchId} (credited ${creditedAmount} SOL)`);
+    }
+    console.log(`Contribution from ${walletAddress}: ${creditedAmount} SOL credited, launch total ${newTotal} SOL`);
 
     // If hardcap reached, trigger the launch execution
-    if (newTotal >= launch.hardcap) {
-      console.log('Triggering token creation...');
+    if (creditedAmount > 0 && credit.hardcap_reached) {
+      console.log('Hardcap reached! Triggering token creation...');
       // Fire and forget - don't wait for response
       supabase.functions.invoke('execute-safu-launch', {
         body: { launchId }
@@ -209,9 +286,11 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Contribution confirmed',
+        message: creditedAmount > 0 ? 'Contribution confirmed' : 'This launch or your wallet is at its limit, your SOL will be refunded',
+        creditedAmount,
+        refundAmount,
         newTotal,
-        hardcapReached: newTotal >= launch.hardcap
+        hardcapReached: credit.hardcap_reached
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
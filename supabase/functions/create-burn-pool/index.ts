@@ -0,0 +1,223 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Keypair, PublicKey } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { EncryptedKeyFields, encryptPrivateKey } from '../_shared/key-vault.ts';
+import { PayoutTier, validatePayoutTable } from '../_shared/burn-payouts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// Unfunded pools expire after this window unless the creator picks another
+const DEFAULT_FUNDING_WINDOW_HOURS = 48;
+const MAX_FUNDING_WINDOW_HOURS = 7 * 24;
+const MAX_REWARD_SUPPLY = 1000000000;
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Decimals come from the chain so a creator cannot misstate them; null when the address is not a mint
+async function getMintDecimals(mint: string): Promise<number | null> {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getTokenSupply', params: [mint] })
+  });
+
+  const data = await response.json();
+  const decimals = data?.result?.value?.decimals;
+  return typeof decimals === 'number' ? decimals : null;
+}
+
+// Sets up a burn pool. The pool gets its own reward deposit wallet and starts 'pending';
+// watch-pool-deposits activates it once the creator has deposited the reward supply.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, tokenAddress, name, symbol, decimals, rewardSupply, payoutTable, fundingWindowHours } = await req.json();
+
+    if (!walletAddress || !tokenAddress || !name || !symbol) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, tokenAddress, name and symbol' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to create a burn pool`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      new PublicKey(tokenAddress);
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid token address' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const table = payoutTable as PayoutTier[];
+    const tableError = validatePayoutTable(table);
+    if (tableError) {
+      return new Response(
+        JSON.stringify({ success: false, error: tableError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supply = Number(rewardSupply) || 0;
+    if (supply <= 0 || supply > MAX_REWARD_SUPPLY) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Reward supply must be greater than 0 and at most ${MAX_REWARD_SUPPLY.toLocaleString()}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const mintDecimals = await getMintDecimals(tokenAddress);
+    if (mintDecimals === null) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Token mint not found on-chain' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (typeof decimals === 'number' && decimals !== mintDecimals) {
+      return new Response(
+        JSON.stringify({ success: false, error: `This token has ${mintDecimals} decimals` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const windowHours = Math.min(
+      Math.max(1, Math.floor(Number(fundingWindowHours) || DEFAULT_FUNDING_WINDOW_HOURS)),
+      MAX_FUNDING_WINDOW_HOURS
+    );
+    const fundingExpiresAt = new Date(Date.now() + windowHours * 60 * 60 * 1000);
+
+    // The pool_wallets id is chosen up front because the encrypted key is bound to it
+    const walletId = crypto.randomUUID();
+    let depositKeypair: Keypair;
+    let encryptedKey: EncryptedKeyFields;
+    try {
+      depositKeypair = Keypair.generate();
+      encryptedKey = await encryptPrivateKey(depositKeypair.secretKey, { walletTable: 'pool_wallets', recordId: walletId });
+    } catch (vaultError) {
+      console.error('Key vault not configured:', vaultError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Encryption not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const depositAddress = depositKeypair.publicKey.toBase58();
+
+    // SECURITY: Pools ALWAYS start as 'pending' until the reward deposit is verified
+    const { data: pool, error: poolError } = await supabase
+      .from('burn_pools')
+      .insert({
+        contract_address: tokenAddress,
+        token_name: String(name).trim(),
+        token_symbol: String(symbol).trim().toUpperCase(),
+        token_decimals: mintDecimals,
+        reward_supply: supply,
+        total_paid_out: 0,
+        total_burned: 0,
+        participants: 0,
+        payout_table: table,
+        creator_wallet: walletAddress,
+        deposit_wallet_address: depositAddress,
+        funding_expires_at: fundingExpiresAt.toISOString(),
+        status: 'pending'
+      })
+      .select('id')
+      .single();
+
+    if (poolError || !pool) {
+      console.error('Error creating burn pool:', poolError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create burn pool' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: walletError } = await supabase
+      .from('pool_wallets')
+      .insert({
+        id: walletId,
+        pool_id: pool.id,
+        pool_type: 'burn',
+        wallet_address: depositAddress,
+        ...encryptedKey
+      });
+
+    if (walletError) {
+      // A pool nobody can pay winnings from must never go live
+      console.error('Error storing burn pool wallet:', walletError);
+      await supabase.from('burn_pools').delete().eq('id', pool.id);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create burn pool wallet' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Burn pool ${pool.id}: awaiting ${supply} ${symbol} at ${depositAddress} until ${fundingExpiresAt.toISOString()}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        poolId: pool.id,
+        depositAddress,
+        depositAmount: supply,
+        fundingExpiresAt: fundingExpiresAt.toISOString(),
+        requiresDeposit: true
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Create burn pool error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,267 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Keypair, PublicKey } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { EncryptedKeyFields, encryptPrivateKey } from '../_shared/key-vault.ts';
+import { RaceRewardSchedule, validateRewardSchedule } from '../_shared/race-rewards.ts';
+import { RaceRoundSchedule, validateRoundSchedule } from '../_shared/race-schedule.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// Unfunded pools expire after this window unless the creator picks another
+const DEFAULT_FUNDING_WINDOW_HOURS = 48;
+const MAX_FUNDING_WINDOW_HOURS = 7 * 24;
+const MAX_PRIZE_POOL = 1000000000;
+const MAX_ROUNDS = 365;
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Decimals come from the chain so a creator cannot misstate them; null when the address is not a mint
+async function getMintDecimals(mint: string): Promise<number | null> {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getTokenSupply', params: [mint] })
+  });
+
+  const data = await response.json();
+  const decimals = data?.result?.value?.decimals;
+  return typeof decimals === 'number' ? decimals : null;
+}
+
+// Sets up a token race. The race gets its own prize wallet, which auto-distribute pays
+// winners from, and starts 'pending'; watch-pool-deposits starts round 1 once the
+// creator has deposited the prize pool.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      walletAddress,
+      tokenAddress,
+      name,
+      symbol,
+      decimals,
+      prizePool,
+      totalRounds,
+      rankingMode,
+      roundSchedule,
+      rewardSchedule,
+      fundingWindowHours
+    } = await req.json();
+
+    if (!walletAddress || !tokenAddress || !name || !symbol) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, tokenAddress, name and symbol' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to create a race`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      new PublicKey(tokenAddress);
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid token address' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (rankingMode !== 'balance' && rankingMode !== 'net_buy') {
+      return new Response(
+        JSON.stringify({ success: false, error: "rankingMode must be 'balance' or 'net_buy'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!roundSchedule || typeof roundSchedule !== 'object' || !rewardSchedule || typeof rewardSchedule !== 'object') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Round and reward schedules are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const rounds = roundSchedule as RaceRoundSchedule;
+    const rewards = rewardSchedule as RaceRewardSchedule;
+    const scheduleError = validateRoundSchedule(rounds) || validateRewardSchedule(rewards);
+    if (scheduleError) {
+      return new Response(
+        JSON.stringify({ success: false, error: scheduleError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const roundCount = Number(totalRounds);
+    if (!Number.isInteger(roundCount) || roundCount < 1 || roundCount > MAX_ROUNDS) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Rounds must be between 1 and ${MAX_ROUNDS}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const prize = Number(prizePool) || 0;
+    if (prize <= 0 || prize > MAX_PRIZE_POOL) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Prize pool must be greater than 0 and at most ${MAX_PRIZE_POOL.toLocaleString()}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const mintDecimals = await getMintDecimals(tokenAddress);
+    if (mintDecimals === null) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Token mint not found on-chain' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (typeof decimals === 'number' && decimals !== mintDecimals) {
+      return new Response(
+        JSON.stringify({ success: false, error: `This token has ${mintDecimals} decimals` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const windowHours = Math.min(
+      Math.max(1, Math.floor(Number(fundingWindowHours) || DEFAULT_FUNDING_WINDOW_HOURS)),
+      MAX_FUNDING_WINDOW_HOURS
+    );
+    const fundingExpiresAt = new Date(Date.now() + windowHours * 60 * 60 * 1000);
+
+    // The pool_wallets id is chosen up front because the encrypted key is bound to it
+    const walletId = crypto.randomUUID();
+    let depositKeypair: Keypair;
+    let encryptedKey: EncryptedKeyFields;
+    try {
+      depositKeypair = Keypair.generate();
+      encryptedKey = await encryptPrivateKey(depositKeypair.secretKey, { walletTable: 'pool_wallets', recordId: walletId });
+    } catch (vaultError) {
+      console.error('Key vault not configured:', vaultError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Encryption not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const depositAddress = depositKeypair.publicKey.toBase58();
+
+    // SECURITY: Races ALWAYS start as 'pending', with no round running, until the prize deposit is verified
+    const { data: race, error: raceError } = await supabase
+      .from('race_pools')
+      .insert({
+        contract_address: tokenAddress,
+        token_name: String(name).trim(),
+        token_symbol: String(symbol).trim().toUpperCase(),
+        token_decimals: mintDecimals,
+        prize_pool: prize,
+        daily_reward_amount: prize / roundCount,
+        total_rounds: roundCount,
+        current_round: 1,
+        total_participants: 0,
+        time_remaining_hours: Math.ceil(rounds.roundLengthMinutes / 60),
+        round_started_at: null,
+        round_length_minutes: rounds.roundLengthMinutes,
+        entry_window_minutes: rounds.entryWindowMinutes,
+        reward_schedule: rewards,
+        ranking_mode: rankingMode,
+        snapshot_status: 'pending',
+        creator_wallet: walletAddress,
+        deposit_wallet_address: depositAddress,
+        funding_expires_at: fundingExpiresAt.toISOString(),
+        status: 'pending'
+      })
+      .select('id')
+      .single();
+
+    if (raceError || !race) {
+      console.error('Error creating race:', raceError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create race' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: walletError } = await supabase
+      .from('pool_wallets')
+      .insert({
+        id: walletId,
+        pool_id: race.id,
+        pool_type: 'race',
+        wallet_address: depositAddress,
+        ...encryptedKey
+      });
+
+    if (walletError) {
+      // A race nobody can pay winners from must never go live
+      console.error('Error storing race prize wallet:', walletError);
+      await supabase.from('race_pools').delete().eq('id', race.id);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create race prize wallet' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Race ${race.id}: awaiting ${prize} ${symbol} at ${depositAddress} until ${fundingExpiresAt.toISOString()}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        raceId: race.id,
+        depositAddress,
+        depositAmount: prize,
+        fundingExpiresAt: fundingExpiresAt.toISOString(),
+        requiresDeposit: true
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Create race error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
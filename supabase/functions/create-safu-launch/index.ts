@@ -1,10 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { Keypair } from 'https://esm.sh/@solana/web3.js@1.87.6';
-import { encode as base64Encode } from 'https://deno.land/std@0.208.0/encoding/base64.ts';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { EncryptedKeyFields, encryptPrivateKey } from '../_shared/key-vault.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
 // SECURITY: Check if wallet is blocked
@@ -22,19 +23,6 @@ async function isWalletBlocked(supabase: any, walletAddress: string): Promise<{
   return { blocked: false };
 }
 
-// Simple XOR encryption with the key
-function encrypt(data: string, key: string): string {
-  const keyBytes = new TextEncoder().encode(key);
-  const dataBytes = new TextEncoder().encode(data);
-  const encrypted = new Uint8Array(dataBytes.length);
-  
-  for (let i = 0; i < dataBytes.length; i++) {
-    encrypted[i] = dataBytes[i] ^ keyBytes[i % keyBytes.length];
-  }
-  
-  return base64Encode(encrypted);
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -61,19 +49,19 @@ Deno.serve(async (req) => {
       );
     }
 
-    const encryptionKey = Deno.env.get('WALLET_ENCRYPTION_KEY');
-    if (!encryptionKey) {
-      console.error('WALLET_ENCRYPTION_KEY not configured');
-      return new Response(
-        JSON.stringify({ success: false, error: 'Encryption not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, creatorWallet);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, creatorWallet);
     if (blockCheck.blocked) {
@@ -95,11 +83,19 @@ Deno.serve(async (req) => {
     // Generate a new Solana keypair for deposit (will receive contributions AND create token)
     const keypair = Keypair.generate();
     const depositWalletAddress = keypair.publicKey.toBase58();
-    const privateKeyArray = Array.from(keypair.secretKey);
-    const privateKeyString = JSON.stringify(privateKeyArray);
-    
-    // Encrypt the private key for secure storage
-    const encryptedPrivateKey = encrypt(privateKeyString, encryptionKey);
+
+    // Envelope-encrypt the private key for secure storage, bound to the launch id chosen here
+    const launchId = crypto.randomUUID();
+    let encryptedKey: EncryptedKeyFields;
+    try {
+      encryptedKey = await encryptPrivateKey(keypair.secretKey, { walletTable: 'safu_launches', recordId: launchId });
+    } catch (vaultError) {
+      console.error('Key vault not configured:', vaultError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Encryption not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     console.log(`Generated deposit wallet: ${depositWalletAddress}`);
 
@@ -108,6 +104,7 @@ Deno.serve(async (req) => {
     const { data: launch, error: insertError } = await supabase
       .from('safu_launches')
       .insert({
+        id: launchId,
         creator_wallet: creatorWallet,
         token_name: tokenName,
         token_symbol: tokenSymbol,
@@ -127,7 +124,7 @@ Deno.serve(async (req) => {
         dev_lock_unit: 'days',
         // Deposit wallet for contributions
         deposit_wallet_address: depositWalletAddress,
-        encrypted_private_key: encryptedPrivateKey,
+        ...encryptedKey,
         status: 'pending_contributions',
         total_contributed: 0,
         hardcap: 11, // 10 SOL for token + 1 SOL platform fee
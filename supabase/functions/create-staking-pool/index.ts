@@ -1,11 +1,33 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Keypair } from "https://esm.sh/@solana/web3.js@1.87.6";
+import { SESSION_CORS_HEADERS, requireWalletSession } from "../_shared/wallet-session.ts";
+import { EncryptedKeyFields, encryptPrivateKey } from "../_shared/key-vault.ts";
+import { AprTier, parseAprTiers } from "../_shared/staking-tiers.ts";
+import { MAX_EARLY_EXIT_PENALTY_PERCENT } from "../_shared/staking-penalty.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
 };
 
+// Unfunded pools expire after this window unless the creator picks another
+const DEFAULT_FUNDING_WINDOW_HOURS = 48;
+const MAX_FUNDING_WINDOW_HOURS = 7 * 24;
+
+interface GeneratedWallet {
+  id: string;
+  keypair: Keypair;
+  encryptedKey: EncryptedKeyFields;
+}
+
+// The pool_wallets id is chosen up front because the encrypted key is bound to it
+async function generatePoolWallet(): Promise<GeneratedWallet> {
+  const id = crypto.randomUUID();
+  const keypair = Keypair.generate();
+  return { id, keypair, encryptedKey: await encryptPrivateKey(keypair.secretKey, { walletTable: 'pool_wallets', recordId: id }) };
+}
+
 // SECURITY: Check if wallet is blocked
 async function isWalletBlocked(supabase: any, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
   const { data } = await supabase
@@ -42,14 +64,20 @@ serve(async (req) => {
       apr,
       minStake,
       lockPeriodDays,
+      aprTiers,
       allocation,
       rewardFrequencyValue,
       rewardFrequencyUnit,
+      custodyMode,
+      fundingWindowHours,
+      earlyExitPenaltyPercent,
+      rewardMode,
+      tokensPerDay,
       walletAddress
     } = body;
 
     console.log("Creating staking pool for token:", symbol, tokenAddress);
-    console.log("Request body:", JSON.stringify({ tokenAddress, name, symbol, apr, minStake, lockPeriodDays, allocation }));
+    console.log("Request body:", JSON.stringify({ tokenAddress, name, symbol, apr, minStake, lockPeriodDays, aprTiers, allocation }));
 
     if (!tokenAddress || !name || !symbol) {
       console.error("Missing required fields:", { tokenAddress: !!tokenAddress, name: !!name, symbol: !!symbol });
@@ -68,6 +96,15 @@ serve(async (req) => {
       );
     }
 
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // SECURITY: Check if wallet is blocked
     const blockCheck = await isWalletBlocked(supabase, walletAddress);
     if (blockCheck.blocked) {
@@ -81,24 +118,136 @@ serve(async (req) => {
     // Check if staking pool already exists for this token
     const { data: existingPool } = await supabase
       .from('staking_pools')
-      .select('id')
+      .select('id, status, deposit_wallet_address, requested_allocation, funded_amount, funding_expires_at')
       .eq('contract_address', tokenAddress)
       .maybeSingle();
 
     if (existingPool) {
       console.log("Staking pool already exists for this token");
+      // A pool still waiting for its deposit hands back the same funding instructions
+      const awaitingDeposit = existingPool.status === 'pending' && existingPool.deposit_wallet_address;
       return new Response(
         JSON.stringify({ 
           success: true, 
           poolId: existingPool.id, 
-          message: 'Pool already exists'
+          message: 'Pool already exists',
+          ...(awaitingDeposit ? {
+            requiresDeposit: true,
+            depositAddress: existingPool.deposit_wallet_address,
+            depositAmount: Math.max(0, Number(existingPool.requested_allocation) - Number(existingPool.funded_amount || 0)),
+            fundingExpiresAt: existingPool.funding_expires_at
+          } : {})
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    if (custodyMode !== undefined && custodyMode !== 'balance' && custodyMode !== 'escrow') {
+      return new Response(
+        JSON.stringify({ success: false, error: "custodyMode must be 'balance' or 'escrow'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only escrow pools hold the stake, so only they can withhold a penalty from it
+    const penaltyPercent = earlyExitPenaltyPercent === undefined ? 0 : Number(earlyExitPenaltyPercent);
+    if (!Number.isFinite(penaltyPercent) || penaltyPercent < 0 || penaltyPercent > MAX_EARLY_EXIT_PENALTY_PERCENT) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Early-exit penalty must be between 0% and ${MAX_EARLY_EXIT_PENALTY_PERCENT}%` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (penaltyPercent > 0 && custodyMode !== 'escrow') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Early-exit penalties are only available for escrow pools' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (rewardMode !== undefined && rewardMode !== 'apr' && rewardMode !== 'emission') {
+      return new Response(
+        JSON.stringify({ success: false, error: "rewardMode must be 'apr' or 'emission'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const isEmission = rewardMode === 'emission';
+
+    // Emission pools share a fixed daily amount, so their single lock carries no APR of its own
+    let tiers: AprTier[];
+    if (isEmission) {
+      if (Array.isArray(aprTiers) && aprTiers.length > 1) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Fixed-emission pools offer a single lock period' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const parsed = parseAprTiers([{
+        days: Math.floor(Number(Array.isArray(aprTiers) ? aprTiers[0]?.days : lockPeriodDays) || 30),
+        apr: 0,
+      }]);
+      if ('error' in parsed) {
+        return new Response(
+          JSON.stringify({ success: false, error: parsed.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      tiers = parsed.tiers;
+    } else if (aprTiers !== undefined) {
+      const parsed = parseAprTiers(aprTiers);
+      if ('error' in parsed) {
+        return new Response(
+          JSON.stringify({ success: false, error: parsed.error }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      tiers = parsed.tiers;
+    } else {
+      tiers = [{
+        days: Math.max(1, Math.floor(lockPeriodDays || 30)),
+        apr: Math.min(Math.max(0, apr || 365), 10000), // Cap APR at 10000%
+      }];
+    }
+
     // SECURITY: Validate allocation amount - cap at reasonable limits
-    const validatedAllocation = Math.min(Math.max(0, allocation || 0), 1000000000); // Max 1B tokens
+    const validatedAllocation = Math.min(Math.max(0, Number(allocation) || 0), 1000000000); // Max 1B tokens
+    if (validatedAllocation <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Reward allocation must be greater than 0' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validatedTokensPerDay = isEmission ? Number(tokensPerDay) || 0 : null;
+    if (validatedTokensPerDay !== null && (validatedTokensPerDay <= 0 || validatedTokensPerDay > validatedAllocation)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Tokens per day must be greater than 0 and no more than the allocation' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const windowHours = Math.min(
+      Math.max(1, Math.floor(Number(fundingWindowHours) || DEFAULT_FUNDING_WINDOW_HOURS)),
+      MAX_FUNDING_WINDOW_HOURS
+    );
+    const fundingExpiresAt = new Date(Date.now() + windowHours * 60 * 60 * 1000);
+
+    // Rewards are funded into the pool's own deposit wallet, and escrow pools also hold
+    // stakes in a separate vault wallet. Both are generated and envelope-encrypted here.
+    let depositWallet: GeneratedWallet;
+    let vault: GeneratedWallet | null = null;
+    try {
+      depositWallet = await generatePoolWallet();
+      if (custodyMode === 'escrow') {
+        vault = await generatePoolWallet();
+      }
+    } catch (vaultError) {
+      console.error('Key vault not configured:', vaultError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Encryption not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const depositAddress = depositWallet.keypair.publicKey.toBase58();
 
     // SECURITY: Pools ALWAYS start as 'pending' until deposit is verified
     // Never allow client to set status to 'active' directly
@@ -109,16 +258,25 @@ serve(async (req) => {
         token_name: name,
         token_symbol: symbol,
         token_logo_url: logoUrl || null,
-        token_decimals: decimals || 6,
-        apr: Math.min(Math.max(0, apr || 365), 10000), // Cap APR at 10000%
+        token_decimals: decimals ?? 6,
+        apr: tiers[0].apr,
         min_stake: Math.max(0, minStake || 50000),
-        lock_period_days: Math.max(1, lockPeriodDays || 30),
+        lock_period_days: tiers[0].days,
+        apr_tiers: tiers,
         allocation: validatedAllocation,
+        requested_allocation: validatedAllocation,
+        deposit_wallet_address: depositAddress,
+        funding_expires_at: fundingExpiresAt.toISOString(),
         reward_frequency_value: Math.max(1, rewardFrequencyValue || 1),
         reward_frequency_unit: rewardFrequencyUnit || 'hours',
         total_staked: 0,
         rewards_distributed: 0,
         status: 'pending', // ALWAYS pending - requires deposit verification
+        custody_mode: vault ? 'escrow' : 'balance',
+        vault_wallet_address: vault ? vault.keypair.publicKey.toBase58() : null,
+        early_exit_penalty_percent: penaltyPercent,
+        reward_mode: isEmission ? 'emission' : 'apr',
+        tokens_per_day: validatedTokensPerDay,
         creator_wallet: walletAddress,
         deposit_confirmed: false // ALWAYS false until verified
       })
@@ -133,12 +291,47 @@ serve(async (req) => {
       );
     }
 
-    console.log("Created staking pool:", newPool.id, "- status: pending (awaiting deposit verification)");
+    const wallets = [
+      {
+        id: depositWallet.id,
+        pool_id: newPool.id,
+        pool_type: 'staking',
+        wallet_address: depositAddress,
+        ...depositWallet.encryptedKey
+      },
+      ...(vault ? [{
+        id: vault.id,
+        pool_id: newPool.id,
+        pool_type: 'staking_vault',
+        wallet_address: vault.keypair.publicKey.toBase58(),
+        ...vault.encryptedKey
+      }] : [])
+    ];
+
+    const { error: walletsError } = await supabase
+      .from('pool_wallets')
+      .insert(wallets);
+
+    if (walletsError) {
+      // A pool nobody can pay rewards or withdrawals from must never go live
+      console.error("Error storing staking pool wallets:", walletsError);
+      await supabase.from('staking_pools').delete().eq('id', newPool.id);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create staking pool wallets' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      );
+    }
+
+    console.log("Created staking pool:", newPool.id, `- status: pending, awaiting ${validatedAllocation} tokens at ${depositAddress} until ${fundingExpiresAt.toISOString()}`);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         poolId: newPool.id,
+        vaultWalletAddress: vault ? vault.keypair.publicKey.toBase58() : null,
+        depositAddress,
+        depositAmount: validatedAllocation,
+        fundingExpiresAt: fundingExpiresAt.toISOString(),
         message: 'Staking pool created. Please deposit tokens to activate.',
         requiresDeposit: true
       }),
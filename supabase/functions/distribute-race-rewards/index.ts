@@ -1,9 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Connection } from "https://esm.sh/@solana/web3.js@1.87.6";
+import { Exclusion, ManualExclusion, createExclusionClassifier } from "../_shared/race-exclusions.ts";
+import { MAX_PAYOUT_ATTEMPTS, queueRoundPayouts, sendQueuedPayouts } from "../_shared/race-payouts.ts";
+import { scanRoundVolume } from "../_shared/race-volume.ts";
+import { CRON_CORS_HEADERS, hasCronSecret } from "../_shared/cron-secret.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': CRON_CORS_HEADERS,
 };
 
 const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
@@ -15,6 +20,14 @@ const MAX_RETRY_COUNT = 3;
 const RETRY_DELAY_MINUTES = 5;
 const STUCK_THRESHOLD_MINUTES = 10;
 
+// Balance sampling through the holding phase
+const DEFAULT_SNAPSHOT_INTERVAL_MINUTES = 60;
+const MIN_RETENTION_RATIO = 0.9; // Must keep 90% of entry balance to stay eligible
+
+// Round schedule defaults - must stay in sync with _shared/race-schedule.ts
+const DEFAULT_ROUND_LENGTH_MINUTES = 24 * 60;
+const DEFAULT_ENTRY_WINDOW_MINUTES = 60;
+
 // Helper to add delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -30,14 +43,57 @@ interface RacePool {
   total_rounds: number | null;
   current_round: number | null;
   round_started_at: string | null;
+  round_length_minutes: number | null;
+  entry_window_minutes: number | null;
+  time_remaining_hours: number | null;
   entry_snapshot_at: string | null;
   snapshot_status: string | null;
   snapshot_error: string | null;
   retry_count: number | null;
   last_retry_at: string | null;
+  snapshot_interval_minutes: number | null;
+  eligibility_basis: 'min' | 'time_weighted' | null;
+  last_balance_snapshot_at: string | null;
+  reward_schedule: RaceRewardSchedule | null;
+  creator_wallet: string | null;
+  excluded_wallets: ManualExclusion[] | null;
+  auto_distribute: boolean | null;
+  ranking_mode: 'balance' | 'net_buy' | null;
+  volume_cursor_signature: string | null;
+  volume_backfill_before: string | null;
+  volume_backfill_newest: string | null;
   updated_at: string;
 }
 
+interface BalanceSample {
+  balance: number;
+  snapshot_at: string;
+}
+
+interface WalletBalanceSample extends BalanceSample {
+  wallet_address: string;
+}
+
+interface ExcludedHolder extends Exclusion {
+  wallet: string;
+  balance: number;
+}
+
+interface RaceParticipantRow {
+  id: string;
+  wallet_address: string;
+  rank: number;
+  token_balance: number;
+  entry_balance: number | null;
+}
+
+interface ScoredParticipant {
+  participant: RaceParticipantRow;
+  stats: { min: number; timeWeighted: number };
+  rank: number;
+  isEligible: boolean;
+}
+
 // Mark race with error status
 async function markRaceError(
   supabase: any, 
@@ -105,6 +161,26 @@ function shouldRetryRace(race: RacePool): boolean {
   return Date.now() > retryAfter;
 }
 
+function getRoundSchedule(race: RacePool): { roundLengthMinutes: number; entryWindowMinutes: number } {
+  return {
+    roundLengthMinutes: race.round_length_minutes || DEFAULT_ROUND_LENGTH_MINUTES,
+    entryWindowMinutes: race.entry_window_minutes || DEFAULT_ENTRY_WINDOW_MINUTES
+  };
+}
+
+function getRoundEnd(race: RacePool): Date {
+  return new Date(new Date(race.round_started_at!).getTime() + getRoundSchedule(race).roundLengthMinutes * 60 * 1000);
+}
+
+// Hours left in the current round plus every round after it, rounded up
+function getTimeRemainingHours(race: RacePool, roundStartedAt: Date, currentRound: number, now: Date): number {
+  const { roundLengthMinutes } = getRoundSchedule(race);
+  const roundEnd = roundStartedAt.getTime() + roundLengthMinutes * 60 * 1000;
+  const futureRounds = Math.max(0, (race.total_rounds || 1) - currentRound);
+  const remainingMs = Math.max(0, roundEnd - now.getTime()) + futureRounds * roundLengthMinutes * 60 * 1000;
+  return Math.ceil(remainingMs / (60 * 60 * 1000));
+}
+
 async function fetchTopHolders(
   tokenAddress: string, 
   limit: number, 
@@ -193,13 +269,235 @@ async function fetchTopHolders(
   return topHolders;
 }
 
+// Current balance of every holder, summed across token accounts per wallet
+async function fetchHolderBalances(tokenAddress: string, decimals: number): Promise<Map<string, number>> {
+  const accounts = await fetchTopHolders(tokenAddress, Number.MAX_SAFE_INTEGER, decimals);
+  const balances = new Map<string, number>();
+  for (const account of accounts) {
+    balances.set(account.wallet, (balances.get(account.wallet) || 0) + account.balance);
+  }
+  return balances;
+}
+
+async function recordBalanceSnapshot(
+  supabase: SupabaseClient,
+  race: RacePool,
+  wallets: string[],
+  balances: Map<string, number>,
+  snapshotAt: string
+) {
+  const rows = wallets.map(wallet => ({
+    race_id: race.id,
+    round_number: race.current_round || 1,
+    wallet_address: wallet,
+    balance: balances.get(wallet) || 0,
+    snapshot_at: snapshotAt
+  }));
+
+  const { error } = await supabase
+    .from('race_balance_snapshots')
+    .upsert(rows, { onConflict: 'race_id,round_number,wallet_address,snapshot_at', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to record balance snapshot: ${error.message}`);
+  }
+
+  await supabase
+    .from('race_pools')
+    .update({ last_balance_snapshot_at: snapshotAt })
+    .eq('id', race.id);
+}
+
+// Minimum and time-weighted balance over a round's samples. Each sample's
+// balance is held until the next sample; the last sample closes the window.
+function computeBalanceStats(samples: BalanceSample[]): { min: number; timeWeighted: number } {
+  if (samples.length === 0) return { min: 0, timeWeighted: 0 };
+
+  const sorted = [...samples].sort((a, b) => new Date(a.snapshot_at).getTime() - new Date(b.snapshot_at).getTime());
+  const min = Math.min(...sorted.map(s => Number(s.balance)));
+
+  const start = new Date(sorted[0].snapshot_at).getTime();
+  const end = new Date(sorted[sorted.length - 1].snapshot_at).getTime();
+  if (end <= start) {
+    return { min, timeWeighted: Number(sorted[sorted.length - 1].balance) };
+  }
+
+  let weightedSum = 0;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const held = new Date(sorted[i + 1].snapshot_at).getTime() - new Date(sorted[i].snapshot_at).getTime();
+    weightedSum += Number(sorted[i].balance) * held;
+  }
+
+  return { min, timeWeighted: weightedSum / (end - start) };
+}
+
+function getExclusionClassifier(race: RacePool): (wallet: string) => Exclusion | null {
+  return createExclusionClassifier(race.contract_address!, race.creator_wallet, race.excluded_wallets || []);
+}
+
+// Keep a per-round record of who was skipped so the race page can explain the ranking
+async function recordExclusions(supabase: SupabaseClient, race: RacePool, excluded: ExcludedHolder[]) {
+  if (excluded.length === 0) return;
+
+  const { error } = await supabase
+    .from('race_exclusions')
+    .upsert(
+      excluded.map(holder => ({
+        race_id: race.id,
+        round_number: race.current_round || 1,
+        wallet_address: holder.wallet,
+        reason: holder.reason,
+        detail: holder.detail,
+        balance: holder.balance
+      })),
+      { onConflict: 'race_id,round_number,wallet_address' }
+    );
+
+  if (error) {
+    console.error(`Race ${race.id}: failed to record exclusions:`, error);
+  }
+}
+
+// Periodic sample of every participant's balance during the holding phase
+async function processBalanceSnapshot(supabase: SupabaseClient, race: RacePool): Promise<{success: boolean, error?: string}> {
+  console.log(`Processing BALANCE snapshot for race ${race.id}`);
+
+  try {
+    const tokenAddress = race.contract_address;
+    if (!tokenAddress) {
+      throw new Error('No token address found');
+    }
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('race_participants')
+      .select('wallet_address')
+      .eq('race_id', race.id)
+      .eq('round_number', race.current_round || 1);
+
+    if (participantsError) {
+      throw new Error(`Failed to fetch participants: ${participantsError.message}`);
+    }
+    if (!participants || participants.length === 0) {
+      return { success: true };
+    }
+
+    const balances = await fetchHolderBalances(tokenAddress, race.token_decimals || 6);
+    await recordBalanceSnapshot(
+      supabase,
+      race,
+      participants.map((p: { wallet_address: string }) => p.wallet_address),
+      balances,
+      new Date().toISOString()
+    );
+
+    console.log(`Balance snapshot recorded for ${participants.length} participants`);
+    return { success: true };
+
+  } catch (error: unknown) {
+    // A missed sample only widens the gap between samples, so it does not fail the race
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Race ${race.id}: balance snapshot failed:`, errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
 // SECURITY: Maximum reward cap per participant per round (prevents overflow exploits)
 const MAX_REWARD_PER_PARTICIPANT = 10000000; // 10M tokens max per participant per round
 const MAX_DAILY_POOL = 100000000; // 100M tokens max per day
 
+// Reward schedules - must stay in sync with _shared/race-rewards.ts
+type RewardCurve = 'tiers' | 'linear' | 'exponential' | 'winner_takes_most';
+
+interface RewardTier {
+  fromRank: number;
+  toRank: number;
+  percent: number;
+}
+
+interface RaceRewardSchedule {
+  curve: RewardCurve;
+  places: number;
+  tiers?: RewardTier[];
+  decay?: number;
+  winnerPercent?: number;
+  maxRewardPerParticipant?: number | null;
+}
+
+const DEFAULT_REWARD_SCHEDULE: RaceRewardSchedule = {
+  curve: 'tiers',
+  places: 100,
+  tiers: [
+    { fromRank: 1, toRank: 10, percent: 60 },
+    { fromRank: 11, toRank: 50, percent: 30 },
+    { fromRank: 51, toRank: 100, percent: 10 },
+  ],
+};
+
+const MAX_RANKED_PLACES = 1000;
+
+function validateRewardSchedule(schedule: RaceRewardSchedule): string | null {
+  if (!Number.isInteger(schedule.places) || schedule.places < 1 || schedule.places > MAX_RANKED_PLACES) {
+    return `Ranked places must be between 1 and ${MAX_RANKED_PLACES}`;
+  }
+
+  switch (schedule.curve) {
+    case 'tiers': {
+      const tiers = [...(schedule.tiers || [])].sort((a, b) => a.fromRank - b.fromRank);
+      if (tiers.length < 1 || tiers.length > 10) return 'Reward schedule needs between 1 and 10 tiers';
+      let previousTo = 0;
+      for (const tier of tiers) {
+        if (tier.fromRank < 1 || tier.toRank < tier.fromRank || tier.toRank > schedule.places || tier.fromRank <= previousTo) {
+          return 'Invalid tier rank range';
+        }
+        if (!(tier.percent > 0)) return 'Every tier needs a share above 0%';
+        previousTo = tier.toRank;
+      }
+      const totalPercent = tiers.reduce((sum, tier) => sum + tier.percent, 0);
+      return Math.abs(totalPercent - 100) > 0.0001 ? 'Tier shares must add up to 100%' : null;
+    }
+    case 'linear':
+      return null;
+    case 'exponential':
+      return (schedule.decay ?? 0) > 0 && (schedule.decay ?? 1) < 1 ? null : 'Decay must be between 0 and 1';
+    case 'winner_takes_most':
+      return (schedule.winnerPercent ?? 0) > 0 && (schedule.winnerPercent ?? 101) <= 100 ? null : 'Winner share must be between 0% and 100%';
+    default:
+      return 'Unknown reward curve';
+  }
+}
+
+function getRewardSchedule(race: RacePool): RaceRewardSchedule {
+  const schedule = race.reward_schedule || DEFAULT_REWARD_SCHEDULE;
+  const scheduleError = validateRewardSchedule(schedule);
+  if (scheduleError) {
+    // The table constraint should make this unreachable; never pay out on a bad schedule
+    throw new Error(`Invalid reward schedule: ${scheduleError}`);
+  }
+  return schedule;
+}
+
+function getRankWeight(schedule: RaceRewardSchedule, rank: number): number {
+  switch (schedule.curve) {
+    case 'linear':
+      return schedule.places - rank + 1;
+    case 'exponential':
+      return Math.pow(schedule.decay ?? 0.9, rank - 1);
+    case 'winner_takes_most': {
+      const winnerPercent = schedule.winnerPercent ?? 50;
+      if (rank === 1) return schedule.places === 1 ? 100 : winnerPercent;
+      const rest = schedule.places - 1;
+      const linearTotal = (rest * (rest + 1)) / 2;
+      return ((100 - winnerPercent) * (schedule.places - rank + 1)) / linearTotal;
+    }
+    default:
+      return 0;
+  }
+}
+
 function calculateRewardDistribution(
   eligibleParticipants: Array<{wallet: string, rank: number}>, 
-  dailyPool: number
+  dailyPool: number,
+  schedule: RaceRewardSchedule
 ): Array<{wallet: string, rank: number, reward: number}> {
   // SECURITY: Cap the daily pool to prevent overflow exploits
   const cappedDailyPool = Math.min(dailyPool, MAX_DAILY_POOL);
@@ -208,27 +506,35 @@ function calculateRewardDistribution(
     console.warn(`SECURITY: Daily pool capped from ${dailyPool} to ${cappedDailyPool}`);
   }
 
-  const tier1Pool = cappedDailyPool * 0.60; // Top 10
-  const tier2Pool = cappedDailyPool * 0.30; // 11-50
-  const tier3Pool = cappedDailyPool * 0.10; // 51-100
+  const ranked = eligibleParticipants.filter(p => p.rank >= 1 && p.rank <= schedule.places);
+  const rewardByRank = new Map<number, number>();
 
-  const tier1Eligible = eligibleParticipants.filter(p => p.rank <= 10).length;
-  const tier2Eligible = eligibleParticipants.filter(p => p.rank > 10 && p.rank <= 50).length;
-  const tier3Eligible = eligibleParticipants.filter(p => p.rank > 50 && p.rank <= 100).length;
+  if (schedule.curve === 'tiers') {
+    // Each tier's share is split equally among its eligible ranks
+    for (const tier of schedule.tiers || []) {
+      const inTier = ranked.filter(p => p.rank >= tier.fromRank && p.rank <= tier.toRank);
+      if (inTier.length === 0) continue;
+      const share = cappedDailyPool * tier.percent / 100 / inTier.length;
+      inTier.forEach(p => rewardByRank.set(p.rank, share));
+    }
+  } else {
+    // Curves are re-normalised over the eligible ranks so the whole pool is paid
+    const totalWeight = ranked.reduce((sum, p) => sum + getRankWeight(schedule, p.rank), 0);
+    if (totalWeight > 0) {
+      ranked.forEach(p => rewardByRank.set(p.rank, cappedDailyPool * getRankWeight(schedule, p.rank) / totalWeight));
+    }
+  }
+
+  // The creator's cap can only tighten the global one
+  const maxReward = schedule.maxRewardPerParticipant && schedule.maxRewardPerParticipant > 0
+    ? Math.min(schedule.maxRewardPerParticipant, MAX_REWARD_PER_PARTICIPANT)
+    : MAX_REWARD_PER_PARTICIPANT;
 
   return eligibleParticipants.map(participant => {
-    let reward = 0;
-
-    if (participant.rank <= 10 && tier1Eligible > 0) {
-      reward = tier1Pool / tier1Eligible;
-    } else if (participant.rank <= 50 && tier2Eligible > 0) {
-      reward = tier2Pool / tier2Eligible;
-    } else if (participant.rank <= 100 && tier3Eligible > 0) {
-      reward = tier3Pool / tier3Eligible;
-    }
+    const reward = rewardByRank.get(participant.rank) || 0;
 
     // SECURITY: Cap individual rewards
-    const cappedReward = Math.min(reward, MAX_REWARD_PER_PARTICIPANT);
+    const cappedReward = Math.min(reward, maxReward);
     if (cappedReward !== reward) {
       console.warn(`SECURITY: Reward for ${participant.wallet} capped from ${reward} to ${cappedReward}`);
     }
@@ -241,222 +547,829 @@ function calculateRewardDistribution(
   });
 }
 
-// Process entry snapshot (1 hour after round start)
-async function processEntrySnapshot(supabase: any, race: RacePool): Promise<{success: boolean, error?: string}> {
+// Entry ranking: the largest holders up to the schedule's places.
+// Ranks are assigned after exclusion, so skipped wallets do not take a place
+function rankEntryHolders(
+  race: RacePool,
+  balances: Map<string, number>
+): { holders: Array<{wallet: string, balance: number}>, excluded: ExcludedHolder[] } {
+  const places = getRewardSchedule(race).places;
+  const classify = getExclusionClassifier(race);
+  const holders: Array<{wallet: string, balance: number}> = [];
+  const excluded: ExcludedHolder[] = [];
+  const ranked = [...balances.entries()]
+    .map(([wallet, balance]) => ({ wallet, balance }))
+    .sort((a, b) => b.balance - a.balance);
+
+  for (const holder of ranked) {
+    if (holders.length >= places) break;
+    const exclusion = classify(holder.wallet);
+    if (exclusion) {
+      excluded.push({ ...holder, ...exclusion });
+    } else {
+      holders.push(holder);
+    }
+  }
+
+  return { holders, excluded };
+}
+
+// End ranking for balance races. Eligibility and rank come from the configured balance basis, not a single end sample.
+// Wallets added to the exclusion list mid-round lose their place and drop to the bottom
+function scoreParticipants(
+  race: RacePool,
+  participants: RaceParticipantRow[],
+  samples: WalletBalanceSample[],
+  currentBalances: Map<string, number>
+): { scored: ScoredParticipant[], excluded: ExcludedHolder[] } {
+  const samplesByWallet = new Map<string, BalanceSample[]>();
+  for (const sample of samples) {
+    const list = samplesByWallet.get(sample.wallet_address) || [];
+    list.push(sample);
+    samplesByWallet.set(sample.wallet_address, list);
+  }
+
+  const basis = race.eligibility_basis || 'min';
+  const classify = getExclusionClassifier(race);
+  const excluded: ExcludedHolder[] = [];
+  const scored = participants.map(participant => {
+    const entryBalance = participant.entry_balance || participant.token_balance;
+    const stats = computeBalanceStats(samplesByWallet.get(participant.wallet_address) || []);
+    const score = basis === 'time_weighted' ? stats.timeWeighted : stats.min;
+    const exclusion = classify(participant.wallet_address);
+    if (exclusion) {
+      excluded.push({
+        wallet: participant.wallet_address,
+        balance: currentBalances.get(participant.wallet_address) || 0,
+        ...exclusion
+      });
+    }
+    return {
+      participant,
+      stats,
+      score,
+      isExcluded: exclusion !== null,
+      isEligible: !exclusion && entryBalance > 0 && score >= entryBalance * MIN_RETENTION_RATIO
+    };
+  });
+
+  scored.sort((a, b) =>
+    Number(a.isExcluded) - Number(b.isExcluded) || b.score - a.score || a.participant.rank - b.participant.rank
+  );
+
+  return {
+    scored: scored.map((entry, i) => ({
+      participant: entry.participant,
+      stats: entry.stats,
+      rank: i + 1,
+      isEligible: entry.isEligible
+    })),
+    excluded
+  };
+}
+
+// End ranking for net-buy races: positive net buyers in volume order, up to the schedule's places
+function rankNetBuyers(
+  race: RacePool,
+  volumes: Array<{wallet_address: string, net_volume: number}>,
+  balances: Map<string, number>
+): { ranked: Array<{wallet: string, netVolume: number}>, excluded: ExcludedHolder[] } {
+  const places = getRewardSchedule(race).places;
+  const classify = getExclusionClassifier(race);
+  const ranked: Array<{wallet: string, netVolume: number}> = [];
+  const excluded: ExcludedHolder[] = [];
+
+  // A wallet's net buy only counts up to what it still holds at the end of the round,
+  // so tokens bought and passed on to another wallet are not counted twice
+  const counted = volumes
+    .map(volume => ({
+      wallet: volume.wallet_address,
+      netVolume: Math.min(Number(volume.net_volume), balances.get(volume.wallet_address) || 0)
+    }))
+    .filter(volume => volume.netVolume > 0)
+    .sort((a, b) => b.netVolume - a.netVolume);
+
+  for (const volume of counted) {
+    if (ranked.length >= places) break;
+    const exclusion = classify(volume.wallet);
+    if (exclusion) {
+      excluded.push({ wallet: volume.wallet, balance: balances.get(volume.wallet) || 0, ...exclusion });
+    } else {
+      ranked.push(volume);
+    }
+  }
+
+  return { ranked, excluded };
+}
+
+// One participant's standing after a snapshot, as recorded in race_participants
+interface ParticipantStanding {
+  // Existing row to update; rows without one are upserted by wallet and round
+  id?: string;
+  wallet: string;
+  rank: number;
+  balance: number;
+  entryBalance: number;
+  minBalance: number | null;
+  timeWeightedBalance: number | null;
+  netBuyVolume: number | null;
+  isEligible: boolean;
+  reward: number;
+}
+
+// Where entry and end snapshots read holder data from: the chain and the stored round,
+// or a recorded fixture for dry runs
+interface HolderSource {
+  // Current balance of every holder, summed across token accounts per wallet
+  balances(race: RacePool): Promise<Map<string, number>>;
+  // Participants locked in at this round's entry snapshot
+  entrants(race: RacePool): Promise<RaceParticipantRow[]>;
+  // Balance samples taken this round before the end snapshot
+  samples(race: RacePool): Promise<WalletBalanceSample[]>;
+  // Net tokens bought per wallet this round, read up to the round end
+  netBuys(race: RacePool): Promise<Array<{wallet_address: string, net_volume: number}>>;
+}
+
+// Everything entry and end snapshots write. Dry runs use a sink that only records the results.
+interface SnapshotSink {
+  updateRace(race: RacePool, fields: Record<string, unknown>): Promise<void>;
+  recordBalanceSnapshot(race: RacePool, wallets: string[], balances: Map<string, number>, snapshotAt: string): Promise<void>;
+  recordExclusions(race: RacePool, excluded: ExcludedHolder[]): Promise<void>;
+  saveParticipants(race: RacePool, standings: ParticipantStanding[]): Promise<number>;
+  archiveRound(
+    race: RacePool,
+    eligibleCount: number,
+    rewardDistribution: Array<{wallet: string, rank: number, reward: number}>,
+    roundPool: number
+  ): Promise<void>;
+  queuePayouts(race: RacePool): Promise<number>;
+  markError(race: RacePool, error: string): Promise<void>;
+}
+
+function createLiveHolderSource(supabase: SupabaseClient): HolderSource {
+  return {
+    balances: race => fetchHolderBalances(race.contract_address!, race.token_decimals || 6),
+
+    async entrants(race) {
+      const { data, error } = await supabase
+        .from('race_participants')
+        .select('id, wallet_address, rank, token_balance, entry_balance')
+        .eq('race_id', race.id)
+        .eq('round_number', race.current_round || 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch participants: ${error.message}`);
+      }
+      return (data || []) as RaceParticipantRow[];
+    },
+
+    async samples(race) {
+      const { data, error } = await supabase
+        .from('race_balance_snapshots')
+        .select('wallet_address, balance, snapshot_at')
+        .eq('race_id', race.id)
+        .eq('round_number', race.current_round || 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch balance snapshots: ${error.message}`);
+      }
+      return (data || []) as WalletBalanceSample[];
+    },
+
+    async netBuys(race) {
+      if (!HELIUS_API_KEY) {
+        throw new Error('HELIUS_API_KEY not configured');
+      }
+
+      // Final scan so swaps up to the round end are counted; the round is only ranked on a complete scan
+      const scan = await scanRoundVolume(supabase, race, getRoundEnd(race), HELIUS_API_KEY);
+      if (!scan.complete) {
+        throw new Error('Round volume scan is still catching up');
+      }
+
+      const { data, error } = await supabase
+        .from('race_volume_leaderboard')
+        .select('wallet_address, net_volume')
+        .eq('race_id', race.id)
+        .eq('round_number', race.current_round || 1)
+        .gt('net_volume', 0)
+        .order('net_volume', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch round volume: ${error.message}`);
+      }
+      return data || [];
+    }
+  };
+}
+
+function createLiveSnapshotSink(supabase: SupabaseClient): SnapshotSink {
+  return {
+    async updateRace(race, fields) {
+      await supabase
+        .from('race_pools')
+        .update(fields)
+        .eq('id', race.id);
+    },
+
+    recordBalanceSnapshot: (race, wallets, balances, snapshotAt) =>
+      recordBalanceSnapshot(supabase, race, wallets, balances, snapshotAt),
+
+    recordExclusions: (race, excluded) => recordExclusions(supabase, race, excluded),
+
+    async saveParticipants(race, standings) {
+      let savedCount = 0;
+      for (const standing of standings) {
+        const { error } = standing.id
+          ? await supabase
+            .from('race_participants')
+            .update({
+              token_balance: standing.balance,
+              min_balance: standing.minBalance,
+              time_weighted_balance: standing.timeWeightedBalance,
+              rank: standing.rank,
+              is_eligible: standing.isEligible,
+              reward_amount: standing.reward
+            })
+            .eq('id', standing.id)
+          : await supabase
+            .from('race_participants')
+            .upsert({
+              race_id: race.id,
+              wallet_address: standing.wallet,
+              round_number: race.current_round || 1,
+              rank: standing.rank,
+              token_balance: standing.balance,
+              entry_balance: standing.entryBalance,
+              ...(standing.netBuyVolume !== null && { net_buy_volume: standing.netBuyVolume }),
+              reward_amount: standing.reward,
+              claimed: false,
+              is_eligible: standing.isEligible
+            }, {
+              onConflict: 'race_id,wallet_address,round_number'
+            });
+
+        if (error) {
+          console.error(`Race ${race.id}: failed to record participant ${standing.rank}:`, error);
+        } else {
+          savedCount++;
+        }
+      }
+      return savedCount;
+    },
+
+    archiveRound: (race, eligibleCount, rewardDistribution, roundPool) =>
+      archiveRound(supabase, race, eligibleCount, rewardDistribution, roundPool),
+
+    queuePayouts: race => queueRoundPayouts(supabase, race.id, race.current_round || 1),
+
+    async markError(race, error) {
+      await markRaceError(supabase, race.id, error, race.retry_count || 0);
+    }
+  };
+}
+
+// Process entry snapshot (when the race's entry window closes)
+async function processEntrySnapshot(
+  race: RacePool,
+  source: HolderSource,
+  sink: SnapshotSink
+): Promise<{success: boolean, error?: string}> {
   console.log(`Processing ENTRY snapshot for race ${race.id}`);
-  
+
   // Mark as in-progress
-  await supabase
-    .from('race_pools')
-    .update({ 
-      snapshot_status: 'entry_in_progress',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', race.id);
-  
+  await sink.updateRace(race, {
+    snapshot_status: 'entry_in_progress',
+    updated_at: new Date().toISOString()
+  });
+
   try {
     const tokenAddress = race.contract_address;
     if (!tokenAddress) {
       throw new Error('No token address found');
     }
-    
-    const decimals = race.token_decimals || 6;
-    const holders = await fetchTopHolders(tokenAddress, 100, decimals);
-    
-    if (holders.length === 0) {
-      throw new Error('No holders found for token');
-    }
-    
-    console.log(`Entry snapshot: ${holders.length} holders found`);
-    
-    // Insert participants with upsert to handle any duplicates
-    let insertedCount = 0;
-    for (let i = 0; i < holders.length; i++) {
-      const holder = holders[i];
-      const { error: insertError } = await supabase
-        .from('race_participants')
-        .upsert({
-          race_id: race.id,
-          wallet_address: holder.wallet,
-          round_number: race.current_round || 1,
-          rank: i + 1,
-          token_balance: holder.balance,
-          entry_balance: holder.balance,
-          reward_amount: 0,
-          claimed: false,
-          is_eligible: true
-        }, {
-          onConflict: 'race_id,wallet_address,round_number'
-        });
 
-      if (insertError) {
-        console.error(`Error inserting participant ${i + 1}:`, insertError);
-      } else {
-        insertedCount++;
-      }
-    }
-    
-    // Mark entry snapshot complete
-    await supabase
-      .from('race_pools')
-      .update({ 
+    // Net-buy races lock nobody in at entry: every swap of the round counts
+    if (race.ranking_mode === 'net_buy') {
+      await sink.updateRace(race, {
         entry_snapshot_at: new Date().toISOString(),
         snapshot_status: 'entry_complete',
         snapshot_error: null,
-        total_participants: holders.length,
         updated_at: new Date().toISOString()
-      })
-      .eq('id', race.id);
+      });
+
+      console.log(`Entry window closed for net-buy race ${race.id}`);
+      return { success: true };
+    }
+
+    const balances = await source.balances(race);
+    const { holders, excluded } = rankEntryHolders(race, balances);
+
+    if (holders.length === 0) {
+      throw new Error('No eligible holders found for token');
+    }
+
+    console.log(`Entry snapshot: ${holders.length} holders ranked, ${excluded.length} excluded`);
+    await sink.recordExclusions(race, excluded);
+
+    const insertedCount = await sink.saveParticipants(race, holders.map((holder, i) => ({
+      wallet: holder.wallet,
+      rank: i + 1,
+      balance: holder.balance,
+      entryBalance: holder.balance,
+      minBalance: null,
+      timeWeightedBalance: null,
+      netBuyVolume: null,
+      isEligible: true,
+      reward: 0
+    })));
+
+    // First balance sample of the round is the entry balance itself
+    const entrySnapshotAt = new Date().toISOString();
+    const entryBalances = new Map<string, number>();
+    holders.forEach(h => entryBalances.set(h.wallet, h.balance));
+    await sink.recordBalanceSnapshot(race, holders.map(h => h.wallet), entryBalances, entrySnapshotAt);
+
+    // Mark entry snapshot complete
+    await sink.updateRace(race, {
+      entry_snapshot_at: entrySnapshotAt,
+      snapshot_status: 'entry_complete',
+      snapshot_error: null,
+      total_participants: holders.length,
+      updated_at: new Date().toISOString()
+    });
 
     console.log(`Entry snapshot complete: ${insertedCount} participants recorded`);
     return { success: true };
-    
+
   } catch (error: any) {
-    await markRaceError(supabase, race.id, `Entry snapshot failed: ${error.message}`, race.retry_count || 0);
+    await sink.markError(race, `Entry snapshot failed: ${error.message}`);
     return { success: false, error: error.message };
   }
 }
 
-// Process end snapshot and distribute rewards (24 hours after round start)
-async function processEndSnapshot(supabase: any, race: RacePool): Promise<{success: boolean, error?: string}> {
-  console.log(`Processing END snapshot for race ${race.id}`);
-  
-  // Mark as in-progress
-  await supabase
-    .from('race_pools')
-    .update({ 
-      snapshot_status: 'end_in_progress',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', race.id);
-  
-  try {
-    const tokenAddress = race.contract_address;
-    if (!tokenAddress) {
-      throw new Error('No token address found');
-    }
-    
-    const decimals = race.token_decimals || 6;
-    
-    // Get entry participants first to verify snapshot exists
-    const { data: entryParticipants, error: entryError } = await supabase
-      .from('race_participants')
-      .select('*')
-      .eq('race_id', race.id)
-      .eq('round_number', race.current_round || 1);
+// Balance races: rank the participants locked in at entry by their balance through the round
+async function rankByBalance(
+  race: RacePool,
+  source: HolderSource,
+  sink: SnapshotSink
+): Promise<ParticipantStanding[]> {
+  // Get entry participants first to verify snapshot exists
+  const participants = await source.entrants(race);
 
-    if (entryError) {
-      throw new Error(`Failed to fetch participants: ${entryError.message}`);
-    }
+  if (participants.length === 0) {
+    throw new Error('No entry participants found - entry snapshot may have failed');
+  }
 
-    if (!entryParticipants || entryParticipants.length === 0) {
-      throw new Error('No entry participants found - entry snapshot may have failed');
-    }
+  console.log(`Found ${participants.length} entry participants`);
 
-    console.log(`Found ${entryParticipants.length} entry participants`);
+  // Every sample taken this round, from entry up to now
+  const samples = await source.samples(race);
 
-    // Fetch current holders
-    const currentHolders = await fetchTopHolders(tokenAddress, 100, decimals);
-    console.log(`End snapshot: ${currentHolders.length} current holders`);
+  // Final balance sample of the round
+  const currentBalanceMap = await source.balances(race);
+  console.log(`End snapshot: ${currentBalanceMap.size} current holders`);
 
-    // Create balance map
-    const currentBalanceMap = new Map<string, number>();
-    currentHolders.forEach(h => currentBalanceMap.set(h.wallet, h.balance));
+  const endSnapshotAt = new Date().toISOString();
+  await sink.recordBalanceSnapshot(race, participants.map(p => p.wallet_address), currentBalanceMap, endSnapshotAt);
 
-    // Calculate eligibility and update participants
-    const eligibleParticipants: Array<{wallet: string, rank: number}> = [];
+  const endSamples = participants.map(p => ({
+    wallet_address: p.wallet_address,
+    balance: currentBalanceMap.get(p.wallet_address) || 0,
+    snapshot_at: endSnapshotAt
+  }));
+  const { scored, excluded } = scoreParticipants(race, participants, [...samples, ...endSamples], currentBalanceMap);
 
-    for (const participant of entryParticipants) {
-      const currentBalance = currentBalanceMap.get(participant.wallet_address) || 0;
-      const entryBalance = participant.entry_balance || participant.token_balance;
-      const isEligible = entryBalance > 0 && currentBalance >= entryBalance * 0.9;
-      
-      await supabase
-        .from('race_participants')
-        .update({
-          token_balance: currentBalance,
-          is_eligible: isEligible
-        })
-        .eq('id', participant.id);
-      
-      if (isEligible) {
-        eligibleParticipants.push({
-          wallet: participant.wallet_address,
-          rank: participant.rank
-        });
-      }
+  if (excluded.length > 0) {
+    console.log(`End snapshot: ${excluded.length} participants excluded`);
+    await sink.recordExclusions(race, excluded);
+  }
+
+  const standings = scored.map(({ participant, stats, rank, isEligible }) => ({
+    id: participant.id || undefined,
+    wallet: participant.wallet_address,
+    rank,
+    balance: currentBalanceMap.get(participant.wallet_address) || 0,
+    entryBalance: participant.entry_balance || participant.token_balance,
+    minBalance: stats.min,
+    timeWeightedBalance: stats.timeWeighted,
+    netBuyVolume: null,
+    isEligible,
+    reward: 0
+  }));
+
+  console.log(`${standings.filter(s => s.isEligible).length}/${participants.length} participants eligible`);
+  return standings;
+}
+
+// Net-buy races: rank wallets by tokens bought minus tokens sold during the round.
+// Only positive net buyers can place, and participants are created here rather than at entry.
+async function rankByNetBuyVolume(
+  race: RacePool,
+  source: HolderSource,
+  sink: SnapshotSink
+): Promise<ParticipantStanding[]> {
+  const volumes = await source.netBuys(race);
+  const balances = await source.balances(race);
+  const { ranked, excluded } = rankNetBuyers(race, volumes, balances);
+
+  console.log(`End snapshot: ${ranked.length} net buyers ranked, ${excluded.length} excluded`);
+  await sink.recordExclusions(race, excluded);
+  await sink.updateRace(race, { total_participants: ranked.length });
+
+  return ranked.map((entry, i) => {
+    const balance = balances.get(entry.wallet) || 0;
+    return {
+      wallet: entry.wallet,
+      rank: i + 1,
+      balance,
+      entryBalance: balance,
+      minBalance: null,
+      timeWeightedBalance: null,
+      netBuyVolume: entry.netVolume,
+      isEligible: true,
+      reward: 0
+    };
+  });
+}
+
+// Record the finished round and the rules it was decided under for the public archive
+async function archiveRound(
+  supabase: SupabaseClient,
+  race: RacePool,
+  eligibleCount: number,
+  rewardDistribution: Array<{wallet: string, rank: number, reward: number}>,
+  roundPool: number
+) {
+  const { count: participantCount } = await supabase
+    .from('race_participants')
+    .select('id', { count: 'exact', head: true })
+    .eq('race_id', race.id)
+    .eq('round_number', race.current_round || 1);
+
+  const { error } = await supabase
+    .from('race_rounds')
+    .upsert({
+      race_id: race.id,
+      round_number: race.current_round || 1,
+      started_at: race.round_started_at,
+      entry_snapshot_at: race.entry_snapshot_at,
+      ended_at: new Date().toISOString(),
+      ranking_mode: race.ranking_mode || 'balance',
+      eligibility_basis: race.ranking_mode === 'net_buy' ? null : race.eligibility_basis || 'min',
+      reward_schedule: getRewardSchedule(race),
+      round_pool: roundPool,
+      participant_count: participantCount || 0,
+      eligible_count: eligibleCount,
+      total_rewarded: rewardDistribution.reduce((sum, r) => sum + r.reward, 0)
+    }, {
+      onConflict: 'race_id,round_number'
+    });
+
+  if (error) {
+    // The per-wallet results are already stored; only the summary row is missing
+    console.error(`Race ${race.id}: failed to archive round:`, error);
+  }
+}
+
+// Process end snapshot and distribute rewards (when the race's round length has elapsed)
+async function processEndSnapshot(
+  race: RacePool,
+  source: HolderSource,
+  sink: SnapshotSink
+): Promise<{success: boolean, error?: string}> {
+  console.log(`Processing END snapshot for race ${race.id}`);
+
+  // Mark as in-progress
+  await sink.updateRace(race, {
+    snapshot_status: 'end_in_progress',
+    updated_at: new Date().toISOString()
+  });
+
+  try {
+    const tokenAddress = race.contract_address;
+    if (!tokenAddress) {
+      throw new Error('No token address found');
     }
 
-    console.log(`${eligibleParticipants.length}/${entryParticipants.length} participants eligible`);
+    const standings = race.ranking_mode === 'net_buy'
+      ? await rankByNetBuyVolume(race, source, sink)
+      : await rankByBalance(race, source, sink);
+    const eligibleParticipants = standings
+      .filter(standing => standing.isEligible)
+      .map(standing => ({ wallet: standing.wallet, rank: standing.rank }));
 
     // Calculate and distribute rewards
     const dailyPool = race.daily_reward_amount || (race.prize_pool / (race.total_rounds || 1));
-    const rewardDistribution = calculateRewardDistribution(eligibleParticipants, dailyPool);
+    const rewardDistribution = calculateRewardDistribution(eligibleParticipants, dailyPool, getRewardSchedule(race));
+    const rewardByWallet = new Map(rewardDistribution.map(r => [r.wallet, r.reward]));
 
-    for (const reward of rewardDistribution) {
-      await supabase
-        .from('race_participants')
-        .update({ reward_amount: reward.reward })
-        .eq('race_id', race.id)
-        .eq('wallet_address', reward.wallet)
-        .eq('round_number', race.current_round || 1);
-    }
+    await sink.saveParticipants(race, standings.map(standing => ({
+      ...standing,
+      reward: rewardByWallet.get(standing.wallet) || 0
+    })));
 
     console.log(`Distributed rewards to ${rewardDistribution.length} participants`);
 
+    await sink.archiveRound(race, eligibleParticipants.length, rewardDistribution, Math.min(dailyPool, MAX_DAILY_POOL));
+
+    // Auto-distribute races push rewards to winners instead of waiting for claims
+    if (race.auto_distribute) {
+      try {
+        const queued = await sink.queuePayouts(race);
+        console.log(`Queued ${queued} auto-distribute payouts`);
+      } catch (queueError: unknown) {
+        // Rewards are recorded either way; winners can still claim by hand
+        console.error(`Race ${race.id}: failed to queue payouts:`, queueError);
+      }
+    }
+
     // Advance round or complete race
     const currentRound = race.current_round || 1;
     const totalRounds = race.total_rounds || 1;
 
     if (currentRound >= totalRounds) {
-      await supabase
-        .from('race_pools')
-        .update({ 
-          status: 'completed',
-          snapshot_status: 'completed',
-          snapshot_error: null,
-          time_remaining_hours: 0,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', race.id);
+      await sink.updateRace(race, {
+        status: 'completed',
+        snapshot_status: 'completed',
+        snapshot_error: null,
+        time_remaining_hours: 0,
+        updated_at: new Date().toISOString()
+      });
 
       console.log(`Race ${race.id} completed after ${totalRounds} rounds`);
     } else {
-      await supabase
-        .from('race_pools')
-        .update({ 
-          current_round: currentRound + 1,
-          round_started_at: new Date().toISOString(),
-          entry_snapshot_at: null,
-          snapshot_status: 'pending',
-          snapshot_error: null,
-          retry_count: 0,
-          time_remaining_hours: (totalRounds - currentRound) * 24,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', race.id);
+      const nextRoundStartedAt = new Date();
+      await sink.updateRace(race, {
+        current_round: currentRound + 1,
+        round_started_at: nextRoundStartedAt.toISOString(),
+        entry_snapshot_at: null,
+        volume_cursor_signature: null,
+        volume_backfill_before: null,
+        volume_backfill_newest: null,
+        snapshot_status: 'pending',
+        snapshot_error: null,
+        retry_count: 0,
+        time_remaining_hours: getTimeRemainingHours(race, nextRoundStartedAt, currentRound + 1, nextRoundStartedAt),
+        updated_at: new Date().toISOString()
+      });
 
       console.log(`Race ${race.id} advanced to round ${currentRound + 1}`);
     }
 
     return { success: true };
-    
+
   } catch (error: any) {
-    await markRaceError(supabase, race.id, `End snapshot failed: ${error.message}`, race.retry_count || 0);
+    await sink.markError(race, `End snapshot failed: ${error.message}`);
     return { success: false, error: error.message };
   }
 }
 
+// ============ DRY RUN ============
+// Runs entry or end processing for a single race through the same snapshot code as the cron,
+// with a sink that records what would be written instead of writing it.
+// Holder data comes from a recorded fixture when one is given, so the distribution can be checked offline:
+//   POST { "dryRun": true, "raceId": "<id>", "phase": "end", "fixture": <fixtures/balance-round.json> }
+// Like every call to this function, dry runs need the x-cron-secret header.
+// Race settings are still read from race_pools; with entryBalances in the fixture, nothing else is read.
+// A net-buy end run without netBuys in the fixture makes the final volume scan first, which records
+// the round's swaps and scan cursor exactly as the next cron run would.
+
+type DryRunPhase = 'entry' | 'end';
+
+interface HolderFixture {
+  // Holder balances at the simulated snapshot
+  balances: Record<string, number>;
+  // Entry balances for an end run; defaults to the round's stored participants
+  entryBalances?: Record<string, number>;
+  // Balance samples between entry and end; defaults to the stored samples, or the entry balance alone
+  samples?: WalletBalanceSample[];
+  // Net tokens bought per wallet for net-buy races; defaults to the scanned volume leaderboard
+  netBuys?: Record<string, number>;
+}
+
+const MAX_FIXTURE_WALLETS = 100000;
+
+function isBalanceRecord(value: unknown): value is Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.values(value as Record<string, unknown>);
+  return entries.length <= MAX_FIXTURE_WALLETS && entries.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+function validateHolderFixture(fixture: unknown): string | null {
+  if (!fixture || typeof fixture !== 'object') return 'fixture must be an object';
+  const f = fixture as Record<string, unknown>;
+  if (!isBalanceRecord(f.balances)) return 'fixture.balances must map wallets to numeric balances';
+  if (f.entryBalances !== undefined && !isBalanceRecord(f.entryBalances)) return 'fixture.entryBalances must map wallets to numeric balances';
+  if (f.netBuys !== undefined && !isBalanceRecord(f.netBuys)) return 'fixture.netBuys must map wallets to numeric volumes';
+  if (f.samples !== undefined) {
+    if (!Array.isArray(f.samples)) return 'fixture.samples must be an array';
+    const valid = f.samples.every((sample: Record<string, unknown>) =>
+      sample && typeof sample.wallet_address === 'string' && typeof sample.balance === 'number' &&
+      typeof sample.snapshot_at === 'string' && !isNaN(new Date(sample.snapshot_at).getTime())
+    );
+    if (!valid) return 'fixture.samples entries need wallet_address, balance and snapshot_at';
+  }
+  return null;
+}
+
+const toBalanceMap = (record: Record<string, number>) => new Map(Object.entries(record));
+
+// Holder data for a dry run: the fixture where it has the data, the live source otherwise.
+// A round without an entry snapshot yet ranks its entrants from the same balances.
+function createDryRunHolderSource(
+  live: HolderSource,
+  fixture: HolderFixture | null,
+  notes: string[]
+): HolderSource & { fetched: Map<string, number> | null } {
+  let balances: Map<string, number> | null = null;
+  let rankedEntry: Map<string, number> | null = null;
+
+  const source = {
+    fetched: null as Map<string, number> | null,
+
+    async balances(race: RacePool) {
+      if (!balances) {
+        balances = fixture ? toBalanceMap(fixture.balances) : await live.balances(race);
+        source.fetched = fixture ? null : balances;
+      }
+      return balances;
+    },
+
+    async entrants(race: RacePool) {
+      if (!fixture?.entryBalances) {
+        const stored = await live.entrants(race);
+        if (stored.length > 0) return stored;
+        notes.push('No entry snapshot for this round yet; entrants were ranked from the same balances');
+      }
+
+      rankedEntry = fixture?.entryBalances ? toBalanceMap(fixture.entryBalances) : await source.balances(race);
+      return rankEntryHolders(race, rankedEntry).holders.map((holder, i) => ({
+        id: '',
+        wallet_address: holder.wallet,
+        rank: i + 1,
+        token_balance: holder.balance,
+        entry_balance: holder.balance
+      }));
+    },
+
+    async samples(race: RacePool) {
+      if (fixture?.samples) return fixture.samples;
+      if (!rankedEntry) return live.samples(race);
+
+      const entryAt = race.entry_snapshot_at || race.round_started_at || new Date().toISOString();
+      const entrants = rankEntryHolders(race, rankedEntry).holders;
+      return entrants.map(holder => ({ wallet_address: holder.wallet, balance: holder.balance, snapshot_at: entryAt }));
+    },
+
+    async netBuys(race: RacePool) {
+      if (!fixture?.netBuys) return live.netBuys(race);
+      return Object.entries(fixture.netBuys)
+        .map(([wallet_address, net_volume]) => ({ wallet_address, net_volume }))
+        .sort((a, b) => b.net_volume - a.net_volume);
+    }
+  };
+
+  return source;
+}
+
+// Records what a snapshot would write; race state and payouts are left untouched
+function createDryRunSink() {
+  const recorded = {
+    participants: [] as ParticipantStanding[],
+    excluded: [] as ExcludedHolder[],
+    roundPool: null as number | null
+  };
+
+  const sink: SnapshotSink = {
+    updateRace: async () => {},
+    recordBalanceSnapshot: async () => {},
+    async recordExclusions(_race, excluded) {
+      recorded.excluded.push(...excluded);
+    },
+    async saveParticipants(_race, standings) {
+      recorded.participants = standings;
+      return standings.length;
+    },
+    async archiveRound(_race, _eligibleCount, _rewardDistribution, roundPool) {
+      recorded.roundPool = roundPool;
+    },
+    queuePayouts: async () => 0,
+    markError: async () => {}
+  };
+
+  return { sink, recorded };
+}
+
+async function simulateRace(supabase: SupabaseClient, race: RacePool, phase: DryRunPhase, fixture: HolderFixture | null) {
+  const notes: string[] = [];
+  const source = createDryRunHolderSource(createLiveHolderSource(supabase), fixture, notes);
+  const { sink, recorded } = createDryRunSink();
+
+  const result = phase === 'entry'
+    ? await processEntrySnapshot(race, source, sink)
+    : await processEndSnapshot(race, source, sink);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  const dailyPool = race.daily_reward_amount || (race.prize_pool / (race.total_rounds || 1));
+  let participants = recorded.participants;
+
+  if (phase === 'entry') {
+    if (race.ranking_mode === 'net_buy') {
+      notes.push('Net-buy races lock nobody in at entry');
+    } else {
+      // Entry rewards are a projection, so they are worked out here rather than by the snapshot
+      const eligible = participants.map(p => ({ wallet: p.wallet, rank: p.rank }));
+      const rewardByWallet = new Map(
+        calculateRewardDistribution(eligible, dailyPool, getRewardSchedule(race)).map(r => [r.wallet, r.reward])
+      );
+      participants = participants.map(p => ({ ...p, reward: rewardByWallet.get(p.wallet) || 0 }));
+      notes.push('Rewards assume every entrant keeps their balance through the round');
+    }
+  }
+
+  return {
+    raceId: race.id,
+    roundNumber: race.current_round || 1,
+    phase,
+    rankingMode: race.ranking_mode || 'balance',
+    eligibilityBasis: race.ranking_mode === 'net_buy' ? null : race.eligibility_basis || 'min',
+    holderSource: fixture ? 'fixture' : 'live',
+    roundPool: recorded.roundPool ?? Math.min(dailyPool, MAX_DAILY_POOL),
+    eligibleCount: participants.filter(p => p.isEligible).length,
+    totalRewarded: participants.reduce((sum, p) => sum + p.reward, 0),
+    participants: participants.map(({ id: _id, ...participant }) => participant),
+    excluded: recorded.excluded,
+    notes,
+    // Live balances in fixture form, so this run can be recorded and replayed offline
+    fixture: source.fetched ? { balances: Object.fromEntries(source.fetched) } : undefined
+  };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // SECURITY: Only the scheduler or an operator may run snapshots and payouts, or a dry run
+  if (!hasCronSecret(req)) {
+    console.error('SECURITY: Unauthorized race reward distribution call');
+    return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
   try {
     console.log("Starting race reward distribution check...");
     
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+    // Dry run: compute one race's snapshot and return it instead of processing every race
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    if (body?.dryRun) {
+      const badRequest = (error: string) => new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+      if (typeof body.raceId !== 'string' || !body.raceId) {
+        return badRequest('raceId is required for a dry run');
+      }
+      if (body.phase !== undefined && body.phase !== 'entry' && body.phase !== 'end') {
+        return badRequest("phase must be 'entry' or 'end'");
+      }
+      const fixtureError = body.fixture !== undefined ? validateHolderFixture(body.fixture) : null;
+      if (fixtureError) {
+        return badRequest(fixtureError);
+      }
+
+      const { data: race, error: raceError } = await supabase
+        .from('race_pools')
+        .select('*')
+        .eq('id', body.raceId)
+        .maybeSingle();
+
+      if (raceError) throw raceError;
+      if (!race) {
+        return new Response(JSON.stringify({ success: false, error: 'Race not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Without an explicit phase, simulate whichever snapshot the race is waiting on
+      const phase: DryRunPhase = body.phase || (race.snapshot_status === 'entry_complete' ? 'end' : 'entry');
+      const simulation = await simulateRace(supabase, race, phase, body.fixture || null);
+      console.log(`Dry run for race ${race.id}: ${phase} snapshot, ${simulation.participants.length} ranked`);
+
+      return new Response(JSON.stringify({ success: true, dryRun: true, ...simulation }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Step 1: Recover any stuck races first
     await recoverStuckRaces(supabase);
 
@@ -475,6 +1388,8 @@ serve(async (req) => {
     console.log(`Found ${races?.length || 0} active races`);
 
     const results: Array<{raceId: string, action: string, success: boolean, error?: string}> = [];
+    const holderSource = createLiveHolderSource(supabase);
+    const snapshotSink = createLiveSnapshotSink(supabase);
 
     for (const race of races || []) {
       // Skip if max retries exceeded
@@ -491,9 +1406,19 @@ serve(async (req) => {
 
       const roundStartedAt = new Date(race.round_started_at);
       const now = new Date();
-      const hoursSinceStart = (now.getTime() - roundStartedAt.getTime()) / (1000 * 60 * 60);
+      const minutesSinceStart = (now.getTime() - roundStartedAt.getTime()) / (1000 * 60);
+      const { roundLengthMinutes, entryWindowMinutes } = getRoundSchedule(race);
+
+      console.log(`Race ${race.id}: Round ${race.current_round}/${race.total_rounds}, Minutes: ${minutesSinceStart.toFixed(1)}/${roundLengthMinutes}, Status: ${race.snapshot_status || 'null'}`);
 
-      console.log(`Race ${race.id}: Round ${race.current_round}/${race.total_rounds}, Hours: ${hoursSinceStart.toFixed(2)}, Status: ${race.snapshot_status || 'null'}`);
+      // Keep the race list's countdown in step with the stored schedule
+      const timeRemainingHours = getTimeRemainingHours(race, roundStartedAt, race.current_round || 1, now);
+      if (timeRemainingHours !== race.time_remaining_hours) {
+        await supabase
+          .from('race_pools')
+          .update({ time_remaining_hours: timeRemainingHours })
+          .eq('id', race.id);
+      }
 
       const tokenAddress = race.contract_address;
       if (!tokenAddress) {
@@ -503,9 +1428,24 @@ serve(async (req) => {
 
       const snapshotStatus = race.snapshot_status || 'pending';
 
-      // Entry snapshot: 1 hour after round start
-      if (snapshotStatus === 'pending' && hoursSinceStart >= 1) {
-        const result = await processEntrySnapshot(supabase, race);
+      // Net-buy races keep their volume leaderboard live through the round, and after
+      // it ends keep scanning until every swap of the round has been read
+      let volumeScanComplete = race.ranking_mode !== 'net_buy';
+      if (race.ranking_mode === 'net_buy' && HELIUS_API_KEY && snapshotStatus !== 'end_in_progress') {
+        try {
+          const scan = await scanRoundVolume(supabase, race, getRoundEnd(race), HELIUS_API_KEY);
+          volumeScanComplete = scan.complete;
+          Object.assign(race, scan.cursor);
+          console.log(`Race ${race.id}: ${scan.trades} swaps scanned${scan.complete ? '' : ', more to read'}`);
+        } catch (scanError: unknown) {
+          // A missed scan is caught up by the next one
+          console.error(`Race ${race.id}: volume scan failed:`, scanError);
+        }
+      }
+
+      // Entry snapshot: once the entry window has closed
+      if (snapshotStatus === 'pending' && minutesSinceStart >= entryWindowMinutes) {
+        const result = await processEntrySnapshot(race, holderSource, snapshotSink);
         results.push({
           raceId: race.id,
           action: 'entry_snapshot',
@@ -513,9 +1453,13 @@ serve(async (req) => {
           error: result.error
         });
       }
-      // End snapshot: 24 hours after round start
-      else if (snapshotStatus === 'entry_complete' && hoursSinceStart >= 24) {
-        const result = await processEndSnapshot(supabase, race);
+      // End snapshot: once the round length has elapsed
+      else if (snapshotStatus === 'entry_complete' && minutesSinceStart >= roundLengthMinutes) {
+        if (!volumeScanComplete) {
+          console.log(`Race ${race.id}: end snapshot waits for the volume scan to catch up`);
+          continue;
+        }
+        const result = await processEndSnapshot(race, holderSource, snapshotSink);
         results.push({
           raceId: race.id,
           action: 'end_snapshot',
@@ -523,6 +1467,58 @@ serve(async (req) => {
           error: result.error
         });
       }
+      // Balance samples through the holding phase
+      else if (snapshotStatus === 'entry_complete' && race.ranking_mode !== 'net_buy') {
+        const intervalMs = (race.snapshot_interval_minutes || DEFAULT_SNAPSHOT_INTERVAL_MINUTES) * 60 * 1000;
+        const lastSnapshotAt = race.last_balance_snapshot_at || race.entry_snapshot_at;
+        if (!lastSnapshotAt || now.getTime() - new Date(lastSnapshotAt).getTime() >= intervalMs) {
+          const result = await processBalanceSnapshot(supabase, race);
+          results.push({
+            raceId: race.id,
+            action: 'balance_snapshot',
+            success: result.success,
+            error: result.error
+          });
+        }
+      }
+    }
+
+    // Step 3: Send queued auto-distribute payouts and retry failed ones, for active and completed races
+    const { data: outstanding, error: outstandingError } = await supabase
+      .from('race_participants')
+      .select('race_id')
+      .in('payout_status', ['queued', 'sending', 'failed'])
+      .lt('payout_attempts', MAX_PAYOUT_ATTEMPTS)
+      .limit(1000);
+
+    if (outstandingError) {
+      console.error("Error fetching outstanding payouts:", outstandingError);
+    }
+
+    const payoutRaceIds = [...new Set((outstanding || []).map((p: { race_id: string }) => p.race_id))];
+    if (payoutRaceIds.length > 0) {
+      const connection = new Connection(
+        HELIUS_API_KEY ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}` : 'https://api.mainnet-beta.solana.com',
+        'confirmed'
+      );
+
+      // Races that turned auto_distribute off still settle batches already sending
+      const { data: payoutRaces } = await supabase
+        .from('race_pools')
+        .select('id, contract_address, token_decimals, auto_distribute')
+        .in('id', payoutRaceIds);
+
+      for (const payoutRace of payoutRaces || []) {
+        try {
+          const summary = await sendQueuedPayouts(supabase, connection, payoutRace);
+          console.log(`Race ${payoutRace.id}: payouts paid ${summary.paid}, failed ${summary.failed}, pending ${summary.pending}`);
+          results.push({ raceId: payoutRace.id, action: 'payouts', success: summary.failed === 0 });
+        } catch (payoutError: unknown) {
+          const errorMessage = payoutError instanceof Error ? payoutError.message : 'Unknown error';
+          console.error(`Race ${payoutRace.id}: payouts failed:`, errorMessage);
+          results.push({ raceId: payoutRace.id, action: 'payouts', success: false, error: errorMessage });
+        }
+      }
     }
 
     return new Response(JSON.stringify({ 
@@ -0,0 +1,154 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  ENVELOPE_SCHEME,
+  LEGACY_XOR_SCHEME,
+  UNBOUND_ENVELOPE_SCHEME,
+  decryptPrivateKey,
+  encryptPrivateKey,
+  getActiveKeyVersion,
+  rewrapDataKey,
+} from '../_shared/key-vault.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-admin-secret',
+};
+
+const WALLET_TABLES = ['safu_launches', 'pool_wallets'] as const;
+const DEFAULT_BATCH_SIZE = 100;
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// process-claim-payout and admin-get-wallet-keys (deployed outside this repo) only read
+// XOR keys, so XOR rows stay as they are until an operator sets this after moving them
+// onto the key vault. Dry runs are always allowed.
+function legacyReadersRetired(): boolean {
+  return Deno.env.get('KEY_VAULT_LEGACY_READERS_RETIRED') === 'true';
+}
+
+// Admin-only maintenance job:
+// 1. re-encrypts legacy XOR rows into per-wallet AES-GCM envelopes, once the legacy readers are retired
+// 2. re-encrypts envelopes written before keys were bound to their row
+// 3. re-wraps envelope data keys that are still on an older master key version
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // SECURITY: Only callable with the admin secret
+    const adminSecret = Deno.env.get('KEY_VAULT_ADMIN_SECRET');
+    if (!adminSecret || req.headers.get('x-admin-secret') !== adminSecret) {
+      console.error('SECURITY: Unauthorized key migration attempt');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { dryRun = false, batchSize = DEFAULT_BATCH_SIZE } = await req.json().catch(() => ({}));
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const activeVersion = getActiveKeyVersion();
+    const migrateLegacy = dryRun || legacyReadersRetired();
+    if (!migrateLegacy) {
+      console.warn('Skipping XOR rows: set KEY_VAULT_LEGACY_READERS_RETIRED once process-claim-payout and admin-get-wallet-keys use the key vault');
+    }
+
+    const pendingSchemes = migrateLegacy
+      ? `encryption_scheme.eq.${LEGACY_XOR_SCHEME},encryption_scheme.eq.${UNBOUND_ENVELOPE_SCHEME}`
+      : `encryption_scheme.eq.${UNBOUND_ENVELOPE_SCHEME}`;
+    const results: Array<{ table: string; reencrypted: number; rewrapped: number; failed: string[] }> = [];
+
+    for (const table of WALLET_TABLES) {
+      const summary = { table, reencrypted: 0, rewrapped: 0, failed: [] as string[] };
+
+      const { data: rows, error: fetchError } = await supabase
+        .from(table)
+        .select('id, encrypted_private_key, encrypted_data_key, key_version, encryption_scheme')
+        .not('encrypted_private_key', 'is', null)
+        .or(`${pendingSchemes},and(encryption_scheme.eq.${ENVELOPE_SCHEME},key_version.lt.${activeVersion})`)
+        .limit(Math.min(Math.max(1, batchSize), 500));
+
+      if (fetchError) throw fetchError;
+
+      console.log(`${table}: ${rows?.length || 0} rows need migration`);
+
+      for (const row of rows || []) {
+        const binding = { walletTable: table, recordId: row.id };
+        try {
+          if (row.encryption_scheme === ENVELOPE_SCHEME) {
+            const rewrapped = await rewrapDataKey(row, binding);
+            if (!dryRun) {
+              const { error: updateError } = await supabase
+                .from(table)
+                .update(rewrapped)
+                .eq('id', row.id)
+                .eq('key_version', row.key_version);
+              if (updateError) throw updateError;
+            }
+            summary.rewrapped++;
+            continue;
+          }
+
+          const secretKey = await decryptPrivateKey(supabase, row, {
+            functionName: 'migrate-wallet-keys',
+            walletTable: table,
+            recordId: row.id,
+            launchId: table === 'safu_launches' ? row.id : null,
+            reason: dryRun ? 'Key vault migration (dry run)' : 'Key vault migration',
+          });
+
+          const encrypted = await encryptPrivateKey(secretKey, binding);
+
+          // Round-trip before overwriting: never replace a key we cannot read back
+          const roundTrip = await decryptPrivateKey(supabase, encrypted, {
+            functionName: 'migrate-wallet-keys',
+            walletTable: table,
+            recordId: row.id,
+            launchId: table === 'safu_launches' ? row.id : null,
+            reason: 'Key vault migration round-trip check',
+          });
+          if (!bytesEqual(secretKey, roundTrip)) {
+            throw new Error('Round-trip mismatch');
+          }
+
+          if (!dryRun) {
+            const { error: updateError } = await supabase
+              .from(table)
+              .update(encrypted)
+              .eq('id', row.id)
+              .eq('encryption_scheme', row.encryption_scheme);
+            if (updateError) throw updateError;
+          }
+          summary.reencrypted++;
+        } catch (rowError) {
+          console.error(`${table} ${row.id}: migration failed:`, rowError);
+          summary.failed.push(row.id);
+        }
+      }
+
+      results.push(summary);
+    }
+
+    console.log('Key vault migration results:', JSON.stringify(results));
+
+    return new Response(
+      JSON.stringify({ success: true, dryRun, activeVersion, legacyMigrated: migrateLegacy, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Key migration error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,268 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import bs58 from 'https://esm.sh/bs58@5.0.0';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { decryptPrivateKey } from '../_shared/key-vault.ts';
+import { getClaimChainStatus } from '../_shared/safu-claims.ts';
+import { CRON_CORS_HEADERS, hasCronSecret } from '../_shared/cron-secret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': CRON_CORS_HEADERS,
+};
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+// Signature fee paid by the deposit wallet on each refund
+const TRANSFER_FEE_LAMPORTS = 5_000;
+// Refunds younger than this may still be owned by the run that sent them
+const STUCK_THRESHOLD_MINUTES = 5;
+const BATCH_SIZE = 50;
+
+interface SafuRefund {
+  id: string;
+  launch_id: string;
+  wallet_address: string;
+  amount: number;
+  refund_tx_hash: string | null;
+  refund_last_valid_block_height: number | null;
+}
+
+type RefundOutcome = 'refunded' | 'pending' | 'skipped';
+
+// A refund moves pending -> refunding -> refunded. Every transition out of 'refunding'
+// is conditional on the recorded signature, so two runs can never settle one refund twice.
+async function markRefunded(supabase: SupabaseClient, refundId: string, signature: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('safu_refunds')
+    .update({ status: 'refunded', refunded_at: new Date().toISOString(), refund_error: null })
+    .eq('id', refundId)
+    .eq('status', 'refunding')
+    .eq('refund_tx_hash', signature)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to mark refund ${refundId} as refunded:`, error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+// Release a refund back to 'pending' so the next run pays it again
+async function releaseRefund(supabase: SupabaseClient, refundId: string, signature: string | null, reason: string): Promise<boolean> {
+  let query = supabase
+    .from('safu_refunds')
+    .update({ status: 'pending', refund_tx_hash: null, refund_last_valid_block_height: null, refund_error: reason })
+    .eq('id', refundId)
+    .eq('status', 'refunding');
+
+  query = signature ? query.eq('refund_tx_hash', signature) : query.is('refund_tx_hash', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error(`Failed to release refund ${refundId}:`, error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+// Settle a refund left in 'refunding' by checking its recorded transaction on-chain
+async function reconcileRefund(supabase: SupabaseClient, connection: Connection, refund: SafuRefund): Promise<RefundOutcome> {
+  if (!refund.refund_tx_hash) {
+    await releaseRefund(supabase, refund.id, null, 'Refund was interrupted before sending');
+    return 'skipped';
+  }
+
+  const chainStatus = await getClaimChainStatus(connection, refund.refund_tx_hash, refund.refund_last_valid_block_height);
+  if (chainStatus === 'confirmed') {
+    return await markRefunded(supabase, refund.id, refund.refund_tx_hash) ? 'refunded' : 'skipped';
+  }
+  if (chainStatus === 'failed') {
+    await releaseRefund(supabase, refund.id, refund.refund_tx_hash, 'Transaction expired or failed on-chain');
+    return 'skipped';
+  }
+  return 'pending';
+}
+
+// Pay one pending refund from its launch's deposit wallet
+async function payRefund(supabase: SupabaseClient, connection: Connection, refund: SafuRefund): Promise<RefundOutcome> {
+  const { data: taken } = await supabase
+    .from('safu_refunds')
+    .update({ status: 'refunding', refund_started_at: new Date().toISOString(), refund_error: null })
+    .eq('id', refund.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (!taken || taken.length === 0) {
+    return 'skipped';
+  }
+
+  const { data: launch } = await supabase
+    .from('safu_launches')
+    .select('id, deposit_wallet_address, encrypted_private_key, encrypted_data_key, key_version, encryption_scheme')
+    .eq('id', refund.launch_id)
+    .single();
+
+  if (!launch?.encrypted_private_key) {
+    await releaseRefund(supabase, refund.id, null, 'Launch deposit wallet not found');
+    return 'skipped';
+  }
+
+  let depositKeypair: Keypair;
+  try {
+    const secretKey = await decryptPrivateKey(supabase, launch, {
+      functionName: 'process-safu-refunds',
+      walletTable: 'safu_launches',
+      recordId: launch.id,
+      launchId: launch.id,
+      reason: `SAFU refund ${refund.id} to ${refund.wallet_address}`,
+    });
+    depositKeypair = Keypair.fromSecretKey(secretKey);
+  } catch (decryptError) {
+    console.error(`Failed to decrypt deposit wallet for launch ${launch.id}:`, decryptError);
+    await releaseRefund(supabase, refund.id, null, 'Failed to access deposit wallet');
+    return 'skipped';
+  }
+
+  if (depositKeypair.publicKey.toBase58() !== launch.deposit_wallet_address) {
+    console.error(`SECURITY: Deposit wallet key for launch ${launch.id} does not match its address`);
+    await releaseRefund(supabase, refund.id, null, 'Deposit wallet key mismatch');
+    return 'skipped';
+  }
+
+  const lamports = Math.round(Number(refund.amount) * LAMPORTS_PER_SOL);
+  const balance = await connection.getBalance(depositKeypair.publicKey, 'confirmed');
+  if (balance < lamports + TRANSFER_FEE_LAMPORTS) {
+    console.error(`Deposit wallet for launch ${launch.id} holds ${balance} lamports, refund ${refund.id} needs ${lamports}`);
+    await releaseRefund(supabase, refund.id, null, 'Insufficient SOL in deposit wallet');
+    return 'skipped';
+  }
+
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: depositKeypair.publicKey,
+      toPubkey: new PublicKey(refund.wallet_address),
+      lamports,
+    })
+  );
+
+  // Sign once: the signature is known before sending, so a crash can be reconciled on the next run
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = depositKeypair.publicKey;
+  transaction.sign(depositKeypair);
+  const signature = bs58.encode(transaction.signature!);
+
+  const { data: recorded, error: recordError } = await supabase
+    .from('safu_refunds')
+    .update({ refund_tx_hash: signature, refund_last_valid_block_height: lastValidBlockHeight })
+    .eq('id', refund.id)
+    .eq('status', 'refunding')
+    .is('refund_tx_hash', null)
+    .select('id');
+
+  if (recordError || !recorded || recorded.length === 0) {
+    console.error(`Failed to record refund ${refund.id} signature, not sending:`, recordError);
+    await releaseRefund(supabase, refund.id, null, 'Failed to prepare refund');
+    return 'skipped';
+  }
+
+  try {
+    await connection.sendRawTransaction(transaction.serialize());
+    await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  } catch (sendError) {
+    // Left in 'refunding' with its signature; the next run settles it from the chain
+    console.error(`Refund ${refund.id} not confirmed yet:`, sendError);
+    return 'pending';
+  }
+
+  return await markRefunded(supabase, refund.id, signature) ? 'refunded' : 'skipped';
+}
+
+// Scheduled job: pays queued SAFU refunds (contributions over the wallet limit or hardcap,
+// or sent after the launch closed) back from the launch's deposit wallet, and settles
+// refunds a previous run sent but did not see confirmed.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // SECURITY: Only the scheduler may run this job
+  if (!hasCronSecret(req)) {
+    console.error('SECURITY: Unauthorized SAFU refund call');
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const heliusApiKey = Deno.env.get('HELIUS_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const rpcEndpoint = heliusApiKey
+      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+      : 'https://api.mainnet-beta.solana.com';
+    const connection = new Connection(rpcEndpoint, 'confirmed');
+
+    const summary = { refunded: 0, pending: 0, skipped: 0, errors: 0 };
+    const count = (outcome: RefundOutcome) => { summary[outcome]++; };
+
+    const stuckThreshold = new Date(Date.now() - STUCK_THRESHOLD_MINUTES * 60 * 1000).toISOString();
+    const { data: stuckRefunds, error: stuckError } = await supabase
+      .from('safu_refunds')
+      .select('id, launch_id, wallet_address, amount, refund_tx_hash, refund_last_valid_block_height')
+      .eq('status', 'refunding')
+      .lt('refund_started_at', stuckThreshold)
+      .order('refund_started_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (stuckError) throw stuckError;
+
+    for (const refund of (stuckRefunds || []) as SafuRefund[]) {
+      try {
+        count(await reconcileRefund(supabase, connection, refund));
+      } catch (refundError) {
+        console.error(`Failed to reconcile refund ${refund.id}:`, refundError);
+        summary.errors++;
+      }
+    }
+
+    const { data: pendingRefunds, error: pendingError } = await supabase
+      .from('safu_refunds')
+      .select('id, launch_id, wallet_address, amount, refund_tx_hash, refund_last_valid_block_height')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    console.log(`Paying ${pendingRefunds?.length || 0} pending SAFU refunds`);
+
+    for (const refund of (pendingRefunds || []) as SafuRefund[]) {
+      try {
+        count(await payRefund(supabase, connection, refund));
+      } catch (refundError) {
+        console.error(`Failed to pay refund ${refund.id}:`, refundError);
+        // Nothing was sent without a recorded signature, so this only releases an unsent refund
+        await releaseRefund(supabase, refund.id, null, 'Refund failed before sending');
+        summary.errors++;
+      }
+    }
+
+    console.log('SAFU refunds:', JSON.stringify(summary));
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('SAFU refund error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,108 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Connection } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { getClaimChainStatus, markClaimConfirmed, markClaimFailed } from '../_shared/safu-claims.ts';
+import { CRON_CORS_HEADERS, hasCronSecret } from '../_shared/cron-secret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': CRON_CORS_HEADERS,
+};
+
+// Claims younger than this may still be owned by a running claim-safu-tokens request
+const STUCK_THRESHOLD_MINUTES = 5;
+const BATCH_SIZE = 100;
+
+// Scheduled job: settles SAFU claims left in 'claiming' by checking their
+// recorded transaction on-chain. Claims that never recorded a signature were
+// never sent and are released for a retry.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // SECURITY: Only the scheduler may run this job
+  if (!hasCronSecret(req)) {
+    console.error('SECURITY: Unauthorized SAFU claim reconcile call');
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const heliusApiKey = Deno.env.get('HELIUS_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const rpcEndpoint = heliusApiKey
+      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+      : 'https://api.mainnet-beta.solana.com';
+    const connection = new Connection(rpcEndpoint, 'confirmed');
+
+    const stuckThreshold = new Date(Date.now() - STUCK_THRESHOLD_MINUTES * 60 * 1000).toISOString();
+
+    const { data: stuckClaims, error: fetchError } = await supabase
+      .from('safu_contributions')
+      .select('id, wallet_address, launch_id, claim_tx_signature, claim_last_valid_block_height')
+      .eq('claim_status', 'claiming')
+      .lt('claim_started_at', stuckThreshold)
+      .order('claim_started_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) throw fetchError;
+
+    console.log(`Reconciling ${stuckClaims?.length || 0} stuck SAFU claims`);
+
+    const summary = { claimed: 0, failed: 0, pending: 0, errors: 0 };
+
+    for (const claim of stuckClaims || []) {
+      try {
+        if (!claim.claim_tx_signature) {
+          if (await markClaimFailed(supabase, claim.id, null, 'Claim was interrupted before sending')) {
+            summary.failed++;
+          }
+          continue;
+        }
+
+        const chainStatus = await getClaimChainStatus(
+          connection,
+          claim.claim_tx_signature,
+          claim.claim_last_valid_block_height
+        );
+
+        if (chainStatus === 'confirmed') {
+          if (await markClaimConfirmed(supabase, claim.id, claim.claim_tx_signature)) {
+            console.log(`Claim ${claim.id} (${claim.wallet_address}) confirmed: ${claim.claim_tx_signature}`);
+            summary.claimed++;
+          }
+        } else if (chainStatus === 'failed') {
+          if (await markClaimFailed(supabase, claim.id, claim.claim_tx_signature, 'Transaction expired or failed on-chain')) {
+            console.log(`Claim ${claim.id} (${claim.wallet_address}) released for retry`);
+            summary.failed++;
+          }
+        } else {
+          summary.pending++;
+        }
+      } catch (claimError) {
+        console.error(`Failed to reconcile claim ${claim.id}:`, claimError);
+        summary.errors++;
+      }
+    }
+
+    console.log('SAFU claim reconciliation:', JSON.stringify(summary));
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Claim reconciliation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
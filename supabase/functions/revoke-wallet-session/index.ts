@@ -0,0 +1,56 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, SESSION_HEADER, hashSessionToken } from '../_shared/wallet-session.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// Revokes the session token sent in the x-wallet-session header, so it stops
+// working the moment the wallet disconnects rather than when it expires.
+// Holding the token is the proof: whoever can use a session may also end it.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get(SESSION_HEADER);
+    if (!token) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Wallet session required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: revoked, error: revokeError } = await supabase
+      .from('wallet_sessions')
+      .update({ revoked: true })
+      .eq('token_hash', await hashSessionToken(token))
+      .select('wallet_address');
+
+    if (revokeError) throw revokeError;
+
+    if (revoked && revoked.length > 0) {
+      console.log(`Wallet session revoked for ${revoked[0].wallet_address}`);
+    }
+
+    // Unknown or already revoked tokens are not an error: the session is unusable either way
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Session revoke error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,100 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Turns auto-compounding on or off for a wallet's stake. Only the flag changes here:
+// accrue-staking-rewards compounds, or releases compounded rewards, on its next run.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, enabled } = await req.json();
+
+    if (!walletAddress || !poolId || typeof enabled !== 'boolean') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, poolId and enabled' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to change auto-compound`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('user_stakes')
+      .update({ auto_compound: enabled })
+      .eq('wallet_address', walletAddress)
+      .eq('pool_type', 'staking')
+      .eq('pool_id', poolId)
+      .select('id, compounded_rewards');
+
+    if (updateError) throw updateError;
+
+    if (!updated || updated.length === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'No stake found in this pool' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Auto-compound ${enabled ? 'enabled' : 'disabled'} for ${walletAddress} in pool ${poolId}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        autoCompound: enabled,
+        compoundedRewards: Number(updated[0].compounded_rewards || 0)
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Auto-compound error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,85 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CRON_CORS_HEADERS, hasCronSecret } from '../_shared/cron-secret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': CRON_CORS_HEADERS,
+};
+
+// A pool the job has not run for in a while catches up at most this many epochs per run
+const MAX_EPOCHS_PER_RUN = 8;
+
+// Scheduled job: settles every ended social farming epoch, splitting the epoch's share of
+// the pool's reward_pool between wallets by points earned (see settle_social_farming_epoch).
+// Settled shares land in user_stakes.pending_rewards and are claimed like staking rewards.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // SECURITY: Only the scheduler may run this job
+  if (!hasCronSecret(req)) {
+    console.error('SECURITY: Unauthorized epoch settlement call');
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: pools, error: poolsError } = await supabase
+      .from('social_farming_pools')
+      .select('id, epoch_length_hours, epoch_count, epochs_settled, current_epoch_started_at')
+      .eq('status', 'active');
+
+    if (poolsError) throw poolsError;
+
+    const now = new Date();
+    const results: Array<{ poolId: string; epochsSettled: number }> = [];
+
+    for (const pool of pools || []) {
+      if (pool.epochs_settled >= pool.epoch_count) continue;
+
+      const endsAt = new Date(pool.current_epoch_started_at).getTime() + pool.epoch_length_hours * 60 * 60 * 1000;
+      if (now.getTime() < endsAt) continue;
+
+      let epochsSettled = 0;
+      try {
+        while (epochsSettled < MAX_EPOCHS_PER_RUN) {
+          const { data: epochId, error: settleError } = await supabase.rpc('settle_social_farming_epoch', {
+            p_pool_id: pool.id,
+            p_now: now.toISOString()
+          });
+
+          if (settleError) throw settleError;
+          if (!epochId) break;
+          epochsSettled++;
+        }
+      } catch (poolError) {
+        console.error(`Social farming pool ${pool.id}: epoch settlement failed:`, poolError);
+      }
+
+      if (epochsSettled > 0) {
+        console.log(`Social farming pool ${pool.id}: settled ${epochsSettled} epoch(s)`);
+        results.push({ poolId: pool.id, epochsSettled });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, poolsSettled: results.length, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Social farming settlement error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
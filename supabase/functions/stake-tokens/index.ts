@@ -0,0 +1,425 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { getLockedUntil, syncEscrowStake } from '../_shared/staking-escrow.ts';
+import { findAprTier, getAprTiers } from '../_shared/staking-tiers.ts';
+import { getWalletTokenBalance } from '../_shared/token-balance.ts';
+import { getBackedAmount, getMintBalanceStakes } from '../_shared/staking-balance.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+interface TokenBalance {
+  mint: string;
+  owner?: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+  };
+}
+
+interface ParsedTransaction {
+  meta: {
+    err: unknown;
+    preTokenBalances?: TokenBalance[];
+    postTokenBalances?: TokenBalance[];
+  } | null;
+  transaction: {
+    message: {
+      accountKeys: Array<{ pubkey: string; signer: boolean }>;
+    };
+  };
+}
+
+async function rpcCall(method: string, params: unknown[]) {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || `RPC ${method} failed`);
+  }
+  return data.result;
+}
+
+// Fetch a parsed transaction, retrying while the RPC node catches up to the client
+async function getParsedTransaction(signature: string, maxRetries = 10): Promise<ParsedTransaction | null> {
+  for (let i = 0; i < maxRetries; i++) {
+    const result = await rpcCall('getTransaction', [
+      signature,
+      { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+    ]);
+    if (result) {
+      return result;
+    }
+
+    console.log(`Transaction not visible yet, attempt ${i + 1}/${maxRetries}`);
+    await new Promise(r => setTimeout(r, 1500));
+  }
+  return null;
+}
+
+// Change in the raw token amount an owner holds across all its accounts for the mint
+function getOwnerTokenDelta(tx: ParsedTransaction, owner: string, mint: string): { delta: bigint; decimals: number } {
+  let delta = BigInt(0);
+  let decimals = 0;
+  const sum = (balances: TokenBalance[] | undefined, sign: bigint) => {
+    for (const balance of balances || []) {
+      if (balance.mint !== mint || balance.owner !== owner) continue;
+      delta += sign * BigInt(balance.uiTokenAmount.amount);
+      decimals = balance.uiTokenAmount.decimals;
+    }
+  };
+  sum(tx.meta?.postTokenBalances, BigInt(1));
+  sum(tx.meta?.preTokenBalances, BigInt(-1));
+  return { delta, decimals };
+}
+
+// SECURITY: Credit only tokens that moved from the staker to the vault on-chain,
+// read from the token balances before and after the transaction
+async function verifyVaultDeposit(
+  signature: string,
+  walletAddress: string,
+  vaultAddress: string,
+  mint: string
+): Promise<{ valid: boolean; amount: number; error?: string }> {
+  const tx = await getParsedTransaction(signature);
+  if (!tx) {
+    return { valid: false, amount: 0, error: 'Transaction not found on-chain' };
+  }
+
+  if (tx.meta?.err) {
+    return { valid: false, amount: 0, error: 'Transaction failed on-chain' };
+  }
+
+  const accountKeys = tx.transaction?.message?.accountKeys || [];
+  const signedByWallet = accountKeys.some(key => key.signer && key.pubkey === walletAddress);
+  if (!signedByWallet) {
+    return { valid: false, amount: 0, error: 'Transaction was not signed by this wallet' };
+  }
+
+  const vault = getOwnerTokenDelta(tx, vaultAddress, mint);
+  const sender = getOwnerTokenDelta(tx, walletAddress, mint);
+  if (vault.delta <= BigInt(0) || sender.delta >= BigInt(0)) {
+    return { valid: false, amount: 0, error: 'No token transfer to the staking vault found in transaction' };
+  }
+
+  const raw = vault.delta < -sender.delta ? vault.delta : -sender.delta;
+  return { valid: true, amount: Number(raw) / Math.pow(10, vault.decimals) };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, poolType, amount, txHash, lockDays } = await req.json();
+
+    console.log(`Stake request: ${amount} from ${walletAddress} in ${poolType} pool ${poolId}${lockDays ? ` (${lockDays}d lock)` : ''}${txHash ? `, tx: ${txHash}` : ''}`);
+
+    if (!walletAddress || !poolId || poolType !== 'staking') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to stake`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: pool, error: poolError } = await supabase
+      .from('staking_pools')
+      .select('id, contract_address, status, apr, min_stake, lock_period_days, apr_tiers, custody_mode, vault_wallet_address, depleted_at')
+      .eq('id', poolId)
+      .single();
+
+    if (poolError || !pool) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Escrow tokens that already reached the vault are recorded whatever the pool's state, so they
+    // can be withdrawn (the app checks the status before asking for the transfer). Anything else needs a live pool.
+    const acceptingStakes = pool.status === 'active';
+    if (!acceptingStakes && !(pool.custody_mode === 'escrow' && txHash)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool is not accepting stakes' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A pool that has paid out its allocation earns nothing new. Escrow deposits that
+    // already reached the vault are still recorded below so they can be withdrawn.
+    if (pool.depleted_at && pool.custody_mode !== 'escrow') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool has paid out its full reward allocation' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The lock tier sets this stake's APR; without a choice the shortest lock applies
+    const tiers = getAprTiers(pool);
+    const tier = lockDays === undefined || lockDays === null ? tiers[0] : findAprTier(tiers, Number(lockDays));
+    if (!tier) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool does not offer that lock period' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (pool.custody_mode !== 'escrow') {
+      // Balance pools track what the wallet holds: each stake adds to the position, and
+      // the whole position must stay covered by the on-chain balance
+      const stakeAmount = Number(amount);
+      if (!Number.isFinite(stakeAmount) || stakeAmount <= 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid stake amount' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: existing } = await supabase
+        .from('user_stakes')
+        .select('id, amount, lock_days, compounded_rewards')
+        .eq('wallet_address', walletAddress)
+        .eq('pool_type', 'staking')
+        .eq('pool_id', poolId)
+        .maybeSingle();
+
+      // A balance stake is one position, so its tier is fixed once chosen
+      const currentLockDays = existing ? existing.lock_days ?? pool.lock_period_days : null;
+      if (existing && lockDays !== undefined && lockDays !== null && currentLockDays !== tier.days) {
+        return new Response(
+          JSON.stringify({ success: false, error: `You are already staking with a ${currentLockDays} day lock` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const currentAmount = Number(existing?.amount || 0);
+      const newAmount = currentAmount + stakeAmount;
+      if (newAmount < (pool.min_stake || 0)) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Minimum stake is ${pool.min_stake}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // One balance backs every balance pool on this mint, so it must cover the wallet's stakes in
+      // all of them. Compounded rewards count toward a stake but were never in the wallet.
+      const mintStakes = await getMintBalanceStakes(supabase, pool.contract_address, [walletAddress]);
+      const heldStake = mintStakes.reduce((sum, stake) => sum + getBackedAmount(stake), 0);
+      const balance = await getWalletTokenBalance(RPC_URL, walletAddress, pool.contract_address);
+      if (balance < heldStake + stakeAmount) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Insufficient balance: you hold ${balance.toLocaleString()} and already stake ${heldStake.toLocaleString()}`
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // The amount guard keeps another request from changing the position in between
+      const { data: staked, error: stakeError } = existing
+        ? await supabase
+            .from('user_stakes')
+            .update({ amount: newAmount })
+            .eq('id', existing.id)
+            .eq('amount', existing.amount)
+            .select('id')
+        : await supabase
+            .from('user_stakes')
+            .insert({
+              wallet_address: walletAddress,
+              pool_type: 'staking',
+              pool_id: poolId,
+              amount: newAmount,
+              apr: tier.apr,
+              lock_days: tier.days,
+              pending_rewards: 0,
+              points: 0
+            })
+            .select('id');
+
+      if (stakeError) throw stakeError;
+      if (!staked?.length) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Your stake changed while staking, please try again' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, stakedAmount: newAmount, addedAmount: stakeAmount }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Validate txHash format
+    if (!txHash || txHash.length < 80 || txHash.length > 100) {
+      console.error('SECURITY: Invalid txHash format');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid transaction hash format' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Verify the transfer into the vault on-chain and credit what actually moved.
+    // A verified deposit is always recorded, even below min_stake: the tokens are already in custody.
+    let deposit: { valid: boolean; amount: number; error?: string };
+    try {
+      deposit = await verifyVaultDeposit(txHash, walletAddress, pool.vault_wallet_address, pool.contract_address);
+    } catch (rpcError) {
+      console.error('Deposit verification RPC error:', rpcError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Could not verify transaction, please try again' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!deposit.valid) {
+      console.error(`SECURITY: Deposit verification failed for ${txHash}: ${deposit.error}`);
+      return new Response(
+        JSON.stringify({ success: false, error: deposit.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (amount && Math.abs(Number(amount) - deposit.amount) > 0.000001) {
+      console.warn(`Claimed ${amount} but transaction moved ${deposit.amount} to the vault, crediting on-chain amount`);
+    }
+
+    // SECURITY: Claim the signature in the permanent ledger so a deposit is only ever credited once
+    const { error: ledgerError } = await supabase
+      .from('used_signatures')
+      .insert({
+        signature: txHash,
+        feature: 'staking_deposit',
+        wallet_address: walletAddress,
+        pool_id: poolId,
+      });
+
+    if (ledgerError) {
+      if (ledgerError.code === '23505') {
+        console.error(`SECURITY: Replayed staking deposit signature: ${txHash}`);
+        return new Response(
+          JSON.stringify({ success: false, error: 'This transaction has already been processed' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw ledgerError;
+    }
+
+    // A deposit into a pool that is not live earns nothing, so it is not locked either
+    const depositLockDays = acceptingStakes ? tier.days : 0;
+    if (!acceptingStakes) {
+      console.warn(`Escrow deposit ${txHash} reached the vault of ${pool.status} pool ${poolId}, recording it unlocked for withdrawal`);
+    }
+
+    const depositedAt = new Date();
+    const lockedUntil = getLockedUntil(depositedAt, depositLockDays);
+
+    const { data: position, error: depositError } = await supabase
+      .from('staking_deposits')
+      .insert({
+        pool_id: poolId,
+        wallet_address: walletAddress,
+        amount: deposit.amount,
+        deposit_tx_signature: txHash,
+        deposited_at: depositedAt.toISOString(),
+        locked_until: lockedUntil.toISOString(),
+        apr: tier.apr,
+        lock_days: depositLockDays,
+        status: 'active'
+      })
+      .select('id')
+      .single();
+
+    if (depositError) {
+      // Release the signature so the same deposit can be submitted again
+      await supabase.from('used_signatures').delete().eq('signature', txHash);
+      throw depositError;
+    }
+
+    const stakedAmount = await syncEscrowStake(supabase, poolId, walletAddress);
+
+    await supabase.from('transactions').insert({
+      wallet_address: walletAddress,
+      pool_type: 'staking',
+      pool_id: poolId,
+      type: 'stake',
+      amount: deposit.amount,
+      tx_hash: txHash,
+      status: 'completed',
+    });
+
+    console.log(`Escrow deposit ${position.id}: ${deposit.amount} from ${walletAddress}, locked until ${lockedUntil.toISOString()}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        depositId: position.id,
+        creditedAmount: deposit.amount,
+        stakedAmount,
+        apr: tier.apr,
+        lockedUntil: lockedUntil.toISOString()
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Stake error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,235 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { SocialTask, createLiveVerifiers, normalizeAccountId } from '../_shared/social-verifiers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+const verifiers = createLiveVerifiers({
+  twitterBearerToken: Deno.env.get('TWITTER_BEARER_TOKEN'),
+  telegramBotToken: Deno.env.get('TELEGRAM_BOT_TOKEN'),
+  discordBotToken: Deno.env.get('DISCORD_BOT_TOKEN'),
+});
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Starts a social farming task: links the wallet's account on the task's platform
+// when the verifier needs one, and records the completion as 'pending_verification'.
+// Points are taken from the pool's task list, never from the request; they are only
+// earned once verify-social-task has confirmed the task.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, taskId, accountId } = await req.json();
+
+    if (!walletAddress || !poolId || !taskId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, poolId and taskId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to start a social task`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: pool, error: poolError } = await supabase
+      .from('social_farming_pools')
+      .select('id, tasks, status, epoch_count, epochs_settled')
+      .eq('id', poolId)
+      .single();
+
+    if (poolError || !pool) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (pool.status !== 'active' || pool.epochs_settled >= pool.epoch_count) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool is no longer farming' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const task = ((pool.tasks as SocialTask[]) || []).find(t => t.id === taskId);
+    if (!task) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Task not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const verifier = verifiers[task.platform];
+    if (!verifier) {
+      return new Response(
+        JSON.stringify({ success: false, error: `${task.platform} tasks cannot be verified right now` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (verifier.accountPlatform) {
+      const platform = verifier.accountPlatform;
+      const { data: linked } = await supabase
+        .from('social_accounts')
+        .select('id, account_id')
+        .eq('wallet_address', walletAddress)
+        .eq('platform', platform)
+        .maybeSingle();
+
+      const requested = accountId !== undefined && accountId !== null && accountId !== ''
+        ? normalizeAccountId(platform, accountId)
+        : null;
+
+      if (accountId && !requested) {
+        return new Response(
+          JSON.stringify({ success: false, error: platform === 'twitter' ? 'Invalid X handle' : `Invalid ${platform} user ID` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!requested && !linked) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Link your ${platform === 'twitter' ? 'X' : platform} account to verify this task`, accountPlatform: platform }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (requested && requested !== linked?.account_id) {
+        // SECURITY: One account farms for one wallet only
+        const { data: taken } = await supabase
+          .from('social_accounts')
+          .select('wallet_address')
+          .eq('platform', platform)
+          .eq('account_id', requested)
+          .maybeSingle();
+
+        if (taken && taken.wallet_address !== walletAddress) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'That account is already linked to another wallet' }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error: linkError } = linked
+          ? await supabase
+            .from('social_accounts')
+            .update({ account_id: requested, updated_at: new Date().toISOString() })
+            .eq('id', linked.id)
+          : await supabase
+            .from('social_accounts')
+            .insert({ wallet_address: walletAddress, platform, account_id: requested });
+
+        if (linkError) {
+          console.error('Error linking social account:', linkError);
+          return new Response(
+            JSON.stringify({ success: false, error: linkError.code === '23505' ? 'That account is already linked to another wallet' : 'Failed to link account' }),
+            { status: linkError.code === '23505' ? 409 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+    }
+
+    const startedAt = new Date().toISOString();
+    const { data: completion, error: insertError } = await supabase
+      .from('social_farming_completions')
+      .insert({
+        pool_id: poolId,
+        wallet_address: walletAddress,
+        task_id: taskId,
+        points_earned: task.points,
+        status: 'pending_verification',
+        started_at: startedAt
+      })
+      .select('id, status')
+      .single();
+
+    if (insertError) {
+      if (insertError.code !== '23505') throw insertError;
+
+      // Started before: a verified task is done, anything else starts over
+      const { data: existing, error: existingError } = await supabase
+        .from('social_farming_completions')
+        .select('id, status')
+        .eq('pool_id', poolId)
+        .eq('wallet_address', walletAddress)
+        .eq('task_id', taskId)
+        .single();
+
+      if (existingError || !existing) throw existingError || new Error('Completion not found');
+
+      if (existing.status === 'verified') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'You have already completed this task', status: 'verified' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { error: restartError } = await supabase
+        .from('social_farming_completions')
+        .update({ started_at: startedAt })
+        .eq('id', existing.id)
+        .neq('status', 'verified');
+
+      if (restartError) throw restartError;
+
+      return new Response(
+        JSON.stringify({ success: true, completionId: existing.id, status: existing.status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Social task ${taskId} in pool ${poolId} started by ${walletAddress}`);
+
+    return new Response(
+      JSON.stringify({ success: true, completionId: completion.id, status: completion.status }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Submit social task error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
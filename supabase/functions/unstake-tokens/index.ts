@@ -0,0 +1,466 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import bs58 from 'https://esm.sh/bs58@5.0.0';
+import { Connection, Keypair, PublicKey, Transaction } from 'https://esm.sh/@solana/web3.js@1.87.6';
+import { getAssociatedTokenAddress, createTransferInstruction, createAssociatedTokenAccountInstruction, getAccount } from 'https://esm.sh/@solana/spl-token@0.3.11';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import { decryptPrivateKey } from '../_shared/key-vault.ts';
+import { getClaimChainStatus } from '../_shared/safu-claims.ts';
+import { syncEscrowStake } from '../_shared/staking-escrow.ts';
+import { getEarlyExitPenalty, getEarlyExitPenaltyPercent } from '../_shared/staking-penalty.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+// A withdrawal with no recorded signature after this long was interrupted before sending
+const WITHDRAWING_STALE_MINUTES = 5;
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Every transition out of 'withdrawing' is conditional on the row still holding the same signature
+async function markWithdrawn(supabase: SupabaseClient, depositId: string, signature: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('staking_deposits')
+    .update({ status: 'withdrawn', withdrawn_at: new Date().toISOString(), withdraw_error: null })
+    .eq('id', depositId)
+    .eq('status', 'withdrawing')
+    .eq('withdraw_tx_signature', signature)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to mark deposit ${depositId} withdrawn:`, error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+async function releaseWithdrawal(supabase: SupabaseClient, depositId: string, signature: string | null, reason: string) {
+  let query = supabase
+    .from('staking_deposits')
+    .update({
+      status: 'active',
+      withdraw_penalty: 0,
+      withdraw_tx_signature: null,
+      withdraw_last_valid_block_height: null,
+      withdraw_error: reason
+    })
+    .eq('id', depositId)
+    .eq('status', 'withdrawing');
+
+  query = signature ? query.eq('withdraw_tx_signature', signature) : query.is('withdraw_tx_signature', null);
+
+  const { error } = await query;
+  if (error) {
+    console.error(`Failed to release withdrawal for deposit ${depositId}:`, error);
+  }
+}
+
+// Share a landed withdrawal's penalty with the remaining stakers; the ledger makes this run once
+async function redistributePenalty(supabase: SupabaseClient, depositId: string) {
+  const { data: penaltyId, error } = await supabase.rpc('redistribute_staking_penalty', { p_deposit_id: depositId });
+  if (error) {
+    // The next request for this position retries it
+    console.error(`Failed to redistribute penalty for deposit ${depositId}:`, error);
+  } else if (penaltyId) {
+    console.log(`Penalty for deposit ${depositId} redistributed (${penaltyId})`);
+  }
+}
+
+// Pools created before deposit wallets were recorded on staking_pools keep theirs in pool_wallets
+async function getRewardWalletAddress(supabase: SupabaseClient, pool: { id: string; deposit_wallet_address: string | null }): Promise<string | null> {
+  if (pool.deposit_wallet_address) return pool.deposit_wallet_address;
+
+  const { data } = await supabase
+    .from('pool_wallets')
+    .select('wallet_address')
+    .eq('pool_id', pool.id)
+    .eq('pool_type', 'staking')
+    .maybeSingle();
+
+  return data?.wallet_address || null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, depositId, acceptPenalty } = await req.json();
+    console.log(`=== Unstake request: deposit ${depositId} in pool ${poolId} for ${walletAddress} ===`);
+
+    if (!walletAddress || !poolId || !depositId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, poolId and depositId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const heliusApiKey = Deno.env.get('HELIUS_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to unstake`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: pool, error: poolError } = await supabase
+      .from('staking_pools')
+      .select('id, contract_address, token_decimals, custody_mode, vault_wallet_address, deposit_wallet_address, early_exit_penalty_percent')
+      .eq('id', poolId)
+      .single();
+
+    if (poolError || !pool) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (pool.custody_mode !== 'escrow') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This pool tracks your wallet balance; there is nothing to withdraw' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: The position must belong to the signed-in wallet
+    const { data: deposit, error: depositError } = await supabase
+      .from('staking_deposits')
+      .select('*')
+      .eq('id', depositId)
+      .eq('pool_id', poolId)
+      .eq('wallet_address', walletAddress)
+      .maybeSingle();
+
+    if (depositError || !deposit) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Staking position not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (deposit.status === 'withdrawn') {
+      if (Number(deposit.withdraw_penalty) > 0) {
+        await redistributePenalty(supabase, deposit.id);
+      }
+      return new Response(
+        JSON.stringify({ success: false, error: 'This position has already been withdrawn', txHash: deposit.withdraw_tx_signature }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const rpcEndpoint = heliusApiKey
+      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
+      : 'https://api.mainnet-beta.solana.com';
+    const connection = new Connection(rpcEndpoint, 'confirmed');
+
+    // A previous attempt is in flight: settle its recorded transaction instead of sending another
+    if (deposit.status === 'withdrawing') {
+      if (!deposit.withdraw_tx_signature) {
+        const startedAt = new Date(deposit.withdraw_started_at || 0).getTime();
+        if (Date.now() - startedAt < WITHDRAWING_STALE_MINUTES * 60 * 1000) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'A withdrawal for this position is already in progress' }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        await releaseWithdrawal(supabase, deposit.id, null, 'Withdrawal was interrupted before sending');
+      } else {
+        const chainStatus = await getClaimChainStatus(
+          connection,
+          deposit.withdraw_tx_signature,
+          deposit.withdraw_last_valid_block_height
+        );
+        console.log(`Previous withdrawal ${deposit.withdraw_tx_signature} is ${chainStatus}`);
+
+        if (chainStatus === 'confirmed') {
+          await markWithdrawn(supabase, deposit.id, deposit.withdraw_tx_signature);
+          await syncEscrowStake(supabase, poolId, walletAddress);
+          const penalty = Number(deposit.withdraw_penalty) || 0;
+          if (penalty > 0) {
+            await redistributePenalty(supabase, deposit.id);
+          }
+          return new Response(
+            JSON.stringify({
+              success: true,
+              txHash: deposit.withdraw_tx_signature,
+              amount: deposit.amount,
+              penalty,
+              netAmount: Number(deposit.amount) - penalty
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (chainStatus === 'pending') {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Your withdrawal is still being confirmed', txHash: deposit.withdraw_tx_signature }),
+            { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // The previous transaction can never land, so the withdrawal may be retried below
+        await releaseWithdrawal(supabase, deposit.id, deposit.withdraw_tx_signature, 'Transaction expired or failed on-chain');
+      }
+    }
+
+    // SECURITY: Enforce the lock period; pools with an early-exit penalty let it be broken for a fee
+    const lockedUntil = new Date(deposit.locked_until);
+    const now = Date.now();
+    const penaltyPercent = getEarlyExitPenaltyPercent(pool.early_exit_penalty_percent, deposit, now);
+    if (now < lockedUntil.getTime() && penaltyPercent <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: `This position is locked until ${lockedUntil.toISOString()}`, lockedUntil: deposit.locked_until }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The caller must agree to the fee, which keeps decaying until the position is taken
+    if (penaltyPercent > 0 && acceptPenalty !== true) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Withdrawing before ${lockedUntil.toISOString()} forfeits ${penaltyPercent.toFixed(2)}% of this position`,
+          lockedUntil: deposit.locked_until,
+          penaltyPercent
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const decimals = pool.token_decimals ?? 6;
+    const penaltyAmount = Math.floor(getEarlyExitPenalty(pool.early_exit_penalty_percent, deposit, now) * Math.pow(10, decimals)) / Math.pow(10, decimals);
+
+    // SECURITY: Take the position with a conditional update so parallel requests cannot both pay out
+    const { data: taken, error: takeError } = await supabase
+      .from('staking_deposits')
+      .update({
+        status: 'withdrawing',
+        withdraw_started_at: new Date(now).toISOString(),
+        withdraw_penalty: penaltyAmount,
+        withdraw_tx_signature: null,
+        withdraw_last_valid_block_height: null,
+        withdraw_error: null
+      })
+      .eq('id', deposit.id)
+      .eq('status', 'active')
+      .select('id');
+
+    if (takeError || !taken || taken.length === 0) {
+      console.error('Could not take withdrawal:', takeError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'A withdrawal for this position is already in progress' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Anything that fails before the transaction is sent returns the position to active
+    const release = async (status: number, error: string) => {
+      await releaseWithdrawal(supabase, deposit.id, null, error);
+      return new Response(
+        JSON.stringify({ success: false, error }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    };
+
+    const { data: vaultWallet, error: walletError } = await supabase
+      .from('pool_wallets')
+      .select('*')
+      .eq('pool_id', poolId)
+      .eq('pool_type', 'staking_vault')
+      .single();
+
+    if (walletError || !vaultWallet) {
+      console.error('Vault wallet not found:', walletError);
+      return release(500, 'Staking vault not found. Please contact support.');
+    }
+
+    let vaultKeypair: Keypair;
+    try {
+      const secretKey = await decryptPrivateKey(supabase, vaultWallet, {
+        functionName: 'unstake-tokens',
+        walletTable: 'pool_wallets',
+        recordId: vaultWallet.id,
+        poolId,
+        reason: `Staking withdrawal of deposit ${deposit.id} for ${walletAddress}`,
+      });
+      vaultKeypair = Keypair.fromSecretKey(secretKey);
+    } catch (decryptError) {
+      console.error('Failed to decrypt vault wallet:', decryptError);
+      return release(500, 'Failed to access staking vault');
+    }
+
+    // SECURITY: Never sign for a vault other than the one the pool advertises for deposits
+    if (vaultKeypair.publicKey.toBase58() !== pool.vault_wallet_address) {
+      console.error(`SECURITY: Vault key for pool ${poolId} does not match ${pool.vault_wallet_address}`);
+      return release(500, 'Staking vault mismatch. Please contact support.');
+    }
+
+    // The penalty goes back to the pool's reward wallet, which pays the stakers it is credited to
+    let rewardWalletAddress: string | null = null;
+    if (penaltyAmount > 0) {
+      rewardWalletAddress = await getRewardWalletAddress(supabase, pool);
+      if (!rewardWalletAddress) {
+        console.error(`No reward wallet recorded for pool ${poolId}`);
+        return release(500, 'Pool reward wallet not found. Please contact support.');
+      }
+    }
+
+    const tokenMint = new PublicKey(pool.contract_address);
+    const recipient = new PublicKey(walletAddress);
+    const vaultAta = await getAssociatedTokenAddress(tokenMint, vaultKeypair.publicKey);
+    const recipientAta = await getAssociatedTokenAddress(tokenMint, recipient);
+    const tokenAmount = BigInt(Math.floor(Number(deposit.amount) * Math.pow(10, decimals)));
+    const penaltyTokenAmount = BigInt(Math.round(penaltyAmount * Math.pow(10, decimals)));
+    const netTokenAmount = tokenAmount - penaltyTokenAmount;
+
+    try {
+      const vaultAccount = await getAccount(connection, vaultAta);
+      if (vaultAccount.amount < tokenAmount) {
+        console.error(`Vault short of tokens. Have: ${vaultAccount.amount}, Need: ${tokenAmount}`);
+        return release(500, 'Insufficient tokens in staking vault. Please contact support.');
+      }
+    } catch (ataError) {
+      console.error('Vault token account not found:', ataError);
+      return release(500, 'Staking vault token account not found');
+    }
+
+    const transaction = new Transaction();
+    try {
+      await getAccount(connection, recipientAta);
+    } catch {
+      transaction.add(createAssociatedTokenAccountInstruction(vaultKeypair.publicKey, recipientAta, recipient, tokenMint));
+    }
+    if (netTokenAmount > 0n) {
+      transaction.add(createTransferInstruction(vaultAta, recipientAta, vaultKeypair.publicKey, netTokenAmount));
+    }
+    if (rewardWalletAddress && penaltyTokenAmount > 0n) {
+      const rewardWallet = new PublicKey(rewardWalletAddress);
+      const rewardAta = await getAssociatedTokenAddress(tokenMint, rewardWallet);
+      try {
+        await getAccount(connection, rewardAta);
+      } catch {
+        transaction.add(createAssociatedTokenAccountInstruction(vaultKeypair.publicKey, rewardAta, rewardWallet, tokenMint));
+      }
+      transaction.add(createTransferInstruction(vaultAta, rewardAta, vaultKeypair.publicKey, penaltyTokenAmount));
+    }
+
+    // Sign once and record the signature before sending, so a crash or retry can reconcile it
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = vaultKeypair.publicKey;
+    transaction.sign(vaultKeypair);
+    const signature = bs58.encode(transaction.signature!);
+
+    const { data: recorded, error: recordError } = await supabase
+      .from('staking_deposits')
+      .update({ withdraw_tx_signature: signature, withdraw_last_valid_block_height: lastValidBlockHeight })
+      .eq('id', deposit.id)
+      .eq('status', 'withdrawing')
+      .is('withdraw_tx_signature', null)
+      .select('id');
+
+    if (recordError || !recorded || recorded.length === 0) {
+      console.error('Failed to record withdrawal signature, not sending:', recordError);
+      return release(500, 'Failed to prepare withdrawal, please try again');
+    }
+
+    try {
+      await connection.sendRawTransaction(transaction.serialize(), { skipPreflight: false, maxRetries: 3 });
+      const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+      if (confirmation.value.err) {
+        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      }
+    } catch (txError) {
+      console.error('Withdrawal not confirmed:', txError);
+      const message = txError instanceof Error ? txError.message : 'Unknown error';
+
+      // The transfer may still have landed even though sending or confirming errored
+      const chainStatus = await getClaimChainStatus(connection, signature, lastValidBlockHeight).catch(() => 'pending' as const);
+
+      if (chainStatus === 'failed') {
+        await releaseWithdrawal(supabase, deposit.id, signature, message);
+        return new Response(
+          JSON.stringify({ success: false, error: `Withdrawal failed: ${message}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (chainStatus === 'pending') {
+        // Left in 'withdrawing'; the next request for this position settles it from the chain
+        return new Response(
+          JSON.stringify({ success: false, error: 'Your withdrawal is still being confirmed', txHash: signature }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    if (!(await markWithdrawn(supabase, deposit.id, signature))) {
+      // Tokens were sent; the next request for this position settles the row from the chain
+      console.error(`Deposit ${deposit.id} was withdrawn in ${signature} but not marked`);
+    }
+
+    const stakedAmount = await syncEscrowStake(supabase, poolId, walletAddress);
+
+    if (penaltyAmount > 0) {
+      await redistributePenalty(supabase, deposit.id);
+    }
+    const netAmount = Number(deposit.amount) - penaltyAmount;
+
+    await supabase.from('transactions').insert({
+      wallet_address: walletAddress,
+      pool_type: 'staking',
+      pool_id: poolId,
+      type: 'unstake',
+      amount: deposit.amount,
+      tx_hash: signature,
+      status: 'completed',
+    });
+
+    console.log(`=== Withdrawal complete: ${netAmount} to ${walletAddress} (penalty ${penaltyAmount}), TX: ${signature} ===`);
+
+    return new Response(
+      JSON.stringify({ success: true, txHash: signature, amount: deposit.amount, penalty: penaltyAmount, netAmount, stakedAmount }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Unstake error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SESSION_CORS_HEADERS, requireWalletSession } from "../_shared/wallet-session.ts";
+import { MAX_MANUAL_EXCLUSIONS, ManualExclusion, isValidWalletAddress } from "../_shared/race-exclusions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+const MAX_REASON_LENGTH = 80;
+
+// Lets a race creator replace the race's manual exclusion list.
+// Takes effect from the next snapshot; the current round's entry ranks are not rewritten.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { raceId, walletAddress, exclusions } = await req.json();
+
+    if (!raceId || !walletAddress || !Array.isArray(exclusions)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'raceId, walletAddress and exclusions are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (exclusions.length > MAX_MANUAL_EXCLUSIONS) {
+      return new Response(
+        JSON.stringify({ success: false, error: `At most ${MAX_MANUAL_EXCLUSIONS} wallets can be excluded` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const seen = new Set<string>();
+    const cleaned: ManualExclusion[] = [];
+    for (const entry of exclusions) {
+      const address = typeof entry?.address === 'string' ? entry.address.trim() : '';
+      if (!isValidWalletAddress(address)) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Invalid wallet address: ${address || '(empty)'}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (seen.has(address)) continue;
+      seen.add(address);
+
+      const reason = typeof entry.reason === 'string' ? entry.reason.trim().slice(0, MAX_REASON_LENGTH) : '';
+      cleaned.push(reason ? { address, reason } : { address });
+    }
+
+    const { data: race, error: raceError } = await supabase
+      .from('race_pools')
+      .select('id, creator_wallet, status')
+      .eq('id', raceId)
+      .single();
+
+    if (raceError || !race) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Race not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Only the race creator may change who can win
+    if (!race.creator_wallet || race.creator_wallet !== walletAddress) {
+      console.error(`SECURITY: ${walletAddress} tried to edit exclusions for race ${raceId}`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only the race creator can edit exclusions' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (race.status === 'completed') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Race has already completed' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from('race_pools')
+      .update({ excluded_wallets: cleaned, updated_at: new Date().toISOString() })
+      .eq('id', raceId);
+
+    if (updateError) throw updateError;
+
+    console.log(`Race ${raceId}: exclusion list updated (${cleaned.length} wallets)`);
+
+    return new Response(
+      JSON.stringify({ success: true, exclusions: cleaned }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Update race exclusions error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
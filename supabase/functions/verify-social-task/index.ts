@@ -0,0 +1,162 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+import {
+  CompletionRow,
+  MAX_VERIFICATION_ATTEMPTS,
+  MIN_VERIFICATION_INTERVAL_SECONDS,
+  SocialTask,
+  createLiveVerifiers,
+  verifyCompletion,
+} from '../_shared/social-verifiers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+const verifiers = createLiveVerifiers({
+  twitterBearerToken: Deno.env.get('TWITTER_BEARER_TOKEN'),
+  telegramBotToken: Deno.env.get('TELEGRAM_BOT_TOKEN'),
+  discordBotToken: Deno.env.get('DISCORD_BOT_TOKEN'),
+});
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+// Checks a started social task with its platform's verifier. A verified task adds
+// its points to the pool and counts towards the running epoch; a rejected one can be
+// retried after the wallet has actually done it, up to MAX_VERIFICATION_ATTEMPTS.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { walletAddress, poolId, taskId } = await req.json();
+
+    if (!walletAddress || !poolId || !taskId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required fields: walletAddress, poolId and taskId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: The acting wallet must be the one that signed in
+    const session = await requireWalletSession(supabase, req, walletAddress);
+    if (!session.ok) {
+      return new Response(
+        JSON.stringify({ success: false, error: session.error }),
+        { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to verify a social task`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: completion, error: completionError } = await supabase
+      .from('social_farming_completions')
+      .select('id, pool_id, wallet_address, task_id, points_earned, status, verification_attempts, started_at, last_verification_at')
+      .eq('pool_id', poolId)
+      .eq('wallet_address', walletAddress)
+      .eq('task_id', taskId)
+      .maybeSingle();
+
+    if (completionError) throw completionError;
+
+    if (!completion) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Start the task before verifying it' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (completion.status === 'verified') {
+      return new Response(
+        JSON.stringify({ success: true, status: 'verified', points: completion.points_earned }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (completion.verification_attempts >= MAX_VERIFICATION_ATTEMPTS) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This task failed verification too many times', status: 'rejected' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const now = new Date();
+    if (completion.last_verification_at &&
+      now.getTime() - new Date(completion.last_verification_at).getTime() < MIN_VERIFICATION_INTERVAL_SECONDS * 1000) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Wait ${MIN_VERIFICATION_INTERVAL_SECONDS}s between verification attempts`, status: completion.status }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: pool, error: poolError } = await supabase
+      .from('social_farming_pools')
+      .select('id, tasks')
+      .eq('id', poolId)
+      .single();
+
+    if (poolError || !pool) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const task = ((pool.tasks as SocialTask[]) || []).find(t => t.id === taskId);
+    if (!task) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Task not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const outcome = await verifyCompletion(supabase, verifiers, completion as CompletionRow, task, now);
+    console.log(`Social task ${taskId} in pool ${poolId} for ${walletAddress}: ${outcome.status}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...outcome,
+        attemptsLeft: outcome.status === 'rejected'
+          ? Math.max(MAX_VERIFICATION_ATTEMPTS - completion.verification_attempts - 1, 0)
+          : undefined
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Verify social task error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,192 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import nacl from 'https://esm.sh/tweetnacl@1.0.3';
+import bs58 from 'https://esm.sh/bs58@5.0.0';
+import { decode as base64Decode } from 'https://deno.land/std@0.208.0/encoding/base64.ts';
+import { SESSION_CORS_HEADERS, hashSessionToken } from '../_shared/wallet-session.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': SESSION_CORS_HEADERS,
+};
+
+const NONCE_TTL_MINUTES = 5;
+const SESSION_TTL_HOURS = 4;
+
+// SECURITY: Check if wallet is blocked
+async function isWalletBlocked(supabase: SupabaseClient, walletAddress: string): Promise<{ blocked: boolean; reason?: string }> {
+  const { data } = await supabase
+    .from('blocked_wallets')
+    .select('reason')
+    .eq('wallet_address', walletAddress)
+    .eq('is_active', true)
+    .single();
+
+  if (data) {
+    return { blocked: true, reason: data.reason };
+  }
+  return { blocked: false };
+}
+
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return Array.from(buffer)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function isValidWalletAddress(walletAddress: string): boolean {
+  try {
+    return bs58.decode(walletAddress).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+function buildSignInMessage(walletAddress: string, nonce: string, issuedAt: string, expiresAt: string): string {
+  return [
+    'Pumpad wants you to sign in with your Solana account:',
+    walletAddress,
+    '',
+    'Sign in to authorize actions for this wallet. This request does not trigger a transaction or cost any SOL.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+    `Expiration Time: ${expiresAt}`,
+  ].join('\n');
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, walletAddress, nonce, signature } = await req.json();
+
+    if (!walletAddress || !isValidWalletAddress(walletAddress)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid wallet address' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // SECURITY: Check if wallet is blocked
+    const blockCheck = await isWalletBlocked(supabase, walletAddress);
+    if (blockCheck.blocked) {
+      console.error(`SECURITY: Blocked wallet ${walletAddress} attempted to sign in`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This wallet has been suspended' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Step 1: issue a one-time nonce and the exact message the wallet must sign
+    if (action === 'nonce') {
+      const newNonce = randomHex(16);
+      const issuedAt = new Date().toISOString();
+      const expiresAt = new Date(Date.now() + NONCE_TTL_MINUTES * 60 * 1000).toISOString();
+      const message = buildSignInMessage(walletAddress, newNonce, issuedAt, expiresAt);
+
+      const { error: nonceError } = await supabase
+        .from('auth_nonces')
+        .insert({
+          nonce: newNonce,
+          wallet_address: walletAddress,
+          message,
+          expires_at: expiresAt,
+        });
+
+      if (nonceError) throw nonceError;
+
+      return new Response(
+        JSON.stringify({ success: true, nonce: newNonce, message, expiresAt }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Step 2: verify the signed message and exchange it for a session token
+    if (action === 'verify') {
+      if (!nonce || !signature) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Missing nonce or signature' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // SECURITY: Consume the nonce atomically so a signature can only be exchanged once
+      const { data: consumed } = await supabase
+        .from('auth_nonces')
+        .update({ used_at: new Date().toISOString() })
+        .eq('nonce', nonce)
+        .eq('wallet_address', walletAddress)
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .select('message');
+
+      if (!consumed || consumed.length === 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Sign-in request expired, please try again' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      let validSignature = false;
+      try {
+        validSignature = nacl.sign.detached.verify(
+          new TextEncoder().encode(consumed[0].message),
+          base64Decode(signature),
+          bs58.decode(walletAddress)
+        );
+      } catch (verifyError) {
+        console.error('Signature decode error:', verifyError);
+      }
+
+      if (!validSignature) {
+        console.error(`SECURITY: Invalid sign-in signature for ${walletAddress}`);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid signature' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const token = randomHex(32);
+      const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+      // Only the hash is stored, so a database leak does not leak usable sessions
+      const { error: sessionError } = await supabase
+        .from('wallet_sessions')
+        .insert({
+          token_hash: await hashSessionToken(token),
+          wallet_address: walletAddress,
+          expires_at: expiresAt,
+        });
+
+      if (sessionError) throw sessionError;
+
+      console.log(`Wallet session issued for ${walletAddress}, expires ${expiresAt}`);
+
+      return new Response(
+        JSON.stringify({ success: true, token, expiresAt }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unknown action' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Wallet auth error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
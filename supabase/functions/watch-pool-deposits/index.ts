@@ -0,0 +1,243 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CRON_SECRET_HEADER, hasCronSecret } from '../_shared/cron-secret.ts';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': `${SESSION_CORS_HEADERS}, ${CRON_SECRET_HEADER}`,
+};
+
+const BATCH_SIZE = 100;
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+type PoolType = 'burn' | 'race';
+
+interface PendingPool {
+  id: string;
+  contract_address: string;
+  token_decimals: number | null;
+  deposit_wallet_address: string;
+  funding_expires_at: string | null;
+  reward_supply?: number;
+  prize_pool?: number;
+  total_rounds?: number | null;
+  round_length_minutes?: number | null;
+}
+
+type FundingOutcome = 'activated' | 'activated_partial' | 'expired' | 'waiting';
+
+const POOL_TABLES: Record<PoolType, { table: string; columns: string }> = {
+  burn: {
+    table: 'burn_pools',
+    columns: 'id, contract_address, token_decimals, deposit_wallet_address, funding_expires_at, reward_supply',
+  },
+  race: {
+    table: 'race_pools',
+    columns: 'id, contract_address, token_decimals, deposit_wallet_address, funding_expires_at, prize_pool, total_rounds, round_length_minutes',
+  },
+};
+
+async function rpcCall(method: string, params: unknown[]) {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || `RPC ${method} failed`);
+  }
+  return data.result;
+}
+
+// The deposit wallet's holding of the pool token across all its token accounts
+async function getTokenBalance(owner: string, mint: string): Promise<number> {
+  const result = await rpcCall('getTokenAccountsByOwner', [
+    owner,
+    { mint },
+    { encoding: 'jsonParsed', commitment: 'confirmed' }
+  ]);
+
+  return (result?.value || []).reduce(
+    (sum: number, account: { account: { data: { parsed: { info: { tokenAmount: { uiAmountString: string } } } } } }) =>
+      sum + Number(account.account.data.parsed.info.tokenAmount.uiAmountString || 0),
+    0
+  );
+}
+
+// The rewards a pool goes live with: the reward supply of a burn pool, the prize pool of a
+// race (split evenly over its rounds). A race's first round starts when it goes live.
+function getActivation(poolType: PoolType, pool: PendingPool, funded: number, nowIso: string): Record<string, unknown> {
+  if (poolType === 'burn') {
+    return { status: 'active', reward_supply: funded, funded_at: nowIso };
+  }
+
+  const rounds = Math.max(1, Number(pool.total_rounds) || 1);
+  return {
+    status: 'active',
+    prize_pool: funded,
+    daily_reward_amount: funded / rounds,
+    round_started_at: nowIso,
+    time_remaining_hours: Math.ceil((pool.round_length_minutes || 24 * 60) / 60),
+    funded_at: nowIso,
+  };
+}
+
+async function checkPool(
+  supabase: SupabaseClient,
+  poolType: PoolType,
+  pool: PendingPool,
+  now: Date
+): Promise<{ outcome: FundingOutcome; balance: number }> {
+  const balance = await getTokenBalance(pool.deposit_wallet_address, pool.contract_address);
+  const requested = Number(poolType === 'burn' ? pool.reward_supply : pool.prize_pool);
+
+  // One raw token unit of slack for decimal rounding in the RPC's UI amounts
+  const tolerance = Math.pow(10, -(pool.token_decimals ?? 6));
+  const fullyFunded = balance + tolerance >= requested;
+  const windowClosed = !!pool.funding_expires_at && now.getTime() >= new Date(pool.funding_expires_at).getTime();
+  const nowIso = now.toISOString();
+
+  let outcome: FundingOutcome;
+  let update: Record<string, unknown>;
+  if (fullyFunded) {
+    outcome = 'activated';
+    update = getActivation(poolType, pool, requested, nowIso);
+  } else if (windowClosed && balance > 0) {
+    // A partial deposit still launches, paying out only what actually arrived
+    outcome = 'activated_partial';
+    update = getActivation(poolType, pool, balance, nowIso);
+  } else if (windowClosed) {
+    outcome = 'expired';
+    update = { status: 'expired' };
+  } else {
+    outcome = 'waiting';
+    update = {};
+  }
+
+  // Only a pool that is still pending moves on, so overlapping runs cannot activate it twice
+  const { data: updated, error } = await supabase
+    .from(POOL_TABLES[poolType].table)
+    .update({ ...update, funded_amount: balance, funding_checked_at: nowIso })
+    .eq('id', pool.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) {
+    return { outcome: 'waiting', balance };
+  }
+
+  return { outcome, balance };
+}
+
+// Scheduled job: settles pending burn pools and races against their deposit wallets, as
+// watch-staking-deposits does for staking pools. Fully funded ones go live right away;
+// when the funding window closes, partly funded ones go live with what arrived and
+// unfunded ones expire. Creators can pass { poolType, poolId } with their wallet session
+// to check their pool without waiting for the schedule; full runs need the cron secret.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    const poolId = typeof body?.poolId === 'string' ? body.poolId : null;
+    const poolType: PoolType | null = body?.poolType === 'burn' || body?.poolType === 'race' ? body.poolType : null;
+
+    // SECURITY: Full runs are for the scheduler only; a creator may check just their own pool
+    if (!hasCronSecret(req)) {
+      if (!poolId || !poolType) {
+        console.error('SECURITY: Unauthorized pool deposit watcher run');
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const session = await requireWalletSession(supabase, req);
+      if (!session.ok) {
+        return new Response(
+          JSON.stringify({ success: false, error: session.error }),
+          { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: owned } = await supabase
+        .from(POOL_TABLES[poolType].table)
+        .select('creator_wallet')
+        .eq('id', poolId)
+        .maybeSingle();
+
+      if (!owned || owned.creator_wallet !== session.walletAddress) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only the pool creator can check its deposit' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const now = new Date();
+    const summary = { activated: 0, activated_partial: 0, expired: 0, waiting: 0, errors: 0 };
+    const results: Array<{ poolType: PoolType; poolId: string; outcome: FundingOutcome; fundedAmount: number }> = [];
+
+    const poolTypes: PoolType[] = poolType ? [poolType] : ['burn', 'race'];
+    for (const type of poolTypes) {
+      let query = supabase
+        .from(POOL_TABLES[type].table)
+        .select(POOL_TABLES[type].columns)
+        .eq('status', 'pending')
+        .not('deposit_wallet_address', 'is', null);
+      query = poolId
+        ? query.eq('id', poolId)
+        : query.order('funding_checked_at', { ascending: true, nullsFirst: true }).limit(BATCH_SIZE);
+
+      const { data: pools, error: poolsError } = await query;
+      if (poolsError) throw poolsError;
+
+      if (poolId && (!pools || pools.length === 0)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Pool is not waiting for a deposit' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      for (const pool of (pools as unknown as PendingPool[]) || []) {
+        try {
+          const { outcome, balance } = await checkPool(supabase, type, pool, now);
+          summary[outcome]++;
+          results.push({ poolType: type, poolId: pool.id, outcome, fundedAmount: balance });
+          if (outcome !== 'waiting') {
+            console.log(`${type} pool ${pool.id}: ${outcome} with ${balance} deposited`);
+          }
+        } catch (poolError) {
+          console.error(`${type} pool ${pool.id}: funding check failed:`, poolError);
+          summary.errors++;
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, summary, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Pool deposit watcher error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
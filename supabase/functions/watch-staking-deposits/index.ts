@@ -0,0 +1,290 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { NATIVE_SOL_DECIMALS, isNativeSol } from '../_shared/staking-streams.ts';
+import { CRON_SECRET_HEADER, hasCronSecret } from '../_shared/cron-secret.ts';
+import { SESSION_CORS_HEADERS, requireWalletSession } from '../_shared/wallet-session.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': `${SESSION_CORS_HEADERS}, ${CRON_SECRET_HEADER}`,
+};
+
+const BATCH_SIZE = 100;
+
+const HELIUS_API_KEY = Deno.env.get('HELIUS_API_KEY');
+const RPC_URL = HELIUS_API_KEY
+  ? `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+  : 'https://api.mainnet-beta.solana.com';
+
+interface PendingPool {
+  id: string;
+  contract_address: string;
+  token_decimals: number | null;
+  deposit_wallet_address: string | null;
+  requested_allocation: number | null;
+  allocation: number;
+  funded_amount: number | null;
+  funding_expires_at: string | null;
+}
+
+interface PendingStream {
+  id: string;
+  pool_id: string;
+  mint: string;
+  token_decimals: number;
+  deposit_wallet_address: string;
+  requested_allocation: number;
+  funding_expires_at: string;
+}
+
+type FundingOutcome = 'activated' | 'activated_partial' | 'expired' | 'waiting';
+
+async function rpcCall(method: string, params: unknown[]) {
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || `RPC ${method} failed`);
+  }
+  return data.result;
+}
+
+// The deposit wallet's holding of the pool token across all its token accounts
+async function getTokenBalance(owner: string, mint: string): Promise<number> {
+  const result = await rpcCall('getTokenAccountsByOwner', [
+    owner,
+    { mint },
+    { encoding: 'jsonParsed', commitment: 'confirmed' }
+  ]);
+
+  return (result?.value || []).reduce(
+    (sum: number, account: { account: { data: { parsed: { info: { tokenAmount: { uiAmountString: string } } } } } }) =>
+      sum + Number(account.account.data.parsed.info.tokenAmount.uiAmountString || 0),
+    0
+  );
+}
+
+async function getSolBalance(owner: string): Promise<number> {
+  const result = await rpcCall('getBalance', [owner, { commitment: 'confirmed' }]);
+  return Number(result?.value || 0) / Math.pow(10, NATIVE_SOL_DECIMALS);
+}
+
+// Where a pool or stream stands against its requested allocation, and the columns that record it
+function decideFunding(
+  balance: number,
+  requested: number,
+  decimals: number,
+  fundingExpiresAt: string | null,
+  now: Date
+): { outcome: FundingOutcome; update: Record<string, unknown> } {
+  // One raw token unit of slack for decimal rounding in the RPC's UI amounts
+  const tolerance = Math.pow(10, -decimals);
+  const fullyFunded = balance + tolerance >= requested;
+  const windowClosed = !!fundingExpiresAt && now.getTime() >= new Date(fundingExpiresAt).getTime();
+  const nowIso = now.toISOString();
+
+  if (fullyFunded) {
+    return { outcome: 'activated', update: { status: 'active', allocation: requested, funded_at: nowIso, last_distribution_at: nowIso } };
+  }
+  if (windowClosed && balance > 0) {
+    // A partial deposit still launches, paying out only what actually arrived
+    return { outcome: 'activated_partial', update: { status: 'active', allocation: balance, funded_at: nowIso, last_distribution_at: nowIso } };
+  }
+  if (windowClosed) {
+    return { outcome: 'expired', update: { status: 'expired' } };
+  }
+  return { outcome: 'waiting', update: {} };
+}
+
+// Pools created before deposit wallets were recorded on staking_pools keep theirs in pool_wallets
+async function getDepositAddress(supabase: SupabaseClient, pool: PendingPool): Promise<string | null> {
+  if (pool.deposit_wallet_address) return pool.deposit_wallet_address;
+
+  const { data } = await supabase
+    .from('pool_wallets')
+    .select('wallet_address')
+    .eq('pool_id', pool.id)
+    .eq('pool_type', 'staking')
+    .maybeSingle();
+
+  return data?.wallet_address || null;
+}
+
+async function checkPool(supabase: SupabaseClient, pool: PendingPool, now: Date): Promise<{ outcome: FundingOutcome; balance: number }> {
+  const depositAddress = await getDepositAddress(supabase, pool);
+  const balance = depositAddress ? await getTokenBalance(depositAddress, pool.contract_address) : 0;
+
+  const requested = Number(pool.requested_allocation ?? pool.allocation);
+  const nowIso = now.toISOString();
+  const { outcome, update } = decideFunding(balance, requested, pool.token_decimals ?? 6, pool.funding_expires_at, now);
+  if (update.status === 'active') {
+    update.deposit_confirmed = true;
+  }
+
+  // Only a pool that is still pending moves on, so overlapping runs cannot activate it twice
+  const { data: updated, error } = await supabase
+    .from('staking_pools')
+    .update({ ...update, funded_amount: balance, funding_checked_at: nowIso })
+    .eq('id', pool.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) {
+    return { outcome: 'waiting', balance };
+  }
+
+  return { outcome, balance };
+}
+
+async function checkStream(supabase: SupabaseClient, stream: PendingStream, now: Date): Promise<{ outcome: FundingOutcome; balance: number }> {
+  const balance = isNativeSol(stream.mint)
+    ? await getSolBalance(stream.deposit_wallet_address)
+    : await getTokenBalance(stream.deposit_wallet_address, stream.mint);
+
+  const nowIso = now.toISOString();
+  const { outcome, update } = decideFunding(balance, Number(stream.requested_allocation), stream.token_decimals, stream.funding_expires_at, now);
+
+  const { data: updated, error } = await supabase
+    .from('staking_reward_streams')
+    .update({ ...update, funded_amount: balance, funding_checked_at: nowIso })
+    .eq('id', stream.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) {
+    return { outcome: 'waiting', balance };
+  }
+
+  return { outcome, balance };
+}
+
+// Scheduled job: settles pending staking pools, and pending reward streams, against
+// their deposit wallets. Fully funded ones go live right away; when the funding window
+// closes, partly funded ones go live with a reduced allocation and unfunded ones expire.
+// Creators can pass { poolId } with their wallet session to check their pool and its streams
+// without waiting for the schedule; full runs need the scheduler's cron secret.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    const poolId = typeof body?.poolId === 'string' ? body.poolId : null;
+
+    // SECURITY: Full runs are for the scheduler only; a creator may check just their own pool
+    if (!hasCronSecret(req)) {
+      if (!poolId) {
+        console.error('SECURITY: Unauthorized deposit watcher run');
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const session = await requireWalletSession(supabase, req);
+      if (!session.ok) {
+        return new Response(
+          JSON.stringify({ success: false, error: session.error }),
+          { status: session.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: owned } = await supabase
+        .from('staking_pools')
+        .select('creator_wallet')
+        .eq('id', poolId)
+        .maybeSingle();
+
+      if (!owned || owned.creator_wallet !== session.walletAddress) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only the pool creator can check its deposit' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    let query = supabase
+      .from('staking_pools')
+      .select('id, contract_address, token_decimals, deposit_wallet_address, requested_allocation, allocation, funded_amount, funding_expires_at')
+      .eq('status', 'pending');
+    query = poolId
+      ? query.eq('id', poolId)
+      : query.order('funding_checked_at', { ascending: true, nullsFirst: true }).limit(BATCH_SIZE);
+
+    const { data: pools, error: poolsError } = await query;
+    if (poolsError) throw poolsError;
+
+    let streamQuery = supabase
+      .from('staking_reward_streams')
+      .select('id, pool_id, mint, token_decimals, deposit_wallet_address, requested_allocation, funding_expires_at')
+      .eq('status', 'pending');
+    streamQuery = poolId
+      ? streamQuery.eq('pool_id', poolId)
+      : streamQuery.order('funding_checked_at', { ascending: true, nullsFirst: true }).limit(BATCH_SIZE);
+
+    const { data: streams, error: streamsError } = await streamQuery;
+    if (streamsError) throw streamsError;
+
+    if (poolId && (!pools || pools.length === 0) && (!streams || streams.length === 0)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Pool is not waiting for a deposit' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const now = new Date();
+    const summary = { activated: 0, activated_partial: 0, expired: 0, waiting: 0, errors: 0 };
+    const results: Array<{ poolId: string; outcome: FundingOutcome; fundedAmount: number }> = [];
+    const streamResults: Array<{ streamId: string; poolId: string; outcome: FundingOutcome; fundedAmount: number }> = [];
+
+    for (const pool of (pools as PendingPool[]) || []) {
+      try {
+        const { outcome, balance } = await checkPool(supabase, pool, now);
+        summary[outcome]++;
+        results.push({ poolId: pool.id, outcome, fundedAmount: balance });
+        if (outcome !== 'waiting') {
+          console.log(`Pool ${pool.id}: ${outcome} with ${balance} of ${pool.requested_allocation ?? pool.allocation} deposited`);
+        }
+      } catch (poolError) {
+        console.error(`Pool ${pool.id}: funding check failed:`, poolError);
+        summary.errors++;
+      }
+    }
+
+    for (const stream of (streams as PendingStream[]) || []) {
+      try {
+        const { outcome, balance } = await checkStream(supabase, stream, now);
+        streamResults.push({ streamId: stream.id, poolId: stream.pool_id, outcome, fundedAmount: balance });
+        if (outcome !== 'waiting') {
+          console.log(`Stream ${stream.id} (pool ${stream.pool_id}): ${outcome} with ${balance} of ${stream.requested_allocation} deposited`);
+        }
+      } catch (streamError) {
+        console.error(`Stream ${stream.id}: funding check failed:`, streamError);
+        summary.errors++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, summary, results, streamResults }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Staking deposit watcher error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
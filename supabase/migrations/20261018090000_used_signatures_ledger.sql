@@ -0,0 +1,18 @@
+-- Permanent ledger of on-chain signatures that have already been credited.
+-- Replaces the 60-second duplicate window on burn_transactions: a signature
+-- can only ever be claimed once, across every feature that consumes it.
+CREATE TABLE IF NOT EXISTS public.used_signatures (
+  signature TEXT PRIMARY KEY,
+  feature TEXT NOT NULL,
+  wallet_address TEXT NOT NULL,
+  pool_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_used_signatures_wallet ON public.used_signatures (wallet_address);
+
+-- Only edge functions (service role) read or write the ledger
+ALTER TABLE public.used_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Keep the burn signature alongside each result so it can be audited
+ALTER TABLE public.burn_transactions ADD COLUMN IF NOT EXISTS tx_hash TEXT;
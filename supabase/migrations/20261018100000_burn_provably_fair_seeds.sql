@@ -0,0 +1,76 @@
+-- Commit-reveal server seeds for burn pools.
+-- Only the SHA-256 of the active seed is public; the seed itself is revealed
+-- when it rotates so every roll made with it can be recomputed by anyone.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.burn_seeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.burn_pools(id) ON DELETE CASCADE,
+  server_seed TEXT NOT NULL,
+  server_seed_hash TEXT NOT NULL,
+  next_nonce INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revealed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revealed_at TIMESTAMPTZ
+);
+
+-- At most one active seed per pool
+CREATE UNIQUE INDEX IF NOT EXISTS idx_burn_seeds_one_active
+  ON public.burn_seeds (pool_id) WHERE status = 'active';
+
+-- The raw table holds unrevealed seeds, so it stays service-role only
+ALTER TABLE public.burn_seeds ENABLE ROW LEVEL SECURITY;
+
+-- Public view: the seed is only exposed after it has been revealed
+CREATE OR REPLACE VIEW public.burn_seeds_public AS
+SELECT
+  id,
+  pool_id,
+  server_seed_hash,
+  CASE WHEN status = 'revealed' THEN server_seed END AS server_seed,
+  next_nonce,
+  status,
+  created_at,
+  revealed_at
+FROM public.burn_seeds;
+
+GRANT SELECT ON public.burn_seeds_public TO anon, authenticated;
+
+-- Record everything needed to recompute each roll
+ALTER TABLE public.burn_transactions
+  ADD COLUMN IF NOT EXISTS seed_id UUID REFERENCES public.burn_seeds(id),
+  ADD COLUMN IF NOT EXISTS client_seed TEXT,
+  ADD COLUMN IF NOT EXISTS nonce INTEGER,
+  ADD COLUMN IF NOT EXISTS roll DOUBLE PRECISION;
+
+-- Commit a seed as soon as a pool exists so its hash is public before the first burn
+CREATE OR REPLACE FUNCTION public.commit_initial_burn_seed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seed TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  INSERT INTO public.burn_seeds (pool_id, server_seed, server_seed_hash)
+  VALUES (NEW.id, seed, encode(digest(seed, 'sha256'), 'hex'))
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS burn_pools_commit_seed ON public.burn_pools;
+CREATE TRIGGER burn_pools_commit_seed
+  AFTER INSERT ON public.burn_pools
+  FOR EACH ROW EXECUTE FUNCTION public.commit_initial_burn_seed();
+
+-- Backfill existing open pools
+INSERT INTO public.burn_seeds (pool_id, server_seed, server_seed_hash)
+SELECT pool_id, seed, encode(digest(seed, 'sha256'), 'hex')
+FROM (
+  SELECT id AS pool_id, encode(gen_random_bytes(32), 'hex') AS seed
+  FROM public.burn_pools
+  WHERE status <> 'completed'
+) pools
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,46 @@
+-- Configurable odds and payout multipliers per burn pool.
+-- payout_table is an ordered array of { "chance": percent, "multiplier": x },
+-- where a multiplier of 0 is a loss. Defaults to the original 50% for 2x.
+ALTER TABLE public.burn_pools
+  ADD COLUMN IF NOT EXISTS payout_table JSONB NOT NULL
+    DEFAULT '[{"chance": 50, "multiplier": 2}, {"chance": 50, "multiplier": 0}]'::jsonb;
+
+ALTER TABLE public.burn_transactions
+  ADD COLUMN IF NOT EXISTS multiplier DOUBLE PRECISION;
+
+-- Mirrors validatePayoutTable in supabase/functions/_shared/burn-payouts.ts
+CREATE OR REPLACE FUNCTION public.is_valid_payout_table(tbl JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  tier JSONB;
+  total_chance NUMERIC := 0;
+  expected_return NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(tbl) <> 'array' OR jsonb_array_length(tbl) < 2 OR jsonb_array_length(tbl) > 10 THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR tier IN SELECT * FROM jsonb_array_elements(tbl) LOOP
+    IF jsonb_typeof(tier->'chance') <> 'number' OR jsonb_typeof(tier->'multiplier') <> 'number' THEN
+      RETURN FALSE;
+    END IF;
+    IF (tier->>'chance')::NUMERIC <= 0
+      OR (tier->>'multiplier')::NUMERIC < 0
+      OR (tier->>'multiplier')::NUMERIC > 100 THEN
+      RETURN FALSE;
+    END IF;
+    total_chance := total_chance + (tier->>'chance')::NUMERIC;
+    expected_return := expected_return + (tier->>'chance')::NUMERIC / 100 * (tier->>'multiplier')::NUMERIC;
+  END LOOP;
+
+  RETURN abs(total_chance - 100) <= 0.0001 AND expected_return <= 1.0001;
+END;
+$$;
+
+ALTER TABLE public.burn_pools
+  DROP CONSTRAINT IF EXISTS burn_pools_payout_table_valid;
+ALTER TABLE public.burn_pools
+  ADD CONSTRAINT burn_pools_payout_table_valid CHECK (public.is_valid_payout_table(payout_table));
@@ -0,0 +1,25 @@
+-- Sign-in-with-Solana for edge functions.
+-- wallet-auth issues a one-time nonce, the wallet signs it, and the server
+-- exchanges the signature for a short-lived session token (stored hashed).
+CREATE TABLE IF NOT EXISTS public.auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  message TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.wallet_sessions (
+  token_hash TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_sessions_wallet ON public.wallet_sessions (wallet_address);
+
+-- Service role only: nonces and session hashes are never exposed to clients
+ALTER TABLE public.auth_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,46 @@
+-- Envelope encryption for custodial wallet keys (see functions/_shared/key-vault.ts).
+-- Existing rows keep encryption_scheme = 'xor' until the migrate-wallet-keys
+-- function re-encrypts them under a per-wallet AES-GCM data key.
+ALTER TABLE public.safu_launches
+  ADD COLUMN IF NOT EXISTS encryption_scheme TEXT NOT NULL DEFAULT 'xor',
+  ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT,
+  ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+ALTER TABLE public.pool_wallets
+  ADD COLUMN IF NOT EXISTS encryption_scheme TEXT NOT NULL DEFAULT 'xor',
+  ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT,
+  ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+-- One row per private key decryption: which function, for which launch/pool, and why
+CREATE TABLE IF NOT EXISTS public.key_vault_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name TEXT NOT NULL,
+  wallet_table TEXT NOT NULL CHECK (wallet_table IN ('safu_launches', 'pool_wallets')),
+  record_id UUID NOT NULL,
+  launch_id UUID,
+  pool_id UUID,
+  reason TEXT NOT NULL,
+  key_version INTEGER,
+  encryption_scheme TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_vault_audit_record ON public.key_vault_audit_log (wallet_table, record_id);
+CREATE INDEX IF NOT EXISTS idx_key_vault_audit_created ON public.key_vault_audit_log (created_at DESC);
+
+-- Service role only, and append-only even for it
+ALTER TABLE public.key_vault_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.prevent_key_vault_audit_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'key_vault_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS key_vault_audit_log_append_only ON public.key_vault_audit_log;
+CREATE TRIGGER key_vault_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.key_vault_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_key_vault_audit_changes();
@@ -0,0 +1,32 @@
+-- SAFU token claim state machine: unclaimed -> claiming -> claimed | failed
+-- claim-safu-tokens takes the claim with a conditional update (only from
+-- unclaimed/failed), records the signed transaction's signature before sending
+-- it, and reconcile-safu-claims resolves claims left in 'claiming' from the chain.
+ALTER TABLE public.safu_contributions
+  ADD COLUMN IF NOT EXISTS claim_status TEXT NOT NULL DEFAULT 'unclaimed',
+  ADD COLUMN IF NOT EXISTS claim_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS claim_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS claim_tx_signature TEXT,
+  ADD COLUMN IF NOT EXISTS claim_last_valid_block_height BIGINT,
+  ADD COLUMN IF NOT EXISTS claim_error TEXT;
+
+UPDATE public.safu_contributions
+SET claim_status = 'claimed'
+WHERE claimed = true AND claim_status = 'unclaimed';
+
+ALTER TABLE public.safu_contributions
+  DROP CONSTRAINT IF EXISTS safu_contributions_claim_status_check;
+ALTER TABLE public.safu_contributions
+  ADD CONSTRAINT safu_contributions_claim_status_check
+  CHECK (claim_status IN ('unclaimed', 'claiming', 'claimed', 'failed'));
+
+-- The legacy boolean must agree with the state machine
+ALTER TABLE public.safu_contributions
+  DROP CONSTRAINT IF EXISTS safu_contributions_claimed_consistent;
+ALTER TABLE public.safu_contributions
+  ADD CONSTRAINT safu_contributions_claimed_consistent
+  CHECK (claimed = (claim_status = 'claimed'));
+
+CREATE INDEX IF NOT EXISTS idx_safu_contributions_claiming
+  ON public.safu_contributions (claim_started_at)
+  WHERE claim_status = 'claiming';
@@ -0,0 +1,74 @@
+-- Server-side staking reward accrual (see functions/accrue-staking-rewards).
+-- Rewards are computed from time-weighted balances: every change to a stake's
+-- amount folds the elapsed amount x seconds into accrued_amount_seconds, so the
+-- engine pays for the balance actually held over the whole period.
+ALTER TABLE public.user_stakes
+  ADD COLUMN IF NOT EXISTS locked_rewards NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS accrued_amount_seconds NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS balance_updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS rewards_accrued_at TIMESTAMPTZ;
+
+UPDATE public.user_stakes
+SET balance_updated_at = joined_at
+WHERE pool_type = 'staking' AND joined_at IS NOT NULL;
+
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS last_accrual_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.track_stake_balance_seconds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.accrued_amount_seconds := 0;
+    NEW.balance_updated_at := now();
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds
+      + COALESCE(OLD.amount, 0) * GREATEST(EXTRACT(EPOCH FROM now() - OLD.balance_updated_at), 0);
+    NEW.balance_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_stakes_track_balance_seconds ON public.user_stakes;
+CREATE TRIGGER user_stakes_track_balance_seconds
+  BEFORE INSERT OR UPDATE OF amount ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'staking')
+  EXECUTE FUNCTION public.track_stake_balance_seconds();
+
+-- SECURITY: Staking rewards are only ever written by the service role (the accrual
+-- engine and claim payouts). Client writes to these columns are ignored.
+CREATE OR REPLACE FUNCTION public.protect_staking_reward_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pending_rewards := 0;
+    NEW.locked_rewards := 0;
+    NEW.rewards_accrued_at := NULL;
+  ELSE
+    NEW.pending_rewards := OLD.pending_rewards;
+    NEW.locked_rewards := OLD.locked_rewards;
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds;
+    NEW.balance_updated_at := OLD.balance_updated_at;
+    NEW.rewards_accrued_at := OLD.rewards_accrued_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to sort before the balance tracker so it sees the client's raw values
+DROP TRIGGER IF EXISTS user_stakes_a_protect_rewards ON public.user_stakes;
+CREATE TRIGGER user_stakes_a_protect_rewards
+  BEFORE INSERT OR UPDATE ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'staking')
+  EXECUTE FUNCTION public.protect_staking_reward_columns();
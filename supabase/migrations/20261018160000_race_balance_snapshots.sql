@@ -0,0 +1,36 @@
+-- Periodic balance snapshots through each race round.
+-- distribute-race-rewards samples every participant's balance at the entry
+-- snapshot, every snapshot_interval_minutes during the holding phase, and at the
+-- end snapshot. Eligibility and rank come from the minimum or time-weighted
+-- balance across those samples, so selling and buying back mid-round no longer works.
+CREATE TABLE IF NOT EXISTS public.race_balance_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id UUID NOT NULL REFERENCES public.race_pools(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  wallet_address TEXT NOT NULL,
+  balance NUMERIC NOT NULL DEFAULT 0,
+  snapshot_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (race_id, round_number, wallet_address, snapshot_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_balance_snapshots_round
+  ON public.race_balance_snapshots (race_id, round_number, snapshot_at);
+
+ALTER TABLE public.race_balance_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Public read so anyone can audit a round; only the service role writes
+DROP POLICY IF EXISTS "Race balance snapshots are viewable by everyone" ON public.race_balance_snapshots;
+CREATE POLICY "Race balance snapshots are viewable by everyone"
+  ON public.race_balance_snapshots FOR SELECT
+  USING (true);
+
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS snapshot_interval_minutes INTEGER NOT NULL DEFAULT 60
+    CHECK (snapshot_interval_minutes BETWEEN 5 AND 1440),
+  ADD COLUMN IF NOT EXISTS eligibility_basis TEXT NOT NULL DEFAULT 'min'
+    CHECK (eligibility_basis IN ('min', 'time_weighted')),
+  ADD COLUMN IF NOT EXISTS last_balance_snapshot_at TIMESTAMPTZ;
+
+ALTER TABLE public.race_participants
+  ADD COLUMN IF NOT EXISTS min_balance NUMERIC,
+  ADD COLUMN IF NOT EXISTS time_weighted_balance NUMERIC;
@@ -0,0 +1,91 @@
+-- Configurable reward schedules per race.
+-- reward_schedule is { "curve": "tiers" | "linear" | "exponential" | "winner_takes_most",
+-- "places": n, "tiers": [{ "fromRank", "toRank", "percent" }], "decay", "winnerPercent",
+-- "maxRewardPerParticipant" }. Defaults to the original 60/30/10 split over the top 100.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS reward_schedule JSONB NOT NULL DEFAULT '{
+    "curve": "tiers",
+    "places": 100,
+    "tiers": [
+      {"fromRank": 1, "toRank": 10, "percent": 60},
+      {"fromRank": 11, "toRank": 50, "percent": 30},
+      {"fromRank": 51, "toRank": 100, "percent": 10}
+    ]
+  }'::jsonb;
+
+-- Mirrors validateRewardSchedule in distribute-race-rewards and supabase/functions/_shared/race-rewards.ts
+CREATE OR REPLACE FUNCTION public.is_valid_reward_schedule(schedule JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  places INTEGER;
+  tier JSONB;
+  total_percent NUMERIC := 0;
+  previous_to INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(schedule) <> 'object' OR jsonb_typeof(schedule->'places') <> 'number' THEN
+    RETURN FALSE;
+  END IF;
+
+  places := (schedule->>'places')::NUMERIC;
+  IF places < 1 OR places > 1000 OR (schedule->>'places')::NUMERIC <> places THEN
+    RETURN FALSE;
+  END IF;
+
+  IF schedule ? 'maxRewardPerParticipant' AND jsonb_typeof(schedule->'maxRewardPerParticipant') <> 'null' THEN
+    IF jsonb_typeof(schedule->'maxRewardPerParticipant') <> 'number' OR (schedule->>'maxRewardPerParticipant')::NUMERIC < 0 THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  CASE schedule->>'curve'
+    WHEN 'linear' THEN
+      RETURN TRUE;
+    WHEN 'exponential' THEN
+      RETURN jsonb_typeof(schedule->'decay') = 'number'
+        AND (schedule->>'decay')::NUMERIC > 0
+        AND (schedule->>'decay')::NUMERIC < 1;
+    WHEN 'winner_takes_most' THEN
+      RETURN jsonb_typeof(schedule->'winnerPercent') = 'number'
+        AND (schedule->>'winnerPercent')::NUMERIC > 0
+        AND (schedule->>'winnerPercent')::NUMERIC <= 100;
+    WHEN 'tiers' THEN
+      IF jsonb_typeof(schedule->'tiers') <> 'array'
+        OR jsonb_array_length(schedule->'tiers') < 1
+        OR jsonb_array_length(schedule->'tiers') > 10 THEN
+        RETURN FALSE;
+      END IF;
+
+      FOR tier IN
+        SELECT value FROM jsonb_array_elements(schedule->'tiers')
+        ORDER BY (value->>'fromRank')::NUMERIC
+      LOOP
+        IF jsonb_typeof(tier->'fromRank') <> 'number'
+          OR jsonb_typeof(tier->'toRank') <> 'number'
+          OR jsonb_typeof(tier->'percent') <> 'number' THEN
+          RETURN FALSE;
+        END IF;
+        IF (tier->>'fromRank')::NUMERIC < 1
+          OR (tier->>'toRank')::NUMERIC < (tier->>'fromRank')::NUMERIC
+          OR (tier->>'toRank')::NUMERIC > places
+          OR (tier->>'fromRank')::NUMERIC <= previous_to
+          OR (tier->>'percent')::NUMERIC <= 0 THEN
+          RETURN FALSE;
+        END IF;
+        previous_to := (tier->>'toRank')::NUMERIC;
+        total_percent := total_percent + (tier->>'percent')::NUMERIC;
+      END LOOP;
+
+      RETURN abs(total_percent - 100) <= 0.0001;
+    ELSE
+      RETURN FALSE;
+  END CASE;
+END;
+$$;
+
+ALTER TABLE public.race_pools
+  DROP CONSTRAINT IF EXISTS race_pools_reward_schedule_valid;
+ALTER TABLE public.race_pools
+  ADD CONSTRAINT race_pools_reward_schedule_valid CHECK (public.is_valid_reward_schedule(reward_schedule));
@@ -0,0 +1,29 @@
+-- Wallets that cannot win a race.
+-- excluded_wallets is the creator-editable list: [{ "address": "...", "reason": "..." }].
+-- distribute-race-rewards also auto-excludes the bonding curve, AMM vaults and
+-- other program-owned accounts, known exchange hot wallets and the creator, and
+-- records every wallet it skipped per round in race_exclusions.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS excluded_wallets JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(excluded_wallets) = 'array' AND jsonb_array_length(excluded_wallets) <= 100);
+
+CREATE TABLE IF NOT EXISTS public.race_exclusions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id UUID NOT NULL REFERENCES public.race_pools(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  wallet_address TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('bonding_curve', 'amm_vault', 'program_owned', 'exchange', 'creator', 'manual')),
+  detail TEXT,
+  balance NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (race_id, round_number, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_exclusions_round ON public.race_exclusions (race_id, round_number);
+
+ALTER TABLE public.race_exclusions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Race exclusions are viewable by everyone" ON public.race_exclusions;
+CREATE POLICY "Race exclusions are viewable by everyone"
+  ON public.race_exclusions FOR SELECT
+  USING (true);
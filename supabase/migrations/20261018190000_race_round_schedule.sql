@@ -0,0 +1,18 @@
+-- Per-race round schedule.
+-- Each round opens at round_started_at, takes the entry snapshot after
+-- entry_window_minutes and the end snapshot after round_length_minutes.
+-- Defaults keep the original 1 hour entry window and 24 hour round.
+-- Bounds mirror supabase/functions/_shared/race-schedule.ts and distribute-race-rewards.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS round_length_minutes INTEGER NOT NULL DEFAULT 1440
+    CHECK (round_length_minutes BETWEEN 60 AND 10080),
+  ADD COLUMN IF NOT EXISTS entry_window_minutes INTEGER NOT NULL DEFAULT 60
+    CHECK (entry_window_minutes >= 5);
+
+ALTER TABLE public.race_pools
+  DROP CONSTRAINT IF EXISTS race_pools_entry_window_within_round;
+
+-- Leave at least a quarter of the round for the holding phase
+ALTER TABLE public.race_pools
+  ADD CONSTRAINT race_pools_entry_window_within_round
+    CHECK (entry_window_minutes * 4 <= round_length_minutes * 3);
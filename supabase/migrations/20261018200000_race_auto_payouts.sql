@@ -0,0 +1,28 @@
+-- Opt-in push payouts for races.
+-- With auto_distribute on, distribute-race-rewards queues every eligible winner
+-- of a round and sends their rewards from the race pool wallet in batched SPL
+-- transfers. A payout moves queued -> sending -> paid | failed; failed payouts
+-- are retried with backoff until payout_attempts reaches the limit.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS auto_distribute BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.race_participants
+  ADD COLUMN IF NOT EXISTS payout_status TEXT
+    CHECK (payout_status IN ('queued', 'sending', 'paid', 'failed')),
+  ADD COLUMN IF NOT EXISTS payout_tx_signature TEXT,
+  ADD COLUMN IF NOT EXISTS payout_last_valid_block_height BIGINT,
+  ADD COLUMN IF NOT EXISTS payout_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS payout_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS payout_next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS payout_error TEXT;
+
+ALTER TABLE public.race_participants
+  DROP CONSTRAINT IF EXISTS race_participants_paid_is_claimed;
+
+ALTER TABLE public.race_participants
+  ADD CONSTRAINT race_participants_paid_is_claimed
+    CHECK (payout_status IS DISTINCT FROM 'paid' OR claimed = true);
+
+CREATE INDEX IF NOT EXISTS idx_race_participants_payout_status
+  ON public.race_participants (race_id, payout_status)
+  WHERE payout_status IS NOT NULL AND payout_status <> 'paid';
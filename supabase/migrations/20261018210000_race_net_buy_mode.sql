@@ -0,0 +1,53 @@
+-- Net-buy volume races.
+-- ranking_mode 'balance' ranks holders by balance (the original race); 'net_buy'
+-- ranks wallets by tokens bought minus tokens sold through swaps during the round.
+-- distribute-race-rewards scans swaps for the token into race_volume_trades and
+-- ranks from race_volume_leaderboard at the end of the round.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS ranking_mode TEXT NOT NULL DEFAULT 'balance'
+    CHECK (ranking_mode IN ('balance', 'net_buy')),
+  ADD COLUMN IF NOT EXISTS volume_cursor_signature TEXT,
+  ADD COLUMN IF NOT EXISTS last_volume_scan_at TIMESTAMPTZ;
+
+ALTER TABLE public.race_participants
+  ADD COLUMN IF NOT EXISTS net_buy_volume NUMERIC;
+
+-- One row per wallet per swap: token_amount is positive for buys, negative for sells
+CREATE TABLE IF NOT EXISTS public.race_volume_trades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id UUID NOT NULL REFERENCES public.race_pools(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  signature TEXT NOT NULL,
+  wallet_address TEXT NOT NULL,
+  token_amount NUMERIC NOT NULL,
+  source TEXT,
+  block_time TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (race_id, signature, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_volume_trades_round
+  ON public.race_volume_trades (race_id, round_number, wallet_address);
+
+ALTER TABLE public.race_volume_trades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Race volume trades are viewable by everyone" ON public.race_volume_trades;
+CREATE POLICY "Race volume trades are viewable by everyone"
+  ON public.race_volume_trades FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE VIEW public.race_volume_leaderboard
+WITH (security_invoker = true) AS
+SELECT
+  race_id,
+  round_number,
+  wallet_address,
+  SUM(GREATEST(token_amount, 0)) AS buy_volume,
+  SUM(GREATEST(-token_amount, 0)) AS sell_volume,
+  SUM(token_amount) AS net_volume,
+  COUNT(*) AS trade_count,
+  MAX(block_time) AS last_trade_at
+FROM public.race_volume_trades
+GROUP BY race_id, round_number, wallet_address;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.race_volume_trades;
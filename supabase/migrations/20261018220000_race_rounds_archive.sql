@@ -0,0 +1,28 @@
+-- Public archive of finished race rounds.
+-- distribute-race-rewards writes one row per round when its end snapshot
+-- completes, capturing the rules the round was decided under so later changes
+-- to the race do not rewrite history. Per-wallet outcomes stay in race_participants.
+CREATE TABLE IF NOT EXISTS public.race_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id UUID NOT NULL REFERENCES public.race_pools(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  started_at TIMESTAMPTZ,
+  entry_snapshot_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ranking_mode TEXT NOT NULL DEFAULT 'balance',
+  eligibility_basis TEXT,
+  reward_schedule JSONB NOT NULL,
+  round_pool NUMERIC NOT NULL DEFAULT 0,
+  participant_count INTEGER NOT NULL DEFAULT 0,
+  eligible_count INTEGER NOT NULL DEFAULT 0,
+  total_rewarded NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (race_id, round_number)
+);
+
+ALTER TABLE public.race_rounds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Race rounds are viewable by everyone" ON public.race_rounds;
+CREATE POLICY "Race rounds are viewable by everyone"
+  ON public.race_rounds FOR SELECT
+  USING (true);
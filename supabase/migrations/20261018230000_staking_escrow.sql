@@ -0,0 +1,91 @@
+-- Escrow custody for staking pools (see functions/stake-tokens and functions/unstake-tokens).
+-- 'balance' pools keep tracking wallet balances. 'escrow' pools hold staked tokens
+-- in a per-pool vault wallet: every verified deposit is its own position, locked for
+-- the pool's lock_period_days, and can only leave the vault through a server payout.
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS custody_mode TEXT NOT NULL DEFAULT 'balance',
+  ADD COLUMN IF NOT EXISTS vault_wallet_address TEXT;
+
+ALTER TABLE public.staking_pools
+  DROP CONSTRAINT IF EXISTS staking_pools_custody_mode_check;
+ALTER TABLE public.staking_pools
+  ADD CONSTRAINT staking_pools_custody_mode_check
+  CHECK (custody_mode IN ('balance', 'escrow'));
+
+ALTER TABLE public.staking_pools
+  DROP CONSTRAINT IF EXISTS staking_pools_escrow_vault_check;
+ALTER TABLE public.staking_pools
+  ADD CONSTRAINT staking_pools_escrow_vault_check
+  CHECK (custody_mode <> 'escrow' OR vault_wallet_address IS NOT NULL);
+
+-- Vault keys live in pool_wallets (pool_type 'staking_vault') next to the other custodial wallets
+ALTER TABLE public.pool_wallets
+  ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+
+-- One row per deposit. Withdrawals move active -> withdrawing -> withdrawn; a failed
+-- or expired payout returns the position to active so it can be retried.
+CREATE TABLE IF NOT EXISTS public.staking_deposits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.staking_pools(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  deposit_tx_signature TEXT NOT NULL UNIQUE,
+  deposited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_until TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'withdrawing', 'withdrawn')),
+  withdraw_tx_signature TEXT,
+  withdraw_last_valid_block_height BIGINT,
+  withdraw_started_at TIMESTAMPTZ,
+  withdrawn_at TIMESTAMPTZ,
+  withdraw_error TEXT,
+  CONSTRAINT staking_deposits_withdrawn_check CHECK (status <> 'withdrawn' OR withdraw_tx_signature IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staking_deposits_wallet ON public.staking_deposits (pool_id, wallet_address);
+CREATE INDEX IF NOT EXISTS idx_staking_deposits_withdrawing ON public.staking_deposits (status) WHERE status = 'withdrawing';
+
+-- Positions are public like stakes; only edge functions (service role) write them
+ALTER TABLE public.staking_deposits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staking deposits are viewable by everyone" ON public.staking_deposits;
+CREATE POLICY "Staking deposits are viewable by everyone"
+  ON public.staking_deposits
+  FOR SELECT
+  USING (true);
+
+-- SECURITY: In escrow pools the staked amount is the sum of verified deposits, so only
+-- the service role may set it. Client writes to the amount are ignored.
+CREATE OR REPLACE FUNCTION public.protect_escrow_stake_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.staking_pools
+    WHERE id = NEW.pool_id AND custody_mode = 'escrow'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.amount := 0;
+  ELSE
+    NEW.amount := OLD.amount;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts after the reward guard and before the balance tracker
+DROP TRIGGER IF EXISTS user_stakes_b_protect_escrow_amount ON public.user_stakes;
+CREATE TRIGGER user_stakes_b_protect_escrow_amount
+  BEFORE INSERT OR UPDATE ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'staking')
+  EXECUTE FUNCTION public.protect_escrow_stake_amount();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.staking_deposits;
@@ -0,0 +1,134 @@
+-- Lock-duration tiers for staking pools (e.g. 7 days at 100%, 30 days at 250%).
+-- apr_tiers is an array of { "days": lock days, "apr": percent }, sorted by days.
+-- Every stake records the tier it chose: user_stakes.apr is the rate the accrual
+-- engine pays on it, user_stakes.lock_days how long its rewards stay locked.
+-- staking_pools.apr and lock_period_days keep mirroring the shortest tier.
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS apr_tiers JSONB;
+
+ALTER TABLE public.user_stakes
+  ADD COLUMN IF NOT EXISTS apr NUMERIC,
+  ADD COLUMN IF NOT EXISTS lock_days INTEGER;
+
+ALTER TABLE public.staking_deposits
+  ADD COLUMN IF NOT EXISTS apr NUMERIC,
+  ADD COLUMN IF NOT EXISTS lock_days INTEGER;
+
+-- Existing pools become a single tier with their current terms
+UPDATE public.staking_pools
+SET apr_tiers = jsonb_build_array(jsonb_build_object('days', GREATEST(COALESCE(lock_period_days, 1), 1), 'apr', GREATEST(COALESCE(apr, 0), 0)))
+WHERE apr_tiers IS NULL;
+
+-- Backfilled before the guards below are installed, which would otherwise ignore these writes
+UPDATE public.user_stakes s
+SET apr = p.apr, lock_days = p.lock_period_days
+FROM public.staking_pools p
+WHERE s.pool_type = 'staking' AND s.pool_id = p.id AND s.apr IS NULL;
+
+UPDATE public.staking_deposits d
+SET apr = p.apr, lock_days = p.lock_period_days
+FROM public.staking_pools p
+WHERE d.pool_id = p.id AND d.apr IS NULL;
+
+ALTER TABLE public.staking_pools
+  ALTER COLUMN apr_tiers SET NOT NULL;
+
+ALTER TABLE public.staking_deposits
+  ALTER COLUMN apr SET NOT NULL,
+  ALTER COLUMN lock_days SET NOT NULL;
+
+-- Mirrors validateAprTiers in functions/_shared/staking-tiers.ts
+CREATE OR REPLACE FUNCTION public.is_valid_apr_tiers(tiers JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  tier JSONB;
+  previous_days NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(tiers) <> 'array' OR jsonb_array_length(tiers) < 1 OR jsonb_array_length(tiers) > 5 THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR tier IN SELECT * FROM jsonb_array_elements(tiers) LOOP
+    IF jsonb_typeof(tier->'days') <> 'number' OR jsonb_typeof(tier->'apr') <> 'number' THEN
+      RETURN FALSE;
+    END IF;
+    IF (tier->>'days')::NUMERIC <> trunc((tier->>'days')::NUMERIC)
+      OR (tier->>'days')::NUMERIC <= previous_days
+      OR (tier->>'days')::NUMERIC > 3650
+      OR (tier->>'apr')::NUMERIC < 0
+      OR (tier->>'apr')::NUMERIC > 10000 THEN
+      RETURN FALSE;
+    END IF;
+    previous_days := (tier->>'days')::NUMERIC;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+ALTER TABLE public.staking_pools
+  DROP CONSTRAINT IF EXISTS staking_pools_apr_tiers_valid;
+ALTER TABLE public.staking_pools
+  ADD CONSTRAINT staking_pools_apr_tiers_valid CHECK (public.is_valid_apr_tiers(apr_tiers));
+
+-- SECURITY: A stake's tier decides what it earns, so only the service role may set it
+CREATE OR REPLACE FUNCTION public.protect_staking_reward_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pending_rewards := 0;
+    NEW.locked_rewards := 0;
+    NEW.rewards_accrued_at := NULL;
+    NEW.apr := NULL;
+    NEW.lock_days := NULL;
+  ELSE
+    NEW.pending_rewards := OLD.pending_rewards;
+    NEW.locked_rewards := OLD.locked_rewards;
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds;
+    NEW.balance_updated_at := OLD.balance_updated_at;
+    NEW.rewards_accrued_at := OLD.rewards_accrued_at;
+    NEW.apr := OLD.apr;
+    NEW.lock_days := OLD.lock_days;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- accrued_amount_seconds is paid at the stake's current apr. When the rate changes
+-- (an escrow wallet's deposit mix changes its blended rate), the amount-seconds
+-- earned so far are re-expressed at the new rate so they keep their value.
+CREATE OR REPLACE FUNCTION public.track_stake_balance_seconds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.accrued_amount_seconds := 0;
+    NEW.balance_updated_at := now();
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount OR NEW.apr IS DISTINCT FROM OLD.apr THEN
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds
+      + COALESCE(OLD.amount, 0) * GREATEST(EXTRACT(EPOCH FROM now() - OLD.balance_updated_at), 0);
+    IF OLD.apr IS NOT NULL AND NEW.apr > 0 AND NEW.apr IS DISTINCT FROM OLD.apr THEN
+      NEW.accrued_amount_seconds := NEW.accrued_amount_seconds * OLD.apr / NEW.apr;
+    END IF;
+    NEW.balance_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_stakes_track_balance_seconds ON public.user_stakes;
+CREATE TRIGGER user_stakes_track_balance_seconds
+  BEFORE INSERT OR UPDATE OF amount, apr ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'staking')
+  EXECUTE FUNCTION public.track_stake_balance_seconds();
@@ -0,0 +1,73 @@
+-- Auto-compounding stakes (see functions/accrue-staking-rewards and functions/set-auto-compound).
+-- With auto_compound on, rewards the accrual engine releases are added to
+-- compounded_rewards instead of pending_rewards. They earn APR like staked principal
+-- but never move on-chain: they are still owed from the pool's reward allocation.
+-- Turning the flag off (or emptying the stake) releases them back to pending_rewards
+-- on the next accrual, so only the engine ever writes compounded_rewards.
+ALTER TABLE public.user_stakes
+  ADD COLUMN IF NOT EXISTS auto_compound BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS compounded_rewards NUMERIC NOT NULL DEFAULT 0;
+
+-- SECURITY: Only edge functions may flip the flag or move compounded rewards
+CREATE OR REPLACE FUNCTION public.protect_staking_reward_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pending_rewards := 0;
+    NEW.locked_rewards := 0;
+    NEW.rewards_accrued_at := NULL;
+    NEW.apr := NULL;
+    NEW.lock_days := NULL;
+    NEW.auto_compound := false;
+    NEW.compounded_rewards := 0;
+  ELSE
+    NEW.pending_rewards := OLD.pending_rewards;
+    NEW.locked_rewards := OLD.locked_rewards;
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds;
+    NEW.balance_updated_at := OLD.balance_updated_at;
+    NEW.rewards_accrued_at := OLD.rewards_accrued_at;
+    NEW.apr := OLD.apr;
+    NEW.lock_days := OLD.lock_days;
+    NEW.auto_compound := OLD.auto_compound;
+    NEW.compounded_rewards := OLD.compounded_rewards;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Compounded rewards earn like staked principal while anything is staked (see
+-- accrue-staking-rewards), so a balance change must fold them in with the amount.
+CREATE OR REPLACE FUNCTION public.stake_earning_principal(amount NUMERIC, compounded_rewards NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN COALESCE(amount, 0) > 0 THEN amount + COALESCE(compounded_rewards, 0) ELSE 0 END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_stake_balance_seconds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.accrued_amount_seconds := 0;
+    NEW.balance_updated_at := now();
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount OR NEW.apr IS DISTINCT FROM OLD.apr THEN
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds
+      + public.stake_earning_principal(OLD.amount, OLD.compounded_rewards)
+        * GREATEST(EXTRACT(EPOCH FROM now() - OLD.balance_updated_at), 0);
+    IF OLD.apr IS NOT NULL AND NEW.apr > 0 AND NEW.apr IS DISTINCT FROM OLD.apr THEN
+      NEW.accrued_amount_seconds := NEW.accrued_amount_seconds * OLD.apr / NEW.apr;
+    END IF;
+    NEW.balance_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- Funding lifecycle for staking pools (see functions/create-staking-pool and functions/watch-staking-deposits).
+-- A new pool is 'pending' with a reward deposit wallet (pool_wallets, pool_type 'staking')
+-- that must receive requested_allocation tokens before funding_expires_at:
+--   fully funded            -> 'active' as soon as the watcher sees the balance
+--   partly funded at expiry -> 'active' with allocation reduced to what arrived
+--   nothing at expiry       -> 'expired'
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS deposit_wallet_address TEXT,
+  ADD COLUMN IF NOT EXISTS requested_allocation NUMERIC,
+  ADD COLUMN IF NOT EXISTS funded_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_checked_at TIMESTAMPTZ;
+
+UPDATE public.staking_pools
+SET requested_allocation = allocation
+WHERE requested_allocation IS NULL;
+
+-- Pools left pending before this migration get one window from now to be funded
+UPDATE public.staking_pools
+SET funding_expires_at = now() + INTERVAL '48 hours'
+WHERE status = 'pending' AND funding_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_staking_pools_funding
+  ON public.staking_pools (funding_expires_at)
+  WHERE status = 'pending';
+
+-- SECURITY: Only edge functions move a pool through funding. Client writes to
+-- its status, allocation or funding state are ignored.
+CREATE OR REPLACE FUNCTION public.protect_staking_pool_funding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.deposit_confirmed := false;
+    NEW.funded_amount := 0;
+    NEW.funded_at := NULL;
+  ELSE
+    NEW.status := OLD.status;
+    NEW.deposit_confirmed := OLD.deposit_confirmed;
+    NEW.allocation := OLD.allocation;
+    NEW.requested_allocation := OLD.requested_allocation;
+    NEW.deposit_wallet_address := OLD.deposit_wallet_address;
+    NEW.funded_amount := OLD.funded_amount;
+    NEW.funded_at := OLD.funded_at;
+    NEW.funding_expires_at := OLD.funding_expires_at;
+    NEW.funding_checked_at := OLD.funding_checked_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS staking_pools_protect_funding ON public.staking_pools;
+CREATE TRIGGER staking_pools_protect_funding
+  BEFORE INSERT OR UPDATE ON public.staking_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_staking_pool_funding();
@@ -0,0 +1,156 @@
+-- Early-exit penalties for escrow staking pools (see functions/unstake-tokens).
+-- A position withdrawn before its lock ends pays early_exit_penalty_percent of its
+-- amount, decaying linearly to zero over the position's lock. The penalty is sent
+-- from the vault to the pool's reward wallet in the same transaction as the
+-- withdrawal, then credited pro-rata to the remaining stakers' pending_rewards.
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS early_exit_penalty_percent NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.staking_pools
+  DROP CONSTRAINT IF EXISTS staking_pools_early_exit_penalty_check;
+ALTER TABLE public.staking_pools
+  ADD CONSTRAINT staking_pools_early_exit_penalty_check
+  CHECK (early_exit_penalty_percent >= 0 AND early_exit_penalty_percent <= 50);
+
+-- Stakers lock in under the pool's terms, so the penalty can only be set when the pool is created
+CREATE OR REPLACE FUNCTION public.protect_staking_pool_penalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    NEW.early_exit_penalty_percent := OLD.early_exit_penalty_percent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS staking_pools_protect_penalty ON public.staking_pools;
+CREATE TRIGGER staking_pools_protect_penalty
+  BEFORE UPDATE ON public.staking_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_staking_pool_penalty();
+
+-- Fixed when a withdrawal is taken, so a retried or reconciled payout withholds the same amount
+ALTER TABLE public.staking_deposits
+  ADD COLUMN IF NOT EXISTS withdraw_penalty NUMERIC NOT NULL DEFAULT 0;
+
+-- Ledger: one row per penalised withdrawal, one credit row per staker it was shared with
+CREATE TABLE IF NOT EXISTS public.staking_penalties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.staking_pools(id) ON DELETE CASCADE,
+  deposit_id UUID NOT NULL UNIQUE REFERENCES public.staking_deposits(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  penalty_percent NUMERIC NOT NULL,
+  withdraw_tx_signature TEXT NOT NULL,
+  recipients INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.staking_penalty_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  penalty_id UUID NOT NULL REFERENCES public.staking_penalties(id) ON DELETE CASCADE,
+  pool_id UUID NOT NULL REFERENCES public.staking_pools(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  stake_id UUID NOT NULL,
+  staked_amount NUMERIC NOT NULL,
+  amount NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (penalty_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staking_penalties_pool ON public.staking_penalties (pool_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_staking_penalty_credits_wallet ON public.staking_penalty_credits (pool_id, wallet_address);
+
+-- Public for auditing; only the redistribution function (service role) writes them
+ALTER TABLE public.staking_penalties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staking_penalty_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staking penalties are viewable by everyone" ON public.staking_penalties;
+CREATE POLICY "Staking penalties are viewable by everyone"
+  ON public.staking_penalties
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Staking penalty credits are viewable by everyone" ON public.staking_penalty_credits;
+CREATE POLICY "Staking penalty credits are viewable by everyone"
+  ON public.staking_penalty_credits
+  FOR SELECT
+  USING (true);
+
+-- Share a withdrawn position's penalty among the pool's other stakers, weighted by the
+-- principal they earn on. Runs once per deposit: the ledger row is the claim.
+-- Each credited stake has its balance clock folded and reset, exactly as a balance
+-- change would, so an accrual run that read the stake before this credit is deferred
+-- instead of overwriting pending_rewards.
+-- With nobody left to share with, the penalty tops up the pool's allocation instead.
+CREATE OR REPLACE FUNCTION public.redistribute_staking_penalty(p_deposit_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dep public.staking_deposits%ROWTYPE;
+  v_penalty_id UUID;
+  total_principal NUMERIC;
+  recipient_count INTEGER;
+BEGIN
+  SELECT * INTO dep FROM public.staking_deposits WHERE id = p_deposit_id;
+  IF NOT FOUND OR dep.status <> 'withdrawn' OR dep.withdraw_penalty <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.staking_penalties (pool_id, deposit_id, wallet_address, amount, penalty_percent, withdraw_tx_signature)
+  VALUES (dep.pool_id, dep.id, dep.wallet_address, dep.withdraw_penalty, dep.withdraw_penalty / dep.amount * 100, dep.withdraw_tx_signature)
+  ON CONFLICT (deposit_id) DO NOTHING
+  RETURNING id INTO v_penalty_id;
+
+  IF v_penalty_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(public.stake_earning_principal(amount, compounded_rewards)), 0), COUNT(*)
+  INTO total_principal, recipient_count
+  FROM public.user_stakes
+  WHERE pool_type = 'staking'
+    AND pool_id = dep.pool_id
+    AND wallet_address <> dep.wallet_address
+    AND public.stake_earning_principal(amount, compounded_rewards) > 0;
+
+  IF total_principal <= 0 THEN
+    UPDATE public.staking_pools
+    SET allocation = allocation + dep.withdraw_penalty
+    WHERE id = dep.pool_id;
+    RETURN v_penalty_id;
+  END IF;
+
+  INSERT INTO public.staking_penalty_credits (penalty_id, pool_id, wallet_address, stake_id, staked_amount, amount)
+  SELECT v_penalty_id, dep.pool_id, s.wallet_address, s.id,
+    public.stake_earning_principal(s.amount, s.compounded_rewards),
+    dep.withdraw_penalty * public.stake_earning_principal(s.amount, s.compounded_rewards) / total_principal
+  FROM public.user_stakes s
+  WHERE s.pool_type = 'staking'
+    AND s.pool_id = dep.pool_id
+    AND s.wallet_address <> dep.wallet_address
+    AND public.stake_earning_principal(s.amount, s.compounded_rewards) > 0;
+
+  UPDATE public.user_stakes s
+  SET pending_rewards = s.pending_rewards + c.amount,
+      accrued_amount_seconds = s.accrued_amount_seconds
+        + public.stake_earning_principal(s.amount, s.compounded_rewards)
+          * GREATEST(EXTRACT(EPOCH FROM now() - s.balance_updated_at), 0),
+      balance_updated_at = now()
+  FROM public.staking_penalty_credits c
+  WHERE c.penalty_id = v_penalty_id
+    AND s.id = c.stake_id;
+
+  UPDATE public.staking_penalties
+  SET recipients = recipient_count
+  WHERE id = v_penalty_id;
+
+  RETURN v_penalty_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redistribute_staking_penalty(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redistribute_staking_penalty(UUID) TO service_role;
@@ -0,0 +1,121 @@
+-- Extra reward streams for staking pools (see functions/add-staking-reward-stream).
+-- The pool's own token stays the primary reward, paid at the stake's APR from
+-- staking_pools.allocation. Each stream pays a second token, or SOL, from its own
+-- separately funded allocation at a fixed number of tokens per day, shared between
+-- stakers by time-weighted principal (see functions/accrue-staking-rewards).
+-- A stream is funded exactly like a pool (see functions/watch-staking-deposits):
+--   fully funded            -> 'active' as soon as the watcher sees the balance
+--   partly funded at expiry -> 'active' with allocation reduced to what arrived
+--   nothing at expiry       -> 'expired'
+-- and becomes 'depleted' once its whole allocation has been credited.
+-- SOL streams use the wrapped SOL mint and are paid out as native SOL.
+CREATE TABLE IF NOT EXISTS public.staking_reward_streams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.staking_pools(id) ON DELETE CASCADE,
+  mint TEXT NOT NULL,
+  token_symbol TEXT NOT NULL,
+  token_decimals INTEGER NOT NULL,
+  tokens_per_day NUMERIC NOT NULL CHECK (tokens_per_day > 0),
+  allocation NUMERIC NOT NULL CHECK (allocation >= 0),
+  requested_allocation NUMERIC NOT NULL CHECK (requested_allocation > 0),
+  rewards_distributed NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'expired', 'depleted')),
+  deposit_wallet_address TEXT NOT NULL,
+  funded_amount NUMERIC NOT NULL DEFAULT 0,
+  funded_at TIMESTAMPTZ,
+  funding_expires_at TIMESTAMPTZ NOT NULL,
+  funding_checked_at TIMESTAMPTZ,
+  last_distribution_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (pool_id, mint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staking_reward_streams_pool ON public.staking_reward_streams (pool_id);
+CREATE INDEX IF NOT EXISTS idx_staking_reward_streams_funding
+  ON public.staking_reward_streams (funding_expires_at)
+  WHERE status = 'pending';
+
+-- Claimable stream rewards per wallet; the primary reward stays on user_stakes
+CREATE TABLE IF NOT EXISTS public.staking_stream_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stream_id UUID NOT NULL REFERENCES public.staking_reward_streams(id) ON DELETE CASCADE,
+  pool_id UUID NOT NULL REFERENCES public.staking_pools(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  pending_rewards NUMERIC NOT NULL DEFAULT 0,
+  total_earned NUMERIC NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (stream_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staking_stream_rewards_wallet ON public.staking_stream_rewards (pool_id, wallet_address);
+
+-- Readable by everyone; only edge functions (service role) write them
+ALTER TABLE public.staking_reward_streams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staking_stream_rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staking reward streams are viewable by everyone" ON public.staking_reward_streams;
+CREATE POLICY "Staking reward streams are viewable by everyone"
+  ON public.staking_reward_streams
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Staking stream rewards are viewable by everyone" ON public.staking_stream_rewards;
+CREATE POLICY "Staking stream rewards are viewable by everyone"
+  ON public.staking_stream_rewards
+  FOR SELECT
+  USING (true);
+
+-- A claim for a stream reward names the stream it is paid from; primary claims leave it null
+ALTER TABLE public.withdrawal_requests
+  ADD COLUMN IF NOT EXISTS reward_stream_id UUID REFERENCES public.staking_reward_streams(id);
+
+-- Apply one accrual period of a stream: p_credits is [{ "wallet_address", "amount" }].
+-- The stream's last_distribution_at must still equal p_since, so a period is only
+-- ever credited once; the stream is marked depleted when its allocation runs out.
+-- Returns the amount credited, or NULL when another run already took the period.
+CREATE OR REPLACE FUNCTION public.credit_staking_reward_stream(
+  p_stream_id UUID,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ,
+  p_credits JSONB
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stream public.staking_reward_streams%ROWTYPE;
+  total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM((credit->>'amount')::NUMERIC), 0)
+  INTO total
+  FROM jsonb_array_elements(COALESCE(p_credits, '[]'::JSONB)) AS credit;
+
+  UPDATE public.staking_reward_streams
+  SET last_distribution_at = p_until,
+      rewards_distributed = rewards_distributed + total,
+      status = CASE WHEN rewards_distributed + total >= allocation THEN 'depleted' ELSE status END
+  WHERE id = p_stream_id
+    AND status = 'active'
+    AND last_distribution_at IS NOT DISTINCT FROM p_since
+    AND rewards_distributed + total <= allocation
+  RETURNING * INTO stream;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.staking_stream_rewards (stream_id, pool_id, wallet_address, pending_rewards, total_earned)
+  SELECT stream.id, stream.pool_id, credit->>'wallet_address', (credit->>'amount')::NUMERIC, (credit->>'amount')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(p_credits, '[]'::JSONB)) AS credit
+  WHERE (credit->>'amount')::NUMERIC > 0
+  ON CONFLICT (stream_id, wallet_address) DO UPDATE
+  SET pending_rewards = public.staking_stream_rewards.pending_rewards + EXCLUDED.pending_rewards,
+      total_earned = public.staking_stream_rewards.total_earned + EXCLUDED.total_earned,
+      updated_at = now();
+
+  RETURN total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_staking_reward_stream(UUID, TIMESTAMPTZ, TIMESTAMPTZ, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_staking_reward_stream(UUID, TIMESTAMPTZ, TIMESTAMPTZ, JSONB) TO service_role;
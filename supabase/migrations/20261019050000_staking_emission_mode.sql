@@ -0,0 +1,43 @@
+-- Fixed-emission staking pools (see functions/accrue-staking-rewards).
+-- 'apr' pools pay each stake its APR, so the allocation drains faster as more is staked.
+-- 'emission' pools release tokens_per_day from the allocation and share it between
+-- stakers by time-weighted principal; their APR is whatever that works out to.
+-- Either way, depleted_at is set once the whole allocation has been credited: the
+-- pool stays 'active' so locked and compounded rewards are still released, but
+-- nothing new accrues.
+ALTER TABLE public.staking_pools
+  ADD COLUMN IF NOT EXISTS reward_mode TEXT NOT NULL DEFAULT 'apr',
+  ADD COLUMN IF NOT EXISTS tokens_per_day NUMERIC,
+  ADD COLUMN IF NOT EXISTS depleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.staking_pools
+  DROP CONSTRAINT IF EXISTS staking_pools_reward_mode_check;
+ALTER TABLE public.staking_pools
+  ADD CONSTRAINT staking_pools_reward_mode_check
+  CHECK (reward_mode IN ('apr', 'emission') AND (reward_mode = 'apr' OR tokens_per_day > 0));
+
+-- Pools that already paid out their allocation
+UPDATE public.staking_pools
+SET depleted_at = COALESCE(last_distribution_at, now())
+WHERE status = 'active' AND depleted_at IS NULL AND rewards_distributed >= allocation AND allocation > 0;
+
+-- Stakers join under the pool's reward terms, so only edge functions may change them
+CREATE OR REPLACE FUNCTION public.protect_staking_pool_emission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    NEW.reward_mode := OLD.reward_mode;
+    NEW.tokens_per_day := OLD.tokens_per_day;
+    NEW.depleted_at := OLD.depleted_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS staking_pools_protect_emission ON public.staking_pools;
+CREATE TRIGGER staking_pools_protect_emission
+  BEFORE UPDATE ON public.staking_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_staking_pool_emission();
@@ -0,0 +1,190 @@
+-- Epoch-based social farming rewards (see functions/settle-social-farming-epochs).
+-- A pool's reward_pool is paid out over epoch_count epochs of epoch_length_hours.
+-- When an epoch ends, what is left of the pool divided by the epochs remaining is
+-- split between wallets in proportion to the points they earned in it; an epoch
+-- nobody earned points in rolls its share over to the next.
+-- Shares are credited to user_stakes.pending_rewards (pool_type 'social_farming'),
+-- which is what claims pay out, and recorded per wallet for auditing.
+ALTER TABLE public.social_farming_pools
+  ADD COLUMN IF NOT EXISTS epoch_length_hours INTEGER NOT NULL DEFAULT 168,
+  ADD COLUMN IF NOT EXISTS epoch_count INTEGER NOT NULL DEFAULT 4,
+  ADD COLUMN IF NOT EXISTS epochs_settled INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS current_epoch_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rewards_distributed NUMERIC NOT NULL DEFAULT 0;
+
+-- Pools already running start their first epoch now
+UPDATE public.social_farming_pools
+SET current_epoch_started_at = now()
+WHERE current_epoch_started_at IS NULL;
+
+ALTER TABLE public.social_farming_pools
+  ALTER COLUMN current_epoch_started_at SET DEFAULT now(),
+  ALTER COLUMN current_epoch_started_at SET NOT NULL;
+
+ALTER TABLE public.social_farming_pools
+  DROP CONSTRAINT IF EXISTS social_farming_pools_epochs_check;
+ALTER TABLE public.social_farming_pools
+  ADD CONSTRAINT social_farming_pools_epochs_check
+  CHECK (epoch_length_hours BETWEEN 1 AND 2160 AND epoch_count BETWEEN 1 AND 52);
+
+-- Completions are assigned to the epoch that settled them
+ALTER TABLE public.social_farming_completions
+  ADD COLUMN IF NOT EXISTS epoch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_social_farming_completions_unsettled
+  ON public.social_farming_completions (pool_id)
+  WHERE epoch_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.social_farming_epochs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.social_farming_pools(id) ON DELETE CASCADE,
+  epoch_number INTEGER NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  emission NUMERIC NOT NULL,
+  total_points NUMERIC NOT NULL,
+  distributed NUMERIC NOT NULL,
+  participants INTEGER NOT NULL,
+  settled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (pool_id, epoch_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.social_farming_epoch_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  epoch_id UUID NOT NULL REFERENCES public.social_farming_epochs(id) ON DELETE CASCADE,
+  pool_id UUID NOT NULL REFERENCES public.social_farming_pools(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  points NUMERIC NOT NULL,
+  amount NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (epoch_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_social_farming_epoch_rewards_wallet
+  ON public.social_farming_epoch_rewards (pool_id, wallet_address);
+
+-- Readable by everyone; only the settlement function (service role) writes them
+ALTER TABLE public.social_farming_epochs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.social_farming_epoch_rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Social farming epochs are viewable by everyone" ON public.social_farming_epochs;
+CREATE POLICY "Social farming epochs are viewable by everyone"
+  ON public.social_farming_epochs
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Social farming epoch rewards are viewable by everyone" ON public.social_farming_epoch_rewards;
+CREATE POLICY "Social farming epoch rewards are viewable by everyone"
+  ON public.social_farming_epoch_rewards
+  FOR SELECT
+  USING (true);
+
+-- Epoch state only moves through settlement
+CREATE OR REPLACE FUNCTION public.protect_social_farming_epochs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    NEW.epochs_settled := OLD.epochs_settled;
+    NEW.current_epoch_started_at := OLD.current_epoch_started_at;
+    NEW.rewards_distributed := OLD.rewards_distributed;
+    NEW.epoch_length_hours := OLD.epoch_length_hours;
+    NEW.epoch_count := OLD.epoch_count;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS social_farming_pools_protect_epochs ON public.social_farming_pools;
+CREATE TRIGGER social_farming_pools_protect_epochs
+  BEFORE UPDATE ON public.social_farming_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_social_farming_epochs();
+
+-- Settle the pool's current epoch if it has ended. Returns the new epoch's id, or
+-- NULL when there is nothing to settle yet. The pool row is locked for the whole
+-- settlement, so concurrent runs settle each epoch exactly once; callers repeat
+-- until NULL to catch up on several ended epochs.
+CREATE OR REPLACE FUNCTION public.settle_social_farming_epoch(p_pool_id UUID, p_now TIMESTAMPTZ DEFAULT now())
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  pool public.social_farming_pools%ROWTYPE;
+  v_epoch_id UUID;
+  epoch_ends_at TIMESTAMPTZ;
+  epoch_emission NUMERIC;
+  epoch_points NUMERIC;
+  epoch_participants INTEGER;
+BEGIN
+  SELECT * INTO pool FROM public.social_farming_pools WHERE id = p_pool_id FOR UPDATE;
+  IF NOT FOUND OR pool.status <> 'active' OR pool.epochs_settled >= pool.epoch_count THEN
+    RETURN NULL;
+  END IF;
+
+  epoch_ends_at := pool.current_epoch_started_at + make_interval(hours => pool.epoch_length_hours);
+  IF p_now < epoch_ends_at THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(points_earned), 0), COUNT(DISTINCT wallet_address)
+  INTO epoch_points, epoch_participants
+  FROM public.social_farming_completions
+  WHERE pool_id = pool.id AND epoch_id IS NULL;
+
+  -- Only points earned pay out, so an empty epoch leaves its share in the pool
+  epoch_emission := GREATEST(COALESCE(pool.reward_pool, 0) - pool.rewards_distributed, 0)
+    / (pool.epoch_count - pool.epochs_settled);
+
+  INSERT INTO public.social_farming_epochs (pool_id, epoch_number, starts_at, ends_at, emission, total_points, distributed, participants)
+  VALUES (
+    pool.id, pool.epochs_settled + 1, pool.current_epoch_started_at, epoch_ends_at, epoch_emission,
+    epoch_points, CASE WHEN epoch_points > 0 THEN epoch_emission ELSE 0 END, epoch_participants
+  )
+  RETURNING id INTO v_epoch_id;
+
+  IF epoch_points > 0 THEN
+    INSERT INTO public.social_farming_epoch_rewards (epoch_id, pool_id, wallet_address, points, amount)
+    SELECT v_epoch_id, pool.id, wallet_address, SUM(points_earned), epoch_emission * SUM(points_earned) / epoch_points
+    FROM public.social_farming_completions
+    WHERE pool_id = pool.id AND epoch_id IS NULL
+    GROUP BY wallet_address;
+
+    UPDATE public.user_stakes s
+    SET pending_rewards = s.pending_rewards + r.amount,
+        points = COALESCE(s.points, 0) + r.points
+    FROM public.social_farming_epoch_rewards r
+    WHERE r.epoch_id = v_epoch_id
+      AND s.pool_type = 'social_farming'
+      AND s.pool_id = pool.id
+      AND s.wallet_address = r.wallet_address;
+
+    INSERT INTO public.user_stakes (wallet_address, pool_type, pool_id, amount, pending_rewards, points)
+    SELECT r.wallet_address, 'social_farming', pool.id, 0, r.amount, r.points
+    FROM public.social_farming_epoch_rewards r
+    WHERE r.epoch_id = v_epoch_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_stakes s
+        WHERE s.pool_type = 'social_farming'
+          AND s.pool_id = pool.id
+          AND s.wallet_address = r.wallet_address
+      );
+
+    UPDATE public.social_farming_completions
+    SET epoch_id = v_epoch_id
+    WHERE pool_id = pool.id AND epoch_id IS NULL;
+  END IF;
+
+  UPDATE public.social_farming_pools
+  SET epochs_settled = epochs_settled + 1,
+      current_epoch_started_at = epoch_ends_at,
+      rewards_distributed = rewards_distributed + CASE WHEN epoch_points > 0 THEN epoch_emission ELSE 0 END
+  WHERE id = pool.id;
+
+  RETURN v_epoch_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_social_farming_epoch(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_social_farming_epoch(UUID, TIMESTAMPTZ) TO service_role;
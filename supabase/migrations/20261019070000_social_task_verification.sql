@@ -0,0 +1,223 @@
+-- Server-side verification of social farming tasks (see functions/submit-social-task,
+-- functions/verify-social-task and functions/_shared/social-verifiers.ts).
+-- A completion is created 'pending_verification' when the wallet starts a task and
+-- only earns points once a platform verifier has confirmed it:
+--   pending_verification -> verified   points count towards the pool and the epoch
+--   pending_verification -> rejected   the verifier found the task not done; the
+--                                      wallet may retry up to the attempt limit
+-- Completions recorded before verification existed keep their points.
+ALTER TABLE public.social_farming_completions
+  ADD COLUMN IF NOT EXISTS status TEXT,
+  ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS verification_error TEXT,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_verification_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.social_farming_completions
+SET status = 'verified'
+WHERE status IS NULL;
+
+ALTER TABLE public.social_farming_completions
+  ALTER COLUMN status SET DEFAULT 'pending_verification',
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.social_farming_completions
+  DROP CONSTRAINT IF EXISTS social_farming_completions_status_check;
+ALTER TABLE public.social_farming_completions
+  ADD CONSTRAINT social_farming_completions_status_check
+  CHECK (status IN ('pending_verification', 'verified', 'rejected'));
+
+-- Only verified points are ever settled
+DROP INDEX IF EXISTS public.idx_social_farming_completions_unsettled;
+CREATE INDEX IF NOT EXISTS idx_social_farming_completions_unsettled
+  ON public.social_farming_completions (pool_id)
+  WHERE epoch_id IS NULL AND status = 'verified';
+
+-- Completions are written by the edge functions; a browser insert can never
+-- arrive verified, and a browser update cannot change what a completion is worth
+CREATE OR REPLACE FUNCTION public.protect_social_farming_completions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'pending_verification';
+      NEW.verified_at := NULL;
+      NEW.epoch_id := NULL;
+    ELSE
+      NEW.status := OLD.status;
+      NEW.points_earned := OLD.points_earned;
+      NEW.verified_at := OLD.verified_at;
+      NEW.verification_attempts := OLD.verification_attempts;
+      NEW.epoch_id := OLD.epoch_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS social_farming_completions_protect ON public.social_farming_completions;
+CREATE TRIGGER social_farming_completions_protect
+  BEFORE INSERT OR UPDATE ON public.social_farming_completions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_social_farming_completions();
+
+-- The pool's point total only moves when a completion is verified
+CREATE OR REPLACE FUNCTION public.protect_social_farming_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    NEW.total_points := OLD.total_points;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS social_farming_pools_protect_points ON public.social_farming_pools;
+CREATE TRIGGER social_farming_pools_protect_points
+  BEFORE UPDATE ON public.social_farming_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_social_farming_points();
+
+-- Platform accounts a wallet verifies its tasks with. An account can only be
+-- linked to one wallet, so two wallets cannot farm off the same follow.
+CREATE TABLE IF NOT EXISTS public.social_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL,
+  platform TEXT NOT NULL CHECK (platform IN ('twitter', 'telegram', 'discord')),
+  account_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (wallet_address, platform),
+  UNIQUE (platform, account_id)
+);
+
+-- Readable by everyone; only edge functions (service role) write them
+ALTER TABLE public.social_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Social accounts are viewable by everyone" ON public.social_accounts;
+CREATE POLICY "Social accounts are viewable by everyone"
+  ON public.social_accounts
+  FOR SELECT
+  USING (true);
+
+-- Mark a completion verified and add its points to the pool. Only a completion
+-- still awaiting verification (or rejected and retried) moves, so concurrent
+-- verifications count the points once. Returns whether this call verified it.
+CREATE OR REPLACE FUNCTION public.verify_social_farming_completion(p_completion_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_completion public.social_farming_completions%ROWTYPE;
+BEGIN
+  UPDATE public.social_farming_completions
+  SET status = 'verified',
+      verified_at = now(),
+      verification_error = NULL
+  WHERE id = p_completion_id
+    AND status IN ('pending_verification', 'rejected')
+  RETURNING * INTO v_completion;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.social_farming_pools
+  SET total_points = COALESCE(total_points, 0) + v_completion.points_earned
+  WHERE id = v_completion.pool_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_social_farming_completion(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_social_farming_completion(UUID) TO service_role;
+
+-- Same settlement as before, counting verified completions only
+CREATE OR REPLACE FUNCTION public.settle_social_farming_epoch(p_pool_id UUID, p_now TIMESTAMPTZ DEFAULT now())
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  pool public.social_farming_pools%ROWTYPE;
+  v_epoch_id UUID;
+  epoch_ends_at TIMESTAMPTZ;
+  epoch_emission NUMERIC;
+  epoch_points NUMERIC;
+  epoch_participants INTEGER;
+BEGIN
+  SELECT * INTO pool FROM public.social_farming_pools WHERE id = p_pool_id FOR UPDATE;
+  IF NOT FOUND OR pool.status <> 'active' OR pool.epochs_settled >= pool.epoch_count THEN
+    RETURN NULL;
+  END IF;
+
+  epoch_ends_at := pool.current_epoch_started_at + make_interval(hours => pool.epoch_length_hours);
+  IF p_now < epoch_ends_at THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(points_earned), 0), COUNT(DISTINCT wallet_address)
+  INTO epoch_points, epoch_participants
+  FROM public.social_farming_completions
+  WHERE pool_id = pool.id AND epoch_id IS NULL AND status = 'verified';
+
+  -- Only points earned pay out, so an empty epoch leaves its share in the pool
+  epoch_emission := GREATEST(COALESCE(pool.reward_pool, 0) - pool.rewards_distributed, 0)
+    / (pool.epoch_count - pool.epochs_settled);
+
+  INSERT INTO public.social_farming_epochs (pool_id, epoch_number, starts_at, ends_at, emission, total_points, distributed, participants)
+  VALUES (
+    pool.id, pool.epochs_settled + 1, pool.current_epoch_started_at, epoch_ends_at, epoch_emission,
+    epoch_points, CASE WHEN epoch_points > 0 THEN epoch_emission ELSE 0 END, epoch_participants
+  )
+  RETURNING id INTO v_epoch_id;
+
+  IF epoch_points > 0 THEN
+    INSERT INTO public.social_farming_epoch_rewards (epoch_id, pool_id, wallet_address, points, amount)
+    SELECT v_epoch_id, pool.id, wallet_address, SUM(points_earned), epoch_emission * SUM(points_earned) / epoch_points
+    FROM public.social_farming_completions
+    WHERE pool_id = pool.id AND epoch_id IS NULL AND status = 'verified'
+    GROUP BY wallet_address;
+
+    UPDATE public.user_stakes s
+    SET pending_rewards = s.pending_rewards + r.amount,
+        points = COALESCE(s.points, 0) + r.points
+    FROM public.social_farming_epoch_rewards r
+    WHERE r.epoch_id = v_epoch_id
+      AND s.pool_type = 'social_farming'
+      AND s.pool_id = pool.id
+      AND s.wallet_address = r.wallet_address;
+
+    INSERT INTO public.user_stakes (wallet_address, pool_type, pool_id, amount, pending_rewards, points)
+    SELECT r.wallet_address, 'social_farming', pool.id, 0, r.amount, r.points
+    FROM public.social_farming_epoch_rewards r
+    WHERE r.epoch_id = v_epoch_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.user_stakes s
+        WHERE s.pool_type = 'social_farming'
+          AND s.pool_id = pool.id
+          AND s.wallet_address = r.wallet_address
+      );
+
+    UPDATE public.social_farming_completions
+    SET epoch_id = v_epoch_id
+    WHERE pool_id = pool.id AND epoch_id IS NULL AND status = 'verified';
+  END IF;
+
+  UPDATE public.social_farming_pools
+  SET epochs_settled = epochs_settled + 1,
+      current_epoch_started_at = epoch_ends_at,
+      rewards_distributed = rewards_distributed + CASE WHEN epoch_points > 0 THEN epoch_emission ELSE 0 END
+  WHERE id = pool.id;
+
+  RETURN v_epoch_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_social_farming_epoch(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_social_farming_epoch(UUID, TIMESTAMPTZ) TO service_role;
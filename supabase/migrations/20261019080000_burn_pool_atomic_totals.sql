@@ -0,0 +1,32 @@
+-- Burn pool totals are bumped in a single UPDATE so concurrent burns cannot
+-- overwrite each other's read-modify-write. The pool closes once its reward
+-- supply is paid out; the result tells burn-gamble whether to reveal the seed.
+CREATE OR REPLACE FUNCTION public.record_burn_pool_result(
+  p_pool_id UUID,
+  p_burn_amount NUMERIC,
+  p_reward_amount NUMERIC,
+  p_new_participant BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completed BOOLEAN;
+BEGIN
+  UPDATE public.burn_pools
+  SET total_burned = total_burned + p_burn_amount,
+      total_paid_out = total_paid_out + p_reward_amount,
+      participants = participants + CASE WHEN p_new_participant THEN 1 ELSE 0 END,
+      status = CASE WHEN total_paid_out + p_reward_amount >= reward_supply THEN 'completed' ELSE status END,
+      updated_at = now()
+  WHERE id = p_pool_id
+  RETURNING status = 'completed' INTO v_completed;
+
+  RETURN COALESCE(v_completed, false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_burn_pool_result(UUID, NUMERIC, NUMERIC, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_burn_pool_result(UUID, NUMERIC, NUMERIC, BOOLEAN) TO service_role;
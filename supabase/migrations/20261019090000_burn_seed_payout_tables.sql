@@ -0,0 +1,47 @@
+-- Snapshot the pool's payout table with every server seed. burn-gamble resolves
+-- rolls against the seed's table, so a revealed seed carries everything needed
+-- to recompute its payouts even if the pool's table changes later.
+ALTER TABLE public.burn_seeds
+  ADD COLUMN IF NOT EXISTS payout_table JSONB;
+
+CREATE OR REPLACE FUNCTION public.snapshot_burn_seed_payout_table()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT payout_table INTO NEW.payout_table
+  FROM public.burn_pools
+  WHERE id = NEW.pool_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS burn_seeds_snapshot_payout_table ON public.burn_seeds;
+CREATE TRIGGER burn_seeds_snapshot_payout_table
+  BEFORE INSERT ON public.burn_seeds
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_burn_seed_payout_table();
+
+-- Existing seeds were rolled against the pool's current table
+UPDATE public.burn_seeds s
+SET payout_table = p.payout_table
+FROM public.burn_pools p
+WHERE p.id = s.pool_id
+  AND s.payout_table IS NULL;
+
+ALTER TABLE public.burn_seeds
+  ALTER COLUMN payout_table SET NOT NULL;
+
+CREATE OR REPLACE VIEW public.burn_seeds_public AS
+SELECT
+  id,
+  pool_id,
+  server_seed_hash,
+  CASE WHEN status = 'revealed' THEN server_seed END AS server_seed,
+  next_nonce,
+  status,
+  created_at,
+  revealed_at,
+  payout_table
+FROM public.burn_seeds;
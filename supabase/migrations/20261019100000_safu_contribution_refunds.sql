@@ -0,0 +1,118 @@
+-- Contributions are credited after the SOL has already reached the deposit wallet,
+-- so the per-wallet limit and hardcap can no longer reject a transfer. The part
+-- that does not fit, or a transfer that arrives after the launch closed, is
+-- queued here and paid back from the deposit wallet.
+CREATE TABLE IF NOT EXISTS public.safu_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  launch_id UUID NOT NULL REFERENCES public.safu_launches(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  tx_hash TEXT NOT NULL UNIQUE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('launch_closed', 'wallet_limit', 'hardcap')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'refunded')),
+  refund_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  refunded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_safu_refunds_pending
+  ON public.safu_refunds (launch_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.safu_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "SAFU refunds are viewable by everyone" ON public.safu_refunds;
+CREATE POLICY "SAFU refunds are viewable by everyone"
+  ON public.safu_refunds FOR SELECT
+  USING (true);
+
+-- Credit a verified transfer of p_lamports up to the wallet's remaining limit and the
+-- launch's remaining hardcap, and queue the rest for refund. The launch row is locked
+-- so concurrent contributions cannot both fill the last of the hardcap.
+CREATE OR REPLACE FUNCTION public.credit_safu_contribution(
+  p_launch_id UUID,
+  p_wallet_address TEXT,
+  p_tx_hash TEXT,
+  p_lamports BIGINT,
+  p_max_per_wallet NUMERIC,
+  p_contributor_tokens NUMERIC,
+  p_share_hardcap NUMERIC
+)
+RETURNS TABLE (credited_amount NUMERIC, refund_amount NUMERIC, launch_total NUMERIC, hardcap_reached BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_launch public.safu_launches%ROWTYPE;
+  v_contribution public.safu_contributions%ROWTYPE;
+  v_amount NUMERIC := p_lamports::NUMERIC / 1000000000;
+  v_wallet_room NUMERIC := 0;
+  v_hardcap_room NUMERIC := 0;
+  v_credit NUMERIC := 0;
+  v_user_total NUMERIC;
+  v_total NUMERIC;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_launch
+  FROM public.safu_launches
+  WHERE id = p_launch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Launch % not found', p_launch_id;
+  END IF;
+
+  SELECT * INTO v_contribution
+  FROM public.safu_contributions
+  WHERE launch_id = p_launch_id
+    AND wallet_address = p_wallet_address;
+
+  IF v_launch.status = 'pending_contributions' THEN
+    v_wallet_room := GREATEST(p_max_per_wallet - COALESCE(v_contribution.amount, 0), 0);
+    v_hardcap_room := GREATEST(v_launch.hardcap - v_launch.total_contributed, 0);
+    v_credit := LEAST(v_amount, v_wallet_room, v_hardcap_room);
+  END IF;
+
+  v_total := v_launch.total_contributed + v_credit;
+
+  IF v_credit > 0 THEN
+    v_user_total := COALESCE(v_contribution.amount, 0) + v_credit;
+
+    IF v_contribution.id IS NULL THEN
+      INSERT INTO public.safu_contributions (launch_id, wallet_address, amount, tx_hash, token_share)
+      VALUES (p_launch_id, p_wallet_address, v_user_total, p_tx_hash,
+        floor(p_contributor_tokens * v_user_total / p_share_hardcap));
+    ELSE
+      UPDATE public.safu_contributions
+      SET amount = v_user_total,
+          tx_hash = p_tx_hash,
+          token_share = floor(p_contributor_tokens * v_user_total / p_share_hardcap)
+      WHERE id = v_contribution.id;
+    END IF;
+
+    UPDATE public.safu_launches
+    SET total_contributed = v_total,
+        contributor_count = contributor_count + CASE WHEN v_contribution.id IS NULL THEN 1 ELSE 0 END,
+        status = CASE WHEN v_total >= hardcap THEN 'ready_to_launch' ELSE status END,
+        updated_at = now()
+    WHERE id = p_launch_id;
+  END IF;
+
+  IF v_amount > v_credit THEN
+    v_reason := CASE
+      WHEN v_launch.status <> 'pending_contributions' THEN 'launch_closed'
+      WHEN v_wallet_room <= v_hardcap_room THEN 'wallet_limit'
+      ELSE 'hardcap'
+    END;
+
+    INSERT INTO public.safu_refunds (launch_id, wallet_address, tx_hash, amount, reason)
+    VALUES (p_launch_id, p_wallet_address, p_tx_hash, v_amount - v_credit, v_reason);
+  END IF;
+
+  RETURN QUERY SELECT v_credit, v_amount - v_credit, v_total, v_total >= v_launch.hardcap;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_safu_contribution(UUID, TEXT, TEXT, BIGINT, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_safu_contribution(UUID, TEXT, TEXT, BIGINT, NUMERIC, NUMERIC, NUMERIC) TO service_role;
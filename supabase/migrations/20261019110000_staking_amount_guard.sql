@@ -0,0 +1,82 @@
+-- Rewards are paid on user_stakes.amount, so it is server-owned in every staking pool,
+-- not only escrow ones. Balance pools set it in stake-tokens after checking the wallet's
+-- on-chain holding, and accrue-staking-rewards trims it when the wallet holds less.
+
+-- SECURITY: Only the service role may set the staked amount. Client writes are ignored.
+CREATE OR REPLACE FUNCTION public.protect_stake_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.amount := 0;
+  ELSE
+    NEW.amount := OLD.amount;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts after the reward guard and before the balance tracker
+DROP TRIGGER IF EXISTS user_stakes_b_protect_escrow_amount ON public.user_stakes;
+DROP TRIGGER IF EXISTS user_stakes_b_protect_amount ON public.user_stakes;
+CREATE TRIGGER user_stakes_b_protect_amount
+  BEFORE INSERT OR UPDATE ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'staking')
+  EXECUTE FUNCTION public.protect_stake_amount();
+
+DROP FUNCTION IF EXISTS public.protect_escrow_stake_amount();
+
+-- SECURITY: The guards above fire by pool_type, so a client must not be able to move a
+-- row out of a guarded pool type (or into one) to edit it unguarded. Sorts before them.
+CREATE OR REPLACE FUNCTION public.freeze_user_stake_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    NEW.pool_type := OLD.pool_type;
+    NEW.pool_id := OLD.pool_id;
+    NEW.wallet_address := OLD.wallet_address;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_stakes_0_freeze_identity ON public.user_stakes;
+CREATE TRIGGER user_stakes_0_freeze_identity
+  BEFORE UPDATE ON public.user_stakes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.freeze_user_stake_identity();
+
+-- The accrual engine resets the clock itself when it pays out the period (and may trim a
+-- balance stake's amount in the same write), so a write that moves balance_updated_at
+-- keeps the amount-seconds it sets instead of folding the old balance in a second time.
+-- Only the service role can move balance_updated_at (see protect_staking_reward_columns).
+CREATE OR REPLACE FUNCTION public.track_stake_balance_seconds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.accrued_amount_seconds := 0;
+    NEW.balance_updated_at := now();
+  ELSIF NEW.balance_updated_at IS DISTINCT FROM OLD.balance_updated_at THEN
+    RETURN NEW;
+  ELSIF NEW.amount IS DISTINCT FROM OLD.amount OR NEW.apr IS DISTINCT FROM OLD.apr THEN
+    NEW.accrued_amount_seconds := OLD.accrued_amount_seconds
+      + public.stake_earning_principal(OLD.amount, OLD.compounded_rewards)
+        * GREATEST(EXTRACT(EPOCH FROM now() - OLD.balance_updated_at), 0);
+    IF OLD.apr IS NOT NULL AND NEW.apr > 0 AND NEW.apr IS DISTINCT FROM OLD.apr THEN
+      NEW.accrued_amount_seconds := NEW.accrued_amount_seconds * OLD.apr / NEW.apr;
+    END IF;
+    NEW.balance_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
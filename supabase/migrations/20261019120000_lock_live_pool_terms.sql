@@ -0,0 +1,70 @@
+-- Pool terms are fixed once a pool is live, so nobody is ranked, rolled or paid under
+-- rules that changed after they joined. The service role can still correct them.
+--   race_pools:    reward schedule, round schedule and ranking mode, once a round has started
+--   burn_pools:    payout table, once anyone has burned
+--   staking_pools: APR tiers, once the pool has been funded
+
+CREATE OR REPLACE FUNCTION public.lock_live_race_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+    AND OLD.round_started_at IS NOT NULL
+    AND (NEW.reward_schedule IS DISTINCT FROM OLD.reward_schedule
+      OR NEW.round_length_minutes IS DISTINCT FROM OLD.round_length_minutes
+      OR NEW.entry_window_minutes IS DISTINCT FROM OLD.entry_window_minutes
+      OR NEW.ranking_mode IS DISTINCT FROM OLD.ranking_mode) THEN
+    RAISE EXCEPTION 'Race % has started; its reward and round schedule can no longer change', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS race_pools_lock_live_terms ON public.race_pools;
+CREATE TRIGGER race_pools_lock_live_terms
+  BEFORE UPDATE ON public.race_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_live_race_terms();
+
+CREATE OR REPLACE FUNCTION public.lock_live_burn_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+    AND (COALESCE(OLD.total_burned, 0) > 0 OR COALESCE(OLD.participants, 0) > 0)
+    AND NEW.payout_table IS DISTINCT FROM OLD.payout_table THEN
+    RAISE EXCEPTION 'Burn pool % is live; its payout table can no longer change', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS burn_pools_lock_live_terms ON public.burn_pools;
+CREATE TRIGGER burn_pools_lock_live_terms
+  BEFORE UPDATE ON public.burn_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_live_burn_terms();
+
+CREATE OR REPLACE FUNCTION public.lock_live_staking_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+    AND OLD.status <> 'pending'
+    AND (NEW.apr_tiers IS DISTINCT FROM OLD.apr_tiers
+      OR NEW.apr IS DISTINCT FROM OLD.apr
+      OR NEW.lock_period_days IS DISTINCT FROM OLD.lock_period_days) THEN
+    RAISE EXCEPTION 'Staking pool % is live; its lock tiers can no longer change', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS staking_pools_lock_live_terms ON public.staking_pools;
+CREATE TRIGGER staking_pools_lock_live_terms
+  BEFORE UPDATE ON public.staking_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_live_staking_terms();
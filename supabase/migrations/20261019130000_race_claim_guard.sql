@@ -0,0 +1,93 @@
+-- Manual race claims only cover rewards the auto-distribute payouts are not handling.
+-- A reward is claimable by hand while it has no payout_status, or once its push payout
+-- has failed MAX_PAYOUT_ATTEMPTS times (see _shared/race-payouts.ts).
+-- Turning auto_distribute off hands rewards still waiting to be pushed back to manual claims.
+
+CREATE OR REPLACE FUNCTION public.race_claimable_amount(p_race_id UUID, p_wallet_address TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(reward_amount), 0)
+  FROM public.race_participants
+  WHERE race_id = p_race_id
+    AND wallet_address = p_wallet_address
+    AND claimed = false
+    AND is_eligible = true
+    AND reward_amount > 0
+    -- Must match MAX_PAYOUT_ATTEMPTS in _shared/race-payouts.ts
+    AND (payout_status IS NULL OR (payout_status = 'failed' AND payout_attempts >= 5));
+$$;
+
+-- SECURITY: A client-created claim may not exceed what the wallet can claim by hand,
+-- less the claims it already has in flight for the same pool
+CREATE OR REPLACE FUNCTION public.guard_withdrawal_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimable NUMERIC;
+  v_in_flight NUMERIC;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.feature = 'race' THEN
+    v_claimable := public.race_claimable_amount(NEW.pool_id, NEW.wallet_address);
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_in_flight
+    FROM public.withdrawal_requests
+    WHERE feature = 'race'
+      AND pool_id = NEW.pool_id
+      AND wallet_address = NEW.wallet_address
+      AND status IN ('pending', 'processing');
+
+    IF NEW.amount <= 0 OR NEW.amount > v_claimable - v_in_flight + 0.000001 THEN
+      RAISE EXCEPTION 'Race reward claim of % exceeds the % claimable by hand', NEW.amount, GREATEST(v_claimable - v_in_flight, 0);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS withdrawal_requests_guard ON public.withdrawal_requests;
+CREATE TRIGGER withdrawal_requests_guard
+  BEFORE INSERT ON public.withdrawal_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_withdrawal_request();
+
+-- Queued and retrying payouts are released to manual claims when auto_distribute is
+-- turned off. Batches already 'sending' stay with distribute-race-rewards to settle.
+CREATE OR REPLACE FUNCTION public.release_race_payouts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.race_participants
+  SET payout_status = NULL,
+      payout_next_attempt_at = NULL,
+      payout_error = NULL
+  WHERE race_id = NEW.id
+    AND claimed = false
+    AND payout_status IN ('queued', 'failed');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS race_pools_release_payouts ON public.race_pools;
+CREATE TRIGGER race_pools_release_payouts
+  AFTER UPDATE OF auto_distribute ON public.race_pools
+  FOR EACH ROW
+  WHEN (OLD.auto_distribute AND NOT NEW.auto_distribute)
+  EXECUTE FUNCTION public.release_race_payouts();
+
+REVOKE EXECUTE ON FUNCTION public.race_claimable_amount(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.race_claimable_amount(UUID, TEXT) TO service_role;
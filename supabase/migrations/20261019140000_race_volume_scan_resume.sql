@@ -0,0 +1,8 @@
+-- Resume point for net-buy volume scans.
+-- A scan reads swaps newest first and stops at the page limit. When it is cut short,
+-- volume_backfill_before is the swap the next run continues below, and
+-- volume_backfill_newest the newest swap seen, which becomes volume_cursor_signature
+-- once the backfill reaches swaps already covered.
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS volume_backfill_before TEXT,
+  ADD COLUMN IF NOT EXISTS volume_backfill_newest TEXT;
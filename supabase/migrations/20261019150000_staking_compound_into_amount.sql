@@ -0,0 +1,40 @@
+-- Auto-compounded rewards are part of the staked principal: accrue-staking-rewards adds
+-- them to user_stakes.amount, so everything that reads the stake (accrual, penalty
+-- redistribution, positions) sees one principal. compounded_rewards now only records how
+-- much of amount came from rewards. That part is not held by the wallet or the escrow
+-- vault, so balance checks, trimming and the escrow recompute leave it out, and it is
+-- released back to pending_rewards (still owed from the reward allocation) when
+-- compounding stops or nothing token-backed is left staked.
+
+-- Fold rewards compounded under the old rules into amount. The principal they earn on is
+-- unchanged, so the balance clock needs no folding. Stakes with nothing left staked
+-- release them instead, as the accrual job would have.
+ALTER TABLE public.user_stakes DISABLE TRIGGER user_stakes_a_protect_rewards;
+ALTER TABLE public.user_stakes DISABLE TRIGGER user_stakes_b_protect_amount;
+ALTER TABLE public.user_stakes DISABLE TRIGGER user_stakes_track_balance_seconds;
+
+UPDATE public.user_stakes
+SET pending_rewards = pending_rewards + compounded_rewards,
+    compounded_rewards = 0
+WHERE pool_type = 'staking'
+  AND compounded_rewards > 0
+  AND COALESCE(amount, 0) <= 0;
+
+UPDATE public.user_stakes
+SET amount = amount + compounded_rewards
+WHERE pool_type = 'staking'
+  AND compounded_rewards > 0;
+
+ALTER TABLE public.user_stakes ENABLE TRIGGER user_stakes_a_protect_rewards;
+ALTER TABLE public.user_stakes ENABLE TRIGGER user_stakes_b_protect_amount;
+ALTER TABLE public.user_stakes ENABLE TRIGGER user_stakes_track_balance_seconds;
+
+-- A stake earns on its whole amount, compounded rewards included, while any token-backed
+-- principal is left; with only compounded rewards left it earns nothing until they are released
+CREATE OR REPLACE FUNCTION public.stake_earning_principal(amount NUMERIC, compounded_rewards NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN COALESCE(amount, 0) > COALESCE(compounded_rewards, 0) THEN amount ELSE 0 END;
+$$;
@@ -0,0 +1,76 @@
+-- Social farming rewards are credited to user_stakes.pending_rewards (pool_type
+-- 'social_farming') by settle_social_farming_epoch, and claims are paid from there.
+-- The staking reward guard only covers pool_type 'staking', so these rows get their own.
+
+-- SECURITY: Only epoch settlement (service role) may credit rewards or points. Client writes are ignored.
+CREATE OR REPLACE FUNCTION public.protect_social_farming_rewards()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.pending_rewards := 0;
+    NEW.points := 0;
+  ELSE
+    NEW.pending_rewards := OLD.pending_rewards;
+    NEW.points := OLD.points;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts after the identity freeze, so a row cannot be moved out of the guarded pool type first
+DROP TRIGGER IF EXISTS user_stakes_a_protect_social_rewards ON public.user_stakes;
+CREATE TRIGGER user_stakes_a_protect_social_rewards
+  BEFORE INSERT OR UPDATE ON public.user_stakes
+  FOR EACH ROW
+  WHEN (NEW.pool_type = 'social_farming')
+  EXECUTE FUNCTION public.protect_social_farming_rewards();
+
+-- SECURITY: A client-created claim may not exceed what the wallet can claim by hand,
+-- less the claims it already has in flight for the same pool. Social farming claims
+-- are limited to the settled rewards in the wallet's social_farming stake.
+CREATE OR REPLACE FUNCTION public.guard_withdrawal_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimable NUMERIC;
+  v_in_flight NUMERIC;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.feature = 'race' THEN
+    v_claimable := public.race_claimable_amount(NEW.pool_id, NEW.wallet_address);
+  ELSIF NEW.feature = 'social_farming' THEN
+    SELECT COALESCE(SUM(pending_rewards), 0) INTO v_claimable
+    FROM public.user_stakes
+    WHERE pool_type = 'social_farming'
+      AND pool_id = NEW.pool_id
+      AND wallet_address = NEW.wallet_address;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_in_flight
+  FROM public.withdrawal_requests
+  WHERE feature = NEW.feature
+    AND pool_id = NEW.pool_id
+    AND wallet_address = NEW.wallet_address
+    AND status IN ('pending', 'processing');
+
+  IF NEW.amount <= 0 OR NEW.amount > v_claimable - v_in_flight + 0.000001 THEN
+    RAISE EXCEPTION '% reward claim of % exceeds the % claimable', NEW.feature, NEW.amount, GREATEST(v_claimable - v_in_flight, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
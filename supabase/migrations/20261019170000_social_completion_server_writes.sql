@@ -0,0 +1,53 @@
+-- Social farming completions are only written by submit-social-task and verify-social-task.
+-- Forcing individual columns on browser writes still left others (points_earned,
+-- started_at, verification attempts) under the browser's control, so browser inserts
+-- and updates are now refused outright. Verification also takes the points from the
+-- pool's task list rather than from the completion row.
+
+-- SECURITY: Only edge functions (service role) may create or change completions
+CREATE OR REPLACE FUNCTION public.protect_social_farming_completions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Social farming completions can only be recorded by the server';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Mark a completion verified at the task's current points and add them to the pool.
+-- Only a completion still awaiting verification (or rejected and retried) moves, so
+-- concurrent verifications count the points once. Returns whether this call verified it.
+DROP FUNCTION IF EXISTS public.verify_social_farming_completion(UUID);
+CREATE OR REPLACE FUNCTION public.verify_social_farming_completion(p_completion_id UUID, p_points NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_completion public.social_farming_completions%ROWTYPE;
+BEGIN
+  UPDATE public.social_farming_completions
+  SET status = 'verified',
+      points_earned = p_points,
+      verified_at = now(),
+      verification_error = NULL
+  WHERE id = p_completion_id
+    AND status IN ('pending_verification', 'rejected')
+  RETURNING * INTO v_completion;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.social_farming_pools
+  SET total_points = COALESCE(total_points, 0) + v_completion.points_earned
+  WHERE id = v_completion.pool_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_social_farming_completion(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_social_farming_completion(UUID, NUMERIC) TO service_role;
@@ -0,0 +1,77 @@
+-- burn-gamble used to claim the burn signature, insert the result and bump the
+-- wallet's burn_rewards in separate requests. A failure after the signature claim
+-- left the burn spent with no result, and concurrent burns from one wallet could
+-- overwrite each other's burn_rewards totals. A roll is now recorded in one
+-- transaction: the signature claim, the result, the wallet totals and the pool totals
+-- all land together or not at all.
+
+-- Record a resolved roll. Raises unique_violation (23505) when the signature was
+-- already claimed, rolling everything back. Returns whether the roll completed the pool.
+CREATE OR REPLACE FUNCTION public.record_burn_roll(
+  p_signature TEXT,
+  p_pool_id UUID,
+  p_wallet_address TEXT,
+  p_burn_amount NUMERIC,
+  p_reward_amount NUMERIC,
+  p_multiplier DOUBLE PRECISION,
+  p_seed_id UUID,
+  p_client_seed TEXT,
+  p_nonce INTEGER,
+  p_roll DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_won BOOLEAN := p_multiplier > 0;
+  v_new_participant BOOLEAN;
+BEGIN
+  INSERT INTO public.used_signatures (signature, feature, wallet_address, pool_id)
+  VALUES (p_signature, 'burn', p_wallet_address, p_pool_id);
+
+  -- Serialize rolls on the pool so the wallet's first burn_rewards row is created once
+  PERFORM 1 FROM public.burn_pools WHERE id = p_pool_id FOR UPDATE;
+
+  INSERT INTO public.burn_transactions (
+    pool_id, wallet_address, burn_amount, result, reward_amount, tx_hash,
+    seed_id, client_seed, nonce, roll, multiplier
+  )
+  VALUES (
+    p_pool_id, p_wallet_address, p_burn_amount, CASE WHEN v_won THEN 'win' ELSE 'lose' END, p_reward_amount, p_signature,
+    p_seed_id, p_client_seed, p_nonce, p_roll, p_multiplier
+  );
+
+  UPDATE public.burn_rewards
+  SET claimable_balance = claimable_balance + p_reward_amount,
+      total_burned = total_burned + p_burn_amount,
+      total_won = total_won + CASE WHEN v_won THEN p_reward_amount ELSE 0 END,
+      total_lost = total_lost + CASE WHEN v_won THEN 0 ELSE p_burn_amount END,
+      wins_count = wins_count + CASE WHEN v_won THEN 1 ELSE 0 END,
+      losses_count = losses_count + CASE WHEN v_won THEN 0 ELSE 1 END,
+      updated_at = now()
+  WHERE pool_id = p_pool_id
+    AND wallet_address = p_wallet_address;
+
+  v_new_participant := NOT FOUND;
+
+  IF v_new_participant THEN
+    INSERT INTO public.burn_rewards (
+      pool_id, wallet_address, claimable_balance, total_burned, total_won, total_lost, wins_count, losses_count
+    )
+    VALUES (
+      p_pool_id, p_wallet_address, p_reward_amount, p_burn_amount,
+      CASE WHEN v_won THEN p_reward_amount ELSE 0 END,
+      CASE WHEN v_won THEN 0 ELSE p_burn_amount END,
+      CASE WHEN v_won THEN 1 ELSE 0 END,
+      CASE WHEN v_won THEN 0 ELSE 1 END
+    );
+  END IF;
+
+  RETURN public.record_burn_pool_result(p_pool_id, p_burn_amount, p_reward_amount, v_new_participant);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_burn_roll(TEXT, UUID, TEXT, NUMERIC, NUMERIC, DOUBLE PRECISION, UUID, TEXT, INTEGER, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_burn_roll(TEXT, UUID, TEXT, NUMERIC, NUMERIC, DOUBLE PRECISION, UUID, TEXT, INTEGER, DOUBLE PRECISION) TO service_role;
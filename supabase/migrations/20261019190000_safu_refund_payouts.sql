@@ -0,0 +1,110 @@
+-- SAFU refunds are paid by process-safu-refunds from the launch's deposit wallet.
+-- A refund moves pending -> refunding -> refunded, and the transfer signature is
+-- recorded before it is sent so an interrupted payout can be settled on the next run.
+ALTER TABLE public.safu_refunds DROP CONSTRAINT IF EXISTS safu_refunds_status_check;
+ALTER TABLE public.safu_refunds
+  ADD CONSTRAINT safu_refunds_status_check CHECK (status IN ('pending', 'refunding', 'refunded'));
+
+ALTER TABLE public.safu_refunds
+  ADD COLUMN IF NOT EXISTS refund_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refund_last_valid_block_height BIGINT,
+  ADD COLUMN IF NOT EXISTS refund_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_safu_refunds_refunding
+  ON public.safu_refunds (refund_started_at)
+  WHERE status = 'refunding';
+
+-- confirm-safu-contribution used to claim the signature in used_signatures before
+-- crediting, in a separate request. The claim now happens inside the credit.
+CREATE OR REPLACE FUNCTION public.credit_safu_contribution(
+  p_launch_id UUID,
+  p_wallet_address TEXT,
+  p_tx_hash TEXT,
+  p_lamports BIGINT,
+  p_max_per_wallet NUMERIC,
+  p_contributor_tokens NUMERIC,
+  p_share_hardcap NUMERIC
+)
+RETURNS TABLE (credited_amount NUMERIC, refund_amount NUMERIC, launch_total NUMERIC, hardcap_reached BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_launch public.safu_launches%ROWTYPE;
+  v_contribution public.safu_contributions%ROWTYPE;
+  v_amount NUMERIC := p_lamports::NUMERIC / 1000000000;
+  v_wallet_room NUMERIC := 0;
+  v_hardcap_room NUMERIC := 0;
+  v_credit NUMERIC := 0;
+  v_user_total NUMERIC;
+  v_total NUMERIC;
+  v_reason TEXT;
+BEGIN
+  -- SECURITY: Claim the signature in the same transaction as the credit, so a failure
+  -- afterwards releases it for a retry instead of leaving the transfer uncredited
+  INSERT INTO public.used_signatures (signature, feature, wallet_address, pool_id)
+  VALUES (p_tx_hash, 'safu_contribution', p_wallet_address, p_launch_id);
+
+  SELECT * INTO v_launch
+  FROM public.safu_launches
+  WHERE id = p_launch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Launch % not found', p_launch_id;
+  END IF;
+
+  SELECT * INTO v_contribution
+  FROM public.safu_contributions
+  WHERE launch_id = p_launch_id
+    AND wallet_address = p_wallet_address;
+
+  IF v_launch.status = 'pending_contributions' THEN
+    v_wallet_room := GREATEST(p_max_per_wallet - COALESCE(v_contribution.amount, 0), 0);
+    v_hardcap_room := GREATEST(v_launch.hardcap - v_launch.total_contributed, 0);
+    v_credit := LEAST(v_amount, v_wallet_room, v_hardcap_room);
+  END IF;
+
+  v_total := v_launch.total_contributed + v_credit;
+
+  IF v_credit > 0 THEN
+    v_user_total := COALESCE(v_contribution.amount, 0) + v_credit;
+
+    IF v_contribution.id IS NULL THEN
+      INSERT INTO public.safu_contributions (launch_id, wallet_address, amount, tx_hash, token_share)
+      VALUES (p_launch_id, p_wallet_address, v_user_total, p_tx_hash,
+        floor(p_contributor_tokens * v_user_total / p_share_hardcap));
+    ELSE
+      UPDATE public.safu_contributions
+      SET amount = v_user_total,
+          tx_hash = p_tx_hash,
+          token_share = floor(p_contributor_tokens * v_user_total / p_share_hardcap)
+      WHERE id = v_contribution.id;
+    END IF;
+
+    UPDATE public.safu_launches
+    SET total_contributed = v_total,
+        contributor_count = contributor_count + CASE WHEN v_contribution.id IS NULL THEN 1 ELSE 0 END,
+        status = CASE WHEN v_total >= hardcap THEN 'ready_to_launch' ELSE status END,
+        updated_at = now()
+    WHERE id = p_launch_id;
+  END IF;
+
+  IF v_amount > v_credit THEN
+    v_reason := CASE
+      WHEN v_launch.status <> 'pending_contributions' THEN 'launch_closed'
+      WHEN v_wallet_room <= v_hardcap_room THEN 'wallet_limit'
+      ELSE 'hardcap'
+    END;
+
+    INSERT INTO public.safu_refunds (launch_id, wallet_address, tx_hash, amount, reason)
+    VALUES (p_launch_id, p_wallet_address, p_tx_hash, v_amount - v_credit, v_reason);
+  END IF;
+
+  RETURN QUERY SELECT v_credit, v_amount - v_credit, v_total, v_total >= v_launch.hardcap;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_safu_contribution(UUID, TEXT, TEXT, BIGINT, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_safu_contribution(UUID, TEXT, TEXT, BIGINT, NUMERIC, NUMERIC, NUMERIC) TO service_role;
@@ -0,0 +1,98 @@
+-- Funding lifecycle for burn pools and races (see functions/create-burn-pool,
+-- functions/create-race-pool and functions/watch-pool-deposits), as for staking pools.
+-- A new pool is 'pending' with a reward deposit wallet (pool_wallets, pool_type 'burn'
+-- or 'race') that must receive its reward supply or prize pool before funding_expires_at:
+--   fully funded            -> 'active' as soon as the watcher sees the balance
+--   partly funded at expiry -> 'active' with the supply or prize pool reduced to what arrived
+--   nothing at expiry       -> 'expired'
+-- A race's first round starts when it goes live, not when it is created.
+ALTER TABLE public.burn_pools
+  ADD COLUMN IF NOT EXISTS creator_wallet TEXT,
+  ADD COLUMN IF NOT EXISTS deposit_wallet_address TEXT,
+  ADD COLUMN IF NOT EXISTS funded_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_checked_at TIMESTAMPTZ;
+
+ALTER TABLE public.race_pools
+  ADD COLUMN IF NOT EXISTS deposit_wallet_address TEXT,
+  ADD COLUMN IF NOT EXISTS funded_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS funding_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_burn_pools_funding
+  ON public.burn_pools (funding_expires_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_race_pools_funding
+  ON public.race_pools (funding_expires_at)
+  WHERE status = 'pending';
+
+-- SECURITY: Burn pools are only created by create-burn-pool, and only edge functions
+-- move them through funding. Client writes to their status, supply or funding state are ignored.
+CREATE OR REPLACE FUNCTION public.protect_burn_pool_funding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Burn pools can only be created by the server';
+  END IF;
+
+  NEW.status := OLD.status;
+  NEW.reward_supply := OLD.reward_supply;
+  NEW.creator_wallet := OLD.creator_wallet;
+  NEW.deposit_wallet_address := OLD.deposit_wallet_address;
+  NEW.funded_amount := OLD.funded_amount;
+  NEW.funded_at := OLD.funded_at;
+  NEW.funding_expires_at := OLD.funding_expires_at;
+  NEW.funding_checked_at := OLD.funding_checked_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS burn_pools_protect_funding ON public.burn_pools;
+CREATE TRIGGER burn_pools_protect_funding
+  BEFORE INSERT OR UPDATE ON public.burn_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_burn_pool_funding();
+
+-- SECURITY: Races are only created by create-race-pool, and only edge functions move
+-- them through funding or start their rounds. Client writes to those columns are ignored.
+CREATE OR REPLACE FUNCTION public.protect_race_pool_funding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Races can only be created by the server';
+  END IF;
+
+  NEW.status := OLD.status;
+  NEW.prize_pool := OLD.prize_pool;
+  NEW.daily_reward_amount := OLD.daily_reward_amount;
+  NEW.round_started_at := OLD.round_started_at;
+  NEW.creator_wallet := OLD.creator_wallet;
+  NEW.deposit_wallet_address := OLD.deposit_wallet_address;
+  NEW.funded_amount := OLD.funded_amount;
+  NEW.funded_at := OLD.funded_at;
+  NEW.funding_expires_at := OLD.funding_expires_at;
+  NEW.funding_checked_at := OLD.funding_checked_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS race_pools_protect_funding ON public.race_pools;
+CREATE TRIGGER race_pools_protect_funding
+  BEFORE INSERT OR UPDATE ON public.race_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_race_pool_funding();
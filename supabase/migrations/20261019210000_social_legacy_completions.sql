@@ -0,0 +1,31 @@
+-- Completions recorded before server-side verification were backfilled 'verified' by
+-- 20261019070000, so points a browser wrote without any check would still be settled.
+-- Those not yet settled into an epoch go back to 'pending_verification' and earn their
+-- points only once verify-social-task confirms them. They are the verified rows without
+-- verified_at, which verify_social_farming_completion always sets. Their points leave
+-- the pool total until then, so verifying them does not count them twice.
+ALTER TABLE public.social_farming_completions DISABLE TRIGGER social_farming_completions_protect;
+ALTER TABLE public.social_farming_pools DISABLE TRIGGER social_farming_pools_protect_points;
+
+UPDATE public.social_farming_pools p
+SET total_points = GREATEST(COALESCE(p.total_points, 0) - c.points, 0)
+FROM (
+  SELECT pool_id, SUM(points_earned) AS points
+  FROM public.social_farming_completions
+  WHERE status = 'verified'
+    AND verified_at IS NULL
+    AND epoch_id IS NULL
+  GROUP BY pool_id
+) c
+WHERE p.id = c.pool_id;
+
+UPDATE public.social_farming_completions
+SET status = 'pending_verification',
+    verification_attempts = 0,
+    verification_error = NULL
+WHERE status = 'verified'
+  AND verified_at IS NULL
+  AND epoch_id IS NULL;
+
+ALTER TABLE public.social_farming_completions ENABLE TRIGGER social_farming_completions_protect;
+ALTER TABLE public.social_farming_pools ENABLE TRIGGER social_farming_pools_protect_points;
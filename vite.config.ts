@@ -21,6 +21,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules shared with the edge functions, so both sides run the same rules
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
     dedupe: [
       'react', 